@@ -0,0 +1,411 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./Player.sol";
+
+/// @title AttributeUpgrades - Paid attribute upgrades with escalating costs
+/// @author KusaMine Team
+/// @notice Players pay ERC20 tokens to raise the attributes of their character. Each attribute has
+///         a cost curve set by the owner, based on the current value of the attribute, so upgrades
+///         get more expensive as the character grows (soft cap), and an optional hard cap.
+/// @dev Must be a game system of the Player, attributes are raised through Player.increaseAttribute.
+///      Upgrades are bought here or through Player.upgradeAttribute, which forwards to upgradeAttributeFor.
+///      Payments are transferred to the treasury with safe transfer semantics. Upgrades and respecs are
+///      non-reentrant, so a token with transfer hooks can't stack them past a hard cap.
+/// @dev Cost of raising an attribute from value v to v + 1:
+///      Linear: baseCost + rate * v
+///      Exponential: baseCost * (1 + rate / BPS) ^ v
+///      Tiered: cost of the last tier starting at or below v
+/// @dev A respec moves the points above the base value of DEFAULT_ATTRIBUTE_VALUE to other attributes,
+///      for a fee in the upgrade token and after an optional cooldown since the last respec.
+contract AttributeUpgrades is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    /// @notice Denominator of basis point values
+    uint256 private constant BPS = 10_000;
+
+    /// @notice Fixed point precision of exponential curves
+    uint256 private constant WAD = 1e18;
+
+    /// @notice Maximum number of tiers of a tiered curve
+    uint256 public constant MAX_TIERS = 16;
+
+    /// @notice Shapes of cost curves
+    enum CurveKind {
+        None,
+        Linear,
+        Exponential,
+        Tiered
+    }
+
+    /// @notice The cost curve of an attribute
+    /// @param kind The shape of the curve
+    /// @param baseCost The cost at value 0 (unused by tiered curves)
+    /// @param rate The cost added per point (linear) or the growth per point in basis points (exponential)
+    /// @param hardCap The maximum value of the attribute (0 for no cap)
+    struct Curve {
+        CurveKind kind;
+        uint256 baseCost;
+        uint256 rate;
+        uint64 hardCap;
+    }
+
+    /// @notice A tier of a tiered curve
+    /// @param fromValue The first attribute value the tier applies to
+    /// @param cost The cost per point of the tier
+    struct Tier {
+        uint64 fromValue;
+        uint256 cost;
+    }
+
+    Player private immutable _player;
+    IERC20 private _upgradeToken;
+    address private _treasury;
+
+    /// @notice Mapping from attribute to its cost curve
+    mapping(Player.Attribute attribute => Curve) private _curves;
+
+    /// @notice Mapping from attribute to the tiers of its tiered curve
+    mapping(Player.Attribute attribute => Tier[]) private _tiers;
+
+    uint256 private _respecFee;
+    uint64 private _respecCooldown;
+
+    /// @notice Mapping from token ID to the timestamp of its last respec (0 if never)
+    mapping(uint256 tokenId => uint256) private _lastRespecAt;
+
+    /// @notice Thrown when an upgrade would raise an attribute above its hard cap
+    error HardCapExceeded(Player.Attribute attribute, uint256 newValue, uint256 hardCap);
+
+    /// @notice Thrown when respeccing a character before the end of its respec cooldown
+    error RespecOnCooldown(uint256 tokenId, uint256 availableAt);
+
+    event AttributeUpgraded(uint256 indexed tokenId, Player.Attribute indexed attribute, uint64 levels, uint256 cost);
+
+    event CurveSet(Player.Attribute indexed attribute, Curve curve, Tier[] tiers);
+
+    event UpgradeTokenSet(address indexed upgradeToken);
+
+    event TreasurySet(address indexed treasury);
+
+    /// @notice Emitted when the attribute points of a character are reallocated
+    event Respecced(uint256 indexed tokenId, Player.Attributes oldAttributes, Player.Attributes newAttributes, uint256 fee);
+
+    event RespecFeeSet(uint256 fee);
+
+    event RespecCooldownSet(uint64 cooldown);
+
+    /// @notice Initializes AttributeUpgrades
+    /// @param player The Player contract attributes are raised on
+    /// @param upgradeToken The ERC20 token upgrades are paid in
+    /// @param treasury The address receiving the payments
+    constructor(address player, address upgradeToken, address treasury) Ownable(msg.sender) {
+        require(player != address(0), "Invalid player");
+        require(upgradeToken != address(0), "Invalid upgrade token");
+        require(treasury != address(0), "Invalid treasury");
+        _player = Player(player);
+        _upgradeToken = IERC20(upgradeToken);
+        _treasury = treasury;
+    }
+
+    /// @notice Sets the ERC20 token upgrades are paid in
+    /// @dev Only callable by the contract owner
+    /// @param upgradeToken The upgrade token address
+    function setUpgradeToken(address upgradeToken) external onlyOwner {
+        require(upgradeToken != address(0), "Invalid upgrade token");
+        _upgradeToken = IERC20(upgradeToken);
+        emit UpgradeTokenSet(upgradeToken);
+    }
+
+    /// @notice Sets the address receiving the payments
+    /// @dev Only callable by the contract owner
+    /// @param treasury The treasury address
+    function setTreasury(address treasury) external onlyOwner {
+        require(treasury != address(0), "Invalid treasury");
+        _treasury = treasury;
+        emit TreasurySet(treasury);
+    }
+
+    /// @notice Sets the fee of a respec
+    /// @dev Only callable by the contract owner
+    /// @param fee The fee in upgrade token units (0 for free respecs)
+    function setRespecFee(uint256 fee) external onlyOwner {
+        _respecFee = fee;
+        emit RespecFeeSet(fee);
+    }
+
+    /// @notice Sets the time a character must wait between two respecs
+    /// @dev Only callable by the contract owner
+    /// @param cooldown The cooldown in seconds (0 for no cooldown)
+    function setRespecCooldown(uint64 cooldown) external onlyOwner {
+        _respecCooldown = cooldown;
+        emit RespecCooldownSet(cooldown);
+    }
+
+    /// @notice Sets the cost curve of an attribute
+    /// @dev Only callable by the contract owner. Tiers are only given for tiered curves: they must
+    ///      start at value 0 and be sorted by strictly increasing fromValue.
+    /// @param attribute The attribute
+    /// @param curve The cost curve
+    /// @param tiers The tiers of a tiered curve
+    function setCurve(Player.Attribute attribute, Curve calldata curve, Tier[] calldata tiers) external onlyOwner {
+        require(curve.kind != CurveKind.None, "Invalid curve");
+        if (curve.kind == CurveKind.Tiered) {
+            require(tiers.length > 0 && tiers.length <= MAX_TIERS && tiers[0].fromValue == 0, "Invalid tiers");
+            for (uint256 i = 1; i < tiers.length; i++) {
+                require(tiers[i].fromValue > tiers[i - 1].fromValue, "Invalid tiers");
+            }
+        } else {
+            require(tiers.length == 0, "Invalid tiers");
+        }
+
+        _curves[attribute] = curve;
+        delete _tiers[attribute];
+        for (uint256 i = 0; i < tiers.length; i++) {
+            _tiers[attribute].push(tiers[i]);
+        }
+
+        emit CurveSet(attribute, curve, tiers);
+    }
+
+    /// @notice Raises an attribute of a character by several points, paying the summed cost
+    /// @dev Caller must own the character and have approved this contract to spend the cost
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute to raise
+    /// @param levels The number of points to add
+    function upgradeAttribute(uint256 tokenId, Player.Attribute attribute, uint64 levels) external nonReentrant {
+        _upgradeAttribute(msg.sender, tokenId, attribute, levels);
+    }
+
+    /// @notice Raises an attribute of a character on behalf of its owner, paying the summed cost
+    /// @dev Only callable by the Player contract, forwarding Player.upgradeAttribute. The owner must
+    ///      have approved this contract (not the Player) to spend the cost.
+    /// @param owner The owner of the character, paying the cost
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute to raise
+    /// @param levels The number of points to add
+    function upgradeAttributeFor(address owner, uint256 tokenId, Player.Attribute attribute, uint64 levels)
+        external
+        nonReentrant
+    {
+        require(msg.sender == address(_player), "Not the player contract");
+        _upgradeAttribute(owner, tokenId, attribute, levels);
+    }
+
+    /// @notice Reallocates the attribute points of a character
+    /// @dev Caller must own the character, which must not be on a mine run. Every attribute stays at or
+    ///      above the base value and under its hard cap, and the total points above the base are preserved.
+    ///      The fee is transferred to the treasury; caller must have approved this contract to spend it.
+    /// @param tokenId The ID of the player token
+    /// @param newAllocation The new attributes
+    function respec(uint256 tokenId, Player.Attributes calldata newAllocation) external nonReentrant {
+        require(_player.ownerOf(tokenId) == msg.sender, "Not the token owner");
+        if (_player.isPlayerLocked(tokenId)) revert EquipmentVault.PlayerIsLocked(tokenId);
+        uint256 availableAt = _lastRespecAt[tokenId] + _respecCooldown;
+        if (_lastRespecAt[tokenId] != 0 && block.timestamp < availableAt) {
+            revert RespecOnCooldown(tokenId, availableAt);
+        }
+
+        Player.Attributes memory oldAttributes = _player.getAttributes(tokenId);
+        require(_total(newAllocation) == _total(oldAttributes), "Total points changed");
+        _checkRespecValue(Player.Attribute.Strength, newAllocation.strenght);
+        _checkRespecValue(Player.Attribute.Dexterity, newAllocation.dexterity);
+        _checkRespecValue(Player.Attribute.Intelligence, newAllocation.intelligence);
+        _checkRespecValue(Player.Attribute.Luck, newAllocation.luck);
+        _checkRespecValue(Player.Attribute.Constitution, newAllocation.constitution);
+
+        _lastRespecAt[tokenId] = block.timestamp;
+        uint256 fee = _respecFee;
+        if (fee > 0) {
+            _upgradeToken.safeTransferFrom(msg.sender, _treasury, fee);
+        }
+        _player.setAttributes(tokenId, newAllocation);
+
+        emit Respecced(tokenId, oldAttributes, newAllocation, fee);
+    }
+
+    /// @notice Returns the cost to raise an attribute of a character by several points
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute to raise
+    /// @param levels The number of points to add
+    /// @return The summed cost in upgrade token units
+    function quoteUpgrade(uint256 tokenId, Player.Attribute attribute, uint64 levels) public view returns (uint256) {
+        return quote(attribute, _attributeValue(tokenId, attribute), levels);
+    }
+
+    /// @notice Returns the cost to raise an attribute from a value by several points
+    /// @param attribute The attribute to raise
+    /// @param value The current value of the attribute
+    /// @param levels The number of points to add
+    /// @return cost The summed cost in upgrade token units
+    function quote(Player.Attribute attribute, uint256 value, uint64 levels) public view returns (uint256 cost) {
+        require(levels > 0, "Invalid levels");
+        Curve storage curve = _curves[attribute];
+        require(curve.kind != CurveKind.None, "Curve not set");
+        if (curve.hardCap > 0 && value + levels > curve.hardCap) {
+            revert HardCapExceeded(attribute, value + levels, curve.hardCap);
+        }
+
+        if (curve.kind == CurveKind.Exponential) {
+            uint256 factor = (WAD * (BPS + curve.rate)) / BPS;
+            uint256 pointCost = (curve.baseCost * _powWad(factor, value)) / WAD;
+            for (uint256 i = 0; i < levels; i++) {
+                cost += pointCost;
+                pointCost = (pointCost * factor) / WAD;
+            }
+            return cost;
+        }
+
+        for (uint256 v = value; v < value + levels; v++) {
+            cost += curve.kind == CurveKind.Linear ? curve.baseCost + curve.rate * v : _tierCost(attribute, v);
+        }
+    }
+
+    /// @notice Reverts with HardCapExceeded if raising an attribute of a character would exceed its hard cap
+    /// @dev Used by other systems raising attributes (ProgressionSystem stat points), so the cap
+    ///      holds whatever way the points are added
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute to raise
+    /// @param points The number of points to add
+    function checkHardCap(uint256 tokenId, Player.Attribute attribute, uint256 points) external view {
+        uint64 hardCap = _curves[attribute].hardCap;
+        uint256 newValue = _attributeValue(tokenId, attribute) + points;
+        if (hardCap > 0 && newValue > hardCap) {
+            revert HardCapExceeded(attribute, newValue, hardCap);
+        }
+    }
+
+    /// @notice Returns the cost curve of an attribute
+    /// @param attribute The attribute
+    /// @return curve The cost curve
+    /// @return tiers The tiers of a tiered curve
+    function getCurve(Player.Attribute attribute) external view returns (Curve memory curve, Tier[] memory tiers) {
+        return (_curves[attribute], _tiers[attribute]);
+    }
+
+    /// @notice Returns the fee of a respec
+    /// @return The fee in upgrade token units
+    function getRespecFee() external view returns (uint256) {
+        return _respecFee;
+    }
+
+    /// @notice Returns the time a character must wait between two respecs
+    /// @return The cooldown in seconds
+    function getRespecCooldown() external view returns (uint64) {
+        return _respecCooldown;
+    }
+
+    /// @notice Returns when a character was last respecced
+    /// @param tokenId The ID of the player token
+    /// @return The timestamp of the last respec (0 if never)
+    function getLastRespecAt(uint256 tokenId) external view returns (uint256) {
+        return _lastRespecAt[tokenId];
+    }
+
+    /// @notice Returns the Player contract attributes are raised on
+    /// @return The Player address
+    function getPlayer() external view returns (address) {
+        return address(_player);
+    }
+
+    /// @notice Returns the ERC20 token upgrades are paid in
+    /// @return The upgrade token address
+    function getUpgradeToken() external view returns (address) {
+        return address(_upgradeToken);
+    }
+
+    /// @notice Returns the address receiving the payments
+    /// @return The treasury address
+    function getTreasury() external view returns (address) {
+        return _treasury;
+    }
+
+    /// @notice Raises an attribute of a character by several points, charging its owner the summed cost
+    /// @param owner The address paying the cost, which must own the character
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute to raise
+    /// @param levels The number of points to add
+    function _upgradeAttribute(address owner, uint256 tokenId, Player.Attribute attribute, uint64 levels) internal {
+        require(_player.ownerOf(tokenId) == owner, "Not the token owner");
+        uint256 cost = quoteUpgrade(tokenId, attribute, levels);
+
+        _upgradeToken.safeTransferFrom(owner, _treasury, cost);
+        _player.increaseAttribute(tokenId, attribute, levels);
+
+        emit AttributeUpgraded(tokenId, attribute, levels, cost);
+    }
+
+    /// @notice Returns the current value of an attribute of a character
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute
+    /// @return The attribute value
+    function _attributeValue(uint256 tokenId, Player.Attribute attribute) internal view returns (uint256) {
+        Player.Attributes memory attributes = _player.getAttributes(tokenId);
+        if (attribute == Player.Attribute.Strength) {
+            return attributes.strenght;
+        }
+        if (attribute == Player.Attribute.Dexterity) {
+            return attributes.dexterity;
+        }
+        if (attribute == Player.Attribute.Intelligence) {
+            return attributes.intelligence;
+        }
+        if (attribute == Player.Attribute.Luck) {
+            return attributes.luck;
+        }
+        return attributes.constitution;
+    }
+
+    /// @notice Returns the sum of the attributes of a character
+    /// @param attributes The attributes
+    /// @return The total attribute points
+    function _total(Player.Attributes memory attributes) internal pure returns (uint256) {
+        return uint256(attributes.strenght) + attributes.dexterity + attributes.intelligence + attributes.luck
+            + attributes.constitution;
+    }
+
+    /// @notice Checks an attribute value of a respec against the base value and the hard cap
+    /// @param attribute The attribute
+    /// @param value The new attribute value
+    function _checkRespecValue(Player.Attribute attribute, uint64 value) internal view {
+        require(value >= _player.DEFAULT_ATTRIBUTE_VALUE(), "Attribute below base");
+        uint64 hardCap = _curves[attribute].hardCap;
+        if (hardCap > 0 && value > hardCap) {
+            revert HardCapExceeded(attribute, value, hardCap);
+        }
+    }
+
+    /// @notice Returns the cost per point of a tiered curve at a value
+    /// @param attribute The attribute
+    /// @param value The attribute value
+    /// @return The cost of the last tier starting at or below the value
+    function _tierCost(Player.Attribute attribute, uint256 value) internal view returns (uint256) {
+        Tier[] storage tiers = _tiers[attribute];
+        uint256 i = tiers.length - 1;
+        while (tiers[i].fromValue > value) {
+            i--;
+        }
+        return tiers[i].cost;
+    }
+
+    /// @notice Raises a fixed point number to an integer power
+    /// @param x The base, with WAD precision
+    /// @param n The exponent
+    /// @return result x ^ n, with WAD precision
+    function _powWad(uint256 x, uint256 n) internal pure returns (uint256 result) {
+        result = WAD;
+        while (n > 0) {
+            if (n & 1 == 1) {
+                result = (result * x) / WAD;
+            }
+            n >>= 1;
+            if (n > 0) {
+                x = (x * x) / WAD;
+            }
+        }
+    }
+}
@@ -0,0 +1,213 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./GameSystemAccess.sol";
+import "./StatsEngine.sol";
+
+/// @title Combat - One-roll combat against registered monsters
+/// @author KusaMine Team
+/// @notice Resolves a fight in a single roll (DESIGNDOC 6.3): the character either wins and takes
+///         the monster's damage, or fails and gets ejected from the mine.
+/// @dev Character stats come from the StatsEngine, so attributes and equipped weapon/armor count.
+///      The random word is split in three rolls: bits 0-63 win, bits 64-127 crit, bits 128-191 dodge.
+///      WinChance = attack / (attack + power), clamped to [MIN_WIN_CHANCE, MAX_WIN_CHANCE],
+///      where attack is the damage stat, doubled on a crit.
+///      DamageTaken = monster damage reduced by the physical resist, or 0 on a dodge.
+contract Combat is Ownable, GameSystemAccess {
+    /// @notice Denominator of basis point values (same as StatsEngine)
+    uint256 private constant BPS = 10_000;
+
+    /// @notice Win chance floor, in basis points
+    uint256 public constant MIN_WIN_CHANCE = 500;
+
+    /// @notice Win chance ceiling, in basis points
+    uint256 public constant MAX_WIN_CHANCE = 9_500;
+
+    /// @notice A monster type
+    /// @param power The attack a character needs for even odds
+    /// @param damage The damage dealt to a character that wins (before resist)
+    /// @param xpReward The XP awarded for defeating the monster
+    /// @param lootTableId The loot table dropped by the monster (0 for the default drop)
+    struct Monster {
+        uint32 power;
+        uint32 damage;
+        uint32 xpReward;
+        uint256 lootTableId;
+    }
+
+    /// @notice Result of a fight
+    /// @param won Whether the character defeated the monster
+    /// @param damageTaken The damage taken by the character (its whole HP when it lost)
+    /// @param ejected Whether the character is ejected from the mine (lost, or no HP left)
+    struct CombatResult {
+        bool won;
+        uint256 damageTaken;
+        bool ejected;
+    }
+
+    StatsEngine private _statsEngine;
+
+    uint256 private _monsterCounter;
+
+    /// @notice Mapping from monster ID to its definition
+    mapping(uint256 monsterId => Monster) private _monsters;
+
+    event MonsterSet(uint256 indexed monsterId, Monster monster);
+
+    event CombatResolved(
+        uint256 indexed characterId,
+        uint256 indexed monsterId,
+        bool won,
+        uint256 damageTaken,
+        bool ejected
+    );
+
+    event StatsEngineSet(address indexed statsEngine);
+
+    /// @notice Initializes the Combat module
+    /// @param statsEngine The StatsEngine character stats are read from
+    constructor(address statsEngine) Ownable(msg.sender) {
+        require(statsEngine != address(0), "Invalid stats engine");
+        _statsEngine = StatsEngine(statsEngine);
+    }
+
+    /// @notice Authorizes or revokes a game system allowed to resolve fights
+    /// @dev Only callable by the contract owner
+    /// @param system The game system address
+    /// @param authorized True to authorize, false to revoke
+    function setGameSystem(address system, bool authorized) external onlyOwner {
+        _setGameSystem(system, authorized);
+    }
+
+    /// @notice Sets the StatsEngine character stats are read from
+    /// @dev Only callable by the contract owner
+    /// @param statsEngine The StatsEngine address
+    function setStatsEngine(address statsEngine) external onlyOwner {
+        require(statsEngine != address(0), "Invalid stats engine");
+        _statsEngine = StatsEngine(statsEngine);
+        emit StatsEngineSet(statsEngine);
+    }
+
+    /// @notice Registers a monster type
+    /// @dev Only callable by the contract owner
+    /// @param monster The monster definition
+    /// @return monsterId The ID of the new monster
+    function addMonster(Monster calldata monster) external onlyOwner returns (uint256 monsterId) {
+        _monsterCounter += 1;
+        monsterId = _monsterCounter;
+        _setMonster(monsterId, monster);
+    }
+
+    /// @notice Updates a monster type
+    /// @dev Only callable by the contract owner
+    /// @param monsterId The ID of the monster
+    /// @param monster The new monster definition
+    function setMonster(uint256 monsterId, Monster calldata monster) external onlyOwner {
+        require(_monsterExists(monsterId), "Monster does not exist");
+        _setMonster(monsterId, monster);
+    }
+
+    /// @notice Resolves a fight and emits its result
+    /// @dev Only callable by authorized game systems
+    /// @param characterId The Player token ID of the character
+    /// @param monsterId The ID of the monster
+    /// @param hp The remaining hit points of the character
+    /// @param randomWord The random word of the fight
+    /// @return result The result of the fight
+    function resolve(
+        uint256 characterId,
+        uint256 monsterId,
+        uint256 hp,
+        uint256 randomWord
+    ) external onlyGameSystem returns (CombatResult memory result) {
+        result = simulate(characterId, monsterId, hp, randomWord);
+        emit CombatResolved(characterId, monsterId, result.won, result.damageTaken, result.ejected);
+    }
+
+    /// @notice Computes the result of a fight without resolving it
+    /// @param characterId The Player token ID of the character
+    /// @param monsterId The ID of the monster
+    /// @param hp The remaining hit points of the character
+    /// @param randomWord The random word of the fight
+    /// @return result The result of the fight
+    function simulate(
+        uint256 characterId,
+        uint256 monsterId,
+        uint256 hp,
+        uint256 randomWord
+    ) public view returns (CombatResult memory result) {
+        require(_monsterExists(monsterId), "Monster does not exist");
+        Monster memory monster = _monsters[monsterId];
+        StatsEngine.DerivedStats memory stats = _statsEngine.getDerivedStats(characterId);
+
+        uint256 attack = stats.damage;
+        if (uint64(randomWord >> 64) % BPS < stats.critChance) {
+            attack *= 2;
+        }
+        result.won = uint64(randomWord) % BPS < getWinChance(attack, monster.power);
+
+        if (!result.won) {
+            result.damageTaken = hp;
+            result.ejected = true;
+            return result;
+        }
+
+        if (uint64(randomWord >> 128) % BPS >= stats.dodgeChance) {
+            uint256 resist = stats.physicalResist > BPS ? BPS : stats.physicalResist;
+            result.damageTaken = (uint256(monster.damage) * (BPS - resist)) / BPS;
+        }
+        result.ejected = result.damageTaken >= hp;
+    }
+
+    /// @notice Returns the chance to win a fight
+    /// @param attack The attack of the character
+    /// @param power The power of the monster
+    /// @return The win chance, in basis points
+    function getWinChance(uint256 attack, uint256 power) public pure returns (uint256) {
+        uint256 chance = (attack * BPS) / (attack + power);
+        if (chance < MIN_WIN_CHANCE) {
+            return MIN_WIN_CHANCE;
+        }
+        if (chance > MAX_WIN_CHANCE) {
+            return MAX_WIN_CHANCE;
+        }
+        return chance;
+    }
+
+    /// @notice Returns a monster type
+    /// @param monsterId The ID of the monster
+    /// @return The Monster struct
+    function getMonster(uint256 monsterId) external view returns (Monster memory) {
+        require(_monsterExists(monsterId), "Monster does not exist");
+        return _monsters[monsterId];
+    }
+
+    /// @notice Returns the total number of monsters registered
+    /// @return The current monster counter value
+    function getMonsterCounter() external view returns (uint256) {
+        return _monsterCounter;
+    }
+
+    /// @notice Returns the StatsEngine character stats are read from
+    /// @return The StatsEngine address
+    function getStatsEngine() external view returns (address) {
+        return address(_statsEngine);
+    }
+
+    /// @notice Validates and stores a monster type
+    /// @param monsterId The ID of the monster
+    /// @param monster The monster definition
+    function _setMonster(uint256 monsterId, Monster calldata monster) internal {
+        require(monster.power > 0, "Invalid monster power");
+        _monsters[monsterId] = monster;
+        emit MonsterSet(monsterId, monster);
+    }
+
+    /// @notice Checks if a monster exists
+    /// @param monsterId The ID of the monster
+    /// @return True if the monster was registered
+    function _monsterExists(uint256 monsterId) internal view returns (bool) {
+        return monsterId > 0 && monsterId <= _monsterCounter;
+    }
+}
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IRandomnessProvider.sol";
+
+/// @title CommitRevealRandomness - Commit-reveal randomness provider
+/// @author KusaMine Team
+/// @notice The player commits keccak256(secret) through a game system, then reveals the secret
+///         once the reveal delay has passed. The random word mixes the secret with the hash of
+///         the reveal block, which was unknown at commit time.
+/// @dev The secret is a bytes32 and the commitment is keccak256(abi.encodePacked(secret)).
+///      A commit must be revealed within the reveal window, after which it expires.
+///      The window is capped at 256 blocks since older block hashes are not available.
+///      The player can compute the outcome before revealing and choose not to reveal:
+///      game systems must make an unrevealed commit at least as bad as any outcome.
+contract CommitRevealRandomness is IRandomnessProvider, Ownable {
+    /// @notice Maximum reveal window, in blocks (blockhash only covers the last 256 blocks)
+    uint64 public constant MAX_REVEAL_WINDOW = 256;
+
+    /// @notice A commit waiting to be revealed
+    /// @param commitment keccak256 of the secret
+    /// @param revealBlock The block whose hash is mixed into the random word
+    /// @param expiryBlock The last block the commit can be revealed in
+    /// @param fulfilled Whether the commit has been revealed
+    /// @param randomWord The random word (0 until revealed)
+    struct Commit {
+        bytes32 commitment;
+        uint64 revealBlock;
+        uint64 expiryBlock;
+        bool fulfilled;
+        uint256 randomWord;
+    }
+
+    uint256 private _requestCounter;
+
+    /// @notice Blocks between the commit and the reveal block
+    uint64 private _revealDelay;
+
+    /// @notice Blocks after the reveal block during which the commit can be revealed
+    uint64 private _revealWindow;
+
+    /// @notice Mapping from request ID to its commit
+    mapping(uint256 requestId => Commit) private _commits;
+
+    /// @notice Thrown when the commitment is empty
+    error InvalidCommitment();
+
+    /// @notice Thrown when revealing before the reveal block has been mined
+    error RevealTooEarly(uint256 requestId, uint256 revealBlock);
+
+    /// @notice Thrown when revealing after the reveal window
+    error CommitExpired(uint256 requestId, uint256 expiryBlock);
+
+    /// @notice Thrown when the revealed secret does not match the commitment
+    error InvalidReveal(uint256 requestId);
+
+    /// @notice Thrown when revealing a commit twice
+    error AlreadyRevealed(uint256 requestId);
+
+    event RevealConfigUpdated(uint64 revealDelay, uint64 revealWindow);
+
+    /// @notice Initializes the provider
+    /// @param revealDelay Blocks between the commit and the reveal block (>= 1)
+    /// @param revealWindow Blocks after the reveal block during which the commit can be revealed (1..256)
+    constructor(uint64 revealDelay, uint64 revealWindow) Ownable(msg.sender) {
+        _setRevealConfig(revealDelay, revealWindow);
+    }
+
+    /// @notice Sets the reveal delay and window of future commits
+    /// @dev Only callable by the contract owner. Existing commits keep their reveal and expiry blocks.
+    /// @param revealDelay Blocks between the commit and the reveal block (>= 1)
+    /// @param revealWindow Blocks after the reveal block during which the commit can be revealed (1..256)
+    function setRevealConfig(uint64 revealDelay, uint64 revealWindow) external onlyOwner {
+        _setRevealConfig(revealDelay, revealWindow);
+    }
+
+    /// @inheritdoc IRandomnessProvider
+    function requestRandomness(bytes32 commitment) external returns (uint256 requestId) {
+        if (commitment == bytes32(0)) revert InvalidCommitment();
+
+        _requestCounter += 1;
+        requestId = _requestCounter;
+
+        uint64 revealBlock = uint64(block.number) + _revealDelay;
+        _commits[requestId] = Commit({
+            commitment: commitment,
+            revealBlock: revealBlock,
+            expiryBlock: revealBlock + _revealWindow,
+            fulfilled: false,
+            randomWord: 0
+        });
+
+        emit RandomnessRequested(requestId, msg.sender, commitment);
+    }
+
+    /// @notice Reveals the secret of a commit and fulfills the request
+    /// @dev Callable by anyone who knows the secret
+    /// @param requestId The ID of the request
+    /// @param secret The secret committed to
+    function reveal(uint256 requestId, bytes32 secret) external {
+        Commit storage commit = _getCommit(requestId);
+        if (commit.fulfilled) revert AlreadyRevealed(requestId);
+        if (block.number <= commit.revealBlock) revert RevealTooEarly(requestId, commit.revealBlock);
+        if (block.number > commit.expiryBlock) revert CommitExpired(requestId, commit.expiryBlock);
+        if (keccak256(abi.encodePacked(secret)) != commit.commitment) revert InvalidReveal(requestId);
+
+        uint256 randomWord = uint256(keccak256(abi.encode(secret, blockhash(commit.revealBlock), requestId)));
+        commit.fulfilled = true;
+        commit.randomWord = randomWord;
+
+        emit RandomnessFulfilled(requestId, randomWord);
+    }
+
+    /// @inheritdoc IRandomnessProvider
+    function isFulfilled(uint256 requestId) external view returns (bool) {
+        return _getCommit(requestId).fulfilled;
+    }
+
+    /// @inheritdoc IRandomnessProvider
+    function getRandomWord(uint256 requestId) external view returns (uint256) {
+        Commit storage commit = _getCommit(requestId);
+        if (!commit.fulfilled) revert RandomnessNotFulfilled(requestId);
+        return commit.randomWord;
+    }
+
+    /// @notice Checks if a commit can no longer be revealed
+    /// @param requestId The ID of the request
+    /// @return True if the commit was not revealed within its reveal window
+    function isExpired(uint256 requestId) external view returns (bool) {
+        Commit storage commit = _getCommit(requestId);
+        return !commit.fulfilled && block.number > commit.expiryBlock;
+    }
+
+    /// @notice Returns a commit
+    /// @param requestId The ID of the request
+    /// @return The Commit struct
+    function getCommit(uint256 requestId) external view returns (Commit memory) {
+        return _getCommit(requestId);
+    }
+
+    /// @notice Returns the reveal delay and window of new commits
+    /// @return revealDelay Blocks between the commit and the reveal block
+    /// @return revealWindow Blocks after the reveal block during which the commit can be revealed
+    function getRevealConfig() external view returns (uint64 revealDelay, uint64 revealWindow) {
+        return (_revealDelay, _revealWindow);
+    }
+
+    /// @notice Returns the total number of requests
+    /// @return The current request counter value
+    function getRequestCounter() external view returns (uint256) {
+        return _requestCounter;
+    }
+
+    /// @notice Validates and sets the reveal delay and window
+    /// @param revealDelay Blocks between the commit and the reveal block
+    /// @param revealWindow Blocks after the reveal block during which the commit can be revealed
+    function _setRevealConfig(uint64 revealDelay, uint64 revealWindow) internal {
+        require(revealDelay > 0, "Invalid reveal delay");
+        require(revealWindow > 0 && revealWindow <= MAX_REVEAL_WINDOW, "Invalid reveal window");
+        _revealDelay = revealDelay;
+        _revealWindow = revealWindow;
+        emit RevealConfigUpdated(revealDelay, revealWindow);
+    }
+
+    /// @notice Returns a commit, reverting if the request was never issued
+    /// @param requestId The ID of the request
+    /// @return The Commit storage pointer
+    function _getCommit(uint256 requestId) internal view returns (Commit storage) {
+        if (requestId == 0 || requestId > _requestCounter) revert UnknownRequest(requestId);
+        return _commits[requestId];
+    }
+}
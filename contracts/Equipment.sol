@@ -6,11 +6,14 @@ import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
 import "./interfaces/IEquipable.sol";
+import "./ItemStats.sol";
 
 /// @title Equipable
 /// @notice Base contract for all equipable items (armor, weapons, relics)
 /// @dev Each token type stores its equipment slot type and can have custom metadata
+/// @dev Item data follows the versioned ItemStats schema (or is empty for items without stats)
 /// @dev Uses ERC1155 for gas-efficient batch operations and multiple token types
+/// @dev Superseded by GameItems1155, which holds equipment together with resources and consumables
 contract Equiment is ERC1155, Ownable, IEquipable {
     using Strings for uint256;
     
@@ -45,7 +48,7 @@ contract Equiment is ERC1155, Ownable, IEquipable {
     /// @param to Address to mint the items to
     /// @param amount Amount of items to mint (usually 1 for unique items)
     /// @param slot The equipment slot this item can be equipped to
-    /// @param itemData Optional encoded data for the item (stats, rarity, etc.)
+    /// @param itemData Optional ItemStats encoded data for the item (stats, rarity, etc.)
     /// @return tokenType The newly created token type ID
     function createTokenType(
         address to,
@@ -53,6 +56,8 @@ contract Equiment is ERC1155, Ownable, IEquipable {
         EquipmentSlot.Slot slot,
         bytes memory itemData
     ) internal onlyOwner returns (uint256 tokenType) {
+        ItemStats.decode(itemData);
+
         _tokenTypeCounter += 1;
         tokenType = _tokenTypeCounter;
 
@@ -75,17 +80,12 @@ contract Equiment is ERC1155, Ownable, IEquipable {
         uint256 tokenType,
         uint256 amount
     ) external onlyOwner {
-        require(_equipment[tokenType].slot != EquipmentSlot.Slot.ARMOR ||
-                _equipment[tokenType].slot != EquipmentSlot.Slot.WEAPON ||
-                _equipment[tokenType].slot != EquipmentSlot.Slot.RELIC ||
-                _equipment[tokenType].slot == EquipmentSlot.Slot.ARMOR ||
-                _equipment[tokenType].slot == EquipmentSlot.Slot.WEAPON ||
-                _equipment[tokenType].slot == EquipmentSlot.Slot.RELIC,
-                "Token type does not exist");
+        require(_exists(tokenType), "Token type does not exist");
         _mint(to, tokenType, amount, "");
     }
     
     /// @notice Batch create multiple token types
+    /// @dev Reverts if any item data is malformed or uses an unknown ItemStats version
     function batchCreateTokenTypes(
         address[] calldata to,
         uint256[] calldata amounts,
@@ -101,6 +101,7 @@ contract Equiment is ERC1155, Ownable, IEquipable {
         
         uint256[] memory tokenTypes = new uint256[](to.length);
         for (uint256 i = 0; i < to.length; i++) {
+            ItemStats.decode(itemDataArray[i]);
             _tokenTypeCounter += 1;
             tokenTypes[i] = _tokenTypeCounter;
             _equipment[tokenTypes[i]] = EquipmentData({
@@ -123,10 +124,7 @@ contract Equiment is ERC1155, Ownable, IEquipable {
         override 
         returns (EquipmentSlot.Slot) 
     {
-        require(_equipment[tokenType].slot == EquipmentSlot.Slot.ARMOR ||
-                _equipment[tokenType].slot == EquipmentSlot.Slot.WEAPON ||
-                _equipment[tokenType].slot == EquipmentSlot.Slot.RELIC,
-                "Token type does not exist");
+        require(_exists(tokenType), "Token type does not exist");
         return _equipment[tokenType].slot;
     }
     
@@ -137,13 +135,30 @@ contract Equiment is ERC1155, Ownable, IEquipable {
         override 
         returns (bytes memory) 
     {
-        require(_equipment[tokenType].slot == EquipmentSlot.Slot.ARMOR ||
-                _equipment[tokenType].slot == EquipmentSlot.Slot.WEAPON ||
-                _equipment[tokenType].slot == EquipmentSlot.Slot.RELIC,
-                "Token type does not exist");
+        require(_exists(tokenType), "Token type does not exist");
         return _equipment[tokenType].itemData;
     }
     
+    /// @notice Get the decoded stats of a token type
+    /// @param tokenType The token type ID
+    /// @return The decoded ItemStats (all zero for items without stats)
+    function getItemStats(uint256 tokenType)
+        external
+        view
+        returns (ItemStats.Stats memory)
+    {
+        require(_exists(tokenType), "Token type does not exist");
+        return ItemStats.decode(_equipment[tokenType].itemData);
+    }
+
+    /// @notice Encode item stats with the current ItemStats schema version
+    /// @dev Helper for tooling building itemData payloads
+    /// @param stats The item stats
+    /// @return The encoded item data
+    function encodeItemStats(ItemStats.Stats memory stats) external pure returns (bytes memory) {
+        return ItemStats.encode(stats);
+    }
+
     /// @notice Set base URI for token metadata
     function setURI(string memory newuri) external onlyOwner {
         _setURI(newuri);
@@ -169,8 +184,11 @@ contract Equiment is ERC1155, Ownable, IEquipable {
     
     /// @notice Check if a token type exists
     function tokenTypeExists(uint256 tokenType) external view returns (bool) {
-        return _equipment[tokenType].slot == EquipmentSlot.Slot.ARMOR ||
-               _equipment[tokenType].slot == EquipmentSlot.Slot.WEAPON ||
-               _equipment[tokenType].slot == EquipmentSlot.Slot.RELIC;
+        return _exists(tokenType);
+    }
+
+    /// @dev Token types are numbered sequentially from 1, whatever their slot
+    function _exists(uint256 tokenType) internal view returns (bool) {
+        return tokenType != 0 && tokenType <= _tokenTypeCounter;
     }
 }
\ No newline at end of file
@@ -4,10 +4,43 @@ pragma solidity 0.8.28;
 
 /// @title EquipmentSlot
 /// @notice Library defining equipment slot types for the game
+/// @dev New slots are only ever appended, so the values of existing slots (and the uint8 returned
+///      by IEquipable.getEquipmentSlot) never change.
+/// @dev Some kinds have several slots (RING and RING_2, RELIC and RELIC_2...). Items declare the kind
+///      (RELIC, RING) and can go in any slot of that kind. Extra slots (RELIC_2, RELIC_3, RING_3)
+///      are locked until unlocked for a character through progression.
 library EquipmentSlot {
     enum Slot {
         ARMOR,
         WEAPON,
-        RELIC
+        RELIC,
+        HELMET,
+        BOOTS,
+        RING,
+        RING_2,
+        TOOL,
+        RELIC_2,
+        RELIC_3,
+        RING_3
     }
-}
\ No newline at end of file
+
+    /// @notice Get the kind of items a slot accepts
+    /// @param slot The equipment slot
+    /// @return The slot items of the kind declare
+    function kindOf(Slot slot) internal pure returns (Slot) {
+        if (slot == Slot.RELIC_2 || slot == Slot.RELIC_3) {
+            return Slot.RELIC;
+        }
+        if (slot == Slot.RING_2 || slot == Slot.RING_3) {
+            return Slot.RING;
+        }
+        return slot;
+    }
+
+    /// @notice Check if a slot must be unlocked before it can be used
+    /// @param slot The equipment slot
+    /// @return True for the extra slots unlocked through progression
+    function isExtra(Slot slot) internal pure returns (bool) {
+        return slot == Slot.RELIC_2 || slot == Slot.RELIC_3 || slot == Slot.RING_3;
+    }
+}
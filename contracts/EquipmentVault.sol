@@ -6,18 +6,57 @@ import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
 import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
 import "@openzeppelin/contracts/utils/introspection/ERC165.sol";
 import "./EquipmentSlot.sol";
+import "./GameSystemAccess.sol";
+import "./ItemStats.sol";
 import "./interfaces/IEquipable.sol";
+import "./interfaces/IGameItems.sol";
 
 /// @title EquipmentVault
 /// @notice Manages equipment slots and custody of equipped items for players
 /// @dev This contract holds ERC-1155 items in custody when equipped
 /// @dev Inherited by Player contract to provide equipment functionality
-abstract contract EquipmentVault is ERC165, IERC1155Receiver {
+/// @dev Authorized game systems can lock a player during a mine run, freezing its equipment. Only the
+///      locking system releases the lock, except for the owner force-unlocking a stuck player.
+/// @dev Item requirements (level, attributes) are checked by the inheriting contract on equip only
+/// @dev Equipped items wear out: game systems lower their durability (mining, combat) and a broken
+///      item (0 durability) stops giving stats until repaired. Wear is tracked per player and slot, as
+///      equipment is fungible once back in a wallet: unequipping a worn item (unequip, swap, unequipAll,
+///      applyLoadout, retire) resets its wear for free, so items can always leave the vault and do
+///      so at full durability. repair is the only path burning the repair cost.
+/// @dev equipBatch and unequipAll move the items of several slots with a single safeBatchTransferFrom
+///      each way, and still emit ItemEquipped/ItemUnequipped per slot
+/// @dev Items go in any slot of their kind (a ring in RING or RING_2). Extra slots (RELIC_2, RELIC_3,
+///      RING_3) must first be unlocked for the player by a game system (ProgressionSystem).
+/// @dev Players can save up to MAX_LOADOUTS loadouts per player (slot => token type) and apply one
+///      in a single call: slots that differ are unequipped and the saved items equipped from the wallet
+/// @dev Equipment items sent directly to the vault (not through equip) are recorded as unassigned
+///      deposits of their sender, who can reclaim them; they are never credited to a player. Other
+///      ERC-1155 contracts' tokens are accepted and can be rescued by the owner.
+/// @dev Repairs burn the repair token of the slot (GOLD, ore) from the player owner's wallet through
+///      the equipment contract, which must therefore implement IGameItems.
+abstract contract EquipmentVault is ERC165, IERC1155Receiver, GameSystemAccess {
+    /// @notice Durability of an item without wear
+    uint32 public constant MAX_DURABILITY = 100;
+
+    /// @notice Number of loadouts a player can save (loadout IDs 0 to MAX_LOADOUTS - 1)
+    uint256 public constant MAX_LOADOUTS = 5;
+
     struct EquippedItem {
         uint256 tokenType;        // The ERC-1155 token type ID
         uint256 amount;           // Amount equipped (usually 1)
     }
 
+    struct LoadoutItem {
+        EquipmentSlot.Slot slot;  // The equipment slot
+        uint256 tokenType;        // The ERC-1155 token type ID
+        uint256 amount;           // Amount to equip (usually 1)
+    }
+
+    struct RepairCost {
+        uint256 tokenId;          // The ERC-1155 token burned to repair (GOLD, ore)
+        uint256 costPerPoint;     // Amount burned per durability point restored
+    }
+
     /// @notice The cached equipment contract address
     address private _equipmentContract;
 
@@ -28,6 +67,33 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
     // Tracks total vault balance per player for each token type
     mapping(uint256 => mapping(uint256 => uint256)) private _vaultBalances;
 
+    // Mapping: playerTokenId => game system holding the run lock (address(0) if unlocked)
+    mapping(uint256 => address) private _runLocks;
+
+    // Mapping: playerTokenId => slot => durability lost by the item equipped in the slot
+    mapping(uint256 => mapping(EquipmentSlot.Slot => uint32)) private _wear;
+
+    // Mapping: playerTokenId => loadoutId => saved items (empty if the loadout is not saved)
+    mapping(uint256 => mapping(uint256 => LoadoutItem[])) private _loadouts;
+
+    // Mapping: playerTokenId => extra slot => unlocked
+    mapping(uint256 => mapping(EquipmentSlot.Slot => bool)) private _unlockedSlots;
+
+    // Mapping: depositor => tokenType => equipment items sent directly to the vault
+    mapping(address => mapping(uint256 => uint256)) private _unassignedDeposits;
+
+    // Mapping: slot => repair cost of the items of the slot
+    mapping(EquipmentSlot.Slot => RepairCost) private _repairCosts;
+
+    /// @notice Thrown when equipment of a player locked on a run is changed
+    error PlayerIsLocked(uint256 playerTokenId);
+
+    /// @notice Thrown when equipping an extra slot the player has not unlocked
+    error SlotLocked(uint256 playerTokenId, EquipmentSlot.Slot slot);
+
+    /// @notice Thrown when applying a loadout whose item is no longer in the caller's wallet
+    error MissingLoadoutItem(uint256 playerTokenId, uint256 loadoutId, uint256 tokenType);
+
     // Events
     event ItemEquipped(
         uint256 indexed playerTokenId,
@@ -45,6 +111,37 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
 
     event EquipmentContractSet(address indexed equipmentContract);
 
+    event PlayerLocked(uint256 indexed playerTokenId, address indexed system);
+
+    event PlayerUnlocked(uint256 indexed playerTokenId, address indexed system);
+
+    event PlayerForceUnlocked(uint256 indexed playerTokenId, address indexed system);
+
+    event DurabilityChanged(uint256 indexed playerTokenId, EquipmentSlot.Slot indexed slot, uint32 durability);
+
+    event ItemRepaired(
+        uint256 indexed playerTokenId,
+        uint256 indexed tokenType,
+        uint256 costTokenId,
+        uint256 cost
+    );
+
+    event LoadoutSaved(uint256 indexed playerTokenId, uint256 indexed loadoutId, LoadoutItem[] items);
+
+    event LoadoutDeleted(uint256 indexed playerTokenId, uint256 indexed loadoutId);
+
+    event LoadoutApplied(uint256 indexed playerTokenId, uint256 indexed loadoutId);
+
+    event SlotUnlocked(uint256 indexed playerTokenId, EquipmentSlot.Slot indexed slot);
+
+    event UnassignedDeposit(address indexed depositor, uint256 indexed tokenType, uint256 amount);
+
+    event DepositReclaimed(address indexed depositor, uint256 indexed tokenType, uint256 amount);
+
+    event TokensRescued(address indexed token, address indexed to, uint256 id, uint256 amount);
+
+    event RepairCostSet(EquipmentSlot.Slot indexed slot, uint256 tokenId, uint256 costPerPoint);
+
     /// @notice Set the equipment contract address
     /// @dev Can only be set once (when it's address(0))
     /// @param equipmentContract The equipment contract address
@@ -72,24 +169,9 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
         uint256 tokenType,
         uint256 amount
     ) external {
-        require(_equipmentContract != address(0), "Equipment contract not set");
-
-        // Verify the caller owns the player token
-        require(_ownsPlayerToken(playerTokenId), "Not player owner");
-
-        // Verify the item contract implements IEquipable
-        IEquipable equipableContract = IEquipable(_equipmentContract);
-        require(
-            equipableContract.getEquipmentSlot(tokenType) == slot,
-            "Item slot mismatch"
-        );
-
-        // Verify the player owns the item
+        _checkCanEquip(playerTokenId);
+        _checkEquipItem(playerTokenId, slot, tokenType, amount);
         IERC1155 itemContract = IERC1155(_equipmentContract);
-        require(
-            itemContract.balanceOf(msg.sender, tokenType) >= amount,
-            "Insufficient item balance"
-        );
 
         // If slot is already occupied, unequip first
         EquippedItem memory currentItem = _equippedItems[playerTokenId][slot];
@@ -118,6 +200,53 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
         emit ItemEquipped(playerTokenId, slot, tokenType, amount);
     }
 
+    /// @notice Equip items to several slots in one transaction
+    /// @dev Items already equipped in those slots are swapped out. All items go in with one batch
+    ///      transfer and the swapped out items come back with another.
+    /// @param playerTokenId The player's token ID
+    /// @param slots The equipment slots to equip to (no duplicates)
+    /// @param tokenTypes The ERC-1155 token type ID of each slot
+    /// @param amounts The amount to equip in each slot (usually 1)
+    function equipBatch(
+        uint256 playerTokenId,
+        EquipmentSlot.Slot[] calldata slots,
+        uint256[] calldata tokenTypes,
+        uint256[] calldata amounts
+    ) external {
+        require(slots.length == tokenTypes.length && slots.length == amounts.length, "Array length mismatch");
+        require(slots.length > 0, "Empty batch");
+        _checkCanEquip(playerTokenId);
+
+        uint256[] memory returnedTypes = new uint256[](slots.length);
+        uint256[] memory returnedAmounts = new uint256[](slots.length);
+        uint256 returnedCount;
+        for (uint256 i = 0; i < slots.length; i++) {
+            for (uint256 j = 0; j < i; j++) {
+                require(slots[j] != slots[i], "Duplicate slot");
+            }
+            _checkEquipItem(playerTokenId, slots[i], tokenTypes[i], amounts[i]);
+
+            EquippedItem memory currentItem = _equippedItems[playerTokenId][slots[i]];
+            if (currentItem.amount > 0) {
+                _clearSlot(playerTokenId, slots[i], currentItem);
+                returnedTypes[returnedCount] = currentItem.tokenType;
+                returnedAmounts[returnedCount] = currentItem.amount;
+                returnedCount += 1;
+            }
+
+            _equippedItems[playerTokenId][slots[i]] = EquippedItem({
+                tokenType: tokenTypes[i],
+                amount: amounts[i]
+            });
+            _vaultBalances[playerTokenId][tokenTypes[i]] += amounts[i];
+
+            emit ItemEquipped(playerTokenId, slots[i], tokenTypes[i], amounts[i]);
+        }
+
+        _transferItems(address(this), msg.sender, returnedTypes, returnedAmounts, returnedCount);
+        IERC1155(_equipmentContract).safeBatchTransferFrom(msg.sender, address(this), tokenTypes, amounts, "");
+    }
+
     /// @notice Unequip an item from a specific slot
     /// @param playerTokenId The player's token ID
     /// @param slot The equipment slot to unequip from
@@ -126,15 +255,143 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
         _unequipInternal(playerTokenId, slot);
     }
 
+    /// @notice Unequip every equipped slot in one transaction
+    /// @dev The items come back with a single batch transfer
+    /// @param playerTokenId The player's token ID
+    function unequipAll(uint256 playerTokenId) external {
+        require(_ownsPlayerToken(playerTokenId), "Not player owner");
+        if (_runLocks[playerTokenId] != address(0)) revert PlayerIsLocked(playerTokenId);
+        require(_unequipAllInternal(playerTokenId) > 0, "No item equipped");
+    }
+
+    /// @notice Internal function to unequip every equipped slot with a single batch transfer
+    /// @param playerTokenId The player's token ID
+    /// @return returnedCount The number of slots unequipped
+    function _unequipAllInternal(uint256 playerTokenId) internal returns (uint256 returnedCount) {
+        uint256 slotCount = _slotCount();
+        uint256[] memory returnedTypes = new uint256[](slotCount);
+        uint256[] memory returnedAmounts = new uint256[](slotCount);
+        for (uint256 i = 0; i < slotCount; i++) {
+            EquipmentSlot.Slot slot = EquipmentSlot.Slot(i);
+            EquippedItem memory item = _equippedItems[playerTokenId][slot];
+            if (item.amount > 0) {
+                _clearSlot(playerTokenId, slot, item);
+                returnedTypes[returnedCount] = item.tokenType;
+                returnedAmounts[returnedCount] = item.amount;
+                returnedCount += 1;
+            }
+        }
+
+        _transferItems(address(this), msg.sender, returnedTypes, returnedAmounts, returnedCount);
+    }
+
+    /// @notice Save a loadout of a player
+    /// @dev Overwrites the loadout if already saved. The items don't need to be held when saving.
+    /// @param playerTokenId The player's token ID
+    /// @param loadoutId The loadout ID (0 to MAX_LOADOUTS - 1)
+    /// @param items The saved items (at most one per slot)
+    function saveLoadout(uint256 playerTokenId, uint256 loadoutId, LoadoutItem[] calldata items) external {
+        require(_equipmentContract != address(0), "Equipment contract not set");
+        require(_ownsPlayerToken(playerTokenId), "Not player owner");
+        require(loadoutId < MAX_LOADOUTS, "Invalid loadout id");
+        require(items.length > 0, "Empty loadout");
+
+        LoadoutItem[] storage loadout = _loadouts[playerTokenId][loadoutId];
+        delete _loadouts[playerTokenId][loadoutId];
+        for (uint256 i = 0; i < items.length; i++) {
+            for (uint256 j = 0; j < i; j++) {
+                require(items[j].slot != items[i].slot, "Duplicate slot");
+            }
+            require(items[i].amount > 0, "Invalid amount");
+            require(
+                IEquipable(_equipmentContract).getEquipmentSlot(items[i].tokenType) == EquipmentSlot.kindOf(items[i].slot),
+                "Item slot mismatch"
+            );
+            loadout.push(items[i]);
+        }
+
+        emit LoadoutSaved(playerTokenId, loadoutId, items);
+    }
+
+    /// @notice Delete a saved loadout of a player
+    /// @param playerTokenId The player's token ID
+    /// @param loadoutId The loadout ID
+    function deleteLoadout(uint256 playerTokenId, uint256 loadoutId) external {
+        require(_ownsPlayerToken(playerTokenId), "Not player owner");
+        require(_loadouts[playerTokenId][loadoutId].length > 0, "Loadout does not exist");
+        delete _loadouts[playerTokenId][loadoutId];
+        emit LoadoutDeleted(playerTokenId, loadoutId);
+    }
+
+    /// @notice Equip a saved loadout in one call
+    /// @dev Slots already holding the saved item are left as is. Every other equipped slot is
+    ///      unequipped (including slots the loadout leaves empty), then the missing saved items are
+    ///      equipped from the caller's wallet. Each way uses a single batch transfer.
+    /// @param playerTokenId The player's token ID
+    /// @param loadoutId The loadout ID
+    function applyLoadout(uint256 playerTokenId, uint256 loadoutId) external {
+        _checkCanEquip(playerTokenId);
+        LoadoutItem[] storage loadout = _loadouts[playerTokenId][loadoutId];
+        require(loadout.length > 0, "Loadout does not exist");
+
+        // Unequip the slots that differ from the loadout
+        uint256 slotCount = _slotCount();
+        uint256[] memory tokenTypes = new uint256[](slotCount);
+        uint256[] memory amounts = new uint256[](slotCount);
+        uint256 count;
+        for (uint256 i = 0; i < slotCount; i++) {
+            EquipmentSlot.Slot slot = EquipmentSlot.Slot(i);
+            EquippedItem memory item = _equippedItems[playerTokenId][slot];
+            if (item.amount == 0 || _isInLoadout(loadout, slot, item)) {
+                continue;
+            }
+            _clearSlot(playerTokenId, slot, item);
+            tokenTypes[count] = item.tokenType;
+            amounts[count] = item.amount;
+            count += 1;
+        }
+        _transferItems(address(this), msg.sender, tokenTypes, amounts, count);
+
+        // Equip the saved items that are not equipped yet
+        tokenTypes = new uint256[](loadout.length);
+        amounts = new uint256[](loadout.length);
+        count = 0;
+        IERC1155 itemContract = IERC1155(_equipmentContract);
+        for (uint256 i = 0; i < loadout.length; i++) {
+            LoadoutItem memory saved = loadout[i];
+            if (_equippedItems[playerTokenId][saved.slot].amount > 0) {
+                continue;
+            }
+            if (itemContract.balanceOf(msg.sender, saved.tokenType) < saved.amount) {
+                revert MissingLoadoutItem(playerTokenId, loadoutId, saved.tokenType);
+            }
+            _checkEquipItem(playerTokenId, saved.slot, saved.tokenType, saved.amount);
+
+            _equippedItems[playerTokenId][saved.slot] = EquippedItem({
+                tokenType: saved.tokenType,
+                amount: saved.amount
+            });
+            _vaultBalances[playerTokenId][saved.tokenType] += saved.amount;
+            tokenTypes[count] = saved.tokenType;
+            amounts[count] = saved.amount;
+            count += 1;
+
+            emit ItemEquipped(playerTokenId, saved.slot, saved.tokenType, saved.amount);
+        }
+        _transferItems(msg.sender, address(this), tokenTypes, amounts, count);
+
+        emit LoadoutApplied(playerTokenId, loadoutId);
+    }
+
     /// @notice Internal function to unequip an item
     /// @param playerTokenId The player's token ID
     /// @param slot The equipment slot to unequip from
     function _unequipInternal(uint256 playerTokenId, EquipmentSlot.Slot slot) internal {
+        if (_runLocks[playerTokenId] != address(0)) revert PlayerIsLocked(playerTokenId);
+
         EquippedItem memory item = _equippedItems[playerTokenId][slot];
         require(item.amount > 0, "Slot is empty");
-
-        // Update vault balance
-        _vaultBalances[playerTokenId][item.tokenType] -= item.amount;
+        _clearSlot(playerTokenId, slot, item);
 
         // Transfer item back to player
         IERC1155 itemContract = IERC1155(_equipmentContract);
@@ -145,8 +402,17 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
             item.amount,
             ""
         );
+    }
+
+    /// @notice Clear a slot and its vault balance, without transferring the item
+    /// @dev The wear of the item is reset for free
+    /// @param playerTokenId The player's token ID
+    /// @param slot The equipment slot to clear
+    /// @param item The item equipped in the slot
+    function _clearSlot(uint256 playerTokenId, EquipmentSlot.Slot slot, EquippedItem memory item) internal {
+        delete _wear[playerTokenId][slot];
 
-        // Clear equipped item
+        _vaultBalances[playerTokenId][item.tokenType] -= item.amount;
         delete _equippedItems[playerTokenId][slot];
 
         emit ItemUnequipped(
@@ -157,21 +423,250 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
         );
     }
 
+    /// @notice Transfer items with a single batch transfer
+    /// @param from Address the items are transferred from
+    /// @param to Address the items are transferred to
+    /// @param tokenTypes The token type IDs (only the first count are transferred)
+    /// @param amounts The amounts (only the first count are transferred)
+    /// @param count The number of items to transfer
+    function _transferItems(
+        address from,
+        address to,
+        uint256[] memory tokenTypes,
+        uint256[] memory amounts,
+        uint256 count
+    ) internal {
+        if (count == 0) {
+            return;
+        }
+
+        uint256[] memory ids = new uint256[](count);
+        uint256[] memory values = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            ids[i] = tokenTypes[i];
+            values[i] = amounts[i];
+        }
+        IERC1155(_equipmentContract).safeBatchTransferFrom(from, to, ids, values, "");
+    }
+
+    /// @notice Check if an equipped item is the saved item of its slot in a loadout
+    /// @param loadout The saved loadout
+    /// @param slot The equipment slot
+    /// @param item The item equipped in the slot
+    /// @return True if the loadout saves the same item for the slot
+    function _isInLoadout(
+        LoadoutItem[] storage loadout,
+        EquipmentSlot.Slot slot,
+        EquippedItem memory item
+    ) internal view returns (bool) {
+        for (uint256 i = 0; i < loadout.length; i++) {
+            if (loadout[i].slot == slot) {
+                return loadout[i].tokenType == item.tokenType && loadout[i].amount == item.amount;
+            }
+        }
+        return false;
+    }
+
+    /// @notice Get the number of equipment slots
+    /// @return The number of values of EquipmentSlot.Slot
+    function _slotCount() internal pure returns (uint256) {
+        return uint256(type(EquipmentSlot.Slot).max) + 1;
+    }
+
+    /// @notice Check that the caller can change the equipment of a player
+    /// @param playerTokenId The player's token ID
+    function _checkCanEquip(uint256 playerTokenId) internal view {
+        require(_equipmentContract != address(0), "Equipment contract not set");
+
+        // Verify the caller owns the player token
+        require(_ownsPlayerToken(playerTokenId), "Not player owner");
+        if (_runLocks[playerTokenId] != address(0)) revert PlayerIsLocked(playerTokenId);
+    }
+
+    /// @notice Check that an item can be equipped to a slot by the caller
+    /// @param playerTokenId The player's token ID
+    /// @param slot The equipment slot to equip to
+    /// @param tokenType The ERC-1155 token type ID
+    /// @param amount The amount to equip
+    function _checkEquipItem(
+        uint256 playerTokenId,
+        EquipmentSlot.Slot slot,
+        uint256 tokenType,
+        uint256 amount
+    ) internal view {
+        if (!isSlotUnlocked(playerTokenId, slot)) revert SlotLocked(playerTokenId, slot);
+
+        // Verify the item contract implements IEquipable
+        IEquipable equipableContract = IEquipable(_equipmentContract);
+        require(
+            equipableContract.getEquipmentSlot(tokenType) == EquipmentSlot.kindOf(slot),
+            "Item slot mismatch"
+        );
+        _checkEquipRequirements(playerTokenId, ItemStats.decode(equipableContract.getItemData(tokenType)));
+
+        // Verify the player owns the item
+        require(
+            IERC1155(_equipmentContract).balanceOf(msg.sender, tokenType) >= amount,
+            "Insufficient item balance"
+        );
+    }
+
+    /// @notice Lower the durability of the item equipped in a slot
+    /// @dev Only callable by authorized game systems. Does nothing if the slot is empty.
+    /// @param playerTokenId The player's token ID
+    /// @param slot The equipment slot
+    /// @param amount The durability points lost
+    function wearItem(uint256 playerTokenId, EquipmentSlot.Slot slot, uint32 amount) external onlyGameSystem {
+        EquippedItem memory item = _equippedItems[playerTokenId][slot];
+        if (item.amount == 0 || amount == 0) {
+            return;
+        }
+
+        uint32 wear = _wear[playerTokenId][slot];
+        wear = amount >= MAX_DURABILITY - wear ? MAX_DURABILITY : wear + amount;
+        _wear[playerTokenId][slot] = wear;
+
+        emit DurabilityChanged(playerTokenId, slot, MAX_DURABILITY - wear);
+    }
+
+    /// @notice Repair the item equipped in a slot back to full durability
+    /// @dev Burns wear * costPerPoint of the slot's repair token from the caller, who must have
+    ///      approved this contract on the equipment contract (as for equip)
+    /// @param playerTokenId The player's token ID
+    /// @param slot The equipment slot to repair
+    function repair(uint256 playerTokenId, EquipmentSlot.Slot slot) external {
+        require(_ownsPlayerToken(playerTokenId), "Not player owner");
+        if (_runLocks[playerTokenId] != address(0)) revert PlayerIsLocked(playerTokenId);
+
+        EquippedItem memory item = _equippedItems[playerTokenId][slot];
+        require(item.amount > 0, "Slot is empty");
+        uint32 wear = _wear[playerTokenId][slot];
+        require(wear > 0, "Item not damaged");
+        RepairCost memory repairCost = _repairCosts[slot];
+        require(repairCost.costPerPoint > 0, "Repair cost not set");
+
+        uint256 cost = wear * repairCost.costPerPoint;
+        delete _wear[playerTokenId][slot];
+        IGameItems(_equipmentContract).burn(msg.sender, repairCost.tokenId, cost);
+
+        emit ItemRepaired(playerTokenId, item.tokenType, repairCost.tokenId, cost);
+        emit DurabilityChanged(playerTokenId, slot, MAX_DURABILITY);
+    }
+
+    /// @notice Unlock an extra slot of a player
+    /// @dev Only callable by authorized game systems (ProgressionSystem checks the unlock requirements)
+    /// @param playerTokenId The player's token ID
+    /// @param slot The extra slot to unlock
+    function unlockSlot(uint256 playerTokenId, EquipmentSlot.Slot slot) external onlyGameSystem {
+        require(EquipmentSlot.isExtra(slot), "Slot not unlockable");
+        require(!_unlockedSlots[playerTokenId][slot], "Slot already unlocked");
+        _unlockedSlots[playerTokenId][slot] = true;
+        emit SlotUnlocked(playerTokenId, slot);
+    }
+
+    /// @notice Reclaim equipment items the caller sent directly to the vault
+    /// @param tokenType The token type ID
+    /// @param amount The amount to reclaim
+    function reclaimDeposit(uint256 tokenType, uint256 amount) external {
+        require(amount > 0 && _unassignedDeposits[msg.sender][tokenType] >= amount, "Insufficient deposit");
+        _unassignedDeposits[msg.sender][tokenType] -= amount;
+
+        IERC1155(_equipmentContract).safeTransferFrom(address(this), msg.sender, tokenType, amount, "");
+
+        emit DepositReclaimed(msg.sender, tokenType, amount);
+    }
+
+    /// @notice Lock a player's equipment for the duration of a run
+    /// @dev Only callable by authorized game systems. While locked, equip and unequip revert.
+    /// @param playerTokenId The player's token ID
+    function lockPlayer(uint256 playerTokenId) external onlyGameSystem {
+        require(_runLocks[playerTokenId] == address(0), "Player already locked");
+        _runLocks[playerTokenId] = msg.sender;
+        emit PlayerLocked(playerTokenId, msg.sender);
+    }
+
+    /// @notice Release the run lock of a player
+    /// @dev Only callable by the game system that locked the player
+    /// @param playerTokenId The player's token ID
+    function unlockPlayer(uint256 playerTokenId) external onlyGameSystem {
+        require(_runLocks[playerTokenId] == msg.sender, "Not the locking system");
+        delete _runLocks[playerTokenId];
+        emit PlayerUnlocked(playerTokenId, msg.sender);
+    }
+
+    /// @notice Check if a player is locked on a run
+    /// @param playerTokenId The player's token ID
+    /// @return True if the player's equipment is locked
+    function isPlayerLocked(uint256 playerTokenId) public view returns (bool) {
+        return _runLocks[playerTokenId] != address(0);
+    }
+
+    /// @notice Get the game system holding a player's run lock
+    /// @param playerTokenId The player's token ID
+    /// @return The locking game system (address(0) if unlocked)
+    function getRunLock(uint256 playerTokenId) external view returns (address) {
+        return _runLocks[playerTokenId];
+    }
+
+    /// @notice Check if a player can use a slot
+    /// @param playerTokenId The player's token ID
+    /// @param slot The equipment slot
+    /// @return True for base slots, and for extra slots the player unlocked
+    function isSlotUnlocked(uint256 playerTokenId, EquipmentSlot.Slot slot) public view returns (bool) {
+        return !EquipmentSlot.isExtra(slot) || _unlockedSlots[playerTokenId][slot];
+    }
+
     /// @notice Get equipped item info for a player's slot
     /// @param playerTokenId The player's token ID
     /// @param slot The equipment slot to query
     /// @return tokenType The token type ID
     /// @return amount The amount equipped
+    /// @return durability The current durability (0 if the slot is empty)
     function getEquippedItem(uint256 playerTokenId, EquipmentSlot.Slot slot)
         external
         view
         returns (
             uint256 tokenType,
-            uint256 amount
+            uint256 amount,
+            uint32 durability
         )
     {
         EquippedItem memory item = _equippedItems[playerTokenId][slot];
-        return (item.tokenType, item.amount);
+        if (item.amount == 0) {
+            return (0, 0, 0);
+        }
+        return (item.tokenType, item.amount, getDurability(playerTokenId, slot));
+    }
+
+    /// @notice Get the durability of the item equipped in a slot of a player
+    /// @param playerTokenId The player's token ID
+    /// @param slot The equipment slot
+    /// @return The durability, from 0 (broken) to MAX_DURABILITY (also for an empty slot)
+    function getDurability(uint256 playerTokenId, EquipmentSlot.Slot slot) public view returns (uint32) {
+        return MAX_DURABILITY - _wear[playerTokenId][slot];
+    }
+
+    /// @notice Get a saved loadout of a player
+    /// @param playerTokenId The player's token ID
+    /// @param loadoutId The loadout ID
+    /// @return The saved items (empty if the loadout is not saved)
+    function getLoadout(uint256 playerTokenId, uint256 loadoutId) external view returns (LoadoutItem[] memory) {
+        return _loadouts[playerTokenId][loadoutId];
+    }
+
+    /// @notice Get the equipment items a depositor sent directly to the vault
+    /// @param depositor The address that sent the items
+    /// @param tokenType The token type ID
+    /// @return The amount the depositor can reclaim
+    function getUnassignedDeposit(address depositor, uint256 tokenType) external view returns (uint256) {
+        return _unassignedDeposits[depositor][tokenType];
+    }
+
+    /// @notice Get the repair cost of the items of a slot
+    /// @param slot The equipment slot
+    /// @return The RepairCost struct
+    function getRepairCost(EquipmentSlot.Slot slot) external view returns (RepairCost memory) {
+        return _repairCosts[slot];
     }
 
     /// @notice Check if a slot is equipped
@@ -197,12 +692,63 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
         return _vaultBalances[playerTokenId][tokenType];
     }
 
+    /// @notice Release the run lock of a player without the locking system
+    /// @param playerTokenId The player's token ID
+    function _forceUnlockPlayer(uint256 playerTokenId) internal {
+        address system = _runLocks[playerTokenId];
+        require(system != address(0), "Player not locked");
+        delete _runLocks[playerTokenId];
+        emit PlayerForceUnlocked(playerTokenId, system);
+    }
+
+    /// @notice Set the repair cost of the items of a slot
+    /// @param slot The equipment slot
+    /// @param tokenId The ERC-1155 token burned to repair
+    /// @param costPerPoint Amount burned per durability point restored (0 disables repairs)
+    function _setRepairCost(EquipmentSlot.Slot slot, uint256 tokenId, uint256 costPerPoint) internal {
+        _repairCosts[slot] = RepairCost({ tokenId: tokenId, costPerPoint: costPerPoint });
+        emit RepairCostSet(slot, tokenId, costPerPoint);
+    }
+
+    /// @notice Transfer out ERC-1155 tokens of another contract sent to the vault
+    /// @dev Equipment items cannot be rescued: they are either equipped or reclaimable deposits
+    /// @param token The ERC-1155 contract
+    /// @param to Address receiving the tokens
+    /// @param id The token id
+    /// @param amount The amount to transfer
+    function _rescueERC1155(address token, address to, uint256 id, uint256 amount) internal {
+        require(token != _equipmentContract, "Cannot rescue equipment items");
+        IERC1155(token).safeTransferFrom(address(this), to, id, amount, "");
+        emit TokensRescued(token, to, id, amount);
+    }
+
+    /// @notice Record equipment items sent directly to the vault
+    /// @dev Transfers started by the vault itself (equip) are the items being equipped
+    /// @param operator The address that started the transfer
+    /// @param from The address the items come from
+    /// @param id The token id
+    /// @param value The amount received
+    function _recordDeposit(address operator, address from, uint256 id, uint256 value) internal {
+        if (operator == address(this) || msg.sender != _equipmentContract) {
+            return;
+        }
+        require(from != address(0), "Direct mints not accepted");
+        _unassignedDeposits[from][id] += value;
+        emit UnassignedDeposit(from, id, value);
+    }
+
     /// @notice Check if the caller owns the player token
     /// @dev Must be implemented by the inheriting contract (Player)
     /// @param playerTokenId The player token ID to check
     /// @return True if the caller owns the token
     function _ownsPlayerToken(uint256 playerTokenId) internal view virtual returns (bool);
 
+    /// @notice Check that a player meets the requirements of an item
+    /// @dev Must be implemented by the inheriting contract (Player). Should revert when a requirement is not met.
+    /// @param playerTokenId The player token ID equipping the item
+    /// @param stats The decoded stats of the item
+    function _checkEquipRequirements(uint256 playerTokenId, ItemStats.Stats memory stats) internal view virtual;
+
     /// @notice ERC165 support
     function supportsInterface(bytes4 interfaceId)
         public
@@ -217,24 +763,30 @@ abstract contract EquipmentVault is ERC165, IERC1155Receiver {
     }
 
     /// @notice ERC1155Receiver implementation - required to receive tokens
+    /// @dev Records direct transfers of equipment items as unassigned deposits
     function onERC1155Received(
-        address,
-        address,
-        uint256,
-        uint256,
+        address operator,
+        address from,
+        uint256 id,
+        uint256 value,
         bytes memory
-    ) public pure override returns (bytes4) {
+    ) public override returns (bytes4) {
+        _recordDeposit(operator, from, id, value);
         return this.onERC1155Received.selector;
     }
 
     /// @notice ERC1155Receiver implementation for batch transfers
+    /// @dev Records direct transfers of equipment items as unassigned deposits
     function onERC1155BatchReceived(
-        address,
-        address,
-        uint256[] memory,
-        uint256[] memory,
+        address operator,
+        address from,
+        uint256[] memory ids,
+        uint256[] memory values,
         bytes memory
-    ) public pure override returns (bytes4) {
+    ) public override returns (bytes4) {
+        for (uint256 i = 0; i < ids.length; i++) {
+            _recordDeposit(operator, from, ids[i], values[i]);
+        }
         return this.onERC1155BatchReceived.selector;
     }
 }
@@ -0,0 +1,588 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./interfaces/IGameItems.sol";
+import "./interfaces/IEquipable.sol";
+import "./interfaces/IRandomnessProvider.sol";
+
+/// @title Forge - Crafting of game items from owner-registered recipes
+/// @author KusaMine Team
+/// @notice Turns ERC-1155 inputs (ores, gold) into outputs (equipment, consumables). Crafting
+///         burns the inputs and charges the recipe fee, in native currency or in an ERC20.
+/// @dev Must hold the minter roles of the output categories on the game items contract, and
+///      crafters must approve this contract on it so their inputs can be burned.
+///      Recipes with a success chance below 100% are settled in a second transaction once the
+///      randomness provider fulfills the request made on craft (inputs and fee are spent either
+///      way). The request carries no commitment, so it needs a provider that does not use one (VRF).
+///      Fees are forwarded to the treasury on craft.
+/// @dev Equipment is enhanced along upgrade paths (Bronze Sword -> +1 -> +2), each tier being its
+///      own equipment token type. An attempt burns the item and the materials of its path; on
+///      failure the item is kept, downgraded to the previous tier or destroyed, as configured.
+contract Forge is Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @notice Denominator of the success chance
+    uint256 public constant BPS = 10_000;
+
+    /// @notice Maximum number of inputs or outputs of a recipe
+    uint256 public constant MAX_ITEMS = 8;
+
+    /// @notice Maximum number of crafts in a single call
+    uint32 public constant MAX_CRAFT_TIMES = 100;
+
+    /// @notice What happens to an item when its enhancement fails
+    enum FailureOutcome {
+        Keep,
+        Downgrade,
+        Destroy
+    }
+
+    /// @notice An ERC-1155 token id and amount
+    /// @param tokenId The token id
+    /// @param amount The amount per craft
+    struct ItemAmount {
+        uint256 tokenId;
+        uint256 amount;
+    }
+
+    /// @notice A crafting recipe
+    /// @param inputs The items burned per craft
+    /// @param outputs The items minted per successful craft
+    /// @param feeToken The ERC20 the fee is paid in (address(0) for native currency)
+    /// @param fee The fee per craft (0 for no fee)
+    /// @param successChance The chance of each craft to succeed, in basis points
+    /// @param enabled Whether the recipe can be crafted
+    struct Recipe {
+        ItemAmount[] inputs;
+        ItemAmount[] outputs;
+        address feeToken;
+        uint256 fee;
+        uint16 successChance;
+        bool enabled;
+    }
+
+    /// @notice Crafts waiting for randomness
+    /// @dev The chance and outputs are copied from the recipe on request, so recipe changes don't
+    ///      affect pending crafts
+    /// @param crafter The address receiving the outputs
+    /// @param recipeId The recipe crafted
+    /// @param times The number of crafts
+    /// @param successChance The chance of each craft to succeed, in basis points
+    /// @param outputs The items minted per successful craft
+    /// @param provider The provider the request was made to
+    /// @param requestId The ID of the request (0 if the craft does not exist)
+    struct PendingCraft {
+        address crafter;
+        uint256 recipeId;
+        uint32 times;
+        uint16 successChance;
+        ItemAmount[] outputs;
+        IRandomnessProvider provider;
+        uint256 requestId;
+    }
+
+    /// @notice The upgrade path of an equipment tier
+    /// @param toTokenId The next tier (0 if the path does not exist)
+    /// @param materials The items burned per attempt, besides the item itself
+    /// @param successChance The chance of an attempt to succeed, in basis points
+    /// @param onFailure What happens to the item when the attempt fails
+    struct UpgradePath {
+        uint256 toTokenId;
+        ItemAmount[] materials;
+        uint16 successChance;
+        FailureOutcome onFailure;
+    }
+
+    /// @notice Enhancements waiting for randomness
+    /// @dev Outcomes are fixed on request, so path changes don't affect pending attempts
+    /// @param enhancer The address receiving the resulting item
+    /// @param tokenId The item enhanced
+    /// @param successTokenId The item minted on success
+    /// @param failureTokenId The item minted on failure (0 if destroyed)
+    /// @param successChance The chance of the attempt to succeed, in basis points
+    /// @param provider The provider the request was made to
+    /// @param requestId The ID of the request (0 if the enhancement does not exist)
+    struct PendingEnhancement {
+        address enhancer;
+        uint256 tokenId;
+        uint256 successTokenId;
+        uint256 failureTokenId;
+        uint16 successChance;
+        IRandomnessProvider provider;
+        uint256 requestId;
+    }
+
+    IGameItems private _gameItems;
+    IRandomnessProvider private _randomnessProvider;
+    address payable private _treasury;
+
+    uint256 private _recipeCounter;
+    uint256 private _craftCounter;
+    uint256 private _enhancementCounter;
+
+    /// @notice Mapping from recipe ID to its definition
+    mapping(uint256 recipeId => Recipe) private _recipes;
+
+    /// @notice Mapping from craft ID to the craft waiting for randomness
+    mapping(uint256 craftId => PendingCraft) private _pendingCrafts;
+
+    /// @notice Mapping from equipment tier to its upgrade path
+    mapping(uint256 tokenId => UpgradePath) private _upgradePaths;
+
+    /// @notice Mapping from equipment tier to the tier upgrading into it
+    mapping(uint256 tokenId => uint256) private _previousTiers;
+
+    /// @notice Mapping from enhancement ID to the enhancement waiting for randomness
+    mapping(uint256 enhancementId => PendingEnhancement) private _pendingEnhancements;
+
+    event RecipeSet(uint256 indexed recipeId);
+
+    event RecipeEnabled(uint256 indexed recipeId, bool enabled);
+
+    event Crafted(uint256 indexed recipeId, address indexed crafter, uint32 times, uint32 successes);
+
+    event CraftRequested(
+        uint256 indexed craftId,
+        uint256 indexed recipeId,
+        address indexed crafter,
+        uint32 times,
+        uint256 requestId
+    );
+
+    event CraftSettled(uint256 indexed craftId, uint32 successes);
+
+    event UpgradePathSet(uint256 indexed fromTokenId, uint256 indexed toTokenId);
+
+    event UpgradePathRemoved(uint256 indexed fromTokenId);
+
+    event Enhanced(uint256 indexed tokenId, address indexed enhancer, bool success, uint256 resultTokenId);
+
+    event EnhancementRequested(
+        uint256 indexed enhancementId,
+        uint256 indexed tokenId,
+        address indexed enhancer,
+        uint256 requestId
+    );
+
+    event EnhancementSettled(uint256 indexed enhancementId, bool success);
+
+    event GameItemsSet(address indexed gameItems);
+
+    event RandomnessProviderSet(address indexed randomnessProvider);
+
+    event TreasurySet(address indexed treasury);
+
+    /// @notice Initializes the Forge
+    /// @param gameItems The ERC-1155 contract inputs are burned from and outputs minted on
+    /// @param randomnessProvider The provider success rolls are requested from
+    /// @param treasury The address receiving crafting fees
+    constructor(address gameItems, address randomnessProvider, address payable treasury) Ownable(msg.sender) {
+        require(gameItems != address(0), "Invalid game items");
+        require(randomnessProvider != address(0), "Invalid randomness provider");
+        require(treasury != address(0), "Invalid treasury");
+        _gameItems = IGameItems(gameItems);
+        _randomnessProvider = IRandomnessProvider(randomnessProvider);
+        _treasury = treasury;
+    }
+
+    /// @notice Sets the ERC-1155 contract inputs are burned from and outputs minted on
+    /// @dev Only callable by the contract owner
+    /// @param gameItems The game items contract address
+    function setGameItems(address gameItems) external onlyOwner {
+        require(gameItems != address(0), "Invalid game items");
+        _gameItems = IGameItems(gameItems);
+        emit GameItemsSet(gameItems);
+    }
+
+    /// @notice Sets the provider success rolls are requested from
+    /// @dev Only callable by the contract owner. Pending crafts settle with their original provider.
+    /// @param randomnessProvider The randomness provider address
+    function setRandomnessProvider(address randomnessProvider) external onlyOwner {
+        require(randomnessProvider != address(0), "Invalid randomness provider");
+        _randomnessProvider = IRandomnessProvider(randomnessProvider);
+        emit RandomnessProviderSet(randomnessProvider);
+    }
+
+    /// @notice Sets the address receiving crafting fees
+    /// @dev Only callable by the contract owner
+    /// @param treasury The treasury address
+    function setTreasury(address payable treasury) external onlyOwner {
+        require(treasury != address(0), "Invalid treasury");
+        _treasury = treasury;
+        emit TreasurySet(treasury);
+    }
+
+    /// @notice Registers a recipe
+    /// @dev Only callable by the contract owner. The recipe is enabled.
+    /// @param inputs The items burned per craft
+    /// @param outputs The items minted per successful craft
+    /// @param feeToken The ERC20 the fee is paid in (address(0) for native currency)
+    /// @param fee The fee per craft
+    /// @param successChance The chance of each craft to succeed, in basis points
+    /// @return recipeId The ID of the new recipe
+    function createRecipe(
+        ItemAmount[] calldata inputs,
+        ItemAmount[] calldata outputs,
+        address feeToken,
+        uint256 fee,
+        uint16 successChance
+    ) external onlyOwner returns (uint256 recipeId) {
+        _recipeCounter += 1;
+        recipeId = _recipeCounter;
+        _setRecipe(recipeId, inputs, outputs, feeToken, fee, successChance);
+        _recipes[recipeId].enabled = true;
+        emit RecipeEnabled(recipeId, true);
+    }
+
+    /// @notice Replaces a recipe, keeping its enabled state
+    /// @dev Only callable by the contract owner. Pending crafts settle with the recipe they were requested with.
+    /// @param recipeId The ID of the recipe
+    /// @param inputs The items burned per craft
+    /// @param outputs The items minted per successful craft
+    /// @param feeToken The ERC20 the fee is paid in (address(0) for native currency)
+    /// @param fee The fee per craft
+    /// @param successChance The chance of each craft to succeed, in basis points
+    function setRecipe(
+        uint256 recipeId,
+        ItemAmount[] calldata inputs,
+        ItemAmount[] calldata outputs,
+        address feeToken,
+        uint256 fee,
+        uint16 successChance
+    ) external onlyOwner {
+        require(_recipeExists(recipeId), "Recipe does not exist");
+        _setRecipe(recipeId, inputs, outputs, feeToken, fee, successChance);
+    }
+
+    /// @notice Enables or disables a recipe
+    /// @dev Only callable by the contract owner. Pending crafts of a disabled recipe still settle.
+    /// @param recipeId The ID of the recipe
+    /// @param enabled True to enable, false to disable
+    function setRecipeEnabled(uint256 recipeId, bool enabled) external onlyOwner {
+        require(_recipeExists(recipeId), "Recipe does not exist");
+        _recipes[recipeId].enabled = enabled;
+        emit RecipeEnabled(recipeId, enabled);
+    }
+
+    /// @notice Sets the upgrade path of an equipment tier
+    /// @dev Only callable by the contract owner. Both tiers must be equipment of the same slot, and
+    ///      a tier can only be upgraded into from one tier (its downgrade target).
+    /// @param fromTokenId The tier enhanced
+    /// @param toTokenId The next tier
+    /// @param materials The items burned per attempt, besides the item itself
+    /// @param successChance The chance of an attempt to succeed, in basis points
+    /// @param onFailure What happens to the item when the attempt fails
+    function setUpgradePath(
+        uint256 fromTokenId,
+        uint256 toTokenId,
+        ItemAmount[] calldata materials,
+        uint16 successChance,
+        FailureOutcome onFailure
+    ) external onlyOwner {
+        require(toTokenId != 0 && fromTokenId != toTokenId, "Invalid upgrade path");
+        IEquipable equipment = IEquipable(address(_gameItems));
+        require(
+            equipment.getEquipmentSlot(fromTokenId) == equipment.getEquipmentSlot(toTokenId),
+            "Item slot mismatch"
+        );
+        require(_previousTiers[toTokenId] == 0 || _previousTiers[toTokenId] == fromTokenId, "Tier already linked");
+        require(materials.length <= MAX_ITEMS, "Invalid materials");
+        require(successChance > 0 && successChance <= BPS, "Invalid success chance");
+        require(onFailure != FailureOutcome.Downgrade || _previousTiers[fromTokenId] != 0, "No tier to downgrade to");
+
+        UpgradePath storage path = _upgradePaths[fromTokenId];
+        if (path.toTokenId != 0) {
+            delete _previousTiers[path.toTokenId];
+        }
+        delete path.materials;
+        for (uint256 i = 0; i < materials.length; i++) {
+            require(materials[i].amount > 0, "Invalid amount");
+            path.materials.push(materials[i]);
+        }
+        path.toTokenId = toTokenId;
+        path.successChance = successChance;
+        path.onFailure = onFailure;
+        _previousTiers[toTokenId] = fromTokenId;
+
+        emit UpgradePathSet(fromTokenId, toTokenId);
+    }
+
+    /// @notice Removes the upgrade path of an equipment tier
+    /// @dev Only callable by the contract owner. Pending enhancements still settle. The next tier
+    ///      loses its previous tier, so its Downgrade failures destroy the item from then on.
+    /// @param fromTokenId The tier enhanced
+    function removeUpgradePath(uint256 fromTokenId) external onlyOwner {
+        UpgradePath storage path = _upgradePaths[fromTokenId];
+        require(path.toTokenId != 0, "Upgrade path does not exist");
+        delete _previousTiers[path.toTokenId];
+        delete _upgradePaths[fromTokenId];
+        emit UpgradePathRemoved(fromTokenId);
+    }
+
+    /// @notice Crafts a recipe one or more times
+    /// @dev Burns inputs * times from the caller and charges fee * times (msg.value for native fees,
+    ///      ERC20 allowance otherwise). Outputs are minted right away for recipes that always succeed.
+    /// @param recipeId The ID of the recipe
+    /// @param times The number of crafts
+    /// @return craftId The ID of the pending craft (0 if the outputs were minted right away)
+    function craft(uint256 recipeId, uint32 times) external payable returns (uint256 craftId) {
+        require(_recipeExists(recipeId), "Recipe does not exist");
+        Recipe storage recipe = _recipes[recipeId];
+        require(recipe.enabled, "Recipe disabled");
+        require(times > 0 && times <= MAX_CRAFT_TIMES, "Invalid times");
+
+        for (uint256 i = 0; i < recipe.inputs.length; i++) {
+            _gameItems.burn(msg.sender, recipe.inputs[i].tokenId, recipe.inputs[i].amount * times);
+        }
+        _chargeFee(recipe.feeToken, recipe.fee * times);
+
+        if (recipe.successChance == BPS) {
+            _mintOutputs(recipe.outputs, msg.sender, times);
+            emit Crafted(recipeId, msg.sender, times, times);
+            return 0;
+        }
+
+        IRandomnessProvider provider = _randomnessProvider;
+        uint256 requestId = provider.requestRandomness(bytes32(0));
+        _craftCounter += 1;
+        craftId = _craftCounter;
+        PendingCraft storage pendingCraft = _pendingCrafts[craftId];
+        pendingCraft.crafter = msg.sender;
+        pendingCraft.recipeId = recipeId;
+        pendingCraft.times = times;
+        pendingCraft.successChance = recipe.successChance;
+        for (uint256 i = 0; i < recipe.outputs.length; i++) {
+            pendingCraft.outputs.push(recipe.outputs[i]);
+        }
+        pendingCraft.provider = provider;
+        pendingCraft.requestId = requestId;
+
+        emit CraftRequested(craftId, recipeId, msg.sender, times, requestId);
+    }
+
+    /// @notice Settles a pending craft once its randomness is fulfilled
+    /// @dev Anyone can settle; the outputs of the successful crafts go to the crafter
+    /// @param craftId The ID of the pending craft
+    function settleCraft(uint256 craftId) external {
+        PendingCraft memory pendingCraft = _pendingCrafts[craftId];
+        require(pendingCraft.requestId != 0, "Craft does not exist");
+        require(pendingCraft.provider.isFulfilled(pendingCraft.requestId), "Randomness not fulfilled");
+
+        delete _pendingCrafts[craftId];
+        uint256 randomWord = pendingCraft.provider.getRandomWord(pendingCraft.requestId);
+
+        uint32 successes;
+        for (uint256 i = 0; i < pendingCraft.times; i++) {
+            if (uint256(keccak256(abi.encode(randomWord, i))) % BPS < pendingCraft.successChance) {
+                successes += 1;
+            }
+        }
+        if (successes > 0) {
+            _mintOutputs(pendingCraft.outputs, pendingCraft.crafter, successes);
+        }
+
+        emit CraftSettled(craftId, successes);
+        emit Crafted(pendingCraft.recipeId, pendingCraft.crafter, pendingCraft.times, successes);
+    }
+
+    /// @notice Attempts to enhance an equipment item to its next tier
+    /// @dev Burns one item and the path materials from the caller. Paths that always succeed mint
+    ///      the next tier right away; otherwise the attempt is settled once its randomness is fulfilled.
+    /// @param tokenId The tier enhanced
+    /// @return enhancementId The ID of the pending enhancement (0 if resolved right away)
+    function enhance(uint256 tokenId) external returns (uint256 enhancementId) {
+        UpgradePath storage path = _upgradePaths[tokenId];
+        require(path.toTokenId != 0, "Upgrade path does not exist");
+
+        _gameItems.burn(msg.sender, tokenId, 1);
+        for (uint256 i = 0; i < path.materials.length; i++) {
+            _gameItems.burn(msg.sender, path.materials[i].tokenId, path.materials[i].amount);
+        }
+
+        if (path.successChance == BPS) {
+            _gameItems.mint(msg.sender, path.toTokenId, 1);
+            emit Enhanced(tokenId, msg.sender, true, path.toTokenId);
+            return 0;
+        }
+
+        uint256 failureTokenId;
+        if (path.onFailure == FailureOutcome.Keep) {
+            failureTokenId = tokenId;
+        } else if (path.onFailure == FailureOutcome.Downgrade) {
+            failureTokenId = _previousTiers[tokenId];
+        }
+
+        IRandomnessProvider provider = _randomnessProvider;
+        uint256 requestId = provider.requestRandomness(bytes32(0));
+        _enhancementCounter += 1;
+        enhancementId = _enhancementCounter;
+        _pendingEnhancements[enhancementId] = PendingEnhancement({
+            enhancer: msg.sender,
+            tokenId: tokenId,
+            successTokenId: path.toTokenId,
+            failureTokenId: failureTokenId,
+            successChance: path.successChance,
+            provider: provider,
+            requestId: requestId
+        });
+
+        emit EnhancementRequested(enhancementId, tokenId, msg.sender, requestId);
+    }
+
+    /// @notice Settles a pending enhancement once its randomness is fulfilled
+    /// @dev Anyone can settle; the resulting item goes to the enhancer
+    /// @param enhancementId The ID of the pending enhancement
+    function settleEnhancement(uint256 enhancementId) external {
+        PendingEnhancement memory pending = _pendingEnhancements[enhancementId];
+        require(pending.requestId != 0, "Enhancement does not exist");
+        require(pending.provider.isFulfilled(pending.requestId), "Randomness not fulfilled");
+
+        delete _pendingEnhancements[enhancementId];
+        uint256 randomWord = pending.provider.getRandomWord(pending.requestId);
+
+        bool success = randomWord % BPS < pending.successChance;
+        uint256 resultTokenId = success ? pending.successTokenId : pending.failureTokenId;
+        if (resultTokenId != 0) {
+            _gameItems.mint(pending.enhancer, resultTokenId, 1);
+        }
+
+        emit EnhancementSettled(enhancementId, success);
+        emit Enhanced(pending.tokenId, pending.enhancer, success, resultTokenId);
+    }
+
+    /// @notice Returns a recipe
+    /// @param recipeId The ID of the recipe
+    /// @return The Recipe struct
+    function getRecipe(uint256 recipeId) external view returns (Recipe memory) {
+        require(_recipeExists(recipeId), "Recipe does not exist");
+        return _recipes[recipeId];
+    }
+
+    /// @notice Returns a craft waiting for randomness
+    /// @param craftId The ID of the craft
+    /// @return The PendingCraft struct (requestId is 0 once settled or if unknown)
+    function getPendingCraft(uint256 craftId) external view returns (PendingCraft memory) {
+        return _pendingCrafts[craftId];
+    }
+
+    /// @notice Returns the upgrade path of an equipment tier
+    /// @param fromTokenId The tier enhanced
+    /// @return The UpgradePath struct
+    function getUpgradePath(uint256 fromTokenId) external view returns (UpgradePath memory) {
+        require(_upgradePaths[fromTokenId].toTokenId != 0, "Upgrade path does not exist");
+        return _upgradePaths[fromTokenId];
+    }
+
+    /// @notice Returns the tier upgrading into an equipment tier
+    /// @param tokenId The tier
+    /// @return The previous tier (0 for a base tier)
+    function getPreviousTier(uint256 tokenId) external view returns (uint256) {
+        return _previousTiers[tokenId];
+    }
+
+    /// @notice Returns an enhancement waiting for randomness
+    /// @param enhancementId The ID of the enhancement
+    /// @return The PendingEnhancement struct (requestId is 0 once settled or if unknown)
+    function getPendingEnhancement(uint256 enhancementId) external view returns (PendingEnhancement memory) {
+        return _pendingEnhancements[enhancementId];
+    }
+
+    /// @notice Returns the total number of recipes registered
+    /// @return The current recipe counter value
+    function getRecipeCounter() external view returns (uint256) {
+        return _recipeCounter;
+    }
+
+    /// @notice Returns the ERC-1155 contract inputs are burned from and outputs minted on
+    /// @return The game items contract address
+    function getGameItems() external view returns (address) {
+        return address(_gameItems);
+    }
+
+    /// @notice Returns the provider success rolls are requested from
+    /// @return The randomness provider address
+    function getRandomnessProvider() external view returns (address) {
+        return address(_randomnessProvider);
+    }
+
+    /// @notice Returns the address receiving crafting fees
+    /// @return The treasury address
+    function getTreasury() external view returns (address) {
+        return _treasury;
+    }
+
+    /// @notice Validates and stores a recipe
+    /// @param recipeId The ID of the recipe
+    /// @param inputs The items burned per craft
+    /// @param outputs The items minted per successful craft
+    /// @param feeToken The ERC20 the fee is paid in (address(0) for native currency)
+    /// @param fee The fee per craft
+    /// @param successChance The chance of each craft to succeed, in basis points
+    function _setRecipe(
+        uint256 recipeId,
+        ItemAmount[] calldata inputs,
+        ItemAmount[] calldata outputs,
+        address feeToken,
+        uint256 fee,
+        uint16 successChance
+    ) internal {
+        require(inputs.length > 0 && inputs.length <= MAX_ITEMS, "Invalid inputs");
+        require(outputs.length > 0 && outputs.length <= MAX_ITEMS, "Invalid outputs");
+        require(successChance > 0 && successChance <= BPS, "Invalid success chance");
+
+        Recipe storage recipe = _recipes[recipeId];
+        delete recipe.inputs;
+        delete recipe.outputs;
+        for (uint256 i = 0; i < inputs.length; i++) {
+            require(inputs[i].amount > 0, "Invalid amount");
+            recipe.inputs.push(inputs[i]);
+        }
+        for (uint256 i = 0; i < outputs.length; i++) {
+            require(outputs[i].amount > 0, "Invalid amount");
+            recipe.outputs.push(outputs[i]);
+        }
+        recipe.feeToken = feeToken;
+        recipe.fee = fee;
+        recipe.successChance = successChance;
+
+        emit RecipeSet(recipeId);
+    }
+
+    /// @notice Charges a crafting fee and forwards it to the treasury
+    /// @param feeToken The ERC20 the fee is paid in (address(0) for native currency)
+    /// @param amount The total fee
+    function _chargeFee(address feeToken, uint256 amount) internal {
+        if (feeToken == address(0)) {
+            require(msg.value == amount, "Incorrect fee");
+            if (amount > 0) {
+                (bool sent, ) = _treasury.call{ value: amount }("");
+                require(sent, "Fee transfer failed");
+            }
+            return;
+        }
+
+        require(msg.value == 0, "Incorrect fee");
+        if (amount > 0) {
+            IERC20(feeToken).safeTransferFrom(msg.sender, _treasury, amount);
+        }
+    }
+
+    /// @notice Mints the outputs of a craft
+    /// @param outputs The items minted per successful craft
+    /// @param to Address receiving the outputs
+    /// @param times The number of successful crafts
+    function _mintOutputs(ItemAmount[] memory outputs, address to, uint256 times) internal {
+        for (uint256 i = 0; i < outputs.length; i++) {
+            _gameItems.mint(to, outputs[i].tokenId, outputs[i].amount * times);
+        }
+    }
+
+    /// @notice Checks if a recipe exists
+    /// @param recipeId The ID of the recipe
+    /// @return True if the recipe was registered
+    function _recipeExists(uint256 recipeId) internal view returns (bool) {
+        return recipeId > 0 && recipeId <= _recipeCounter;
+    }
+}
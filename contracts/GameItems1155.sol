@@ -0,0 +1,251 @@
+// contracts/GameItems1155.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./interfaces/IGameItems.sol";
+import "./interfaces/IEquipable.sol";
+import "./ItemStats.sol";
+
+/// @title GameItems1155
+/// @notice ERC-1155 of every game item: resources (gold, ores), consumables and equipment
+/// @dev Token ids follow the DESIGNDOC id ranges, which also give the category (and slot) of an item:
+/// @dev 1-499 resources, 500-999 consumables, 1000-1999 weapons, 2000-2999 armor, 3000-3999 relics,
+///      4000-4999 helmets, 5000-5999 boots, 6000-6999 rings, 7000-7999 tools
+/// @dev Item types must be created by the admin before they can be minted. Minting is scoped per
+///      category: game systems get the minter role of the categories they drop (e.g. MineSystem
+///      needs the equipment minter role once its loot tables drop equipment).
+/// @dev Implements IEquipable for the equipment ids, so it can be used as the Player equipment contract
+/// @dev Holders and approved operators can burn items (repairs, crafting inputs)
+contract GameItems1155 is ERC1155Burnable, AccessControl, IGameItems, IEquipable {
+    using Strings for uint256;
+
+    /// @notice Item categories, derived from the token id range
+    enum Category {
+        None,
+        Resource,
+        Consumable,
+        Equipment
+    }
+
+    /// @notice Role allowed to mint resources
+    bytes32 public constant RESOURCE_MINTER_ROLE = keccak256("RESOURCE_MINTER_ROLE");
+
+    /// @notice Role allowed to mint consumables
+    bytes32 public constant CONSUMABLE_MINTER_ROLE = keccak256("CONSUMABLE_MINTER_ROLE");
+
+    /// @notice Role allowed to mint equipment
+    bytes32 public constant EQUIPMENT_MINTER_ROLE = keccak256("EQUIPMENT_MINTER_ROLE");
+
+    /// @notice First token id of each range (resources start at 1)
+    uint256 public constant CONSUMABLE_ID_START = 500;
+    uint256 public constant WEAPON_ID_START = 1000;
+    uint256 public constant ARMOR_ID_START = 2000;
+    uint256 public constant RELIC_ID_START = 3000;
+    uint256 public constant HELMET_ID_START = 4000;
+    uint256 public constant BOOTS_ID_START = 5000;
+    uint256 public constant RING_ID_START = 6000;
+    uint256 public constant TOOL_ID_START = 7000;
+    uint256 public constant ID_END = 8000;
+
+    /// @notice Structure of a created item type
+    /// @param exists Whether the item type was created
+    /// @param itemData ItemStats encoded data for equipment, free-form metadata otherwise
+    struct ItemType {
+        bool exists;
+        bytes itemData;
+    }
+
+    // Mapping: token id => item type
+    mapping(uint256 => ItemType) private _itemTypes;
+
+    // Base URI for token metadata
+    string private _baseTokenURI;
+
+    event ItemTypeCreated(uint256 indexed id, Category indexed category, bytes itemData);
+
+    constructor(
+        string memory _uri,
+        address admin
+    ) ERC1155(_uri) {
+        _baseTokenURI = _uri;
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+
+    /// @notice Create an item type
+    /// @dev Only callable by the admin. Equipment item data must be a valid ItemStats payload.
+    /// @param id The token id, which sets the category of the item
+    /// @param itemData The item data
+    function createItemType(uint256 id, bytes calldata itemData) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _createItemType(id, itemData);
+    }
+
+    /// @notice Batch create item types
+    /// @dev Only callable by the admin
+    /// @param ids The token ids
+    /// @param itemDataArray The item data of each token id
+    function batchCreateItemTypes(
+        uint256[] calldata ids,
+        bytes[] calldata itemDataArray
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(ids.length == itemDataArray.length, "Array length mismatch");
+        for (uint256 i = 0; i < ids.length; i++) {
+            _createItemType(ids[i], itemDataArray[i]);
+        }
+    }
+
+    /// @notice Mint game items
+    /// @dev Only callable by accounts with the minter role of the item category
+    /// @param to Address receiving the items
+    /// @param id The token id to mint
+    /// @param amount The amount to mint
+    function mint(address to, uint256 id, uint256 amount) external {
+        require(_itemTypes[id].exists, "Token type does not exist");
+        _checkRole(getMinterRole(getCategory(id)));
+        _mint(to, id, amount, "");
+    }
+
+    /// @notice Returns whether an account is allowed to mint a token id
+    /// @param account The address minting
+    /// @param id The token id
+    /// @return True if the item type exists and the account has the minter role of its category
+    function canMint(address account, uint256 id) external view returns (bool) {
+        return _itemTypes[id].exists && hasRole(getMinterRole(getCategory(id)), account);
+    }
+
+    /// @notice Burn game items
+    /// @dev Only callable by the holder or an approved operator
+    /// @param from Address holding the items
+    /// @param id The token id to burn
+    /// @param amount The amount to burn
+    function burn(address from, uint256 id, uint256 amount) public override(ERC1155Burnable, IGameItems) {
+        super.burn(from, id, amount);
+    }
+
+    /// @notice Set base URI for token metadata
+    function setURI(string memory newuri) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setURI(newuri);
+        _baseTokenURI = newuri;
+    }
+
+    /// @notice Get the equipment slot of an equipment item
+    function getEquipmentSlot(uint256 id)
+        external
+        view
+        override
+        returns (EquipmentSlot.Slot)
+    {
+        require(_itemTypes[id].exists, "Token type does not exist");
+        require(getCategory(id) == Category.Equipment, "Not an equipment item");
+        if (id < ARMOR_ID_START) {
+            return EquipmentSlot.Slot.WEAPON;
+        }
+        if (id < RELIC_ID_START) {
+            return EquipmentSlot.Slot.ARMOR;
+        }
+        if (id < HELMET_ID_START) {
+            return EquipmentSlot.Slot.RELIC;
+        }
+        if (id < BOOTS_ID_START) {
+            return EquipmentSlot.Slot.HELMET;
+        }
+        if (id < RING_ID_START) {
+            return EquipmentSlot.Slot.BOOTS;
+        }
+        if (id < TOOL_ID_START) {
+            return EquipmentSlot.Slot.RING;
+        }
+        return EquipmentSlot.Slot.TOOL;
+    }
+
+    /// @notice Get item data of an item type
+    function getItemData(uint256 id)
+        external
+        view
+        override
+        returns (bytes memory)
+    {
+        require(_itemTypes[id].exists, "Token type does not exist");
+        return _itemTypes[id].itemData;
+    }
+
+    /// @notice Get the decoded stats of an equipment item
+    /// @param id The token id
+    /// @return The decoded ItemStats (all zero for items without stats)
+    function getItemStats(uint256 id) external view returns (ItemStats.Stats memory) {
+        require(_itemTypes[id].exists, "Token type does not exist");
+        require(getCategory(id) == Category.Equipment, "Not an equipment item");
+        return ItemStats.decode(_itemTypes[id].itemData);
+    }
+
+    /// @notice Check if an item type exists
+    function tokenTypeExists(uint256 id) external view returns (bool) {
+        return _itemTypes[id].exists;
+    }
+
+    /// @notice Get the category of a token id
+    /// @param id The token id
+    /// @return The category (None for ids outside the ranges)
+    function getCategory(uint256 id) public pure returns (Category) {
+        if (id == 0 || id >= ID_END) {
+            return Category.None;
+        }
+        if (id < CONSUMABLE_ID_START) {
+            return Category.Resource;
+        }
+        if (id < WEAPON_ID_START) {
+            return Category.Consumable;
+        }
+        return Category.Equipment;
+    }
+
+    /// @notice Get the role allowed to mint a category
+    /// @param category The item category
+    /// @return The minter role of the category
+    function getMinterRole(Category category) public pure returns (bytes32) {
+        if (category == Category.Resource) {
+            return RESOURCE_MINTER_ROLE;
+        }
+        if (category == Category.Consumable) {
+            return CONSUMABLE_MINTER_ROLE;
+        }
+        require(category == Category.Equipment, "Invalid category");
+        return EQUIPMENT_MINTER_ROLE;
+    }
+
+    /// @notice Get token URI
+    function uri(uint256 id) public view override returns (string memory) {
+        return bytes(_baseTokenURI).length > 0
+            ? string(abi.encodePacked(_baseTokenURI, id.toString()))
+            : "";
+    }
+
+    /// @notice ERC165 support - resolves conflict between ERC1155 and AccessControl
+    function supportsInterface(bytes4 interfaceId)
+        public
+        view
+        override(ERC1155, AccessControl)
+        returns (bool)
+    {
+        return interfaceId == type(IEquipable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @notice Validate and store an item type
+    /// @param id The token id
+    /// @param itemData The item data
+    function _createItemType(uint256 id, bytes calldata itemData) internal {
+        Category category = getCategory(id);
+        require(category != Category.None, "Invalid token id");
+        require(!_itemTypes[id].exists, "Item type already exists");
+        if (category == Category.Equipment) {
+            ItemStats.decode(itemData);
+        }
+
+        _itemTypes[id] = ItemType({ exists: true, itemData: itemData });
+
+        emit ItemTypeCreated(id, category, itemData);
+    }
+}
@@ -0,0 +1,36 @@
+// contracts/GameSystemAccess.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/// @title GameSystemAccess
+/// @notice Tracks which game systems (MineSystem, ProgressionSystem, ...) are authorized
+///         to call privileged hooks of a contract
+/// @dev The inheriting contract decides who can authorize systems by exposing _setGameSystem
+abstract contract GameSystemAccess {
+    // Mapping: game system address => authorized
+    mapping(address => bool) private _gameSystems;
+
+    event GameSystemSet(address indexed system, bool authorized);
+
+    /// @notice Restricts a function to authorized game systems
+    modifier onlyGameSystem() {
+        require(_gameSystems[msg.sender], "Not a game system");
+        _;
+    }
+
+    /// @notice Authorize or revoke a game system
+    /// @param system The game system address
+    /// @param authorized True to authorize, false to revoke
+    function _setGameSystem(address system, bool authorized) internal {
+        require(system != address(0), "Invalid game system");
+        _gameSystems[system] = authorized;
+        emit GameSystemSet(system, authorized);
+    }
+
+    /// @notice Check if an address is an authorized game system
+    /// @param system The address to check
+    /// @return True if the address is an authorized game system
+    function isGameSystem(address system) public view returns (bool) {
+        return _gameSystems[system];
+    }
+}
@@ -0,0 +1,88 @@
+// contracts/ItemStats.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/// @title ItemStats
+/// @notice Typed, versioned schema of the item data stored for each equipment token type
+/// @dev Item data is `abi.encode(uint8 version, Stats stats)`. Empty item data means the item has no stats.
+///      The TypeScript mirror used by the tests lives in test/helpers/itemStats.ts.
+library ItemStats {
+    /// @notice Current version of the item data schema
+    uint8 internal constant VERSION = 1;
+
+    /// @notice Length in bytes of version 1 item data (version word + 16 stat words)
+    uint256 internal constant ENCODED_LENGTH = 17 * 32;
+
+    /// @notice Thrown when item data does not match the schema layout
+    error MalformedItemData();
+
+    /// @notice Thrown when item data was encoded with an unknown schema version
+    error UnsupportedItemDataVersion(uint256 version);
+
+    enum Rarity {
+        Common,
+        Uncommon,
+        Rare,
+        Epic,
+        Legendary
+    }
+
+    /// @notice Stat modifiers granted by an item while equipped
+    /// @dev Chances, resistances and loot bonus are in basis points (10_000 = 100%)
+    struct Modifiers {
+        uint32 damage;
+        uint32 hp;
+        uint32 mana;
+        uint32 critChance;
+        uint32 dodgeChance;
+        uint32 physicalResist;
+        uint32 magicResist;
+        uint32 lootBonus;
+        uint32 trapAvoidChance;
+    }
+
+    /// @notice Minimum attributes a character needs to equip an item
+    /// @dev Same units as Player.Attributes
+    struct Requirements {
+        uint64 strength;
+        uint64 dexterity;
+        uint64 intelligence;
+        uint64 luck;
+        uint64 constitution;
+    }
+
+    /// @notice Decoded stats of an item
+    struct Stats {
+        Rarity rarity;
+        uint16 requiredLevel;
+        Modifiers modifiers;
+        Requirements requirements;
+    }
+
+    /// @notice Encodes item stats with the current schema version
+    /// @param stats The item stats
+    /// @return The encoded item data
+    function encode(Stats memory stats) internal pure returns (bytes memory) {
+        return abi.encode(VERSION, stats);
+    }
+
+    /// @notice Decodes item data
+    /// @dev Reverts with MalformedItemData or UnsupportedItemDataVersion on invalid payloads
+    /// @param data The encoded item data
+    /// @return stats The decoded stats (all zero for empty item data)
+    function decode(bytes memory data) internal pure returns (Stats memory stats) {
+        if (data.length == 0) {
+            return stats;
+        }
+        if (data.length < 32) revert MalformedItemData();
+
+        uint256 version;
+        assembly {
+            version := mload(add(data, 32))
+        }
+        if (version != VERSION) revert UnsupportedItemDataVersion(version);
+        if (data.length != ENCODED_LENGTH) revert MalformedItemData();
+
+        (, stats) = abi.decode(data, (uint8, Stats));
+    }
+}
@@ -0,0 +1,260 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./GameSystemAccess.sol";
+import "./interfaces/IGameItems.sol";
+
+/// @title LootTable - Registry of weighted loot tables
+/// @author KusaMine Team
+/// @notice The owner defines loot tables (token id, amount range, weight per entry) and assigns
+///         them to depth bands of mines. Drawing a table picks one entry from a random seed;
+///         rolling a table also mints the drop through the game items contract.
+/// @dev LUCK shifts the odds: each entry weighs weight + LUCK * luckWeight, so entries with a
+///      luckWeight (rare ores, equipment) become more likely for lucky characters.
+///      An entry with a zero amount range is a "nothing" drop.
+///      Must hold the minter roles of the item categories it drops for roll.
+contract LootTable is Ownable, GameSystemAccess {
+    /// @notice Maximum number of entries of a table
+    uint256 public constant MAX_ENTRIES = 32;
+
+    /// @notice A possible drop of a loot table
+    /// @param tokenId The ERC-1155 token id dropped
+    /// @param minAmount The minimum amount dropped
+    /// @param maxAmount The maximum amount dropped
+    /// @param weight The base weight of the entry
+    /// @param luckWeight The weight added per LUCK point
+    struct LootEntry {
+        uint256 tokenId;
+        uint32 minAmount;
+        uint32 maxAmount;
+        uint32 weight;
+        uint32 luckWeight;
+    }
+
+    /// @notice A depth band of a mine and the table it drops from
+    /// @param minDepth The first depth of the band
+    /// @param maxDepth The last depth of the band
+    /// @param tableId The loot table of the band
+    struct DepthBand {
+        uint8 minDepth;
+        uint8 maxDepth;
+        uint256 tableId;
+    }
+
+    IGameItems private _gameItems;
+
+    uint256 private _tableCounter;
+
+    /// @notice Mapping from table ID to its entries
+    mapping(uint256 tableId => LootEntry[]) private _entries;
+
+    /// @notice Mapping from mine ID to its depth bands
+    mapping(uint256 mineId => DepthBand[]) private _mineBands;
+
+    event TableCreated(uint256 indexed tableId);
+
+    event TableEntriesSet(uint256 indexed tableId, LootEntry[] entries);
+
+    event MineTableSet(uint256 indexed mineId, uint8 minDepth, uint8 maxDepth, uint256 indexed tableId);
+
+    event MineTablesCleared(uint256 indexed mineId);
+
+    event LootRolled(uint256 indexed tableId, address indexed to, uint256 tokenId, uint256 amount);
+
+    event GameItemsSet(address indexed gameItems);
+
+    /// @notice Initializes the LootTable registry
+    /// @param gameItems The ERC-1155 contract drops are minted through
+    constructor(address gameItems) Ownable(msg.sender) {
+        require(gameItems != address(0), "Invalid game items");
+        _gameItems = IGameItems(gameItems);
+    }
+
+    /// @notice Authorizes or revokes a game system allowed to roll tables
+    /// @dev Only callable by the contract owner
+    /// @param system The game system address
+    /// @param authorized True to authorize, false to revoke
+    function setGameSystem(address system, bool authorized) external onlyOwner {
+        _setGameSystem(system, authorized);
+    }
+
+    /// @notice Sets the ERC-1155 contract drops are minted through
+    /// @dev Only callable by the contract owner
+    /// @param gameItems The game items contract address
+    function setGameItems(address gameItems) external onlyOwner {
+        require(gameItems != address(0), "Invalid game items");
+        _gameItems = IGameItems(gameItems);
+        emit GameItemsSet(gameItems);
+    }
+
+    /// @notice Creates a loot table
+    /// @dev Only callable by the contract owner
+    /// @param entries The entries of the table
+    /// @return tableId The ID of the new table
+    function createTable(LootEntry[] calldata entries) external onlyOwner returns (uint256 tableId) {
+        _tableCounter += 1;
+        tableId = _tableCounter;
+        emit TableCreated(tableId);
+        _setEntries(tableId, entries);
+    }
+
+    /// @notice Replaces the entries of a loot table
+    /// @dev Only callable by the contract owner
+    /// @param tableId The ID of the table
+    /// @param entries The new entries of the table
+    function setEntries(uint256 tableId, LootEntry[] calldata entries) external onlyOwner {
+        require(_tableExists(tableId), "Table does not exist");
+        _setEntries(tableId, entries);
+    }
+
+    /// @notice Assigns a loot table to a depth band of a mine
+    /// @dev Only callable by the contract owner. Bands of a mine cannot overlap.
+    /// @param mineId The mine ID (as registered in the MineSystem)
+    /// @param minDepth The first depth of the band
+    /// @param maxDepth The last depth of the band
+    /// @param tableId The loot table of the band
+    function setMineTable(uint256 mineId, uint8 minDepth, uint8 maxDepth, uint256 tableId) external onlyOwner {
+        require(minDepth > 0 && minDepth <= maxDepth, "Invalid depth band");
+        require(_tableExists(tableId), "Table does not exist");
+
+        DepthBand[] storage bands = _mineBands[mineId];
+        for (uint256 i = 0; i < bands.length; i++) {
+            require(maxDepth < bands[i].minDepth || minDepth > bands[i].maxDepth, "Overlapping depth band");
+        }
+        bands.push(DepthBand({ minDepth: minDepth, maxDepth: maxDepth, tableId: tableId }));
+
+        emit MineTableSet(mineId, minDepth, maxDepth, tableId);
+    }
+
+    /// @notice Removes every depth band of a mine
+    /// @dev Only callable by the contract owner
+    /// @param mineId The mine ID
+    function clearMineTables(uint256 mineId) external onlyOwner {
+        delete _mineBands[mineId];
+        emit MineTablesCleared(mineId);
+    }
+
+    /// @notice Draws a drop from a loot table and mints it
+    /// @dev Only callable by authorized game systems
+    /// @param tableId The ID of the table
+    /// @param to Address receiving the drop
+    /// @param luck The LUCK attribute of the character
+    /// @param seed The random seed
+    /// @return tokenId The token id dropped
+    /// @return amount The amount dropped (0 for a "nothing" drop)
+    function roll(
+        uint256 tableId,
+        address to,
+        uint256 luck,
+        uint256 seed
+    ) external onlyGameSystem returns (uint256 tokenId, uint256 amount) {
+        (tokenId, amount) = draw(tableId, luck, seed);
+        if (amount > 0) {
+            _gameItems.mint(to, tokenId, amount);
+        }
+        emit LootRolled(tableId, to, tokenId, amount);
+    }
+
+    /// @notice Draws a drop from a loot table without minting it
+    /// @dev The low 128 bits of the seed pick the entry, the high 128 bits pick the amount
+    /// @param tableId The ID of the table
+    /// @param luck The LUCK attribute of the character
+    /// @param seed The random seed
+    /// @return tokenId The token id dropped
+    /// @return amount The amount dropped (0 for a "nothing" drop)
+    function draw(uint256 tableId, uint256 luck, uint256 seed) public view returns (uint256 tokenId, uint256 amount) {
+        require(_tableExists(tableId), "Table does not exist");
+        LootEntry[] storage entries = _entries[tableId];
+
+        uint256 totalWeight;
+        for (uint256 i = 0; i < entries.length; i++) {
+            totalWeight += _weightOf(entries[i], luck);
+        }
+
+        uint256 pick = uint128(seed) % totalWeight;
+        for (uint256 i = 0; i < entries.length; i++) {
+            uint256 weight = _weightOf(entries[i], luck);
+            if (pick < weight) {
+                LootEntry storage entry = entries[i];
+                uint256 range = uint256(entry.maxAmount) - entry.minAmount + 1;
+                return (entry.tokenId, entry.minAmount + (seed >> 128) % range);
+            }
+            pick -= weight;
+        }
+    }
+
+    /// @notice Returns the loot table of a mine at a depth
+    /// @param mineId The mine ID
+    /// @param depth The depth
+    /// @return The table ID (0 if no band covers the depth)
+    function getTableId(uint256 mineId, uint8 depth) external view returns (uint256) {
+        DepthBand[] storage bands = _mineBands[mineId];
+        for (uint256 i = 0; i < bands.length; i++) {
+            if (depth >= bands[i].minDepth && depth <= bands[i].maxDepth) {
+                return bands[i].tableId;
+            }
+        }
+        return 0;
+    }
+
+    /// @notice Returns the entries of a loot table
+    /// @param tableId The ID of the table
+    /// @return The LootEntry array
+    function getEntries(uint256 tableId) external view returns (LootEntry[] memory) {
+        require(_tableExists(tableId), "Table does not exist");
+        return _entries[tableId];
+    }
+
+    /// @notice Returns the depth bands of a mine
+    /// @param mineId The mine ID
+    /// @return The DepthBand array
+    function getMineBands(uint256 mineId) external view returns (DepthBand[] memory) {
+        return _mineBands[mineId];
+    }
+
+    /// @notice Returns the total number of tables created
+    /// @return The current table counter value
+    function getTableCounter() external view returns (uint256) {
+        return _tableCounter;
+    }
+
+    /// @notice Returns the ERC-1155 contract drops are minted through
+    /// @return The game items contract address
+    function getGameItems() external view returns (address) {
+        return address(_gameItems);
+    }
+
+    /// @notice Validates and stores the entries of a table
+    /// @param tableId The ID of the table
+    /// @param entries The entries of the table
+    function _setEntries(uint256 tableId, LootEntry[] calldata entries) internal {
+        require(entries.length > 0 && entries.length <= MAX_ENTRIES, "Invalid entry count");
+
+        delete _entries[tableId];
+        uint256 totalWeight;
+        for (uint256 i = 0; i < entries.length; i++) {
+            require(entries[i].minAmount <= entries[i].maxAmount, "Invalid amount range");
+            totalWeight += entries[i].weight;
+            _entries[tableId].push(entries[i]);
+        }
+        require(totalWeight > 0, "Weights sum to zero");
+
+        emit TableEntriesSet(tableId, entries);
+    }
+
+    /// @notice Returns the weight of an entry for a LUCK value
+    /// @param entry The loot entry
+    /// @param luck The LUCK attribute of the character
+    /// @return The effective weight
+    function _weightOf(LootEntry storage entry, uint256 luck) internal view returns (uint256) {
+        return entry.weight + luck * entry.luckWeight;
+    }
+
+    /// @notice Checks if a table exists
+    /// @param tableId The ID of the table
+    /// @return True if the table was created
+    function _tableExists(uint256 tableId) internal view returns (bool) {
+        return tableId > 0 && tableId <= _tableCounter;
+    }
+}
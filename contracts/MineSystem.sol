@@ -0,0 +1,624 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./Player.sol";
+import "./StatsEngine.sol";
+import "./LootTable.sol";
+import "./Combat.sol";
+import "./interfaces/IProgressionSystem.sol";
+import "./interfaces/IGameItems.sol";
+import "./interfaces/IRandomnessProvider.sol";
+
+/// @title MineSystem - Step-based mine runs for KusaMine characters
+/// @author KusaMine Team
+/// @notice Characters enter a mine at a chosen depth, advance one encounter at a time
+///         and only receive the loot they gathered once they exit the mine.
+///         Each step is two transactions: requestAdvance asks the randomness provider for a
+///         random word, advance resolves the encounter once the word is available.
+/// @dev Run state is keyed by the Player token ID. Loot is accumulated as pending
+///      amounts and minted through the game items contract on exitMine.
+///      Must be an authorized game system on Player: the character's equipment is
+///      locked for the whole run. HP, trap avoidance and loot bonus come from the StatsEngine.
+///      A character cannot exit with a step pending, so a player cannot dodge a bad outcome by
+///      leaving; a step that is never fulfilled can only be escaped with abandonRun.
+///      Mining nodes drop from the LootTable of the mine's depth band when one is set, iron otherwise.
+///      Monsters are fought through the Combat module when one is set: a win awards the monster's XP
+///      through the Player's ProgressionSystem (this contract must be a game system there and on
+///      Combat) and drops from the monster's loot table, or gold by default.
+///      Steps wear the equipment used: mining nodes wear the tool, fights the weapon and armor.
+contract MineSystem is Ownable {
+    /// @notice Token ID of gold (see DESIGNDOC token id strategy)
+    uint256 public constant GOLD_ID = 1;
+    /// @notice Token ID of iron ore (see DESIGNDOC token id strategy)
+    uint256 public constant IRON_ID = 2;
+
+    /// @notice Denominator of basis point stats (same as StatsEngine)
+    uint256 private constant BPS = 10_000;
+
+    /// @notice Kinds of encounters a single step can roll
+    enum Encounter { MiningNode, Monster, Trap, Treasure, Special }
+
+    /// @notice Configuration of a mine
+    /// @param exists Whether the mine has been added
+    /// @param maxDepth The deepest level a character can enter at
+    /// @param maxSteps The maximum number of steps per run
+    struct Mine {
+        bool exists;
+        uint8 maxDepth;
+        uint8 maxSteps;
+    }
+
+    /// @notice State of an ongoing run
+    /// @param active Whether the character is currently in a mine
+    /// @param mineId The mine being explored
+    /// @param depth The depth the run was entered at
+    /// @param steps The number of encounters resolved so far
+    /// @param hp The remaining hit points of the character
+    struct Run {
+        bool active;
+        uint256 mineId;
+        uint8 depth;
+        uint8 steps;
+        uint256 hp;
+    }
+
+    /// @notice Randomness request of a step waiting to be resolved
+    /// @param provider The provider the request was made to
+    /// @param requestId The ID of the request (0 if no step is pending)
+    struct PendingStep {
+        IRandomnessProvider provider;
+        uint256 requestId;
+    }
+
+    Player private immutable _player;
+    StatsEngine private _statsEngine;
+    IGameItems private _gameItems;
+    IRandomnessProvider private _randomnessProvider;
+    LootTable private _lootTable;
+    Combat private _combat;
+
+    uint256 private _mineCounter;
+
+    /// @notice Encounter weights indexed by Encounter
+    uint16[5] private _encounterWeights;
+
+    /// @notice Durability lost by the tool on a mining node
+    uint32 private _miningWear;
+
+    /// @notice Durability lost by the weapon and the armor on a fight
+    uint32 private _combatWear;
+
+    /// @notice Mapping from mine ID to its configuration
+    mapping(uint256 mineId => Mine) private _mines;
+
+    /// @notice Mapping from character ID to its current run
+    mapping(uint256 characterId => Run) private _runs;
+
+    /// @notice Mapping from character ID to the step waiting for randomness
+    mapping(uint256 characterId => PendingStep) private _pendingSteps;
+
+    // Pending loot of the current run: token ids in order of discovery and amounts per id
+    mapping(uint256 characterId => uint256[]) private _pendingLootIds;
+    mapping(uint256 characterId => mapping(uint256 lootId => uint256)) private _pendingLoot;
+
+    event MineAdded(uint256 indexed mineId, uint8 maxDepth, uint8 maxSteps);
+
+    event RunStarted(uint256 indexed characterId, uint256 indexed mineId, uint8 depth, uint256 hp);
+
+    event StepRequested(uint256 indexed characterId, address indexed provider, uint256 requestId);
+
+    event EncounterResolved(
+        uint256 indexed characterId,
+        uint8 step,
+        Encounter encounter,
+        uint256 lootId,
+        uint256 lootAmount,
+        uint256 damage
+    );
+
+    /// @notice Emitted when a run ends, either by exiting (extracted) or by being ejected or abandoned
+    event RunEnded(uint256 indexed characterId, bool extracted);
+
+    event GameItemsSet(address indexed gameItems);
+
+    event StatsEngineSet(address indexed statsEngine);
+
+    event RandomnessProviderSet(address indexed randomnessProvider);
+
+    event LootTableSet(address indexed lootTable);
+
+    event CombatSet(address indexed combat);
+
+    event WearSet(uint32 miningWear, uint32 combatWear);
+
+    /// @notice Initializes the MineSystem
+    /// @param player The Player contract characters are minted on
+    /// @param statsEngine The StatsEngine derived stats are read from
+    /// @param gameItems The ERC-1155 contract loot is minted through
+    /// @param randomnessProvider The provider encounter rolls are requested from
+    constructor(
+        address player,
+        address statsEngine,
+        address gameItems,
+        address randomnessProvider
+    ) Ownable(msg.sender) {
+        require(player != address(0), "Invalid player contract");
+        require(statsEngine != address(0), "Invalid stats engine");
+        require(randomnessProvider != address(0), "Invalid randomness provider");
+        _player = Player(player);
+        _statsEngine = StatsEngine(statsEngine);
+        _gameItems = IGameItems(gameItems);
+        _randomnessProvider = IRandomnessProvider(randomnessProvider);
+        _encounterWeights = [uint16(45), 25, 15, 12, 3];
+        _miningWear = 1;
+        _combatWear = 2;
+    }
+
+    /// @notice Adds a new mine
+    /// @dev Only callable by the contract owner
+    /// @param maxDepth The deepest level characters can enter at (>= 1)
+    /// @param maxSteps The maximum number of steps per run (>= 1)
+    /// @return mineId The ID of the new mine
+    function addMine(uint8 maxDepth, uint8 maxSteps) external onlyOwner returns (uint256 mineId) {
+        require(maxDepth > 0, "Invalid max depth");
+        require(maxSteps > 0, "Invalid max steps");
+        _mineCounter += 1;
+        mineId = _mineCounter;
+        _mines[mineId] = Mine({ exists: true, maxDepth: maxDepth, maxSteps: maxSteps });
+        emit MineAdded(mineId, maxDepth, maxSteps);
+    }
+
+    /// @notice Sets the relative weights of each encounter kind
+    /// @dev Only callable by the contract owner. Indexed by Encounter.
+    /// @param weights The weights of MiningNode, Monster, Trap, Treasure and Special
+    function setEncounterWeights(uint16[5] calldata weights) external onlyOwner {
+        uint256 total;
+        for (uint256 i = 0; i < weights.length; i++) {
+            total += weights[i];
+        }
+        require(total > 0, "Weights sum to zero");
+        _encounterWeights = weights;
+    }
+
+    /// @notice Sets the durability the equipment loses on steps
+    /// @dev Only callable by the contract owner
+    /// @param miningWear Durability lost by the tool on a mining node
+    /// @param combatWear Durability lost by the weapon and the armor on a fight
+    function setWear(uint32 miningWear, uint32 combatWear) external onlyOwner {
+        _miningWear = miningWear;
+        _combatWear = combatWear;
+        emit WearSet(miningWear, combatWear);
+    }
+
+    /// @notice Sets the StatsEngine derived stats are read from
+    /// @dev Only callable by the contract owner
+    /// @param statsEngine The StatsEngine address
+    function setStatsEngine(address statsEngine) external onlyOwner {
+        require(statsEngine != address(0), "Invalid stats engine");
+        _statsEngine = StatsEngine(statsEngine);
+        emit StatsEngineSet(statsEngine);
+    }
+
+    /// @notice Sets the ERC-1155 contract loot is minted through
+    /// @dev Only callable by the contract owner
+    /// @param gameItems The game items contract address
+    function setGameItems(address gameItems) external onlyOwner {
+        _gameItems = IGameItems(gameItems);
+        emit GameItemsSet(gameItems);
+    }
+
+    /// @notice Sets the provider encounter rolls are requested from
+    /// @dev Only callable by the contract owner. Pending steps are still resolved with the
+    ///      provider they were requested from.
+    /// @param randomnessProvider The randomness provider address
+    function setRandomnessProvider(address randomnessProvider) external onlyOwner {
+        require(randomnessProvider != address(0), "Invalid randomness provider");
+        _randomnessProvider = IRandomnessProvider(randomnessProvider);
+        emit RandomnessProviderSet(randomnessProvider);
+    }
+
+    /// @notice Sets the LootTable registry mining nodes drop from
+    /// @dev Only callable by the contract owner. The zero address restores the default iron drops.
+    ///      Pending loot is minted by this contract on exit, so it must be able to mint every drop of
+    ///      the registry's tables (e.g. hold the equipment minter role for equipment drops). Call it
+    ///      again after adding tables or drops to check them.
+    /// @param lootTable The LootTable address
+    function setLootTable(address lootTable) external onlyOwner {
+        _lootTable = LootTable(lootTable);
+        if (lootTable != address(0)) {
+            uint256 tableCount = _lootTable.getTableCounter();
+            for (uint256 tableId = 1; tableId <= tableCount; tableId++) {
+                LootTable.LootEntry[] memory entries = _lootTable.getEntries(tableId);
+                for (uint256 i = 0; i < entries.length; i++) {
+                    require(
+                        entries[i].maxAmount == 0 || _gameItems.canMint(address(this), entries[i].tokenId),
+                        "Cannot mint loot table drop"
+                    );
+                }
+            }
+        }
+        emit LootTableSet(lootTable);
+    }
+
+    /// @notice Sets the Combat module monsters are fought through
+    /// @dev Only callable by the contract owner. The zero address restores the default fixed-odds fights.
+    /// @param combat The Combat address
+    function setCombat(address combat) external onlyOwner {
+        _combat = Combat(combat);
+        emit CombatSet(combat);
+    }
+
+    /// @notice Enters a mine with a character
+    /// @dev The run starts with the character's derived HP
+    /// @param characterId The Player token ID of the character
+    /// @param mineId The mine to enter
+    /// @param depth The depth to start at (1..maxDepth)
+    function enterMine(uint256 characterId, uint256 mineId, uint8 depth) external {
+        require(_player.ownerOf(characterId) == msg.sender, "Not the character owner");
+        Mine memory mine = _mines[mineId];
+        require(mine.exists, "Mine does not exist");
+        require(depth > 0 && depth <= mine.maxDepth, "Invalid depth");
+        require(!_runs[characterId].active, "Character already in a run");
+
+        uint256 hp = _statsEngine.getDerivedStats(characterId).hp;
+        require(hp > 0, "Character has no hp");
+
+        _runs[characterId] = Run({
+            active: true,
+            mineId: mineId,
+            depth: depth,
+            steps: 0,
+            hp: hp
+        });
+        _player.lockPlayer(characterId);
+
+        emit RunStarted(characterId, mineId, depth, hp);
+    }
+
+    /// @notice Requests the random word of the next encounter of the character's run
+    /// @param characterId The Player token ID of the character
+    /// @param commitment Passed to the randomness provider (keccak256 of the player's secret
+    ///        for commit-reveal providers)
+    function requestAdvance(uint256 characterId, bytes32 commitment) external {
+        require(_player.ownerOf(characterId) == msg.sender, "Not the character owner");
+        Run storage run = _runs[characterId];
+        require(run.active, "Character not in a run");
+        require(run.steps < _mines[run.mineId].maxSteps, "No steps left");
+        require(_pendingSteps[characterId].requestId == 0, "Step already requested");
+
+        IRandomnessProvider provider = _randomnessProvider;
+        uint256 requestId = provider.requestRandomness(commitment);
+        _pendingSteps[characterId] = PendingStep({ provider: provider, requestId: requestId });
+
+        emit StepRequested(characterId, address(provider), requestId);
+    }
+
+    /// @notice Resolves the requested encounter of the character's run
+    /// @dev If the character's hp drops to zero, the run ends and all pending loot is lost, as is the
+    ///      XP of a fight won with the last hit points.
+    ///      Traps can be avoided with the trap avoid chance. The loot bonus increases the fixed drops
+    ///      only: loot table drops already account for LUCK through the luck weights of their entries.
+    /// @param characterId The Player token ID of the character
+    function advance(uint256 characterId) external {
+        require(_player.ownerOf(characterId) == msg.sender, "Not the character owner");
+        Run storage run = _runs[characterId];
+        require(run.active, "Character not in a run");
+        PendingStep memory pendingStep = _pendingSteps[characterId];
+        require(pendingStep.requestId != 0, "No step requested");
+        require(pendingStep.provider.isFulfilled(pendingStep.requestId), "Randomness not fulfilled");
+
+        delete _pendingSteps[characterId];
+        run.steps += 1;
+        uint256 random = pendingStep.provider.getRandomWord(pendingStep.requestId);
+        Encounter encounter = _rollEncounter(random);
+        uint256 outcome = random >> 16;
+        StatsEngine.DerivedStats memory stats = _statsEngine.getDerivedStats(characterId);
+
+        uint256 lootId;
+        uint256 lootAmount;
+        uint256 damage;
+        uint256 xpReward;
+        bool fromLootTable;
+        uint256 depth = run.depth;
+
+        if (encounter == Encounter.MiningNode) {
+            (lootId, lootAmount, fromLootTable) = _mineNode(characterId, run.mineId, run.depth, outcome);
+            _player.wearItem(characterId, EquipmentSlot.Slot.TOOL, _miningWear);
+        } else if (encounter == Encounter.Monster) {
+            (lootId, lootAmount, damage, xpReward, fromLootTable) = _fightMonster(characterId, run, outcome);
+            _player.wearItem(characterId, EquipmentSlot.Slot.WEAPON, _combatWear);
+            _player.wearItem(characterId, EquipmentSlot.Slot.ARMOR, _combatWear);
+        } else if (encounter == Encounter.Trap) {
+            if ((random >> 128) % BPS >= stats.trapAvoidChance) {
+                damage = 5 * depth + (outcome % 10);
+            }
+        } else if (encounter == Encounter.Treasure) {
+            lootId = GOLD_ID;
+            lootAmount = 5 * depth + (outcome % (5 * depth));
+        } else {
+            lootId = GOLD_ID;
+            lootAmount = 20 * depth;
+        }
+        if (!fromLootTable) {
+            lootAmount += (lootAmount * stats.lootBonus) / BPS;
+        }
+
+        emit EncounterResolved(characterId, run.steps, encounter, lootId, lootAmount, damage);
+
+        if (damage >= run.hp) {
+            _endRun(characterId);
+            emit RunEnded(characterId, false);
+            return;
+        }
+        run.hp -= damage;
+
+        address progressionSystem = _player.getProgressionSystem();
+        if (progressionSystem != address(0) && xpReward > 0) {
+            IProgressionSystem(progressionSystem).awardXp(characterId, xpReward);
+        }
+
+        if (lootAmount > 0) {
+            _addPendingLoot(characterId, lootId, lootAmount);
+        }
+    }
+
+    /// @notice Exits the mine and mints all pending loot to the character owner
+    /// @param characterId The Player token ID of the character
+    function exitMine(uint256 characterId) external {
+        require(_player.ownerOf(characterId) == msg.sender, "Not the character owner");
+        require(_runs[characterId].active, "Character not in a run");
+        require(_pendingSteps[characterId].requestId == 0, "Step pending");
+
+        uint256[] memory lootIds = _pendingLootIds[characterId];
+        uint256[] memory amounts = new uint256[](lootIds.length);
+        for (uint256 i = 0; i < lootIds.length; i++) {
+            amounts[i] = _pendingLoot[characterId][lootIds[i]];
+        }
+
+        _endRun(characterId);
+        emit RunEnded(characterId, true);
+
+        if (lootIds.length > 0) {
+            require(address(_gameItems) != address(0), "Game items not set");
+            for (uint256 i = 0; i < lootIds.length; i++) {
+                _gameItems.mint(msg.sender, lootIds[i], amounts[i]);
+            }
+        }
+    }
+
+    /// @notice Abandons the run of a character, forfeiting all pending loot
+    /// @dev The way out of a run whose requested step is never fulfilled (e.g. an expired commit)
+    /// @param characterId The Player token ID of the character
+    function abandonRun(uint256 characterId) external {
+        require(_player.ownerOf(characterId) == msg.sender, "Not the character owner");
+        require(_runs[characterId].active, "Character not in a run");
+
+        _endRun(characterId);
+        emit RunEnded(characterId, false);
+    }
+
+    /// @notice Returns the current run of a character
+    /// @param characterId The Player token ID of the character
+    /// @return The Run struct (inactive if the character is not in a mine)
+    function getRun(uint256 characterId) external view returns (Run memory) {
+        return _runs[characterId];
+    }
+
+    /// @notice Returns the loot gathered during the current run
+    /// @param characterId The Player token ID of the character
+    /// @return lootIds The token IDs of the pending loot
+    /// @return amounts The pending amount of each token ID
+    function getPendingLoot(uint256 characterId)
+        external
+        view
+        returns (uint256[] memory lootIds, uint256[] memory amounts)
+    {
+        lootIds = _pendingLootIds[characterId];
+        amounts = new uint256[](lootIds.length);
+        for (uint256 i = 0; i < lootIds.length; i++) {
+            amounts[i] = _pendingLoot[characterId][lootIds[i]];
+        }
+    }
+
+    /// @notice Returns the step of a character waiting for randomness
+    /// @param characterId The Player token ID of the character
+    /// @return The PendingStep struct (requestId 0 if no step is pending)
+    function getPendingStep(uint256 characterId) external view returns (PendingStep memory) {
+        return _pendingSteps[characterId];
+    }
+
+    /// @notice Returns the configuration of a mine
+    /// @param mineId The mine ID to query
+    /// @return The Mine struct
+    function getMine(uint256 mineId) external view returns (Mine memory) {
+        return _mines[mineId];
+    }
+
+    /// @notice Returns the total number of mines added
+    /// @return The current mine counter value
+    function getMineCounter() external view returns (uint256) {
+        return _mineCounter;
+    }
+
+    /// @notice Returns the encounter weights indexed by Encounter
+    /// @return The weights of MiningNode, Monster, Trap, Treasure and Special
+    function getEncounterWeights() external view returns (uint16[5] memory) {
+        return _encounterWeights;
+    }
+
+    /// @notice Returns the durability the equipment loses on steps
+    /// @return miningWear Durability lost by the tool on a mining node
+    /// @return combatWear Durability lost by the weapon and the armor on a fight
+    function getWear() external view returns (uint32 miningWear, uint32 combatWear) {
+        return (_miningWear, _combatWear);
+    }
+
+    /// @notice Returns the StatsEngine derived stats are read from
+    /// @return The StatsEngine address
+    function getStatsEngine() external view returns (address) {
+        return address(_statsEngine);
+    }
+
+    /// @notice Returns the ERC-1155 contract loot is minted through
+    /// @return The game items contract address
+    function getGameItems() external view returns (address) {
+        return address(_gameItems);
+    }
+
+    /// @notice Returns the LootTable registry mining nodes drop from
+    /// @return The LootTable address (zero if mining nodes drop iron)
+    function getLootTable() external view returns (address) {
+        return address(_lootTable);
+    }
+
+    /// @notice Returns the Combat module monsters are fought through
+    /// @return The Combat address (zero if fights use fixed odds)
+    function getCombat() external view returns (address) {
+        return address(_combat);
+    }
+
+    /// @notice Returns the provider encounter rolls are requested from
+    /// @return The randomness provider address
+    function getRandomnessProvider() external view returns (address) {
+        return address(_randomnessProvider);
+    }
+
+    /// @notice Clears the run state and pending loot of a character and releases its lock
+    /// @param characterId The Player token ID of the character
+    function _endRun(uint256 characterId) internal {
+        uint256[] storage lootIds = _pendingLootIds[characterId];
+        for (uint256 i = 0; i < lootIds.length; i++) {
+            delete _pendingLoot[characterId][lootIds[i]];
+        }
+        delete _pendingLootIds[characterId];
+        delete _pendingSteps[characterId];
+        delete _runs[characterId];
+        // The Player owner may have force-unlocked the character during the run
+        if (_player.getRunLock(characterId) == address(this)) {
+            _player.unlockPlayer(characterId);
+        }
+    }
+
+    /// @notice Adds loot to the pending loot of a character's run
+    /// @param characterId The Player token ID of the character
+    /// @param lootId The token ID of the loot
+    /// @param lootAmount The amount of loot
+    function _addPendingLoot(uint256 characterId, uint256 lootId, uint256 lootAmount) internal {
+        if (_pendingLoot[characterId][lootId] == 0) {
+            _pendingLootIds[characterId].push(lootId);
+        }
+        _pendingLoot[characterId][lootId] += lootAmount;
+    }
+
+    /// @notice Resolves the drop of a mining node
+    /// @dev Draws from the loot table of the depth band (with the character's LUCK) if one is set
+    /// @param characterId The Player token ID of the character
+    /// @param mineId The mine being explored
+    /// @param depth The depth of the run
+    /// @param outcome The random value of the step
+    /// @return lootId The token id dropped
+    /// @return lootAmount The amount dropped
+    /// @return fromLootTable True if the drop was drawn from a loot table
+    function _mineNode(
+        uint256 characterId,
+        uint256 mineId,
+        uint8 depth,
+        uint256 outcome
+    ) internal view returns (uint256 lootId, uint256 lootAmount, bool fromLootTable) {
+        if (address(_lootTable) != address(0)) {
+            uint256 tableId = _lootTable.getTableId(mineId, depth);
+            if (tableId != 0) {
+                (lootId, lootAmount) = _lootTable.draw(tableId, _player.getAttributes(characterId).luck, outcome);
+                return (lootId, lootAmount, true);
+            }
+        }
+        return (IRON_ID, depth * (1 + (outcome % 3)), false);
+    }
+
+    /// @notice Fights a monster encounter
+    /// @dev Without a Combat module (or monsters), a fight is won 70% of the time for 10 * depth damage.
+    ///      The monster, the fight and the drop each roll their own word derived from the step's
+    ///      random value, so winning a fight does not bias the drop.
+    /// @param characterId The Player token ID of the character
+    /// @param run The run of the character
+    /// @param outcome The random value of the step
+    /// @return lootId The token id dropped
+    /// @return lootAmount The amount dropped
+    /// @return damage The damage taken (the whole HP when the character is ejected)
+    /// @return xpReward The XP of the monster for a won fight, awarded if the character survives
+    /// @return fromLootTable True if the drop was drawn from the monster's loot table
+    function _fightMonster(
+        uint256 characterId,
+        Run storage run,
+        uint256 outcome
+    ) internal returns (uint256 lootId, uint256 lootAmount, uint256 damage, uint256 xpReward, bool fromLootTable) {
+        uint256 monsterCount = address(_combat) == address(0) ? 0 : _combat.getMonsterCounter();
+        if (monsterCount == 0) {
+            if (outcome % 100 < 70) {
+                return (GOLD_ID, 2 * uint256(run.depth), 10 * uint256(run.depth), 0, false);
+            }
+            return (0, 0, run.hp, 0, false);
+        }
+
+        uint256 monsterId = 1 + (uint256(keccak256(abi.encode(outcome, "monster"))) % monsterCount);
+        Combat.CombatResult memory result = _combat.resolve(
+            characterId,
+            monsterId,
+            run.hp,
+            uint256(keccak256(abi.encode(outcome, "combat")))
+        );
+        if (!result.won) {
+            return (0, 0, run.hp, 0, false);
+        }
+
+        Combat.Monster memory monster = _combat.getMonster(monsterId);
+        xpReward = monster.xpReward;
+        damage = result.damageTaken;
+        (lootId, lootAmount, fromLootTable) = _monsterLoot(characterId, monster.lootTableId, run.depth, outcome);
+    }
+
+    /// @notice Resolves the drop of a won fight
+    /// @dev Draws from the monster's loot table (with the character's LUCK) if it has one
+    /// @param characterId The Player token ID of the character
+    /// @param lootTableId The loot table of the monster (0 for the default gold drop)
+    /// @param depth The depth of the run
+    /// @param outcome The random value of the step
+    /// @return lootId The token id dropped
+    /// @return lootAmount The amount dropped
+    /// @return fromLootTable True if the drop was drawn from the monster's loot table
+    function _monsterLoot(
+        uint256 characterId,
+        uint256 lootTableId,
+        uint8 depth,
+        uint256 outcome
+    ) internal view returns (uint256 lootId, uint256 lootAmount, bool fromLootTable) {
+        if (lootTableId != 0 && address(_lootTable) != address(0)) {
+            (lootId, lootAmount) = _lootTable.draw(
+                lootTableId,
+                _player.getAttributes(characterId).luck,
+                uint256(keccak256(abi.encode(outcome, "loot")))
+            );
+            return (lootId, lootAmount, true);
+        }
+        return (GOLD_ID, 2 * uint256(depth), false);
+    }
+
+    /// @notice Picks an encounter kind from the low bits of a random value
+    /// @param random The random value
+    /// @return The rolled encounter
+    function _rollEncounter(uint256 random) internal view returns (Encounter) {
+        uint256 total;
+        for (uint256 i = 0; i < _encounterWeights.length; i++) {
+            total += _encounterWeights[i];
+        }
+        uint256 roll = (random & 0xffff) % total;
+        for (uint256 i = 0; i < _encounterWeights.length; i++) {
+            if (roll < _encounterWeights[i]) {
+                return Encounter(i);
+            }
+            roll -= _encounterWeights[i];
+        }
+        return Encounter.Special;
+    }
+}
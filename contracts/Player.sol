@@ -2,58 +2,262 @@
 pragma solidity 0.8.28;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "./EquipmentVault.sol";
+import "./interfaces/IAttributeUpgrades.sol";
+import "./interfaces/IProgressionSystem.sol";
+import "./interfaces/IPersonhoodVerifier.sol";
 
 /// @title Player - A Soulbound ERC721 token representing a player in KusaMine
 /// @author KusaMine Team
 /// @notice This contract manages player tokens that are non-transferable (soulbound)
 /// @dev Players must purchase their token to play the game. Each wallet can only own one token.
+/// @dev Once the owner sets a personhood verifier, only PoP (Proof of Personhood) verified accounts
+///      can mint, each person from a single wallet, and the owner can airdrop tokens to them.
+/// @dev Minters set by the owner (e.g. PlayerSale for discounted launch campaigns) can mint tokens
+///      they got paid for. Every path enforces the same minting rules.
+/// @dev Owners can retire their character: its equipped items are returned and the token is burned.
+///      The wallet can then mint again once the remint cooldown set by the owner has passed.
+/// @dev The mint price can also be paid in ERC20s whitelisted by the owner (e.g. a DOT stablecoin),
+///      each with its own price, next to the native price.
+/// @dev Mint proceeds stay in the contract until the owner withdraws them to the treasury
+///      (e.g. a RevenueSplitter sharing them between several payees).
+/// @dev Paid attribute upgrades live in AttributeUpgrades, a game system raising attributes
+///      through increaseAttribute. upgradeAttribute forwards to the AttributeUpgrades set by the owner.
 contract Player is ERC721, Ownable, EquipmentVault {
+    using SafeERC20 for IERC20;
+
     uint256 private _tokenIdCounter;
     uint256 private _price;
-    IERC20 private _upgradeToken;
-    uint256 private _upgradeCost;
+    IProgressionSystem private _progressionSystem;
+    uint64 private _remintCooldown;
+    OverpaymentMode private _overpaymentMode;
+    address payable private _treasury;
+    IPersonhoodVerifier private _personhoodVerifier;
+    IAttributeUpgrades private _attributeUpgrades;
 
     /// @notice Thrown when attempting to transfer a soulbound token
     error PlayerIsSoulbound();
 
+    /// @notice Thrown when equipping an item whose required level is above the player's level
+    error LevelTooLow(uint256 tokenId, uint256 requiredLevel, uint256 level);
+
+    /// @notice Thrown when equipping an item whose attribute requirement is above the player's attribute
+    error AttributeTooLow(uint256 tokenId, Attribute attribute, uint256 required, uint256 actual);
+
     /// @notice Enumeration of player attributes that can be upgraded
-    enum Attribute { Strength, Dexterity, Intelligence, Luck }
+    enum Attribute { Strength, Dexterity, Intelligence, Luck, Constitution }
+
+    /// @notice What buyToken does with the native currency paid above the price
+    /// @dev Refund sends the excess back to the buyer, Keep adds it to the mint proceeds
+    enum OverpaymentMode { Refund, Keep }
 
     /// @notice Struct containing all player attributes
     /// @param strenght The player's strength stat
     /// @param dexterity The player's dexterity stat
     /// @param intelligence The player's intelligence stat
     /// @param luck The player's luck stat
+    /// @param constitution The player's constitution stat (0 for characters minted before CON existed)
     struct Attributes {
         uint64 strenght;
         uint64 dexterity;
         uint64 intelligence;
         uint64 luck;
+        uint64 constitution;
     }
 
+    /// @notice Value of each attribute of a newly minted player
+    uint64 public constant DEFAULT_ATTRIBUTE_VALUE = 10;
+
     /// @notice Mapping from token ID to its attributes
     mapping(uint256 tokenId => Attributes) private _tokenAttributes;
 
+    /// @notice Mapping from wallet to the timestamp its last character was retired (0 if never)
+    mapping(address wallet => uint256) private _retiredAt;
+
+    /// @notice Mapping from PoP nullifier to the wallet the person minted from
+    mapping(bytes32 nullifier => address wallet) private _nullifierWallets;
+
+    /// @notice Mapping from address to whether it is allowed to mint through mintTo
+    mapping(address minter => bool) private _minters;
+
+    /// @notice Mapping from whitelisted ERC20 to the mint price in that token (0 if not accepted)
+    mapping(address token => uint256) private _erc20Prices;
+
+    /// @notice Emitted when an attribute of a player is increased
+    event AttributeIncreased(uint256 indexed tokenId, Attribute indexed attribute, uint64 amount);
+
+    /// @notice Emitted when the attributes of a player are replaced (e.g. on a respec)
+    event AttributesSet(uint256 indexed tokenId, Attributes attributes);
+
+    event ProgressionSystemSet(address indexed progressionSystem);
+
+    event AttributeUpgradesSet(address indexed attributeUpgrades);
+
+    /// @notice Emitted when a character is retired and its token burned
+    event CharacterRetired(uint256 indexed tokenId, address indexed owner);
+
+    event RemintCooldownSet(uint64 cooldown);
+
+    /// @notice Emitted when a player token is bought
+    event TokenPurchased(uint256 indexed tokenId, address indexed buyer, uint256 amountPaid);
+
+    /// @notice Emitted when a player token is bought with a whitelisted ERC20
+    event PurchasedWithERC20(uint256 indexed tokenId, address indexed buyer, address indexed paymentToken, uint256 price);
+
+    /// @notice Emitted when the native currency paid above the price is sent back to the buyer
+    event OverpaymentRefunded(address indexed buyer, uint256 amount);
+
+    /// @notice Emitted when native currency is withdrawn to the treasury
+    event Withdrawn(address indexed treasury, uint256 amount);
+
+    /// @notice Emitted when ERC20 tokens are withdrawn to the treasury
+    event TokenWithdrawn(address indexed token, address indexed treasury, uint256 amount);
+
+    event PriceUpdated(uint256 price);
+
+    /// @notice Emitted when the mint price in an ERC20 is set (0 removes the token from the whitelist)
+    event ERC20PriceUpdated(address indexed paymentToken, uint256 price);
+
+    event OverpaymentModeSet(OverpaymentMode mode);
+
+    event TreasurySet(address indexed treasury);
+
+    /// @notice Emitted when the owner airdrops a player token to a verified person
+    event PlayerAirdropped(uint256 indexed tokenId, address indexed to);
+
+    event PersonhoodVerifierSet(address indexed personhoodVerifier);
+
+    event MinterSet(address indexed minter, bool authorized);
+
     /// @notice Initializes the Player contract
     /// @param price The price in native currency to mint a player token
-    /// @param upgradeToken The ERC20 token address used for attribute upgrades
-    constructor(uint256 price, address upgradeToken) ERC721("KusaMine Player", "KMPLAYER") Ownable(msg.sender) {
+    constructor(uint256 price) ERC721("KusaMine Player", "KMPLAYER") Ownable(msg.sender) {
         _price = price;
-        _upgradeToken = IERC20(upgradeToken);
     }
 
     /// @notice Purchase a player token to join the game
     /// @dev Each wallet can only own one token. The token is soulbound and cannot be transferred.
-    ///      Could later be extended to only allow PoPs (Proof of Personhood) to fight botting.
+    ///      Requires a verified person once a personhood verifier is set. Overpayment is refunded or kept depending on the overpayment mode.
     function buyToken() public payable {
         require(msg.value >= _price, "Amount must be greater than or equal to the price");
-        require(balanceOf(msg.sender) == 0, "Player already has a token");
+        uint256 excess = msg.value - _price;
+        bool refund = excess > 0 && _overpaymentMode == OverpaymentMode.Refund;
+        _mintPlayer(msg.sender);
+        emit TokenPurchased(_tokenIdCounter, msg.sender, refund ? _price : msg.value);
+
+        if (refund) {
+            (bool sent, ) = payable(msg.sender).call{ value: excess }("");
+            require(sent, "Refund failed");
+            emit OverpaymentRefunded(msg.sender, excess);
+        }
+    }
+
+    /// @notice Purchase a player token paying its price in a whitelisted ERC20
+    /// @dev Same rules as buyToken. Caller must have approved this contract to spend the price, which
+    ///      is collected with safe transfer semantics (tokens without a return value work) and withdrawn
+    ///      to the treasury with withdrawToken.
+    /// @param paymentToken The ERC20 token paid with
+    function buyTokenWithERC20(address paymentToken) external {
+        uint256 price = _erc20Prices[paymentToken];
+        require(price > 0, "Payment token not accepted");
+
+        IERC20(paymentToken).safeTransferFrom(msg.sender, address(this), price);
+        _mintPlayer(msg.sender);
+
+        emit PurchasedWithERC20(_tokenIdCounter, msg.sender, paymentToken, price);
+    }
+
+    /// @notice Mints a player token on behalf of a minter
+    /// @dev Only callable by minters, which collect the payment themselves
+    /// @param to The address receiving the token
+    /// @return The ID of the minted token
+    function mintTo(address to) external returns (uint256) {
+        require(_minters[msg.sender], "Not a minter");
+        _mintPlayer(to);
+        return _tokenIdCounter;
+    }
+
+    /// @notice Mints player tokens to PoP verified accounts, without payment
+    /// @dev Only callable by the contract owner, once a personhood verifier is set
+    /// @param recipients The verified accounts receiving a token
+    function airdrop(address[] calldata recipients) external onlyOwner {
+        require(address(_personhoodVerifier) != address(0), "Personhood verifier not set");
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _mintPlayer(recipients[i]);
+            emit PlayerAirdropped(_tokenIdCounter, recipients[i]);
+        }
+    }
+
+    /// @notice Mints a player token with the initial attributes
+    /// @dev Enforces one token per wallet, the remint cooldown of retired wallets and, once a
+    ///      personhood verifier is set, one wallet per person
+    /// @param to The address receiving the token
+    function _mintPlayer(address to) internal {
+        require(balanceOf(to) == 0, "Player already has a token");
+        uint256 retiredAt = _retiredAt[to];
+        require(retiredAt == 0 || block.timestamp >= retiredAt + _remintCooldown, "Remint cooldown active");
+        if (address(_personhoodVerifier) != address(0)) {
+            bytes32 nullifier = _personhoodVerifier.getNullifier(to);
+            require(nullifier != bytes32(0), "Not a verified person");
+            address wallet = _nullifierWallets[nullifier];
+            require(wallet == address(0) || wallet == to, "Person already has a wallet");
+            _nullifierWallets[nullifier] = to;
+        }
         _tokenIdCounter += 1;
-        _safeMint(msg.sender, _tokenIdCounter);
-        _tokenAttributes[_tokenIdCounter] = Attributes(10, 10, 10, 10);
+        _safeMint(to, _tokenIdCounter);
+        _tokenAttributes[_tokenIdCounter] = _initialAttributes();
+    }
+
+    /// @notice Retires a character: returns its equipped items to the owner and burns the token
+    /// @dev Reverts while the character is on a run (exit or abandon it first). Worn items come back
+    ///      without a repair, so retiring never depends on the owner paying for one. Per-character
+    ///      state left behind (loadouts, progression) is keyed by a token ID never minted again.
+    /// @param tokenId The ID of the player token
+    function retireCharacter(uint256 tokenId) external {
+        require(_ownsPlayerToken(tokenId), "Not player owner");
+        if (isPlayerLocked(tokenId)) revert PlayerIsLocked(tokenId);
+
+        _unequipAllInternal(tokenId);
+        delete _tokenAttributes[tokenId];
+        _retiredAt[msg.sender] = block.timestamp;
+        _burn(tokenId);
+
+        emit CharacterRetired(tokenId, msg.sender);
+    }
+
+    /// @notice Sets the time a wallet must wait after retiring a character before minting again
+    /// @dev Only callable by the contract owner. type(uint64).max forbids minting again.
+    /// @param cooldown The cooldown in seconds
+    function setRemintCooldown(uint64 cooldown) external onlyOwner {
+        _remintCooldown = cooldown;
+        emit RemintCooldownSet(cooldown);
+    }
+
+    /// @notice Returns the time a wallet must wait after retiring a character before minting again
+    /// @return The cooldown in seconds
+    function getRemintCooldown() external view returns (uint64) {
+        return _remintCooldown;
+    }
+
+    /// @notice Returns when a wallet last retired a character
+    /// @param wallet The wallet address
+    /// @return The timestamp of the retirement (0 if never)
+    function getRetiredAt(address wallet) external view returns (uint256) {
+        return _retiredAt[wallet];
+    }
+
+    /// @notice Returns the attributes of a newly minted player
+    /// @return The initial Attributes struct
+    function _initialAttributes() internal pure virtual returns (Attributes memory) {
+        return Attributes(
+            DEFAULT_ATTRIBUTE_VALUE,
+            DEFAULT_ATTRIBUTE_VALUE,
+            DEFAULT_ATTRIBUTE_VALUE,
+            DEFAULT_ATTRIBUTE_VALUE,
+            DEFAULT_ATTRIBUTE_VALUE
+        );
     }
 
     /// @notice Returns the total number of tokens minted
@@ -68,6 +272,7 @@ contract Player is ERC721, Ownable, EquipmentVault {
     /// @param price The new price in native currency
     function updatePrice(uint256 price) external onlyOwner {
         _price = price;
+        emit PriceUpdated(price);
     }
 
     /// @notice Returns the current price to mint a player token
@@ -76,62 +281,186 @@ contract Player is ERC721, Ownable, EquipmentVault {
         return _price;
     }
 
-    /// @notice Returns the attributes for a given token
-    /// @param tokenId The ID of the token to query
-    /// @return The Attributes struct for the token
-    function getAttributes(uint256 tokenId) public view returns (Attributes memory) {
-        require(_ownerOf(tokenId) != address(0), "Token does not exist");
-        return _tokenAttributes[tokenId];
+    /// @notice Whitelists an ERC20 as payment for mints and sets its price
+    /// @dev Only callable by the contract owner. Paying with an address that is not a token contract
+    ///      reverts in buyTokenWithERC20.
+    /// @param paymentToken The ERC20 token
+    /// @param price The mint price in token units (0 removes the token from the whitelist)
+    function setERC20Price(address paymentToken, uint256 price) external onlyOwner {
+        _erc20Prices[paymentToken] = price;
+        emit ERC20PriceUpdated(paymentToken, price);
     }
 
-    /// @notice Sets the ERC20 token used for attribute upgrades
+    /// @notice Returns the mint price in an ERC20
+    /// @param paymentToken The ERC20 token
+    /// @return The price in token units (0 if the token is not accepted)
+    function getERC20Price(address paymentToken) external view returns (uint256) {
+        return _erc20Prices[paymentToken];
+    }
+
+    /// @notice Sets what buyToken does with the native currency paid above the price
+    /// @dev Only callable by the contract owner. Defaults to Refund.
+    /// @param mode The overpayment mode
+    function setOverpaymentMode(OverpaymentMode mode) external onlyOwner {
+        _overpaymentMode = mode;
+        emit OverpaymentModeSet(mode);
+    }
+
+    /// @notice Returns what buyToken does with the native currency paid above the price
+    /// @return The overpayment mode
+    function getOverpaymentMode() external view returns (OverpaymentMode) {
+        return _overpaymentMode;
+    }
+
+    /// @notice Sets the treasury mint proceeds are withdrawn to
     /// @dev Only callable by the contract owner
-    /// @param token The address of the ERC20 token
-    function setUpgradeToken(address token) external onlyOwner {
-        _upgradeToken = IERC20(token);
+    /// @param treasury The treasury address
+    function setTreasury(address payable treasury) external onlyOwner {
+        require(treasury != address(0), "Invalid treasury");
+        _treasury = treasury;
+        emit TreasurySet(treasury);
+    }
+
+    /// @notice Returns the treasury mint proceeds are withdrawn to
+    /// @return The treasury address
+    function getTreasury() external view returns (address) {
+        return _treasury;
     }
 
-    /// @notice Sets the cost in ERC20 tokens to upgrade an attribute
+    /// @notice Authorizes or revokes a minter
     /// @dev Only callable by the contract owner
-    /// @param cost The cost per upgrade in ERC20 token units
-    function setUpgradeCost(uint256 cost) external onlyOwner {
-        _upgradeCost = cost;
+    /// @param minter The minter address
+    /// @param authorized True to authorize, false to revoke
+    function setMinter(address minter, bool authorized) external onlyOwner {
+        _minters[minter] = authorized;
+        emit MinterSet(minter, authorized);
+    }
+
+    /// @notice Returns whether an address is allowed to mint through mintTo
+    /// @param minter The address to check
+    /// @return True if the address is a minter
+    function isMinter(address minter) external view returns (bool) {
+        return _minters[minter];
+    }
+
+    /// @notice Sets the PoP registry minting is restricted to
+    /// @dev Only callable by the contract owner. address(0) lets any account mint again.
+    /// @param personhoodVerifier The personhood verifier address
+    function setPersonhoodVerifier(address personhoodVerifier) external onlyOwner {
+        _personhoodVerifier = IPersonhoodVerifier(personhoodVerifier);
+        emit PersonhoodVerifierSet(personhoodVerifier);
+    }
+
+    /// @notice Returns the PoP registry minting is restricted to
+    /// @return The personhood verifier address (address(0) if minting is open)
+    function getPersonhoodVerifier() external view returns (address) {
+        return address(_personhoodVerifier);
     }
 
-    /// @notice Returns the address of the ERC20 token used for upgrades
-    /// @return The upgrade token address
-    function getUpgradeToken() public view returns (address) {
-        return address(_upgradeToken);
+    /// @notice Returns the wallet a person minted from
+    /// @param nullifier The PoP nullifier of the person
+    /// @return The wallet address (address(0) if the person never minted)
+    function getNullifierWallet(bytes32 nullifier) external view returns (address) {
+        return _nullifierWallets[nullifier];
     }
 
-    /// @notice Returns the cost to upgrade an attribute
-    /// @return The upgrade cost in ERC20 token units
-    function getUpgradeCost() public view returns (uint256) {
-        return _upgradeCost;
+    /// @notice Withdraws native currency (mint proceeds) to the treasury
+    /// @dev Only callable by the contract owner
+    /// @param amount The amount to withdraw
+    function withdraw(uint256 amount) external onlyOwner {
+        require(_treasury != address(0), "Treasury not set");
+        require(amount > 0 && amount <= address(this).balance, "Invalid amount");
+
+        (bool sent, ) = _treasury.call{ value: amount }("");
+        require(sent, "Withdraw failed");
+
+        emit Withdrawn(_treasury, amount);
     }
 
-    /// @notice Upgrades a specific attribute by paying with ERC20 tokens
-    /// @dev Caller must have approved this contract to spend the upgrade cost.
-    ///      Only the token owner can upgrade their attributes.
+    /// @notice Withdraws ERC20 tokens held by the contract to the treasury
+    /// @dev Only callable by the contract owner. Uses safe transfer semantics (tokens without a return value work).
+    /// @param token The ERC20 token
+    /// @param amount The amount to withdraw
+    function withdrawToken(address token, uint256 amount) external onlyOwner {
+        require(_treasury != address(0), "Treasury not set");
+        require(amount > 0, "Invalid amount");
+
+        IERC20(token).safeTransfer(_treasury, amount);
+
+        emit TokenWithdrawn(token, _treasury, amount);
+    }
+
+    /// @notice Returns the attributes for a given token
+    /// @dev Players minted before CON existed have no stored CON and read the default value
+    /// @param tokenId The ID of the token to query
+    /// @return The Attributes struct for the token
+    function getAttributes(uint256 tokenId) public view returns (Attributes memory) {
+        require(_ownerOf(tokenId) != address(0), "Token does not exist");
+        return _attributesOf(tokenId);
+    }
+
+    /// @notice Returns the attributes of a player, with the default CON if none is stored
+    /// @dev This is the only migration of characters minted before CON existed: their CON is written
+    ///      to storage the first time it is raised or the attributes are replaced
+    /// @param tokenId The ID of the player token
+    /// @return attributes The Attributes struct for the token
+    function _attributesOf(uint256 tokenId) internal view returns (Attributes memory attributes) {
+        attributes = _tokenAttributes[tokenId];
+        if (attributes.constitution == 0) {
+            attributes.constitution = DEFAULT_ATTRIBUTE_VALUE;
+        }
+    }
+
+    /// @notice Upgrades an attribute by several points, paying the summed cost in the upgrade token
+    /// @dev Forwards to AttributeUpgrades, which checks ownership, quotes the cost (quoteUpgrade) and
+    ///      enforces the hard cap. Caller must have approved AttributeUpgrades to spend the cost.
     /// @param tokenId The ID of the player token to upgrade
-    /// @param attribute The attribute to increment by 1
-    function upgradeAttribute(uint256 tokenId, Attribute attribute) external {
-        require(ownerOf(tokenId) == msg.sender, "Not the token owner");
-        require(address(_upgradeToken) != address(0), "Upgrade token not set");
-        require(_upgradeCost > 0, "Upgrade cost not set");
+    /// @param attribute The attribute to upgrade
+    /// @param levels The number of points to add
+    function upgradeAttribute(uint256 tokenId, Attribute attribute, uint64 levels) external {
+        require(address(_attributeUpgrades) != address(0), "Attribute upgrades not set");
+        _attributeUpgrades.upgradeAttributeFor(msg.sender, tokenId, uint8(attribute), levels);
+    }
 
-        bool success = _upgradeToken.transferFrom(msg.sender, address(this), _upgradeCost);
-        require(success, "Token transfer failed");
+    /// @notice Increases an attribute on behalf of a game system
+    /// @dev Only callable by authorized game systems (e.g. ProgressionSystem spending stat points,
+    ///      AttributeUpgrades selling points)
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute to increase
+    /// @param amount The number of points to add
+    function increaseAttribute(uint256 tokenId, Attribute attribute, uint64 amount) external onlyGameSystem {
+        require(_ownerOf(tokenId) != address(0), "Token does not exist");
+        _increaseAttribute(tokenId, attribute, amount);
+    }
+
+    /// @notice Replaces the attributes of a player on behalf of a game system
+    /// @dev Only callable by authorized game systems (e.g. AttributeUpgrades reallocating points on a respec).
+    ///      Items already equipped are not checked against the new attributes.
+    /// @param tokenId The ID of the player token
+    /// @param attributes The new attributes
+    function setAttributes(uint256 tokenId, Attributes calldata attributes) external onlyGameSystem {
+        require(_ownerOf(tokenId) != address(0), "Token does not exist");
+        _tokenAttributes[tokenId] = attributes;
+        emit AttributesSet(tokenId, attributes);
+    }
 
+    /// @notice Internal function to increase an attribute
+    /// @param tokenId The ID of the player token
+    /// @param attribute The attribute to increase
+    /// @param amount The number of points to add
+    function _increaseAttribute(uint256 tokenId, Attribute attribute, uint64 amount) internal {
         if (attribute == Attribute.Strength) {
-            _tokenAttributes[tokenId].strenght += 1;
+            _tokenAttributes[tokenId].strenght += amount;
         } else if (attribute == Attribute.Dexterity) {
-            _tokenAttributes[tokenId].dexterity += 1;
+            _tokenAttributes[tokenId].dexterity += amount;
         } else if (attribute == Attribute.Intelligence) {
-            _tokenAttributes[tokenId].intelligence += 1;
+            _tokenAttributes[tokenId].intelligence += amount;
         } else if (attribute == Attribute.Luck) {
-            _tokenAttributes[tokenId].luck += 1;
+            _tokenAttributes[tokenId].luck += amount;
+        } else if (attribute == Attribute.Constitution) {
+            _tokenAttributes[tokenId].constitution = _attributesOf(tokenId).constitution + amount;
         }
+        emit AttributeIncreased(tokenId, attribute, amount);
     }
 
     /// @notice Internal function to enforce soulbound behavior
@@ -147,8 +476,7 @@ contract Player is ERC721, Ownable, EquipmentVault {
     {
         from = _ownerOf(tokenId);
 
-        // Block transfers: only allow mint (from==0) and burn (to==0)
-        // allowing burns for now, maybe later i could not allow people to burn their token.
+        // Block transfers: only allow mint (from==0) and burn (to==0, through retireCharacter)
         if (from != address(0) && to != address(0)) revert PlayerIsSoulbound();
 
         return super._update(to, tokenId, auth);
@@ -161,6 +489,80 @@ contract Player is ERC721, Ownable, EquipmentVault {
         _setEquipmentContract(equipmentContract);
     }
 
+    /// @notice Releases the run lock of a player stuck on a run (e.g. its game system was removed)
+    /// @dev Only callable by the contract owner. The locking system is not notified: MineSystem
+    ///      skips the unlock when it later ends the run.
+    /// @param playerTokenId The player token ID
+    function forceUnlockPlayer(uint256 playerTokenId) external onlyOwner {
+        _forceUnlockPlayer(playerTokenId);
+    }
+
+    /// @notice Sets the repair cost of the items of a slot
+    /// @dev Only callable by the contract owner
+    /// @param slot The equipment slot
+    /// @param tokenId The ERC-1155 token burned to repair (GOLD, ore)
+    /// @param costPerPoint Amount burned per durability point restored (0 disables repairs)
+    function setRepairCost(EquipmentSlot.Slot slot, uint256 tokenId, uint256 costPerPoint) external onlyOwner {
+        _setRepairCost(slot, tokenId, costPerPoint);
+    }
+
+    /// @notice Transfers out ERC-1155 tokens of another contract sent to the vault by mistake
+    /// @dev Only callable by the contract owner. Equipment items cannot be rescued.
+    /// @param token The ERC-1155 contract
+    /// @param to Address receiving the tokens
+    /// @param id The token id
+    /// @param amount The amount to transfer
+    function rescueERC1155(address token, address to, uint256 id, uint256 amount) external onlyOwner {
+        _rescueERC1155(token, to, id, amount);
+    }
+
+    /// @notice Authorizes or revokes a game system (e.g. MineSystem, ProgressionSystem)
+    /// @dev Only callable by the contract owner. Game systems can lock players during runs
+    ///      and increase attributes.
+    /// @param system The game system address
+    /// @param authorized True to authorize, false to revoke
+    function setGameSystem(address system, bool authorized) external onlyOwner {
+        _setGameSystem(system, authorized);
+    }
+
+    /// @notice Sets the ProgressionSystem levels are read from
+    /// @dev Only callable by the contract owner. Without a ProgressionSystem every player is level 1.
+    /// @param progressionSystem The address of the ProgressionSystem
+    function setProgressionSystem(address progressionSystem) external onlyOwner {
+        _progressionSystem = IProgressionSystem(progressionSystem);
+        emit ProgressionSystemSet(progressionSystem);
+    }
+
+    /// @notice Returns the ProgressionSystem levels are read from
+    /// @return The ProgressionSystem address
+    function getProgressionSystem() external view returns (address) {
+        return address(_progressionSystem);
+    }
+
+    /// @notice Sets the AttributeUpgrades contract upgradeAttribute forwards to
+    /// @dev Only callable by the contract owner. It must also be authorized as a game system.
+    /// @param attributeUpgrades The address of the AttributeUpgrades contract
+    function setAttributeUpgrades(address attributeUpgrades) external onlyOwner {
+        _attributeUpgrades = IAttributeUpgrades(attributeUpgrades);
+        emit AttributeUpgradesSet(attributeUpgrades);
+    }
+
+    /// @notice Returns the AttributeUpgrades contract upgradeAttribute forwards to
+    /// @return The AttributeUpgrades address
+    function getAttributeUpgrades() external view returns (address) {
+        return address(_attributeUpgrades);
+    }
+
+    /// @notice Returns the level of a player
+    /// @param tokenId The ID of the player token
+    /// @return The level read from the ProgressionSystem, or 1 if none is set
+    function getLevel(uint256 tokenId) public view returns (uint256) {
+        if (address(_progressionSystem) == address(0)) {
+            return 1;
+        }
+        return _progressionSystem.getLevel(tokenId);
+    }
+
     /// @notice Checks if the caller owns the specified player token
     /// @param playerTokenId The player token ID to check
     /// @return True if the caller owns the token
@@ -168,6 +570,27 @@ contract Player is ERC721, Ownable, EquipmentVault {
         return ownerOf(playerTokenId) == msg.sender;
     }
 
+    /// @notice Reverts if the player does not meet the level and attribute requirements of an item
+    /// @param playerTokenId The player token ID equipping the item
+    /// @param stats The decoded stats of the item
+    function _checkEquipRequirements(uint256 playerTokenId, ItemStats.Stats memory stats) internal view override {
+        uint256 level = getLevel(playerTokenId);
+        if (level < stats.requiredLevel) {
+            revert LevelTooLow(playerTokenId, stats.requiredLevel, level);
+        }
+
+        // Both in Attribute order
+        Attributes memory a = _attributesOf(playerTokenId);
+        ItemStats.Requirements memory r = stats.requirements;
+        uint64[5] memory actual = [a.strenght, a.dexterity, a.intelligence, a.luck, a.constitution];
+        uint64[5] memory required = [r.strength, r.dexterity, r.intelligence, r.luck, r.constitution];
+        for (uint256 i = 0; i < actual.length; i++) {
+            if (actual[i] < required[i]) {
+                revert AttributeTooLow(playerTokenId, Attribute(i), required[i], actual[i]);
+            }
+        }
+    }
+
     /// @notice ERC165 support - resolves conflict between ERC721 and EquipmentVault
     /// @param interfaceId The interface ID to check
     /// @return True if the interface is supported
@@ -0,0 +1,250 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./Player.sol";
+
+/// @title PlayerSale - Discounted launch campaigns for player tokens
+/// @author KusaMine Team
+/// @notice Mints player tokens at a discount through EIP-712 vouchers signed by the sale signer,
+///         or through Merkle allowlist phases. Player.buyToken and Player.buyTokenWithERC20 stay the public
+///         paths at the full price.
+/// @dev Must be a minter of the Player, so the Player minting rules (one token per wallet, remint
+///      cooldown, personhood) apply to every campaign. Payments are forwarded to the treasury on mint.
+/// @dev Allowlist leaves follow the OpenZeppelin standard Merkle tree: keccak256(bytes.concat(keccak256(abi.encode(account)))).
+contract PlayerSale is Ownable, EIP712 {
+    /// @notice EIP-712 type hash of a MintVoucher
+    bytes32 public constant MINT_VOUCHER_TYPEHASH =
+        keccak256("MintVoucher(address buyer,uint256 price,uint256 expiry,uint256 nonce)");
+
+    /// @notice A discounted mint signed by the sale signer
+    /// @param buyer The only address allowed to redeem the voucher
+    /// @param price The discounted price in native currency
+    /// @param expiry The last timestamp the voucher can be redeemed at
+    /// @param nonce One-time nonce of the voucher
+    struct MintVoucher {
+        address buyer;
+        uint256 price;
+        uint256 expiry;
+        uint256 nonce;
+    }
+
+    /// @notice An allowlist phase
+    /// @param merkleRoot The root of the allowlisted accounts
+    /// @param price The price in native currency
+    /// @param startTime The first timestamp of the phase
+    /// @param endTime The last timestamp of the phase
+    struct AllowlistPhase {
+        bytes32 merkleRoot;
+        uint256 price;
+        uint64 startTime;
+        uint64 endTime;
+    }
+
+    Player private immutable _player;
+    address private _signer;
+    address payable private _treasury;
+
+    uint256 private _phaseCounter;
+
+    /// @notice Mapping from voucher nonce to whether it was redeemed
+    mapping(uint256 nonce => bool) private _usedNonces;
+
+    /// @notice Mapping from phase ID to its definition
+    mapping(uint256 phaseId => AllowlistPhase) private _phases;
+
+    /// @notice Mapping from phase ID and account to whether the account minted in the phase
+    mapping(uint256 phaseId => mapping(address account => bool)) private _allowlistClaimed;
+
+    event VoucherRedeemed(uint256 indexed tokenId, address indexed buyer, uint256 indexed nonce, uint256 price);
+
+    event AllowlistMinted(uint256 indexed tokenId, address indexed buyer, uint256 indexed phaseId, uint256 price);
+
+    event AllowlistPhaseSet(uint256 indexed phaseId, AllowlistPhase phase);
+
+    event SignerSet(address indexed signer);
+
+    event TreasurySet(address indexed treasury);
+
+    /// @notice Initializes the PlayerSale
+    /// @param player The Player contract tokens are minted on
+    /// @param signer The address signing mint vouchers
+    /// @param treasury The address receiving the payments
+    constructor(
+        address player,
+        address signer,
+        address payable treasury
+    ) Ownable(msg.sender) EIP712("KusaMine PlayerSale", "1") {
+        require(player != address(0), "Invalid player");
+        require(signer != address(0), "Invalid signer");
+        require(treasury != address(0), "Invalid treasury");
+        _player = Player(player);
+        _signer = signer;
+        _treasury = treasury;
+    }
+
+    /// @notice Sets the address signing mint vouchers
+    /// @dev Only callable by the contract owner. Vouchers of the previous signer become invalid.
+    /// @param signer The signer address
+    function setSigner(address signer) external onlyOwner {
+        require(signer != address(0), "Invalid signer");
+        _signer = signer;
+        emit SignerSet(signer);
+    }
+
+    /// @notice Sets the address receiving the payments
+    /// @dev Only callable by the contract owner
+    /// @param treasury The treasury address
+    function setTreasury(address payable treasury) external onlyOwner {
+        require(treasury != address(0), "Invalid treasury");
+        _treasury = treasury;
+        emit TreasurySet(treasury);
+    }
+
+    /// @notice Registers an allowlist phase
+    /// @dev Only callable by the contract owner
+    /// @param phase The phase definition
+    /// @return phaseId The ID of the new phase
+    function addAllowlistPhase(AllowlistPhase calldata phase) external onlyOwner returns (uint256 phaseId) {
+        _phaseCounter += 1;
+        phaseId = _phaseCounter;
+        _setPhase(phaseId, phase);
+    }
+
+    /// @notice Updates an allowlist phase
+    /// @dev Only callable by the contract owner. Accounts that already minted in the phase stay claimed.
+    /// @param phaseId The ID of the phase
+    /// @param phase The new phase definition
+    function setAllowlistPhase(uint256 phaseId, AllowlistPhase calldata phase) external onlyOwner {
+        require(_phaseExists(phaseId), "Phase does not exist");
+        _setPhase(phaseId, phase);
+    }
+
+    /// @notice Mints a player token with a voucher signed by the sale signer
+    /// @dev The voucher must be redeemed by its buyer, before its expiry, paying its exact price
+    /// @param voucher The mint voucher
+    /// @param signature The EIP-712 signature of the voucher
+    /// @return tokenId The ID of the minted token
+    function mintWithVoucher(
+        MintVoucher calldata voucher,
+        bytes calldata signature
+    ) external payable returns (uint256 tokenId) {
+        require(voucher.buyer == msg.sender, "Voucher not for sender");
+        require(block.timestamp <= voucher.expiry, "Voucher expired");
+        require(!_usedNonces[voucher.nonce], "Voucher already used");
+        require(ECDSA.recover(hashVoucher(voucher), signature) == _signer, "Invalid signature");
+
+        _usedNonces[voucher.nonce] = true;
+        _collectPayment(voucher.price);
+        tokenId = _player.mintTo(msg.sender);
+
+        emit VoucherRedeemed(tokenId, msg.sender, voucher.nonce, voucher.price);
+    }
+
+    /// @notice Mints a player token during an allowlist phase
+    /// @dev Each allowlisted account can mint once per phase, paying the exact phase price
+    /// @param phaseId The ID of the phase
+    /// @param proof The Merkle proof of the caller
+    /// @return tokenId The ID of the minted token
+    function mintAllowlist(uint256 phaseId, bytes32[] calldata proof) external payable returns (uint256 tokenId) {
+        require(_phaseExists(phaseId), "Phase does not exist");
+        AllowlistPhase storage phase = _phases[phaseId];
+        require(block.timestamp >= phase.startTime && block.timestamp <= phase.endTime, "Phase not active");
+        require(!_allowlistClaimed[phaseId][msg.sender], "Already claimed");
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        require(MerkleProof.verifyCalldata(proof, phase.merkleRoot, leaf), "Not allowlisted");
+
+        _allowlistClaimed[phaseId][msg.sender] = true;
+        _collectPayment(phase.price);
+        tokenId = _player.mintTo(msg.sender);
+
+        emit AllowlistMinted(tokenId, msg.sender, phaseId, phase.price);
+    }
+
+    /// @notice Returns the EIP-712 digest signed for a voucher
+    /// @param voucher The mint voucher
+    /// @return The typed data hash
+    function hashVoucher(MintVoucher calldata voucher) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(MINT_VOUCHER_TYPEHASH, voucher.buyer, voucher.price, voucher.expiry, voucher.nonce))
+        );
+    }
+
+    /// @notice Returns whether a voucher nonce was redeemed
+    /// @param nonce The voucher nonce
+    /// @return True if the nonce was used
+    function isNonceUsed(uint256 nonce) external view returns (bool) {
+        return _usedNonces[nonce];
+    }
+
+    /// @notice Returns an allowlist phase
+    /// @param phaseId The ID of the phase
+    /// @return The AllowlistPhase struct
+    function getAllowlistPhase(uint256 phaseId) external view returns (AllowlistPhase memory) {
+        require(_phaseExists(phaseId), "Phase does not exist");
+        return _phases[phaseId];
+    }
+
+    /// @notice Returns the total number of allowlist phases registered
+    /// @return The current phase counter value
+    function getPhaseCounter() external view returns (uint256) {
+        return _phaseCounter;
+    }
+
+    /// @notice Returns whether an account minted during an allowlist phase
+    /// @param phaseId The ID of the phase
+    /// @param account The account address
+    /// @return True if the account minted in the phase
+    function hasClaimed(uint256 phaseId, address account) external view returns (bool) {
+        return _allowlistClaimed[phaseId][account];
+    }
+
+    /// @notice Returns the Player contract tokens are minted on
+    /// @return The Player address
+    function getPlayer() external view returns (address) {
+        return address(_player);
+    }
+
+    /// @notice Returns the address signing mint vouchers
+    /// @return The signer address
+    function getSigner() external view returns (address) {
+        return _signer;
+    }
+
+    /// @notice Returns the address receiving the payments
+    /// @return The treasury address
+    function getTreasury() external view returns (address) {
+        return _treasury;
+    }
+
+    /// @notice Validates and stores an allowlist phase
+    /// @param phaseId The ID of the phase
+    /// @param phase The phase definition
+    function _setPhase(uint256 phaseId, AllowlistPhase calldata phase) internal {
+        require(phase.merkleRoot != bytes32(0), "Invalid merkle root");
+        require(phase.startTime <= phase.endTime, "Invalid phase window");
+        _phases[phaseId] = phase;
+        emit AllowlistPhaseSet(phaseId, phase);
+    }
+
+    /// @notice Checks the payment of a mint and forwards it to the treasury
+    /// @param price The price of the mint
+    function _collectPayment(uint256 price) internal {
+        require(msg.value == price, "Incorrect payment");
+        if (price > 0) {
+            (bool sent, ) = _treasury.call{ value: price }("");
+            require(sent, "Payment transfer failed");
+        }
+    }
+
+    /// @notice Checks if a phase exists
+    /// @param phaseId The ID of the phase
+    /// @return True if the phase was registered
+    function _phaseExists(uint256 phaseId) internal view returns (bool) {
+        return phaseId > 0 && phaseId <= _phaseCounter;
+    }
+}
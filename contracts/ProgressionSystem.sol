@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./GameSystemAccess.sol";
+import "./Player.sol";
+import "./AttributeUpgrades.sol";
+import "./interfaces/IProgressionSystem.sol";
+
+/// @title ProgressionSystem - XP, levels and stat points of KusaMine characters
+/// @author KusaMine Team
+/// @notice Authorized game systems award XP to characters. Reaching an XP threshold levels the
+///         character up and grants stat points that its owner can spend on attributes.
+/// @dev Every character starts at level 1 with 0 XP. The XP curve holds the cumulative XP
+///      required for each level above 1, so the max level is the curve length + 1.
+///      Must be an authorized game system on Player to spend stat points and unlock slots.
+/// @dev Stat points respect the hard caps of the AttributeUpgrades contract set by the owner, if any,
+///      so attributes never go above what a respec accepts.
+/// @dev Extra equipment slots (RELIC_2, RELIC_3, RING_3) can be unlocked by the character owner
+///      once the character reaches the unlock level the owner set for the slot.
+contract ProgressionSystem is IProgressionSystem, Ownable, GameSystemAccess {
+    /// @notice Progression of a character
+    /// @param xp The total XP earned
+    /// @param level The current level (0 until the character earns XP, read as level 1)
+    /// @param unspentStatPoints The stat points earned and not yet spent
+    struct Progress {
+        uint256 xp;
+        uint32 level;
+        uint32 unspentStatPoints;
+    }
+
+    Player private immutable _player;
+
+    /// @notice The contract holding the attribute hard caps (address(0) for no caps)
+    AttributeUpgrades private _attributeUpgrades;
+
+    /// @notice Cumulative XP required to reach level index + 2
+    uint256[] private _xpCurve;
+
+    /// @notice Stat points granted on each level-up
+    uint32 private _statPointsPerLevel;
+
+    /// @notice Mapping from character ID to its progression
+    mapping(uint256 characterId => Progress) private _progress;
+
+    /// @notice Mapping from extra equipment slot to the level unlocking it (0 if not unlockable)
+    mapping(EquipmentSlot.Slot slot => uint32) private _slotUnlockLevels;
+
+    event XpAwarded(uint256 indexed characterId, address indexed system, uint256 amount, uint256 totalXp);
+
+    event LevelUp(uint256 indexed characterId, uint32 newLevel, uint32 statPointsGranted);
+
+    event StatPointsSpent(uint256 indexed characterId, Player.Attribute attribute, uint32 amount);
+
+    event XpCurveUpdated(uint256[] xpCurve);
+
+    event StatPointsPerLevelUpdated(uint32 statPointsPerLevel);
+
+    event SlotUnlockLevelSet(EquipmentSlot.Slot indexed slot, uint32 level);
+
+    event AttributeUpgradesSet(address indexed attributeUpgrades);
+
+    /// @notice Initializes the ProgressionSystem with a default XP curve (max level 10)
+    /// @param player The Player contract characters are minted on
+    constructor(address player) Ownable(msg.sender) {
+        require(player != address(0), "Invalid player contract");
+        _player = Player(player);
+        uint256[9] memory defaultCurve = [uint256(100), 250, 450, 700, 1_000, 1_350, 1_750, 2_200, 2_700];
+        for (uint256 i = 0; i < defaultCurve.length; i++) {
+            _xpCurve.push(defaultCurve[i]);
+        }
+        _statPointsPerLevel = 3;
+    }
+
+    /// @notice Authorizes or revokes a game system allowed to award XP
+    /// @dev Only callable by the contract owner
+    /// @param system The game system address
+    /// @param authorized True to authorize, false to revoke
+    function setGameSystem(address system, bool authorized) external onlyOwner {
+        _setGameSystem(system, authorized);
+    }
+
+    /// @notice Sets the XP curve
+    /// @dev Only callable by the contract owner. Thresholds must be strictly increasing.
+    ///      Levels are only recomputed when XP is awarded: lowering the curve does not level
+    ///      anyone up until their next award, and raising it never removes levels.
+    /// @param xpCurve Cumulative XP required for each level above 1
+    function setXpCurve(uint256[] calldata xpCurve) external onlyOwner {
+        require(xpCurve.length > 0, "Empty XP curve");
+        require(xpCurve[0] > 0, "Invalid XP threshold");
+        for (uint256 i = 1; i < xpCurve.length; i++) {
+            require(xpCurve[i] > xpCurve[i - 1], "Invalid XP threshold");
+        }
+        _xpCurve = xpCurve;
+        emit XpCurveUpdated(xpCurve);
+    }
+
+    /// @notice Sets the number of stat points granted on each level-up
+    /// @dev Only callable by the contract owner
+    /// @param statPointsPerLevel The new number of stat points per level
+    function setStatPointsPerLevel(uint32 statPointsPerLevel) external onlyOwner {
+        _statPointsPerLevel = statPointsPerLevel;
+        emit StatPointsPerLevelUpdated(statPointsPerLevel);
+    }
+
+    /// @notice Sets the level unlocking an extra equipment slot
+    /// @dev Only callable by the contract owner. A level of 0 makes the slot not unlockable.
+    /// @param slot The extra equipment slot
+    /// @param level The level unlocking the slot
+    function setSlotUnlockLevel(EquipmentSlot.Slot slot, uint32 level) external onlyOwner {
+        require(EquipmentSlot.isExtra(slot), "Slot not unlockable");
+        _slotUnlockLevels[slot] = level;
+        emit SlotUnlockLevelSet(slot, level);
+    }
+
+    /// @notice Sets the AttributeUpgrades contract whose hard caps apply to stat points
+    /// @dev Only callable by the contract owner. address(0) removes the caps.
+    /// @param attributeUpgrades The AttributeUpgrades contract
+    function setAttributeUpgrades(address attributeUpgrades) external onlyOwner {
+        _attributeUpgrades = AttributeUpgrades(attributeUpgrades);
+        emit AttributeUpgradesSet(attributeUpgrades);
+    }
+
+    /// @notice Awards XP to a character, leveling it up as many times as its new XP allows
+    /// @dev Only callable by authorized game systems
+    /// @param characterId The Player token ID of the character
+    /// @param amount The amount of XP to award
+    function awardXp(uint256 characterId, uint256 amount) external onlyGameSystem {
+        // Reverts with ERC721NonexistentToken for unknown characters
+        _player.ownerOf(characterId);
+        Progress storage progress = _progress[characterId];
+        progress.xp += amount;
+        emit XpAwarded(characterId, msg.sender, amount, progress.xp);
+
+        uint32 level = _levelOf(progress);
+        uint32 statPointsPerLevel = _statPointsPerLevel;
+        // Level n + 1 requires _xpCurve[n - 1]
+        while (level <= _xpCurve.length && progress.xp >= _xpCurve[level - 1]) {
+            level++;
+            progress.unspentStatPoints += statPointsPerLevel;
+            emit LevelUp(characterId, level, statPointsPerLevel);
+        }
+        progress.level = level;
+    }
+
+    /// @notice Spends stat points of a character on one of its attributes
+    /// @dev Reverts with AttributeUpgrades.HardCapExceeded above the hard cap of the attribute
+    /// @param characterId The Player token ID of the character
+    /// @param attribute The attribute to increase
+    /// @param amount The number of stat points to spend
+    function spendStatPoints(uint256 characterId, Player.Attribute attribute, uint32 amount) external {
+        require(_player.ownerOf(characterId) == msg.sender, "Not the character owner");
+        require(amount > 0, "Invalid amount");
+        Progress storage progress = _progress[characterId];
+        require(progress.unspentStatPoints >= amount, "Not enough stat points");
+
+        if (address(_attributeUpgrades) != address(0)) {
+            _attributeUpgrades.checkHardCap(characterId, attribute, amount);
+        }
+
+        progress.unspentStatPoints -= amount;
+        _player.increaseAttribute(characterId, attribute, amount);
+
+        emit StatPointsSpent(characterId, attribute, amount);
+    }
+
+    /// @notice Unlocks an extra equipment slot of a character that reached its unlock level
+    /// @param characterId The Player token ID of the character
+    /// @param slot The extra equipment slot
+    function unlockSlot(uint256 characterId, EquipmentSlot.Slot slot) external {
+        require(_player.ownerOf(characterId) == msg.sender, "Not the character owner");
+        uint32 unlockLevel = _slotUnlockLevels[slot];
+        require(unlockLevel > 0, "Slot not unlockable");
+        require(_levelOf(_progress[characterId]) >= unlockLevel, "Level too low");
+
+        _player.unlockSlot(characterId, slot);
+    }
+
+    /// @notice Returns the total XP of a character
+    /// @param characterId The Player token ID of the character
+    /// @return The total XP
+    function getXp(uint256 characterId) external view returns (uint256) {
+        return _progress[characterId].xp;
+    }
+
+    /// @notice Returns the level of a character
+    /// @param characterId The Player token ID of the character
+    /// @return The level, starting at 1
+    function getLevel(uint256 characterId) external view returns (uint32) {
+        return _levelOf(_progress[characterId]);
+    }
+
+    /// @notice Returns the unspent stat points of a character
+    /// @param characterId The Player token ID of the character
+    /// @return The number of unspent stat points
+    function getUnspentStatPoints(uint256 characterId) external view returns (uint32) {
+        return _progress[characterId].unspentStatPoints;
+    }
+
+    /// @notice Returns the level unlocking an extra equipment slot
+    /// @param slot The extra equipment slot
+    /// @return The unlock level (0 if not unlockable)
+    function getSlotUnlockLevel(EquipmentSlot.Slot slot) external view returns (uint32) {
+        return _slotUnlockLevels[slot];
+    }
+
+    /// @notice Returns the XP curve
+    /// @return The cumulative XP required for each level above 1
+    function getXpCurve() external view returns (uint256[] memory) {
+        return _xpCurve;
+    }
+
+    /// @notice Returns the maximum level a character can reach
+    /// @return The max level
+    function getMaxLevel() external view returns (uint256) {
+        return _xpCurve.length + 1;
+    }
+
+    /// @notice Returns the number of stat points granted on each level-up
+    /// @return The number of stat points per level
+    function getStatPointsPerLevel() external view returns (uint32) {
+        return _statPointsPerLevel;
+    }
+
+    /// @notice Returns the AttributeUpgrades contract whose hard caps apply to stat points
+    /// @return The AttributeUpgrades address (address(0) for no caps)
+    function getAttributeUpgrades() external view returns (address) {
+        return address(_attributeUpgrades);
+    }
+
+    /// @notice Returns the Player contract characters are minted on
+    /// @return The Player contract address
+    function getPlayer() external view returns (address) {
+        return address(_player);
+    }
+
+    /// @notice Returns the level of a character, treating an unset level as level 1
+    /// @param progress The progression of the character
+    /// @return The level
+    function _levelOf(Progress storage progress) internal view returns (uint32) {
+        return progress.level == 0 ? 1 : progress.level;
+    }
+}
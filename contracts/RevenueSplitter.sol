@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @title RevenueSplitter - Shares game revenue between several payees
+/// @author KusaMine Team
+/// @notice Meant to be set as the treasury of the Player and the Forge: it receives mint proceeds,
+///         upgrade fees and crafting fees, and distributes its native and ERC20 balances to the
+///         payees pro rata of their shares.
+/// @dev Distribution pushes the whole balance to every payee in one call, so payees can be
+///      replaced at any time without pending accounting. A payee rejecting native currency
+///      blocks native distributions until the owner replaces it. Rounding dust goes to the last payee.
+/// @dev ERC20 payouts use safe transfer semantics, so tokens without a return value (USDT style) work.
+contract RevenueSplitter is Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @notice Maximum number of payees
+    uint256 public constant MAX_PAYEES = 10;
+
+    /// @notice A payee and its share of the revenue
+    /// @param account The address receiving the payments
+    /// @param shares The shares of the payee
+    struct Payee {
+        address payable account;
+        uint256 shares;
+    }
+
+    Payee[] private _payees;
+
+    uint256 private _totalShares;
+
+    event PayeesSet(Payee[] payees);
+
+    event PaymentReceived(address indexed from, uint256 amount);
+
+    event PaymentReleased(address indexed payee, uint256 amount);
+
+    event ERC20PaymentReleased(address indexed token, address indexed payee, uint256 amount);
+
+    /// @notice Initializes the RevenueSplitter
+    /// @param payees The initial payees
+    constructor(Payee[] memory payees) Ownable(msg.sender) {
+        _setPayees(payees);
+    }
+
+    /// @notice Emits PaymentReceived for native currency sent to the splitter
+    receive() external payable {
+        emit PaymentReceived(msg.sender, msg.value);
+    }
+
+    /// @notice Replaces the payees and their shares
+    /// @dev Only callable by the contract owner. Balances already held are distributed with the new shares.
+    /// @param payees The new payees
+    function setPayees(Payee[] calldata payees) external onlyOwner {
+        _setPayees(payees);
+    }
+
+    /// @notice Distributes the native currency balance to the payees
+    function distribute() external {
+        uint256 balance = address(this).balance;
+        require(balance > 0, "Nothing to distribute");
+
+        uint256 remaining = balance;
+        for (uint256 i = 0; i < _payees.length; i++) {
+            uint256 amount = _shareOf(i, balance, remaining);
+            remaining -= amount;
+
+            (bool sent, ) = _payees[i].account.call{ value: amount }("");
+            require(sent, "Payment failed");
+            emit PaymentReleased(_payees[i].account, amount);
+        }
+    }
+
+    /// @notice Distributes the balance of an ERC20 token to the payees
+    /// @param token The ERC20 token
+    function distributeToken(address token) external {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        require(balance > 0, "Nothing to distribute");
+
+        uint256 remaining = balance;
+        for (uint256 i = 0; i < _payees.length; i++) {
+            uint256 amount = _shareOf(i, balance, remaining);
+            remaining -= amount;
+
+            IERC20(token).safeTransfer(_payees[i].account, amount);
+            emit ERC20PaymentReleased(token, _payees[i].account, amount);
+        }
+    }
+
+    /// @notice Returns the payees and their shares
+    /// @return The Payee array
+    function getPayees() external view returns (Payee[] memory) {
+        return _payees;
+    }
+
+    /// @notice Returns the sum of the shares of every payee
+    /// @return The total shares
+    function getTotalShares() external view returns (uint256) {
+        return _totalShares;
+    }
+
+    /// @notice Validates and stores the payees
+    /// @param payees The payees
+    function _setPayees(Payee[] memory payees) internal {
+        require(payees.length > 0 && payees.length <= MAX_PAYEES, "Invalid payee count");
+
+        delete _payees;
+        uint256 totalShares;
+        for (uint256 i = 0; i < payees.length; i++) {
+            require(payees[i].account != address(0), "Invalid payee");
+            require(payees[i].shares > 0, "Invalid shares");
+            for (uint256 j = 0; j < i; j++) {
+                require(payees[j].account != payees[i].account, "Duplicate payee");
+            }
+            totalShares += payees[i].shares;
+            _payees.push(payees[i]);
+        }
+        _totalShares = totalShares;
+
+        emit PayeesSet(payees);
+    }
+
+    /// @notice Returns the amount of a distribution owed to a payee
+    /// @param index The index of the payee
+    /// @param balance The amount being distributed
+    /// @param remaining The amount not yet paid out
+    /// @return The amount owed (the remaining amount for the last payee)
+    function _shareOf(uint256 index, uint256 balance, uint256 remaining) internal view returns (uint256) {
+        if (index == _payees.length - 1) {
+            return remaining;
+        }
+        return (balance * _payees[index].shares) / _totalShares;
+    }
+}
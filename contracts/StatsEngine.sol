@@ -0,0 +1,189 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./Player.sol";
+import "./EquipmentSlot.sol";
+import "./ItemStats.sol";
+import "./interfaces/IEquipable.sol";
+
+/// @title StatsEngine - Derived stats of KusaMine characters
+/// @author KusaMine Team
+/// @notice Combines a character's base attributes with the modifiers of its equipped items
+///         into derived stats (HP, damage, dodge, crit, ...). Game systems read stats from here.
+/// @dev Chances, resistances and loot bonus are expressed in basis points (10_000 = 100%).
+///      Coefficients are configurable by the owner.
+contract StatsEngine is Ownable {
+    /// @notice Denominator of all basis point values
+    uint256 public constant BPS = 10_000;
+
+    /// @notice Coefficients of the derived stat formulas
+    struct Coefficients {
+        uint32 baseHp;
+        uint32 hpPerConstitution;
+        uint32 baseMana;
+        uint32 manaPerIntelligence;
+        uint32 damagePerStrength;
+        uint32 damagePerDexterity;
+        uint32 baseDodge;
+        uint32 dodgePerDexterity;
+        uint32 basePhysicalResist;
+        uint32 physicalResistPerConstitution;
+        uint32 baseMagicResist;
+        uint32 magicResistPerIntelligence;
+        uint32 baseCrit;
+        uint32 critPerLuck;
+        uint32 lootPerLuck;
+        uint32 baseTrapAvoid;
+        uint32 trapAvoidPerDexterity;
+        uint32 maxChance;
+    }
+
+    /// @notice Derived stats of a character
+    struct DerivedStats {
+        uint256 hp;
+        uint256 mana;
+        uint256 damage;
+        uint256 dodgeChance;
+        uint256 physicalResist;
+        uint256 magicResist;
+        uint256 critChance;
+        uint256 lootBonus;
+        uint256 trapAvoidChance;
+    }
+
+    Player private immutable _player;
+    Coefficients private _coefficients;
+
+    event CoefficientsUpdated(Coefficients coefficients);
+
+    /// @notice Initializes the StatsEngine with default coefficients
+    /// @param player The Player contract characters are minted on
+    constructor(address player) Ownable(msg.sender) {
+        require(player != address(0), "Invalid player contract");
+        _player = Player(player);
+        _coefficients = Coefficients({
+            baseHp: 100,
+            hpPerConstitution: 10,
+            baseMana: 50,
+            manaPerIntelligence: 5,
+            damagePerStrength: 2,
+            damagePerDexterity: 1,
+            baseDodge: 200,
+            dodgePerDexterity: 20,
+            basePhysicalResist: 0,
+            physicalResistPerConstitution: 20,
+            baseMagicResist: 0,
+            magicResistPerIntelligence: 20,
+            baseCrit: 500,
+            critPerLuck: 25,
+            lootPerLuck: 50,
+            baseTrapAvoid: 500,
+            trapAvoidPerDexterity: 30,
+            maxChance: 7_500
+        });
+    }
+
+    /// @notice Sets the coefficients of the derived stat formulas
+    /// @dev Only callable by the contract owner
+    /// @param coefficients The new coefficients
+    function setCoefficients(Coefficients calldata coefficients) external onlyOwner {
+        require(coefficients.maxChance <= BPS, "Max chance above 100%");
+        _coefficients = coefficients;
+        emit CoefficientsUpdated(coefficients);
+    }
+
+    /// @notice Returns the coefficients of the derived stat formulas
+    /// @return The Coefficients struct
+    function getCoefficients() external view returns (Coefficients memory) {
+        return _coefficients;
+    }
+
+    /// @notice Returns the Player contract stats are read from
+    /// @return The Player contract address
+    function getPlayer() external view returns (address) {
+        return address(_player);
+    }
+
+    /// @notice Computes the derived stats of a character
+    /// @dev HP = baseHp + CON * hpPerConstitution + equipment
+    ///      Mana = baseMana + INT * manaPerIntelligence + equipment
+    ///      Damage = STR * damagePerStrength + DEX * damagePerDexterity + equipment (weapon base included)
+    ///      DodgeChance = baseDodge + DEX * dodgePerDexterity + equipment
+    ///      PhysicalResist = basePhysicalResist + CON * physicalResistPerConstitution + equipment
+    ///      MagicResist = baseMagicResist + INT * magicResistPerIntelligence + equipment
+    ///      CritChance = baseCrit + LUCK * critPerLuck + equipment
+    ///      LootBonus = LUCK * lootPerLuck + equipment
+    ///      TrapAvoidChance = baseTrapAvoid + DEX * trapAvoidPerDexterity + equipment
+    ///      Chances and resistances are capped at maxChance.
+    /// @param playerTokenId The Player token ID of the character
+    /// @return stats The derived stats
+    function getDerivedStats(uint256 playerTokenId) external view returns (DerivedStats memory stats) {
+        Player.Attributes memory attributes = _player.getAttributes(playerTokenId);
+        ItemStats.Modifiers memory equipment = getEquipmentModifiers(playerTokenId);
+        Coefficients memory c = _coefficients;
+
+        stats.hp = c.baseHp + attributes.constitution * c.hpPerConstitution + equipment.hp;
+        stats.mana = c.baseMana + attributes.intelligence * c.manaPerIntelligence + equipment.mana;
+        stats.damage =
+            attributes.strenght * c.damagePerStrength +
+            attributes.dexterity * c.damagePerDexterity +
+            equipment.damage;
+        stats.dodgeChance = _cap(
+            c.baseDodge + attributes.dexterity * c.dodgePerDexterity + equipment.dodgeChance,
+            c.maxChance
+        );
+        stats.physicalResist = _cap(
+            c.basePhysicalResist + attributes.constitution * c.physicalResistPerConstitution + equipment.physicalResist,
+            c.maxChance
+        );
+        stats.magicResist = _cap(
+            c.baseMagicResist + attributes.intelligence * c.magicResistPerIntelligence + equipment.magicResist,
+            c.maxChance
+        );
+        stats.critChance = _cap(c.baseCrit + attributes.luck * c.critPerLuck + equipment.critChance, c.maxChance);
+        stats.lootBonus = attributes.luck * c.lootPerLuck + equipment.lootBonus;
+        stats.trapAvoidChance = _cap(
+            c.baseTrapAvoid + attributes.dexterity * c.trapAvoidPerDexterity + equipment.trapAvoidChance,
+            c.maxChance
+        );
+    }
+
+    /// @notice Sums the modifiers of every item a character has equipped
+    /// @dev Item data is decoded with the ItemStats schema. Broken items (0 durability) are skipped.
+    /// @param playerTokenId The Player token ID of the character
+    /// @return total The summed modifiers
+    function getEquipmentModifiers(uint256 playerTokenId) public view returns (ItemStats.Modifiers memory total) {
+        address equipmentContract = _player.getEquipmentContract();
+        if (equipmentContract == address(0)) {
+            return total;
+        }
+
+        for (uint256 i = 0; i <= uint256(type(EquipmentSlot.Slot).max); i++) {
+            (uint256 tokenType, uint256 amount, uint32 durability) =
+                _player.getEquippedItem(playerTokenId, EquipmentSlot.Slot(i));
+            if (amount == 0 || durability == 0) {
+                continue;
+            }
+            ItemStats.Modifiers memory item =
+                ItemStats.decode(IEquipable(equipmentContract).getItemData(tokenType)).modifiers;
+            total.damage += item.damage;
+            total.hp += item.hp;
+            total.mana += item.mana;
+            total.critChance += item.critChance;
+            total.dodgeChance += item.dodgeChance;
+            total.physicalResist += item.physicalResist;
+            total.magicResist += item.magicResist;
+            total.lootBonus += item.lootBonus;
+            total.trapAvoidChance += item.trapAvoidChance;
+        }
+    }
+
+    /// @notice Caps a value
+    /// @param value The value to cap
+    /// @param cap The maximum value
+    /// @return The capped value
+    function _cap(uint256 value, uint256 cap) internal pure returns (uint256) {
+        return value > cap ? cap : value;
+    }
+}
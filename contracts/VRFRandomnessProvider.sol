@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./GameSystemAccess.sol";
+import "./interfaces/IRandomnessProvider.sol";
+import "./interfaces/IVRFCoordinator.sol";
+
+/// @title VRFRandomnessProvider - Adapter from a VRF style coordinator to IRandomnessProvider
+/// @author KusaMine Team
+/// @notice Forwards randomness requests to a VRF coordinator and stores the word it delivers
+///         so game systems can read it once fulfilled.
+/// @dev Only authorized game systems can request randomness, since requests are paid by the
+///      subscription. The commitment passed by game systems is not used.
+contract VRFRandomnessProvider is IRandomnessProvider, Ownable, GameSystemAccess {
+    /// @notice VRF request configuration
+    /// @param keyHash The gas lane / key to use
+    /// @param subId The subscription paying for requests
+    /// @param minimumRequestConfirmations Blocks the coordinator waits before fulfilling
+    /// @param callbackGasLimit Gas limit of the fulfillment callback
+    struct VRFConfig {
+        bytes32 keyHash;
+        uint64 subId;
+        uint16 minimumRequestConfirmations;
+        uint32 callbackGasLimit;
+    }
+
+    /// @notice State of a request
+    /// @param exists Whether the request was issued
+    /// @param fulfilled Whether the coordinator delivered the random word
+    /// @param randomWord The random word (0 until fulfilled)
+    struct Request {
+        bool exists;
+        bool fulfilled;
+        uint256 randomWord;
+    }
+
+    IVRFCoordinator private immutable _coordinator;
+    VRFConfig private _config;
+
+    uint256 private _requestCounter;
+
+    /// @notice Mapping from request ID to its state
+    mapping(uint256 requestId => Request) private _requests;
+
+    /// @notice Mapping from coordinator request ID to request ID
+    mapping(uint256 vrfRequestId => uint256 requestId) private _vrfRequests;
+
+    /// @notice Thrown when rawFulfillRandomWords is not called by the coordinator
+    error OnlyCoordinatorCanFulfill(address have, address want);
+
+    /// @notice Thrown when the coordinator fulfills a request twice
+    error AlreadyFulfilled(uint256 requestId);
+
+    event VRFConfigUpdated(VRFConfig config);
+
+    /// @notice Initializes the adapter
+    /// @param coordinator The VRF coordinator
+    /// @param config The VRF request configuration
+    constructor(address coordinator, VRFConfig memory config) Ownable(msg.sender) {
+        require(coordinator != address(0), "Invalid coordinator");
+        _coordinator = IVRFCoordinator(coordinator);
+        _config = config;
+        emit VRFConfigUpdated(config);
+    }
+
+    /// @notice Authorizes or revokes a game system allowed to request randomness
+    /// @dev Only callable by the contract owner
+    /// @param system The game system address
+    /// @param authorized True to authorize, false to revoke
+    function setGameSystem(address system, bool authorized) external onlyOwner {
+        _setGameSystem(system, authorized);
+    }
+
+    /// @notice Sets the VRF request configuration
+    /// @dev Only callable by the contract owner
+    /// @param config The new configuration
+    function setVRFConfig(VRFConfig calldata config) external onlyOwner {
+        _config = config;
+        emit VRFConfigUpdated(config);
+    }
+
+    /// @inheritdoc IRandomnessProvider
+    function requestRandomness(bytes32 commitment) external onlyGameSystem returns (uint256 requestId) {
+        _requestCounter += 1;
+        requestId = _requestCounter;
+        _requests[requestId].exists = true;
+
+        VRFConfig memory config = _config;
+        uint256 vrfRequestId = _coordinator.requestRandomWords(
+            config.keyHash,
+            config.subId,
+            config.minimumRequestConfirmations,
+            config.callbackGasLimit,
+            1
+        );
+        _vrfRequests[vrfRequestId] = requestId;
+
+        emit RandomnessRequested(requestId, msg.sender, commitment);
+    }
+
+    /// @notice Callback of the coordinator delivering random words
+    /// @param vrfRequestId The coordinator request ID
+    /// @param randomWords The random words (only the first one is used)
+    function rawFulfillRandomWords(uint256 vrfRequestId, uint256[] calldata randomWords) external {
+        if (msg.sender != address(_coordinator)) {
+            revert OnlyCoordinatorCanFulfill(msg.sender, address(_coordinator));
+        }
+        uint256 requestId = _vrfRequests[vrfRequestId];
+        if (requestId == 0) revert UnknownRequest(vrfRequestId);
+        Request storage request = _requests[requestId];
+        if (request.fulfilled) revert AlreadyFulfilled(requestId);
+        require(randomWords.length > 0, "No random words");
+
+        request.fulfilled = true;
+        request.randomWord = randomWords[0];
+
+        emit RandomnessFulfilled(requestId, randomWords[0]);
+    }
+
+    /// @inheritdoc IRandomnessProvider
+    function isFulfilled(uint256 requestId) external view returns (bool) {
+        return _getRequest(requestId).fulfilled;
+    }
+
+    /// @inheritdoc IRandomnessProvider
+    function getRandomWord(uint256 requestId) external view returns (uint256) {
+        Request storage request = _getRequest(requestId);
+        if (!request.fulfilled) revert RandomnessNotFulfilled(requestId);
+        return request.randomWord;
+    }
+
+    /// @notice Returns the VRF coordinator
+    /// @return The coordinator address
+    function getCoordinator() external view returns (address) {
+        return address(_coordinator);
+    }
+
+    /// @notice Returns the VRF request configuration
+    /// @return The VRFConfig struct
+    function getVRFConfig() external view returns (VRFConfig memory) {
+        return _config;
+    }
+
+    /// @notice Returns the request ID of a coordinator request
+    /// @param vrfRequestId The coordinator request ID
+    /// @return The request ID (0 if unknown)
+    function getRequestId(uint256 vrfRequestId) external view returns (uint256) {
+        return _vrfRequests[vrfRequestId];
+    }
+
+    /// @notice Returns a request, reverting if it was never issued
+    /// @param requestId The ID of the request
+    /// @return The Request storage pointer
+    function _getRequest(uint256 requestId) internal view returns (Request storage) {
+        Request storage request = _requests[requestId];
+        if (!request.exists) revert UnknownRequest(requestId);
+        return request;
+    }
+}
@@ -0,0 +1,13 @@
+// contracts/interfaces/IAttributeUpgrades.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+interface IAttributeUpgrades {
+    /// @notice Raises an attribute of a character on behalf of its owner, paying the summed cost
+    /// @dev Only callable by the Player contract (Player.upgradeAttribute)
+    /// @param owner The owner of the character, paying the cost
+    /// @param characterId The Player token ID of the character
+    /// @param attribute The Player.Attribute to raise
+    /// @param levels The number of points to add
+    function upgradeAttributeFor(address owner, uint256 characterId, uint8 attribute, uint64 levels) external;
+}
@@ -0,0 +1,24 @@
+// contracts/interfaces/IGameItems.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+interface IGameItems {
+    /// @notice Mints game items (loot, resources) to an address
+    /// @param to The address receiving the items
+    /// @param id The ERC-1155 token id to mint
+    /// @param amount The amount to mint
+    function mint(address to, uint256 id, uint256 amount) external;
+
+    /// @notice Burns game items (repairs, crafting inputs) from an address
+    /// @dev The caller must be the holder or an approved operator
+    /// @param from The address holding the items
+    /// @param id The ERC-1155 token id to burn
+    /// @param amount The amount to burn
+    function burn(address from, uint256 id, uint256 amount) external;
+
+    /// @notice Returns whether an account is allowed to mint a token id
+    /// @param account The address minting
+    /// @param id The ERC-1155 token id
+    /// @return True if the account can mint the id
+    function canMint(address account, uint256 id) external view returns (bool);
+}
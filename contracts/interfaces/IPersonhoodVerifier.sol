@@ -0,0 +1,13 @@
+// contracts/interfaces/IPersonhoodVerifier.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/// @notice Registry of Proof of Personhood verified accounts
+/// @dev Implemented by an adapter over the PoP system (e.g. contextual aliases of the People chain)
+interface IPersonhoodVerifier {
+    /// @notice Returns the nullifier of the person behind an account
+    /// @dev The nullifier is the same for every account of a person
+    /// @param account The account address
+    /// @return The nullifier (bytes32(0) if the account is not verified)
+    function getNullifier(address account) external view returns (bytes32);
+}
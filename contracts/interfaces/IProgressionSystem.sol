@@ -0,0 +1,15 @@
+// contracts/interfaces/IProgressionSystem.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+interface IProgressionSystem {
+    /// @notice Returns the level of a character
+    /// @param characterId The Player token ID of the character
+    /// @return The level, starting at 1
+    function getLevel(uint256 characterId) external view returns (uint32);
+
+    /// @notice Awards XP to a character
+    /// @param characterId The Player token ID of the character
+    /// @param amount The amount of XP to award
+    function awardXp(uint256 characterId, uint256 amount) external;
+}
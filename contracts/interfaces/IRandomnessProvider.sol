@@ -0,0 +1,37 @@
+// contracts/interfaces/IRandomnessProvider.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/// @title IRandomnessProvider
+/// @notice Asynchronous source of random words consumed by game systems
+/// @dev A game system requests randomness, waits until the request is fulfilled
+///      (by a reveal, a VRF callback, ...) and then reads the random word.
+///      Request IDs start at 1, so 0 can be used as "no request".
+interface IRandomnessProvider {
+    /// @notice Thrown when a request ID was never issued
+    error UnknownRequest(uint256 requestId);
+
+    /// @notice Thrown when reading the random word of a request that is not fulfilled yet
+    error RandomnessNotFulfilled(uint256 requestId);
+
+    event RandomnessRequested(uint256 indexed requestId, address indexed requester, bytes32 commitment);
+
+    event RandomnessFulfilled(uint256 indexed requestId, uint256 randomWord);
+
+    /// @notice Requests a random word
+    /// @param commitment Provider specific request data: keccak256 of the player's secret for
+    ///        commit-reveal providers, ignored by providers that do not need it
+    /// @return requestId The ID of the request
+    function requestRandomness(bytes32 commitment) external returns (uint256 requestId);
+
+    /// @notice Checks if a request has been fulfilled
+    /// @param requestId The ID of the request
+    /// @return True if the random word is available
+    function isFulfilled(uint256 requestId) external view returns (bool);
+
+    /// @notice Returns the random word of a fulfilled request
+    /// @dev Reverts with RandomnessNotFulfilled if the request is not fulfilled
+    /// @param requestId The ID of the request
+    /// @return The random word
+    function getRandomWord(uint256 requestId) external view returns (uint256);
+}
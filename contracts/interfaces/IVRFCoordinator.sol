@@ -0,0 +1,23 @@
+// contracts/interfaces/IVRFCoordinator.sol
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/// @title IVRFCoordinator
+/// @notice Subset of a Chainlink VRF v2 style coordinator used by VRFRandomnessProvider
+/// @dev The coordinator fulfills requests by calling rawFulfillRandomWords on the requester
+interface IVRFCoordinator {
+    /// @notice Requests random words
+    /// @param keyHash The gas lane / key to use
+    /// @param subId The subscription paying for the request
+    /// @param minimumRequestConfirmations Blocks to wait before fulfilling
+    /// @param callbackGasLimit Gas limit of the fulfillment callback
+    /// @param numWords Number of random words to deliver
+    /// @return requestId The coordinator request ID
+    function requestRandomWords(
+        bytes32 keyHash,
+        uint64 subId,
+        uint16 minimumRequestConfirmations,
+        uint32 callbackGasLimit,
+        uint32 numWords
+    ) external returns (uint256 requestId);
+}
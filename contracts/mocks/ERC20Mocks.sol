@@ -33,17 +33,46 @@ contract MockERC20ReturnsFalse {
     }
 }
 
+/// @title MockERC20NoReturn - An ERC20 whose transfers return no value (USDT style)
+/// @dev Used for testing safe transfer semantics
+contract MockERC20NoReturn {
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+    }
+
+    function approve(address spender, uint256 amount) external {
+        allowance[msg.sender][spender] = amount;
+    }
+
+    function transfer(address to, uint256 amount) external {
+        require(balanceOf[msg.sender] >= amount, "Insufficient balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external {
+        require(balanceOf[from] >= amount, "Insufficient balance");
+        require(allowance[from][msg.sender] >= amount, "Insufficient allowance");
+        allowance[from][msg.sender] -= amount;
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+    }
+}
+
 /// @title MaliciousERC20 - An ERC20 that reenters during transferFrom
 /// @dev Used for testing reentrancy protection
-interface IPlayer {
-    function upgradeAttribute(uint256 tokenId, uint8 attribute) external;
+interface IAttributeUpgrades {
+    function upgradeAttribute(uint256 tokenId, uint8 attribute, uint64 levels) external;
 }
 
 contract MaliciousERC20 {
     mapping(address => uint256) public balanceOf;
     mapping(address => mapping(address => uint256)) public allowance;
 
-    address public targetPlayer;
+    address public targetUpgrades;
     uint256 public targetTokenId;
     uint8 public targetAttribute;
     bool public shouldReenter;
@@ -58,8 +87,8 @@ contract MaliciousERC20 {
         return true;
     }
 
-    function setReentrancyParams(address player, uint256 tokenId, uint8 attribute) external {
-        targetPlayer = player;
+    function setReentrancyParams(address upgrades, uint256 tokenId, uint8 attribute) external {
+        targetUpgrades = upgrades;
         targetTokenId = tokenId;
         targetAttribute = attribute;
         shouldReenter = true;
@@ -77,9 +106,71 @@ contract MaliciousERC20 {
         if (shouldReenter && !reentered) {
             reentered = true;
             // Try to call upgradeAttribute again during the transfer
-            IPlayer(targetPlayer).upgradeAttribute(targetTokenId, targetAttribute);
+            IAttributeUpgrades(targetUpgrades).upgradeAttribute(targetTokenId, targetAttribute, 1);
         }
 
         return true;
     }
 }
+
+/// @title IERC20SenderHook - Hook an ERC777-style token calls on the sender before a transfer
+interface IERC20SenderHook {
+    function tokensToSend(address from, address to, uint256 amount) external;
+}
+
+/// @title MockERC20WithSenderHook - An ERC20 calling a hook on contract senders (ERC777 style)
+/// @dev Used for testing reentrancy through token transfer hooks
+contract MockERC20WithSenderHook is ERC20 {
+    constructor() ERC20("Hooked Token", "HOOK") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from != address(0) && from.code.length > 0) {
+            IERC20SenderHook(from).tokensToSend(from, to, value);
+        }
+        super._update(from, to, value);
+    }
+}
+
+/// @title ReentrantWallet - A contract wallet reentering a target from a token transfer hook
+/// @dev Used for testing reentrancy through token transfer hooks. Owns its player token, so
+///      the reentrant call passes ownership checks.
+contract ReentrantWallet is IERC20SenderHook {
+    address public reentryTarget;
+    bytes public reentryData;
+    bool public reentered;
+
+    function execute(address target, bytes calldata data) external payable {
+        (bool success, bytes memory result) = target.call{value: msg.value}(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function setReentry(address target, bytes calldata data) external {
+        reentryTarget = target;
+        reentryData = data;
+    }
+
+    function tokensToSend(address, address, uint256) external override {
+        if (reentryTarget == address(0) || reentered) {
+            return;
+        }
+        reentered = true;
+        (bool success, bytes memory result) = reentryTarget.call(reentryData);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external pure returns (bytes4) {
+        return this.onERC721Received.selector;
+    }
+}
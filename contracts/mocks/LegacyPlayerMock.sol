@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "../Player.sol";
+
+/// @title LegacyPlayerMock - A Player that mints characters without CON
+/// @dev Used for testing characters minted before the Constitution attribute existed
+contract LegacyPlayerMock is Player {
+    constructor(uint256 price) Player(price) {}
+
+    function _initialAttributes() internal pure override returns (Attributes memory) {
+        return Attributes(10, 10, 10, 10, 0);
+    }
+}
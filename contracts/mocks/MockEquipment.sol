@@ -2,11 +2,13 @@
 pragma solidity 0.8.28;
 
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
 import "../interfaces/IEquipable.sol";
 
 /// @title MockEquipment - A test contract for EquipmentVault testing
 /// @dev Exposes createTokenType as public for testing purposes
-contract MockEquipment is ERC1155, IEquipable {
+/// @dev Burnable by holders and approved operators, like GameItems1155 (used by repairs)
+contract MockEquipment is ERC1155Burnable, IEquipable {
     uint256 private _tokenTypeCounter;
 
     struct EquipmentData {
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
+import "../interfaces/IGameItems.sol";
+
+/// @title MockGameItems - An ERC1155 loot token for testing
+/// @dev Anyone can mint, used to receive loot payouts from game systems
+contract MockGameItems is ERC1155Burnable, IGameItems {
+    constructor() ERC1155("") {}
+
+    function mint(address to, uint256 id, uint256 amount) external override {
+        _mint(to, id, amount, "");
+    }
+
+    function burn(address from, uint256 id, uint256 amount) public override(ERC1155Burnable, IGameItems) {
+        super.burn(from, id, amount);
+    }
+
+    function canMint(address, uint256) external pure override returns (bool) {
+        return true;
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "../interfaces/IPersonhoodVerifier.sol";
+
+/// @title MockPersonhoodVerifier - A personhood registry filled by hand
+/// @dev Anyone can verify accounts, used to link test accounts to persons
+contract MockPersonhoodVerifier is IPersonhoodVerifier {
+    mapping(address => bytes32) private _nullifiers;
+
+    function setNullifier(address account, bytes32 nullifier) external {
+        _nullifiers[account] = nullifier;
+    }
+
+    function getNullifier(address account) external view override returns (bytes32) {
+        return _nullifiers[account];
+    }
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "../interfaces/IRandomnessProvider.sol";
+
+/// @title MockRandomnessProvider - A randomness provider fulfilled by hand
+/// @dev Anyone can request and fulfill, used to feed chosen random words to game systems
+contract MockRandomnessProvider is IRandomnessProvider {
+    uint256 private _requestCounter;
+    mapping(uint256 => bool) private _fulfilled;
+    mapping(uint256 => uint256) private _randomWords;
+
+    function requestRandomness(bytes32 commitment) external override returns (uint256 requestId) {
+        _requestCounter += 1;
+        requestId = _requestCounter;
+        emit RandomnessRequested(requestId, msg.sender, commitment);
+    }
+
+    function fulfill(uint256 requestId, uint256 randomWord) external {
+        if (requestId == 0 || requestId > _requestCounter) revert UnknownRequest(requestId);
+        _fulfilled[requestId] = true;
+        _randomWords[requestId] = randomWord;
+        emit RandomnessFulfilled(requestId, randomWord);
+    }
+
+    function isFulfilled(uint256 requestId) external view override returns (bool) {
+        return _fulfilled[requestId];
+    }
+
+    function getRandomWord(uint256 requestId) external view override returns (uint256) {
+        if (!_fulfilled[requestId]) revert RandomnessNotFulfilled(requestId);
+        return _randomWords[requestId];
+    }
+
+    function getRequestCounter() external view returns (uint256) {
+        return _requestCounter;
+    }
+}
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "../interfaces/IVRFCoordinator.sol";
+
+interface IVRFConsumer {
+    function rawFulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) external;
+}
+
+/// @title MockVRFCoordinator - A local VRF coordinator for Hardhat tests
+/// @dev Records requests and lets tests fulfill them, with pseudo-random or chosen words
+contract MockVRFCoordinator is IVRFCoordinator {
+    struct Request {
+        address consumer;
+        uint32 numWords;
+    }
+
+    uint256 private _requestCounter;
+    mapping(uint256 => Request) private _requests;
+
+    event RandomWordsRequested(
+        uint256 indexed requestId,
+        address indexed consumer,
+        bytes32 keyHash,
+        uint64 subId,
+        uint16 minimumRequestConfirmations,
+        uint32 callbackGasLimit,
+        uint32 numWords
+    );
+
+    event RandomWordsFulfilled(uint256 indexed requestId, address indexed consumer);
+
+    function requestRandomWords(
+        bytes32 keyHash,
+        uint64 subId,
+        uint16 minimumRequestConfirmations,
+        uint32 callbackGasLimit,
+        uint32 numWords
+    ) external override returns (uint256 requestId) {
+        _requestCounter += 1;
+        requestId = _requestCounter;
+        _requests[requestId] = Request({ consumer: msg.sender, numWords: numWords });
+        emit RandomWordsRequested(
+            requestId,
+            msg.sender,
+            keyHash,
+            subId,
+            minimumRequestConfirmations,
+            callbackGasLimit,
+            numWords
+        );
+    }
+
+    /// @notice Fulfills a request with pseudo-random words
+    function fulfillRandomWords(uint256 requestId) external {
+        Request memory request = _requests[requestId];
+        uint256[] memory words = new uint256[](request.numWords);
+        for (uint256 i = 0; i < words.length; i++) {
+            words[i] = uint256(keccak256(abi.encode(requestId, i)));
+        }
+        _fulfill(requestId, words);
+    }
+
+    /// @notice Fulfills a request with chosen words
+    function fulfillRandomWordsWithOverride(uint256 requestId, uint256[] calldata words) external {
+        _fulfill(requestId, words);
+    }
+
+    function _fulfill(uint256 requestId, uint256[] memory words) internal {
+        Request memory request = _requests[requestId];
+        require(request.consumer != address(0), "Nonexistent request");
+        delete _requests[requestId];
+        IVRFConsumer(request.consumer).rawFulfillRandomWords(requestId, words);
+        emit RandomWordsFulfilled(requestId, request.consumer);
+    }
+}
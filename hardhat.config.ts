@@ -2,8 +2,29 @@ import { HardhatUserConfig, vars } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@parity/hardhat-polkadot";
 
+// Player (ERC721 + EquipmentVault) exceeds the 24KB contract size limit without viaIR and the
+// optimizer. runs is kept low to favor deployment size over call cost. Contracts importing Player
+// compile it with the default settings, and solc warns about its size there, but only the artifact
+// built with these settings is deployed.
+const PLAYER_COMPILER = {
+  version: "0.8.28",
+  settings: {
+    viaIR: true,
+    optimizer: {
+      enabled: true,
+      runs: 1,
+    },
+  },
+};
+
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    compilers: [{ version: "0.8.28" }],
+    overrides: {
+      "contracts/Player.sol": PLAYER_COMPILER,
+      "contracts/mocks/LegacyPlayerMock.sol": PLAYER_COMPILER,
+    },
+  },
   resolc: {
     compilerSource: "npm",
   },
@@ -0,0 +1,789 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("AttributeUpgrades", function () {
+  // Enum values matching the contracts
+  const Attribute = {
+    Strength: 0,
+    Dexterity: 1,
+    Intelligence: 2,
+    Luck: 3,
+    Constitution: 4,
+  };
+
+  const CurveKind = {
+    None: 0,
+    Linear: 1,
+    Exponential: 2,
+    Tiered: 3,
+  };
+
+  // Flat cost of 100 per point, as the former single upgrade cost
+  const flatCurve = { kind: CurveKind.Linear, baseCost: 100, rate: 0, hardCap: 0 };
+
+  async function deployFixture() {
+    const price = hre.ethers.parseEther("0.1");
+    const [owner, otherAccount, treasury] = await hre.ethers.getSigners();
+
+    const Player = await hre.ethers.getContractFactory("Player");
+    const player = await Player.deploy(price);
+
+    const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+    const upgradeToken = await MockERC20.deploy("Upgrade Token", "UPG");
+
+    const AttributeUpgrades = await hre.ethers.getContractFactory("AttributeUpgrades");
+    const upgrades = await AttributeUpgrades.deploy(
+      await player.getAddress(),
+      await upgradeToken.getAddress(),
+      treasury.address
+    );
+    await player.connect(owner).setGameSystem(await upgrades.getAddress(), true);
+
+    for (const attribute of Object.values(Attribute)) {
+      await upgrades.connect(owner).setCurve(attribute, flatCurve, []);
+    }
+
+    // otherAccount owns player token 1, whose attributes start at 10
+    await player.connect(otherAccount).buyToken({ value: price });
+    await upgradeToken.mint(otherAccount.address, 1_000_000);
+    await upgradeToken.connect(otherAccount).approve(await upgrades.getAddress(), 1_000_000);
+
+    return { player, upgrades, upgradeToken, price, owner, otherAccount, treasury };
+  }
+
+  async function deployWithNoReturnTokenFixture() {
+    const { player, upgrades, owner, otherAccount, treasury } = await loadFixture(deployFixture);
+
+    const MockERC20NoReturn = await hre.ethers.getContractFactory("MockERC20NoReturn");
+    const token = await MockERC20NoReturn.deploy();
+    await upgrades.connect(owner).setUpgradeToken(await token.getAddress());
+    await token.mint(otherAccount.address, 1_000);
+    await token.connect(otherAccount).approve(await upgrades.getAddress(), 1_000);
+
+    return { player, upgrades, token, owner, otherAccount, treasury };
+  }
+
+  async function deployWithFalseTokenFixture() {
+    const { player, upgrades, owner, otherAccount, treasury } = await loadFixture(deployFixture);
+
+    const MockERC20ReturnsFalse = await hre.ethers.getContractFactory("MockERC20ReturnsFalse");
+    const token = await MockERC20ReturnsFalse.deploy();
+    await upgrades.connect(owner).setUpgradeToken(await token.getAddress());
+    await token.mint(otherAccount.address, 1_000);
+    await token.connect(otherAccount).approve(await upgrades.getAddress(), 1_000);
+
+    return { player, upgrades, token, owner, otherAccount, treasury };
+  }
+
+  async function deployWithMaliciousTokenFixture() {
+    const { player, upgrades, owner, otherAccount, treasury } = await loadFixture(deployFixture);
+
+    const MaliciousERC20 = await hre.ethers.getContractFactory("MaliciousERC20");
+    const token = await MaliciousERC20.deploy();
+    await upgrades.connect(owner).setUpgradeToken(await token.getAddress());
+    await token.mint(otherAccount.address, 1_000);
+    await token.connect(otherAccount).approve(await upgrades.getAddress(), 1_000);
+
+    return { player, upgrades, token, owner, otherAccount, treasury };
+  }
+
+  describe("Deployment", function () {
+    it("Should set the player, upgrade token and treasury", async function () {
+      const { player, upgrades, upgradeToken, owner, treasury } = await loadFixture(deployFixture);
+
+      expect(await upgrades.getPlayer()).to.equal(await player.getAddress());
+      expect(await upgrades.getUpgradeToken()).to.equal(await upgradeToken.getAddress());
+      expect(await upgrades.getTreasury()).to.equal(treasury.address);
+      expect(await upgrades.owner()).to.equal(owner.address);
+    });
+
+    it("Should revert on zero constructor addresses", async function () {
+      const { player, upgradeToken, treasury } = await loadFixture(deployFixture);
+      const AttributeUpgrades = await hre.ethers.getContractFactory("AttributeUpgrades");
+      const playerAddress = await player.getAddress();
+      const tokenAddress = await upgradeToken.getAddress();
+
+      await expect(AttributeUpgrades.deploy(hre.ethers.ZeroAddress, tokenAddress, treasury.address))
+        .to.be.revertedWith("Invalid player");
+      await expect(AttributeUpgrades.deploy(playerAddress, hre.ethers.ZeroAddress, treasury.address))
+        .to.be.revertedWith("Invalid upgrade token");
+      await expect(AttributeUpgrades.deploy(playerAddress, tokenAddress, hre.ethers.ZeroAddress))
+        .to.be.revertedWith("Invalid treasury");
+    });
+  });
+
+  describe("Admin", function () {
+    describe("Happy path", function () {
+      it("Should update the upgrade token and emit UpgradeTokenSet", async function () {
+        const { upgrades, owner, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(owner).setUpgradeToken(otherAccount.address))
+          .to.emit(upgrades, "UpgradeTokenSet")
+          .withArgs(otherAccount.address);
+        expect(await upgrades.getUpgradeToken()).to.equal(otherAccount.address);
+      });
+
+      it("Should update the treasury and emit TreasurySet", async function () {
+        const { upgrades, owner, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(owner).setTreasury(otherAccount.address))
+          .to.emit(upgrades, "TreasurySet")
+          .withArgs(otherAccount.address);
+        expect(await upgrades.getTreasury()).to.equal(otherAccount.address);
+      });
+
+      it("Should store a tiered curve and emit CurveSet", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        const curve = { kind: CurveKind.Tiered, baseCost: 0, rate: 0, hardCap: 50 };
+        const tiers = [
+          { fromValue: 0, cost: 100 },
+          { fromValue: 20, cost: 500 },
+        ];
+
+        await expect(upgrades.connect(owner).setCurve(Attribute.Luck, curve, tiers)).to.emit(upgrades, "CurveSet");
+
+        const [storedCurve, storedTiers] = await upgrades.getCurve(Attribute.Luck);
+        expect(storedCurve.kind).to.equal(CurveKind.Tiered);
+        expect(storedCurve.hardCap).to.equal(50);
+        expect(storedTiers.map((tier) => [tier.fromValue, tier.cost])).to.deep.equal([
+          [0n, 100n],
+          [20n, 500n],
+        ]);
+      });
+
+      it("Should drop the previous tiers when replacing a tiered curve", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(
+          Attribute.Luck,
+          { kind: CurveKind.Tiered, baseCost: 0, rate: 0, hardCap: 0 },
+          [{ fromValue: 0, cost: 100 }, { fromValue: 20, cost: 500 }]
+        );
+
+        await upgrades.connect(owner).setCurve(Attribute.Luck, flatCurve, []);
+
+        const [storedCurve, storedTiers] = await upgrades.getCurve(Attribute.Luck);
+        expect(storedCurve.kind).to.equal(CurveKind.Linear);
+        expect(storedTiers).to.be.empty;
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when non-owner calls the setters", async function () {
+        const { upgrades, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(otherAccount).setUpgradeToken(otherAccount.address))
+          .to.be.revertedWithCustomError(upgrades, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+        await expect(upgrades.connect(otherAccount).setTreasury(otherAccount.address))
+          .to.be.revertedWithCustomError(upgrades, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+        await expect(upgrades.connect(otherAccount).setCurve(Attribute.Strength, flatCurve, []))
+          .to.be.revertedWithCustomError(upgrades, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+      });
+
+      it("Should revert on zero addresses", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(owner).setUpgradeToken(hre.ethers.ZeroAddress))
+          .to.be.revertedWith("Invalid upgrade token");
+        await expect(upgrades.connect(owner).setTreasury(hre.ethers.ZeroAddress))
+          .to.be.revertedWith("Invalid treasury");
+      });
+
+      it("Should revert with 'Invalid curve' for a curve of kind None", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(owner).setCurve(
+          Attribute.Strength,
+          { kind: CurveKind.None, baseCost: 100, rate: 0, hardCap: 0 },
+          []
+        )).to.be.revertedWith("Invalid curve");
+      });
+
+      it("Should revert with 'Invalid tiers' for malformed tiers", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        const tiered = { kind: CurveKind.Tiered, baseCost: 0, rate: 0, hardCap: 0 };
+        const maxTiers = Number(await upgrades.MAX_TIERS());
+        const tooMany = Array.from({ length: maxTiers + 1 }, (_, i) => ({ fromValue: i, cost: 1 }));
+
+        // No tiers, first tier above 0, unsorted tiers and too many tiers
+        await expect(upgrades.connect(owner).setCurve(Attribute.Strength, tiered, []))
+          .to.be.revertedWith("Invalid tiers");
+        await expect(upgrades.connect(owner).setCurve(Attribute.Strength, tiered, [{ fromValue: 5, cost: 1 }]))
+          .to.be.revertedWith("Invalid tiers");
+        await expect(upgrades.connect(owner).setCurve(Attribute.Strength, tiered, [
+          { fromValue: 0, cost: 1 },
+          { fromValue: 10, cost: 2 },
+          { fromValue: 10, cost: 3 },
+        ])).to.be.revertedWith("Invalid tiers");
+        await expect(upgrades.connect(owner).setCurve(Attribute.Strength, tiered, tooMany))
+          .to.be.revertedWith("Invalid tiers");
+
+        // Tiers given to a non-tiered curve
+        await expect(upgrades.connect(owner).setCurve(Attribute.Strength, flatCurve, [{ fromValue: 0, cost: 1 }]))
+          .to.be.revertedWith("Invalid tiers");
+      });
+    });
+  });
+
+  describe("quote()", function () {
+    describe("Happy path", function () {
+      it("Should price a linear curve as baseCost + rate * value", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(
+          Attribute.Strength,
+          { kind: CurveKind.Linear, baseCost: 100, rate: 10, hardCap: 0 },
+          []
+        );
+
+        expect(await upgrades.quote(Attribute.Strength, 0, 1)).to.equal(100);
+        expect(await upgrades.quote(Attribute.Strength, 10, 1)).to.equal(200);
+        // 200 + 210 + 220
+        expect(await upgrades.quote(Attribute.Strength, 10, 3)).to.equal(630);
+      });
+
+      it("Should price an exponential curve as baseCost * (1 + rate) ^ value", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        // +10% per point
+        await upgrades.connect(owner).setCurve(
+          Attribute.Strength,
+          { kind: CurveKind.Exponential, baseCost: 1000, rate: 1000, hardCap: 0 },
+          []
+        );
+
+        expect(await upgrades.quote(Attribute.Strength, 0, 1)).to.equal(1000);
+        expect(await upgrades.quote(Attribute.Strength, 2, 1)).to.equal(1210);
+        // 1000 + 1100 + 1210
+        expect(await upgrades.quote(Attribute.Strength, 0, 3)).to.equal(3310);
+        expect(await upgrades.quote(Attribute.Strength, 10, 1)).to.equal(2593);
+      });
+
+      it("Should price a tiered curve with the tier of each point", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(
+          Attribute.Strength,
+          { kind: CurveKind.Tiered, baseCost: 0, rate: 0, hardCap: 0 },
+          [{ fromValue: 0, cost: 100 }, { fromValue: 12, cost: 500 }, { fromValue: 15, cost: 2000 }]
+        );
+
+        // 10 and 11 in the first tier, 12 and 13 in the second
+        expect(await upgrades.quote(Attribute.Strength, 10, 4)).to.equal(1200);
+        expect(await upgrades.quote(Attribute.Strength, 15, 1)).to.equal(2000);
+        expect(await upgrades.quote(Attribute.Strength, 100, 1)).to.equal(2000);
+      });
+
+      it("Should quote an upgrade from the current attribute value", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(
+          Attribute.Strength,
+          { kind: CurveKind.Linear, baseCost: 100, rate: 10, hardCap: 0 },
+          []
+        );
+
+        expect(await upgrades.quoteUpgrade(1, Attribute.Strength, 3)).to.equal(630);
+      });
+
+      it("Should allow reaching the hard cap exactly", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(Attribute.Strength, { ...flatCurve, hardCap: 12 }, []);
+
+        expect(await upgrades.quote(Attribute.Strength, 10, 2)).to.equal(200);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with 'Invalid levels' for zero levels", async function () {
+        const { upgrades } = await loadFixture(deployFixture);
+
+        await expect(upgrades.quote(Attribute.Strength, 10, 0)).to.be.revertedWith("Invalid levels");
+      });
+
+      it("Should revert with 'Curve not set' for an attribute without a curve", async function () {
+        const { player, upgradeToken, treasury } = await loadFixture(deployFixture);
+        const AttributeUpgrades = await hre.ethers.getContractFactory("AttributeUpgrades");
+        const upgrades = await AttributeUpgrades.deploy(
+          await player.getAddress(),
+          await upgradeToken.getAddress(),
+          treasury.address
+        );
+
+        await expect(upgrades.quote(Attribute.Strength, 10, 1)).to.be.revertedWith("Curve not set");
+      });
+
+      it("Should revert with HardCapExceeded above the hard cap", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(Attribute.Strength, { ...flatCurve, hardCap: 12 }, []);
+
+        await expect(upgrades.quote(Attribute.Strength, 10, 3))
+          .to.be.revertedWithCustomError(upgrades, "HardCapExceeded")
+          .withArgs(Attribute.Strength, 13, 12);
+      });
+    });
+  });
+
+  describe("checkHardCap()", function () {
+    it("Should pass up to the hard cap and for attributes without a cap", async function () {
+      const { upgrades, owner } = await loadFixture(deployFixture);
+      await upgrades.connect(owner).setCurve(Attribute.Strength, { ...flatCurve, hardCap: 12 }, []);
+
+      await upgrades.checkHardCap(1, Attribute.Strength, 2);
+      await upgrades.checkHardCap(1, Attribute.Luck, 1_000);
+    });
+
+    it("Should revert with HardCapExceeded above the hard cap", async function () {
+      const { upgrades, owner } = await loadFixture(deployFixture);
+      await upgrades.connect(owner).setCurve(Attribute.Strength, { ...flatCurve, hardCap: 12 }, []);
+
+      await expect(upgrades.checkHardCap(1, Attribute.Strength, 3))
+        .to.be.revertedWithCustomError(upgrades, "HardCapExceeded")
+        .withArgs(Attribute.Strength, 13, 12);
+    });
+  });
+
+  describe("upgradeAttribute()", function () {
+    describe("Happy path", function () {
+      it("Should transfer the cost from the caller to the treasury", async function () {
+        const { upgrades, upgradeToken, otherAccount, treasury } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.changeTokenBalances(upgradeToken, [otherAccount, treasury, upgrades], [-100, 100, 0]);
+      });
+
+      it("Should increment only the chosen attribute by 1", async function () {
+        const { player, upgrades, otherAccount } = await loadFixture(deployFixture);
+
+        const attrsBefore = await player.getAttributes(1);
+        await upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Dexterity, 1);
+        const attrsAfter = await player.getAttributes(1);
+
+        expect(attrsAfter.dexterity).to.equal(attrsBefore.dexterity + 1n);
+        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght);
+        expect(attrsAfter.intelligence).to.equal(attrsBefore.intelligence);
+        expect(attrsAfter.luck).to.equal(attrsBefore.luck);
+        expect(attrsAfter.constitution).to.equal(attrsBefore.constitution);
+      });
+
+      it("Should raise several levels for the summed cost in one transfer", async function () {
+        const { player, upgrades, upgradeToken, owner, otherAccount, treasury } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(
+          Attribute.Strength,
+          { kind: CurveKind.Linear, baseCost: 100, rate: 10, hardCap: 0 },
+          []
+        );
+
+        const tx = upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 3);
+
+        await expect(tx).to.changeTokenBalances(upgradeToken, [otherAccount, treasury], [-630, 630]);
+        await expect(tx)
+          .to.emit(upgrades, "AttributeUpgraded")
+          .withArgs(1, Attribute.Strength, 3, 630)
+          .and.to.emit(upgradeToken, "Transfer")
+          .withArgs(otherAccount.address, treasury.address, 630);
+        expect((await player.getAttributes(1)).strenght).to.equal(13);
+      });
+
+      it("Should price later upgrades from the raised value", async function () {
+        const { upgrades, owner, otherAccount } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(
+          Attribute.Strength,
+          { kind: CurveKind.Linear, baseCost: 100, rate: 10, hardCap: 0 },
+          []
+        );
+
+        await upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 2);
+
+        expect(await upgrades.quoteUpgrade(1, Attribute.Strength, 1)).to.equal(220);
+      });
+
+      it("Should pay with tokens that do not return a value", async function () {
+        const { player, upgrades, token, otherAccount, treasury } = await loadFixture(deployWithNoReturnTokenFixture);
+
+        await upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1);
+
+        expect(await token.balanceOf(treasury.address)).to.equal(100);
+        expect((await player.getAttributes(1)).strenght).to.equal(11);
+      });
+    });
+
+    describe("Each attribute branch", function () {
+      const names = ["strenght", "dexterity", "intelligence", "luck", "constitution"] as const;
+
+      for (const [label, attribute] of Object.entries(Attribute)) {
+        it(`Should increment ${names[attribute]} when ${label} attribute is chosen`, async function () {
+          const { player, upgrades, otherAccount } = await loadFixture(deployFixture);
+
+          const attrsBefore = await player.getAttributes(1);
+          await upgrades.connect(otherAccount).upgradeAttribute(1, attribute, 1);
+          const attrsAfter = await player.getAttributes(1);
+
+          for (const [i, name] of names.entries()) {
+            expect(attrsAfter[name]).to.equal(attrsBefore[name] + (i === attribute ? 1n : 0n));
+          }
+        });
+      }
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller is not the token owner", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(owner).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWith("Not the token owner");
+      });
+
+      it("Should revert with HardCapExceeded above the hard cap", async function () {
+        const { upgrades, owner, otherAccount } = await loadFixture(deployFixture);
+        await upgrades.connect(owner).setCurve(Attribute.Strength, { ...flatCurve, hardCap: 12 }, []);
+        await upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 2);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWithCustomError(upgrades, "HardCapExceeded")
+          .withArgs(Attribute.Strength, 13, 12);
+      });
+
+      it("Should revert with 'Invalid levels' for zero levels", async function () {
+        const { upgrades, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 0))
+          .to.be.revertedWith("Invalid levels");
+      });
+
+      it("Should revert when AttributeUpgrades is not a game system", async function () {
+        const { player, upgrades, owner, otherAccount } = await loadFixture(deployFixture);
+        await player.connect(owner).setGameSystem(await upgrades.getAddress(), false);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWith("Not a game system");
+      });
+
+      it("Should revert when caller has insufficient balance", async function () {
+        const { upgrades, upgradeToken, owner, otherAccount } = await loadFixture(deployFixture);
+        const balance = await upgradeToken.balanceOf(otherAccount.address);
+        await upgradeToken.connect(otherAccount).transfer(owner.address, balance);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWithCustomError(upgradeToken, "ERC20InsufficientBalance");
+      });
+
+      it("Should revert when caller has insufficient allowance", async function () {
+        const { upgrades, upgradeToken, otherAccount } = await loadFixture(deployFixture);
+        await upgradeToken.connect(otherAccount).approve(await upgrades.getAddress(), 0);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWithCustomError(upgradeToken, "ERC20InsufficientAllowance");
+      });
+
+      it("Should revert with SafeERC20FailedOperation and keep attributes when the ERC20 returns false", async function () {
+        const { player, upgrades, token, otherAccount } = await loadFixture(deployWithFalseTokenFixture);
+
+        const attrsBefore = await player.getAttributes(1);
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWithCustomError(upgrades, "SafeERC20FailedOperation")
+          .withArgs(await token.getAddress());
+
+        expect((await player.getAttributes(1)).strenght).to.equal(attrsBefore.strenght);
+      });
+    });
+
+    describe("Reentrancy protection", function () {
+      it("Should not allow double upgrade via reentrancy", async function () {
+        const { player, upgrades, token, otherAccount } = await loadFixture(deployWithMaliciousTokenFixture);
+        await token.setReentrancyParams(await upgrades.getAddress(), 1, Attribute.Strength);
+
+        const attrsBefore = await player.getAttributes(1);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWithCustomError(upgrades, "ReentrancyGuardReentrantCall");
+
+        expect((await player.getAttributes(1)).strenght).to.equal(attrsBefore.strenght);
+      });
+
+      // A contract wallet owning its character reenters from the hook of an ERC777-style token
+      async function deployWithHookedTokenFixture() {
+        const { player, upgrades, price, owner } = await loadFixture(deployFixture);
+
+        const MockERC20WithSenderHook = await hre.ethers.getContractFactory("MockERC20WithSenderHook");
+        const token = await MockERC20WithSenderHook.deploy();
+        const ReentrantWallet = await hre.ethers.getContractFactory("ReentrantWallet");
+        const wallet = await ReentrantWallet.deploy();
+        const walletAddress = await wallet.getAddress();
+        const upgradesAddress = await upgrades.getAddress();
+
+        await upgrades.connect(owner).setUpgradeToken(await token.getAddress());
+        await upgrades.connect(owner).setCurve(Attribute.Strength, { ...flatCurve, hardCap: 11 }, []);
+        await token.mint(walletAddress, 1_000);
+        await wallet.execute(await player.getAddress(), player.interface.encodeFunctionData("buyToken"), { value: price });
+        await wallet.execute(
+          await token.getAddress(),
+          token.interface.encodeFunctionData("approve", [upgradesAddress, 1_000])
+        );
+
+        // The wallet owns player token 2, with Strength at 10 and a hard cap of 11
+        const upgradeCall = upgrades.interface.encodeFunctionData("upgradeAttribute", [2, Attribute.Strength, 1]);
+
+        return { player, upgrades, token, wallet, upgradesAddress, upgradeCall };
+      }
+
+      it("Should not let a hooked token stack upgrades past the hard cap", async function () {
+        const { player, upgrades, wallet, upgradesAddress, upgradeCall } = await loadFixture(deployWithHookedTokenFixture);
+        await wallet.setReentry(upgradesAddress, upgradeCall);
+
+        await expect(wallet.execute(upgradesAddress, upgradeCall))
+          .to.be.revertedWithCustomError(upgrades, "ReentrancyGuardReentrantCall");
+
+        expect((await player.getAttributes(2)).strenght).to.equal(10);
+      });
+
+      it("Should not let a hooked token respec during an upgrade", async function () {
+        const { player, upgrades, wallet, upgradesAddress, upgradeCall } = await loadFixture(deployWithHookedTokenFixture);
+        const attributes = await player.getAttributes(2);
+        await wallet.setReentry(
+          upgradesAddress,
+          upgrades.interface.encodeFunctionData("respec", [2, {
+            strenght: attributes.strenght,
+            dexterity: attributes.dexterity,
+            intelligence: attributes.intelligence,
+            luck: attributes.luck,
+            constitution: attributes.constitution,
+          }])
+        );
+
+        await expect(wallet.execute(upgradesAddress, upgradeCall))
+          .to.be.revertedWithCustomError(upgrades, "ReentrancyGuardReentrantCall");
+      });
+
+      it("Should upgrade with a hooked token that does not reenter", async function () {
+        const { player, token, wallet, upgradesAddress, upgradeCall } = await loadFixture(deployWithHookedTokenFixture);
+
+        await wallet.execute(upgradesAddress, upgradeCall);
+
+        expect((await player.getAttributes(2)).strenght).to.equal(11);
+        expect(await token.balanceOf(await wallet.getAddress())).to.equal(900);
+      });
+    });
+  });
+
+  describe("Player.upgradeAttribute()", function () {
+    async function deployWithForwardingFixture() {
+      const fixture = await loadFixture(deployFixture);
+      await fixture.player.connect(fixture.owner).setAttributeUpgrades(await fixture.upgrades.getAddress());
+      return fixture;
+    }
+
+    describe("Happy path", function () {
+      it("Should raise the attribute and charge the caller through AttributeUpgrades", async function () {
+        const { player, upgrades, upgradeToken, otherAccount, treasury } = await loadFixture(deployWithForwardingFixture);
+
+        const tx = player.connect(otherAccount).upgradeAttribute(1, Attribute.Luck, 2);
+
+        await expect(tx).to.changeTokenBalances(upgradeToken, [otherAccount, treasury], [-200, 200]);
+        await expect(tx)
+          .to.emit(upgrades, "AttributeUpgraded")
+          .withArgs(1, Attribute.Luck, 2, 200)
+          .and.to.emit(player, "AttributeIncreased")
+          .withArgs(1, Attribute.Luck, 2);
+        expect((await player.getAttributes(1)).luck).to.equal(12);
+      });
+
+      it("Should set the AttributeUpgrades contract and emit AttributeUpgradesSet", async function () {
+        const { player, upgrades, owner } = await loadFixture(deployFixture);
+        const upgradesAddress = await upgrades.getAddress();
+
+        await expect(player.connect(owner).setAttributeUpgrades(upgradesAddress))
+          .to.emit(player, "AttributeUpgradesSet")
+          .withArgs(upgradesAddress);
+
+        expect(await player.getAttributeUpgrades()).to.equal(upgradesAddress);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when the AttributeUpgrades contract is not set", async function () {
+        const { player, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWith("Attribute upgrades not set");
+      });
+
+      it("Should revert when the caller doesn't own the character", async function () {
+        const { player, owner } = await loadFixture(deployWithForwardingFixture);
+
+        await expect(player.connect(owner).upgradeAttribute(1, Attribute.Strength, 1))
+          .to.be.revertedWith("Not the token owner");
+      });
+
+      it("Should enforce the hard cap", async function () {
+        const { player, upgrades, owner, otherAccount } = await loadFixture(deployWithForwardingFixture);
+        await upgrades.connect(owner).setCurve(Attribute.Strength, { ...flatCurve, hardCap: 11 }, []);
+
+        await expect(player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 2))
+          .to.be.revertedWithCustomError(upgrades, "HardCapExceeded")
+          .withArgs(Attribute.Strength, 12, 11);
+      });
+
+      it("Should revert when upgradeAttributeFor is not called by the Player", async function () {
+        const { upgrades, otherAccount } = await loadFixture(deployWithForwardingFixture);
+
+        await expect(upgrades.connect(otherAccount).upgradeAttributeFor(otherAccount.address, 1, Attribute.Strength, 1))
+          .to.be.revertedWith("Not the player contract");
+      });
+
+      it("Should revert when non-owner calls setAttributeUpgrades", async function () {
+        const { player, upgrades, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(player.connect(otherAccount).setAttributeUpgrades(await upgrades.getAddress()))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+      });
+    });
+  });
+
+  describe("respec()", function () {
+    const respecFee = 50;
+    const cooldown = 7 * 24 * 60 * 60;
+
+    // 4 points above the base, all in Strength
+    async function deployWithUpgradedStrengthFixture() {
+      const fixture = await loadFixture(deployFixture);
+      const { upgrades, owner, otherAccount } = fixture;
+
+      await upgrades.connect(otherAccount).upgradeAttribute(1, Attribute.Strength, 4);
+      await upgrades.connect(owner).setRespecFee(respecFee);
+
+      return fixture;
+    }
+
+    const reallocated = { strenght: 10, dexterity: 12, intelligence: 10, luck: 11, constitution: 11 };
+
+    describe("Happy path", function () {
+      it("Should move the points to other attributes and emit Respecced", async function () {
+        const { player, upgrades, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+
+        await expect(upgrades.connect(otherAccount).respec(1, reallocated))
+          .to.emit(upgrades, "Respecced")
+          .withArgs(1, [14, 10, 10, 10, 10], [10, 12, 10, 11, 11], respecFee);
+
+        const attrs = await player.getAttributes(1);
+        expect(attrs.strenght).to.equal(10);
+        expect(attrs.dexterity).to.equal(12);
+        expect(attrs.luck).to.equal(11);
+        expect(attrs.constitution).to.equal(11);
+      });
+
+      it("Should transfer the fee from the caller to the treasury", async function () {
+        const { upgrades, upgradeToken, otherAccount, treasury } = await loadFixture(deployWithUpgradedStrengthFixture);
+
+        await expect(upgrades.connect(otherAccount).respec(1, reallocated))
+          .to.changeTokenBalances(upgradeToken, [otherAccount, treasury], [-respecFee, respecFee]);
+      });
+
+      it("Should not transfer anything when the fee is 0", async function () {
+        const { upgrades, upgradeToken, owner, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+        await upgrades.connect(owner).setRespecFee(0);
+
+        await expect(upgrades.connect(otherAccount).respec(1, reallocated))
+          .to.not.emit(upgradeToken, "Transfer");
+      });
+
+      it("Should record the respec time and allow a new respec after the cooldown", async function () {
+        const { upgrades, owner, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+        await upgrades.connect(owner).setRespecCooldown(cooldown);
+
+        await upgrades.connect(otherAccount).respec(1, reallocated);
+        expect(await upgrades.getLastRespecAt(1)).to.equal(await time.latest());
+
+        await time.increase(cooldown);
+        const backToStrength = { strenght: 14, dexterity: 10, intelligence: 10, luck: 10, constitution: 10 };
+        await expect(upgrades.connect(otherAccount).respec(1, backToStrength)).to.emit(upgrades, "Respecced");
+      });
+
+      it("Should let the owner set the fee and cooldown", async function () {
+        const { upgrades, owner } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(owner).setRespecFee(123)).to.emit(upgrades, "RespecFeeSet").withArgs(123);
+        await expect(upgrades.connect(owner).setRespecCooldown(cooldown))
+          .to.emit(upgrades, "RespecCooldownSet")
+          .withArgs(cooldown);
+
+        expect(await upgrades.getRespecFee()).to.equal(123);
+        expect(await upgrades.getRespecCooldown()).to.equal(cooldown);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller is not the token owner", async function () {
+        const { upgrades, owner } = await loadFixture(deployWithUpgradedStrengthFixture);
+
+        await expect(upgrades.connect(owner).respec(1, reallocated)).to.be.revertedWith("Not the token owner");
+      });
+
+      it("Should revert with PlayerIsLocked while the character is on a mine run", async function () {
+        const { player, upgrades, owner, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+        // owner stands in for the MineSystem
+        await player.connect(owner).setGameSystem(owner.address, true);
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(upgrades.connect(otherAccount).respec(1, reallocated))
+          .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+          .withArgs(1);
+      });
+
+      it("Should revert with RespecOnCooldown before the end of the cooldown", async function () {
+        const { upgrades, owner, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+        await upgrades.connect(owner).setRespecCooldown(cooldown);
+        await upgrades.connect(otherAccount).respec(1, reallocated);
+        const availableAt = BigInt(await time.latest()) + BigInt(cooldown);
+
+        await expect(upgrades.connect(otherAccount).respec(1, reallocated))
+          .to.be.revertedWithCustomError(upgrades, "RespecOnCooldown")
+          .withArgs(1, availableAt);
+      });
+
+      it("Should revert with 'Total points changed' when points are added or removed", async function () {
+        const { upgrades, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+
+        await expect(upgrades.connect(otherAccount).respec(1, { ...reallocated, dexterity: 13 }))
+          .to.be.revertedWith("Total points changed");
+        await expect(upgrades.connect(otherAccount).respec(1, { ...reallocated, dexterity: 11 }))
+          .to.be.revertedWith("Total points changed");
+      });
+
+      it("Should revert with 'Attribute below base' when an attribute goes under the base value", async function () {
+        const { upgrades, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+
+        await expect(upgrades.connect(otherAccount).respec(1, { ...reallocated, strenght: 9, dexterity: 13 }))
+          .to.be.revertedWith("Attribute below base");
+      });
+
+      it("Should revert with HardCapExceeded when points move above a hard cap", async function () {
+        const { upgrades, owner, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+        await upgrades.connect(owner).setCurve(Attribute.Dexterity, { ...flatCurve, hardCap: 11 }, []);
+
+        await expect(upgrades.connect(otherAccount).respec(1, reallocated))
+          .to.be.revertedWithCustomError(upgrades, "HardCapExceeded")
+          .withArgs(Attribute.Dexterity, 12, 11);
+      });
+
+      it("Should revert when caller has not approved the fee", async function () {
+        const { upgrades, upgradeToken, otherAccount } = await loadFixture(deployWithUpgradedStrengthFixture);
+        await upgradeToken.connect(otherAccount).approve(await upgrades.getAddress(), 0);
+
+        await expect(upgrades.connect(otherAccount).respec(1, reallocated))
+          .to.be.revertedWithCustomError(upgradeToken, "ERC20InsufficientAllowance");
+      });
+
+      it("Should revert when non-owner sets the fee or cooldown", async function () {
+        const { upgrades, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(upgrades.connect(otherAccount).setRespecFee(1))
+          .to.be.revertedWithCustomError(upgrades, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+        await expect(upgrades.connect(otherAccount).setRespecCooldown(1))
+          .to.be.revertedWithCustomError(upgrades, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+      });
+    });
+  });
+});
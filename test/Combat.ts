@@ -0,0 +1,307 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Result } from "ethers";
+import { Combat, StatsEngine } from "../typechain-types";
+import { encodeItemStats } from "./helpers/itemStats";
+
+describe("Combat", function () {
+  // Equipment slot enum values matching the contract
+  const Slot = {
+    ARMOR: 0,
+    WEAPON: 1,
+    RELIC: 2,
+  };
+
+  const BPS = 10_000;
+  const NO_ROLL = BPS - 1;
+
+  // With default coefficients a fresh character has 30 attack, 4% dodge, 7.5% crit and 2% physical resist
+  const goblin = { power: 30, damage: 50, xpReward: 40, lootTableId: 0 };
+  const troll = { power: 90, damage: 200, xpReward: 150, lootTableId: 3 };
+
+  // Builds a random word from its win, crit and dodge rolls (each in basis points)
+  function word(winRoll: number, critRoll: number = NO_ROLL, dodgeRoll: number = NO_ROLL) {
+    return (BigInt(dodgeRoll) << 128n) | (BigInt(critRoll) << 64n) | BigInt(winRoll);
+  }
+
+  // Fixed, reproducible random words for probability checks
+  function fixedWords(count: number) {
+    return Array.from({ length: count }, (_, i) =>
+      hre.ethers.toBigInt(hre.ethers.solidityPackedKeccak256(["string", "uint256"], ["combat", i]))
+    );
+  }
+
+  async function deployFixture() {
+    const price = hre.ethers.parseEther("0.1");
+
+    // gameSystem stands in for MineSystem resolving fights
+    const [owner, player1, gameSystem] = await hre.ethers.getSigners();
+
+    const Player = await hre.ethers.getContractFactory("Player");
+    const player = await Player.deploy(price);
+
+    const StatsEngine = await hre.ethers.getContractFactory("StatsEngine");
+    const statsEngine = await StatsEngine.deploy(await player.getAddress());
+
+    const Combat = await hre.ethers.getContractFactory("Combat");
+    const combat = await Combat.deploy(await statsEngine.getAddress());
+
+    await combat.connect(owner).setGameSystem(gameSystem.address, true);
+
+    return { player, statsEngine, combat, price, owner, player1, gameSystem };
+  }
+
+  async function deployWithMonstersFixture() {
+    const { player, statsEngine, combat, price, owner, player1, gameSystem } = await loadFixture(deployFixture);
+
+    await combat.connect(owner).addMonster(goblin);
+    await combat.connect(owner).addMonster(troll);
+    await player.connect(player1).buyToken({ value: price });
+
+    return { player, statsEngine, combat, price, owner, player1, gameSystem };
+  }
+
+  async function countWins(combat: Combat, monsterId: number, words: bigint[]) {
+    let wins = 0;
+    for (const randomWord of words) {
+      const result = await combat.simulate(1, monsterId, 100, randomWord);
+      if (result.won) wins += 1;
+    }
+    return wins;
+  }
+
+  describe("Deployment", function () {
+    it("Should set the stats engine", async function () {
+      const { combat, statsEngine } = await loadFixture(deployFixture);
+
+      expect(await combat.getStatsEngine()).to.equal(await statsEngine.getAddress());
+    });
+
+    it("Should revert when deployed with a zero stats engine address", async function () {
+      const Combat = await hre.ethers.getContractFactory("Combat");
+
+      await expect(Combat.deploy(hre.ethers.ZeroAddress)).to.be.revertedWith("Invalid stats engine");
+    });
+  });
+
+  describe("Monster registry", function () {
+    describe("Happy path", function () {
+      it("Should register a monster and emit MonsterSet", async function () {
+        const { combat, owner } = await loadFixture(deployFixture);
+
+        await expect(combat.connect(owner).addMonster(goblin)).to.emit(combat, "MonsterSet");
+
+        expect(await combat.getMonsterCounter()).to.equal(1);
+        const monster = await combat.getMonster(1);
+        expect(monster.power).to.equal(goblin.power);
+        expect(monster.damage).to.equal(goblin.damage);
+        expect(monster.xpReward).to.equal(goblin.xpReward);
+        expect(monster.lootTableId).to.equal(goblin.lootTableId);
+      });
+
+      it("Should update a monster", async function () {
+        const { combat, owner } = await loadFixture(deployWithMonstersFixture);
+
+        await combat.connect(owner).setMonster(1, { ...goblin, damage: 10 });
+
+        expect((await combat.getMonster(1)).damage).to.equal(10);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with zero power", async function () {
+        const { combat, owner } = await loadFixture(deployWithMonstersFixture);
+
+        await expect(combat.connect(owner).addMonster({ ...goblin, power: 0 })).to.be.revertedWith("Invalid monster power");
+        await expect(combat.connect(owner).setMonster(1, { ...goblin, power: 0 })).to.be.revertedWith(
+          "Invalid monster power"
+        );
+      });
+
+      it("Should revert when the monster doesn't exist", async function () {
+        const { combat, owner } = await loadFixture(deployWithMonstersFixture);
+
+        await expect(combat.connect(owner).setMonster(3, goblin)).to.be.revertedWith("Monster does not exist");
+        await expect(combat.getMonster(0)).to.be.revertedWith("Monster does not exist");
+        await expect(combat.simulate(1, 3, 100, 0)).to.be.revertedWith("Monster does not exist");
+      });
+
+      it("Should revert when non-owner calls admin functions", async function () {
+        const { combat, player1 } = await loadFixture(deployWithMonstersFixture);
+
+        await expect(combat.connect(player1).addMonster(goblin))
+          .to.be.revertedWithCustomError(combat, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(combat.connect(player1).setMonster(1, goblin))
+          .to.be.revertedWithCustomError(combat, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(combat.connect(player1).setStatsEngine(player1.address))
+          .to.be.revertedWithCustomError(combat, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+  });
+
+  describe("getWinChance()", function () {
+    it("Should give even odds when attack equals power", async function () {
+      const { combat } = await loadFixture(deployFixture);
+
+      expect(await combat.getWinChance(30, 30)).to.equal(5000);
+      expect(await combat.getWinChance(30, 90)).to.equal(2500);
+    });
+
+    it("Should clamp the win chance", async function () {
+      const { combat } = await loadFixture(deployFixture);
+
+      expect(await combat.getWinChance(0, 30)).to.equal(await combat.MIN_WIN_CHANCE());
+      expect(await combat.getWinChance(1000, 1)).to.equal(await combat.MAX_WIN_CHANCE());
+    });
+  });
+
+  describe("simulate()", function () {
+    it("Should win and take the monster damage reduced by the physical resist", async function () {
+      const { combat } = await loadFixture(deployWithMonstersFixture);
+
+      const result = await combat.simulate(1, 1, 100, word(0));
+      expect(result.won).to.be.true;
+      // 50 damage - 2% physical resist
+      expect(result.damageTaken).to.equal(49);
+      expect(result.ejected).to.be.false;
+    });
+
+    it("Should take no damage on a dodge", async function () {
+      const { combat } = await loadFixture(deployWithMonstersFixture);
+
+      const result = await combat.simulate(1, 1, 100, word(0, NO_ROLL, 0));
+      expect(result.won).to.be.true;
+      expect(result.damageTaken).to.equal(0);
+    });
+
+    it("Should lose and get ejected when the win roll fails", async function () {
+      const { combat } = await loadFixture(deployWithMonstersFixture);
+
+      const result = await combat.simulate(1, 1, 100, word(5000));
+      expect(result.won).to.be.false;
+      expect(result.damageTaken).to.equal(100);
+      expect(result.ejected).to.be.true;
+    });
+
+    it("Should win but get ejected when the damage taken reaches the hp", async function () {
+      const { combat } = await loadFixture(deployWithMonstersFixture);
+
+      const result = await combat.simulate(1, 1, 49, word(0));
+      expect(result.won).to.be.true;
+      expect(result.damageTaken).to.equal(49);
+      expect(result.ejected).to.be.true;
+    });
+
+    it("Should double the attack on a crit", async function () {
+      const { combat } = await loadFixture(deployWithMonstersFixture);
+
+      // 30 vs 90 power: 25% win chance, 40% with a crit
+      expect((await combat.simulate(1, 2, 100, word(3000))).won).to.be.false;
+      expect((await combat.simulate(1, 2, 100, word(3000, 0))).won).to.be.true;
+    });
+
+    it("Should use the equipped weapon and armor", async function () {
+      const { player, combat, owner, player1 } = await loadFixture(deployWithMonstersFixture);
+
+      const MockEquipment = await hre.ethers.getContractFactory("MockEquipment");
+      const equipment = await MockEquipment.deploy();
+      await player.connect(owner).setEquipmentContract(await equipment.getAddress());
+      await equipment.createTokenType(player1.address, 1, Slot.WEAPON, encodeItemStats({ modifiers: { damage: 60 } }));
+      await equipment.createTokenType(
+        player1.address,
+        1,
+        Slot.ARMOR,
+        encodeItemStats({ modifiers: { physicalResist: 4800 } })
+      );
+      await equipment.connect(player1).setApprovalForAll(await player.getAddress(), true);
+
+      expect((await combat.simulate(1, 2, 500, word(3000))).won).to.be.false;
+
+      await player.connect(player1).equip(1, Slot.WEAPON, 1, 1);
+      await player.connect(player1).equip(1, Slot.ARMOR, 2, 1);
+
+      // 90 attack vs 90 power: 50% win chance; 200 damage - 50% physical resist
+      const result = await combat.simulate(1, 2, 500, word(3000));
+      expect(result.won).to.be.true;
+      expect(result.damageTaken).to.equal(100);
+    });
+
+    it("Should revert when the character doesn't exist", async function () {
+      const { combat } = await loadFixture(deployWithMonstersFixture);
+
+      await expect(combat.simulate(999, 1, 100, 0)).to.be.revertedWith("Token does not exist");
+    });
+  });
+
+  describe("Outcome probabilities", function () {
+    async function withoutCrits(statsEngine: StatsEngine, owner: HardhatEthersSigner) {
+      // The typechain output type omits the ethers Result helpers
+      const coefficients = (await statsEngine.getCoefficients()) as unknown as Result;
+      await statsEngine
+        .connect(owner)
+        .setCoefficients({ ...coefficients.toObject(), baseCrit: 0, critPerLuck: 0 } as StatsEngine.CoefficientsStruct);
+    }
+
+    it("Should win about half of the fights against a monster of equal power", async function () {
+      const { statsEngine, combat, owner } = await loadFixture(deployWithMonstersFixture);
+      await withoutCrits(statsEngine, owner);
+
+      const wins = await countWins(combat, 1, fixedWords(300));
+
+      // Expected 150, with a tolerance of about three standard deviations
+      expect(wins).to.be.within(124, 176);
+    });
+
+    it("Should win about a quarter of the fights against a monster of three times the attack", async function () {
+      const { statsEngine, combat, owner } = await loadFixture(deployWithMonstersFixture);
+      await withoutCrits(statsEngine, owner);
+
+      const wins = await countWins(combat, 2, fixedWords(300));
+
+      // Expected 75
+      expect(wins).to.be.within(53, 97);
+    });
+
+    it("Should win more often with crits", async function () {
+      const { statsEngine, combat, owner } = await loadFixture(deployWithMonstersFixture);
+
+      const words = fixedWords(300);
+      const withCrits = await countWins(combat, 2, words);
+      await withoutCrits(statsEngine, owner);
+
+      expect(withCrits).to.be.greaterThanOrEqual(await countWins(combat, 2, words));
+    });
+
+    it("Should still win the floor chance against an overwhelming monster", async function () {
+      const { combat, owner } = await loadFixture(deployWithMonstersFixture);
+      await combat.connect(owner).addMonster({ ...troll, power: 1_000_000 });
+
+      const wins = await countWins(combat, 3, fixedWords(300));
+
+      // Expected 15 (5%)
+      expect(wins).to.be.within(4, 26);
+    });
+  });
+
+  describe("resolve()", function () {
+    it("Should return the result and emit CombatResolved", async function () {
+      const { combat, gameSystem } = await loadFixture(deployWithMonstersFixture);
+
+      expect(await combat.connect(gameSystem).resolve.staticCall(1, 1, 100, word(0))).to.deep.equal([true, 49n, false]);
+      await expect(combat.connect(gameSystem).resolve(1, 1, 100, word(0)))
+        .to.emit(combat, "CombatResolved")
+        .withArgs(1, 1, true, 49, false);
+    });
+
+    it("Should revert when caller is not a game system", async function () {
+      const { combat, player1 } = await loadFixture(deployWithMonstersFixture);
+
+      await expect(combat.connect(player1).resolve(1, 1, 100, word(0))).to.be.revertedWith("Not a game system");
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { loadFixture, mine } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("CommitRevealRandomness", function () {
+  const REVEAL_DELAY = 3;
+  const REVEAL_WINDOW = 10;
+
+  const secret = hre.ethers.id("player secret");
+  const commitment = hre.ethers.keccak256(secret);
+
+  async function deployFixture() {
+    const [owner, player1, player2] = await hre.ethers.getSigners();
+
+    const CommitRevealRandomness = await hre.ethers.getContractFactory("CommitRevealRandomness");
+    const randomness = await CommitRevealRandomness.deploy(REVEAL_DELAY, REVEAL_WINDOW);
+
+    return { randomness, owner, player1, player2 };
+  }
+
+  async function deployWithCommitFixture() {
+    const { randomness, owner, player1, player2 } = await loadFixture(deployFixture);
+
+    await randomness.connect(player1).requestRandomness(commitment);
+    const commitBlock = await hre.ethers.provider.getBlockNumber();
+
+    return { randomness, commitBlock, owner, player1, player2 };
+  }
+
+  describe("Deployment", function () {
+    it("Should set the reveal config", async function () {
+      const { randomness } = await loadFixture(deployFixture);
+
+      const [revealDelay, revealWindow] = await randomness.getRevealConfig();
+      expect(revealDelay).to.equal(REVEAL_DELAY);
+      expect(revealWindow).to.equal(REVEAL_WINDOW);
+    });
+
+    it("Should revert with an invalid reveal config", async function () {
+      const CommitRevealRandomness = await hre.ethers.getContractFactory("CommitRevealRandomness");
+
+      await expect(CommitRevealRandomness.deploy(0, 10)).to.be.revertedWith("Invalid reveal delay");
+      await expect(CommitRevealRandomness.deploy(1, 0)).to.be.revertedWith("Invalid reveal window");
+      await expect(CommitRevealRandomness.deploy(1, 257)).to.be.revertedWith("Invalid reveal window");
+    });
+  });
+
+  describe("setRevealConfig()", function () {
+    it("Should update the reveal config and emit RevealConfigUpdated", async function () {
+      const { randomness, owner } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(owner).setRevealConfig(5, 256))
+        .to.emit(randomness, "RevealConfigUpdated")
+        .withArgs(5, 256);
+    });
+
+    it("Should not change the reveal and expiry blocks of existing commits", async function () {
+      const { randomness, commitBlock, owner } = await loadFixture(deployWithCommitFixture);
+
+      await randomness.connect(owner).setRevealConfig(50, 100);
+
+      const commit = await randomness.getCommit(1);
+      expect(commit.revealBlock).to.equal(commitBlock + REVEAL_DELAY);
+      expect(commit.expiryBlock).to.equal(commitBlock + REVEAL_DELAY + REVEAL_WINDOW);
+    });
+
+    it("Should revert when non-owner calls setRevealConfig", async function () {
+      const { randomness, player1 } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(player1).setRevealConfig(5, 5))
+        .to.be.revertedWithCustomError(randomness, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+    });
+  });
+
+  describe("requestRandomness()", function () {
+    it("Should store the commit and emit RandomnessRequested", async function () {
+      const { randomness, player1 } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(player1).requestRandomness(commitment))
+        .to.emit(randomness, "RandomnessRequested")
+        .withArgs(1, player1.address, commitment);
+
+      const commit = await randomness.getCommit(1);
+      expect(commit.commitment).to.equal(commitment);
+      expect(commit.fulfilled).to.be.false;
+      expect(await randomness.isFulfilled(1)).to.be.false;
+      expect(await randomness.getRequestCounter()).to.equal(1);
+    });
+
+    it("Should revert with an empty commitment", async function () {
+      const { randomness, player1 } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(player1).requestRandomness(hre.ethers.ZeroHash))
+        .to.be.revertedWithCustomError(randomness, "InvalidCommitment");
+    });
+  });
+
+  describe("reveal()", function () {
+    describe("Happy path", function () {
+      it("Should fulfill the request with a word derived from the secret and the reveal block hash", async function () {
+        const { randomness, commitBlock, player1 } = await loadFixture(deployWithCommitFixture);
+
+        await mine(REVEAL_DELAY);
+        const revealBlock = await hre.ethers.provider.getBlock(commitBlock + REVEAL_DELAY);
+        const expectedWord = hre.ethers.toBigInt(
+          hre.ethers.keccak256(
+            hre.ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "bytes32", "uint256"], [secret, revealBlock!.hash, 1])
+          )
+        );
+
+        await expect(randomness.connect(player1).reveal(1, secret))
+          .to.emit(randomness, "RandomnessFulfilled")
+          .withArgs(1, expectedWord);
+
+        expect(await randomness.isFulfilled(1)).to.be.true;
+        expect(await randomness.getRandomWord(1)).to.equal(expectedWord);
+      });
+
+      it("Should let anyone who knows the secret reveal", async function () {
+        const { randomness, player2 } = await loadFixture(deployWithCommitFixture);
+
+        await mine(REVEAL_DELAY);
+        await randomness.connect(player2).reveal(1, secret);
+
+        expect(await randomness.isFulfilled(1)).to.be.true;
+      });
+
+      it("Should accept a reveal in the last block of the window", async function () {
+        const { randomness, player1 } = await loadFixture(deployWithCommitFixture);
+
+        // The reveal transaction is mined in the next block, the expiry block
+        await mine(REVEAL_DELAY + REVEAL_WINDOW - 1);
+        await randomness.connect(player1).reveal(1, secret);
+
+        expect(await randomness.isFulfilled(1)).to.be.true;
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with InvalidReveal for a wrong secret", async function () {
+        const { randomness, player1 } = await loadFixture(deployWithCommitFixture);
+
+        await mine(REVEAL_DELAY);
+
+        await expect(randomness.connect(player1).reveal(1, hre.ethers.id("wrong secret")))
+          .to.be.revertedWithCustomError(randomness, "InvalidReveal")
+          .withArgs(1);
+        expect(await randomness.isFulfilled(1)).to.be.false;
+      });
+
+      it("Should revert with InvalidReveal when revealing the commitment instead of the secret", async function () {
+        const { randomness, player1 } = await loadFixture(deployWithCommitFixture);
+
+        await mine(REVEAL_DELAY);
+
+        await expect(randomness.connect(player1).reveal(1, commitment))
+          .to.be.revertedWithCustomError(randomness, "InvalidReveal")
+          .withArgs(1);
+      });
+
+      it("Should revert with RevealTooEarly until the reveal block is mined", async function () {
+        const { randomness, commitBlock, player1 } = await loadFixture(deployWithCommitFixture);
+
+        // The reveal transaction is mined in the reveal block itself
+        await mine(REVEAL_DELAY - 1);
+
+        await expect(randomness.connect(player1).reveal(1, secret))
+          .to.be.revertedWithCustomError(randomness, "RevealTooEarly")
+          .withArgs(1, commitBlock + REVEAL_DELAY);
+      });
+
+      it("Should revert with CommitExpired after the reveal window", async function () {
+        const { randomness, commitBlock, player1 } = await loadFixture(deployWithCommitFixture);
+
+        await mine(REVEAL_DELAY + REVEAL_WINDOW);
+
+        await expect(randomness.connect(player1).reveal(1, secret))
+          .to.be.revertedWithCustomError(randomness, "CommitExpired")
+          .withArgs(1, commitBlock + REVEAL_DELAY + REVEAL_WINDOW);
+        expect(await randomness.isExpired(1)).to.be.true;
+      });
+
+      it("Should revert with AlreadyRevealed when revealing twice", async function () {
+        const { randomness, player1 } = await loadFixture(deployWithCommitFixture);
+
+        await mine(REVEAL_DELAY);
+        await randomness.connect(player1).reveal(1, secret);
+
+        await expect(randomness.connect(player1).reveal(1, secret))
+          .to.be.revertedWithCustomError(randomness, "AlreadyRevealed")
+          .withArgs(1);
+      });
+
+      it("Should revert with UnknownRequest for a request that was never made", async function () {
+        const { randomness, player1 } = await loadFixture(deployWithCommitFixture);
+
+        await expect(randomness.connect(player1).reveal(2, secret))
+          .to.be.revertedWithCustomError(randomness, "UnknownRequest")
+          .withArgs(2);
+      });
+    });
+  });
+
+  describe("View functions", function () {
+    it("getRandomWord() should revert before the reveal", async function () {
+      const { randomness } = await loadFixture(deployWithCommitFixture);
+
+      await expect(randomness.getRandomWord(1))
+        .to.be.revertedWithCustomError(randomness, "RandomnessNotFulfilled")
+        .withArgs(1);
+    });
+
+    it("isExpired() should be false while the commit can be revealed and once revealed", async function () {
+      const { randomness, player1 } = await loadFixture(deployWithCommitFixture);
+
+      expect(await randomness.isExpired(1)).to.be.false;
+
+      await mine(REVEAL_DELAY);
+      await randomness.connect(player1).reveal(1, secret);
+      await mine(REVEAL_WINDOW + 1);
+
+      expect(await randomness.isExpired(1)).to.be.false;
+    });
+
+    it("isFulfilled() should revert for request 0", async function () {
+      const { randomness } = await loadFixture(deployWithCommitFixture);
+
+      await expect(randomness.isFulfilled(0))
+        .to.be.revertedWithCustomError(randomness, "UnknownRequest")
+        .withArgs(0);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  encodeItemStats,
+  toItemStatsStruct,
+  Rarity,
+  ITEM_STATS_TYPE,
+  ITEM_STATS_VERSION,
+} from "./helpers/itemStats";
+
+describe("Equipment", function () {
+  // Equipment slot enum values matching the contract
+  const Slot = {
+    ARMOR: 0,
+    WEAPON: 1,
+    RELIC: 2,
+    HELMET: 3,
+    RING: 5,
+  };
+
+  const bronzeSword = {
+    rarity: Rarity.Uncommon,
+    requiredLevel: 3,
+    modifiers: { damage: 12, critChance: 150 },
+    requirements: { strength: 15 },
+  };
+
+  async function deployFixture() {
+    const [owner, player1] = await hre.ethers.getSigners();
+
+    const Equipment = await hre.ethers.getContractFactory("Equiment");
+    const equipment = await Equipment.deploy("ipfs://items/", owner.address);
+
+    return { equipment, owner, player1 };
+  }
+
+  describe("batchCreateTokenTypes()", function () {
+    describe("Happy path", function () {
+      it("Should create token types with ItemStats item data", async function () {
+        const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+        const itemData = encodeItemStats(bronzeSword);
+        await expect(
+          equipment.connect(owner).batchCreateTokenTypes([player1.address], [1], [Slot.WEAPON], [itemData])
+        ).to.emit(equipment, "ItemTypeCreated")
+          .withArgs(1, Slot.WEAPON, itemData);
+
+        expect(await equipment.totalTokenTypes()).to.equal(1);
+        expect(await equipment.balanceOf(player1.address, 1)).to.equal(1);
+        expect(await equipment.getItemData(1)).to.equal(itemData);
+      });
+
+      it("Should accept empty item data for items without stats", async function () {
+        const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+        await equipment.connect(owner).batchCreateTokenTypes([player1.address], [1], [Slot.ARMOR], ["0x"]);
+
+        const stats = await equipment.getItemStats(1);
+        expect(stats.rarity).to.equal(Rarity.Common);
+        expect(stats.requiredLevel).to.equal(0);
+        expect(stats.modifiers.damage).to.equal(0);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with MalformedItemData when the payload has the wrong length", async function () {
+        const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+        const truncated = encodeItemStats(bronzeSword).slice(0, -64);
+
+        await expect(
+          equipment.connect(owner).batchCreateTokenTypes([player1.address], [1], [Slot.WEAPON], [truncated])
+        ).to.be.revertedWithCustomError(equipment, "MalformedItemData");
+      });
+
+      it("Should revert with MalformedItemData when the payload is shorter than a version word", async function () {
+        const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+        await expect(
+          equipment.connect(owner).batchCreateTokenTypes([player1.address], [1], [Slot.WEAPON], ["0x01"])
+        ).to.be.revertedWithCustomError(equipment, "MalformedItemData");
+      });
+
+      it("Should revert with UnsupportedItemDataVersion for an unknown version", async function () {
+        const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+        await expect(
+          equipment.connect(owner).batchCreateTokenTypes([player1.address], [1], [Slot.WEAPON], [encodeItemStats(bronzeSword, 2)])
+        ).to.be.revertedWithCustomError(equipment, "UnsupportedItemDataVersion")
+          .withArgs(2);
+      });
+
+      it("Should revert when a field is out of range", async function () {
+        const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+        // Rarity only has 5 values
+        const itemData = encodeItemStats({ ...bronzeSword, rarity: 9 });
+
+        await expect(
+          equipment.connect(owner).batchCreateTokenTypes([player1.address], [1], [Slot.WEAPON], [itemData])
+        ).to.be.reverted;
+      });
+
+      it("Should not create any token type when one payload of the batch is invalid", async function () {
+        const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+        await expect(
+          equipment.connect(owner).batchCreateTokenTypes(
+            [player1.address, player1.address],
+            [1, 1],
+            [Slot.WEAPON, Slot.ARMOR],
+            [encodeItemStats(bronzeSword), encodeItemStats({}, 0)]
+          )
+        ).to.be.revertedWithCustomError(equipment, "UnsupportedItemDataVersion")
+          .withArgs(0);
+
+        expect(await equipment.totalTokenTypes()).to.equal(0);
+      });
+
+      it("Should revert when non-owner calls batchCreateTokenTypes", async function () {
+        const { equipment, player1 } = await loadFixture(deployFixture);
+
+        await expect(
+          equipment.connect(player1).batchCreateTokenTypes([player1.address], [1], [Slot.WEAPON], ["0x"])
+        ).to.be.revertedWithCustomError(equipment, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+  });
+
+  describe("getItemStats()", function () {
+    it("Should return the decoded fields", async function () {
+      const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+      await equipment.connect(owner).batchCreateTokenTypes(
+        [player1.address], [1], [Slot.WEAPON], [encodeItemStats(bronzeSword)]
+      );
+
+      const stats = await equipment.getItemStats(1);
+      expect(stats.rarity).to.equal(Rarity.Uncommon);
+      expect(stats.requiredLevel).to.equal(3);
+      expect(stats.modifiers.damage).to.equal(12);
+      expect(stats.modifiers.critChance).to.equal(150);
+      expect(stats.modifiers.hp).to.equal(0);
+      expect(stats.requirements.strength).to.equal(15);
+      expect(stats.requirements.dexterity).to.equal(0);
+    });
+
+    it("Should revert for an unknown token type", async function () {
+      const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+      await equipment.connect(owner).batchCreateTokenTypes(
+        [player1.address], [1], [Slot.WEAPON], [encodeItemStats(bronzeSword)]
+      );
+
+      await expect(equipment.getItemStats(999)).to.be.revertedWith("Token type does not exist");
+      await expect(equipment.getItemStats(0)).to.be.revertedWith("Token type does not exist");
+    });
+  });
+
+  describe("getEquipmentSlot()", function () {
+    it("Should return the slot of every created token type", async function () {
+      const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+      await equipment.connect(owner).batchCreateTokenTypes(
+        [player1.address, player1.address], [1, 1], [Slot.HELMET, Slot.RING], ["0x", "0x"]
+      );
+
+      expect(await equipment.getEquipmentSlot(1)).to.equal(Slot.HELMET);
+      expect(await equipment.getEquipmentSlot(2)).to.equal(Slot.RING);
+      expect(await equipment.tokenTypeExists(2)).to.equal(true);
+    });
+
+    it("Should revert for an unknown token type", async function () {
+      const { equipment } = await loadFixture(deployFixture);
+
+      await expect(equipment.getEquipmentSlot(1)).to.be.revertedWith("Token type does not exist");
+      expect(await equipment.tokenTypeExists(1)).to.equal(false);
+    });
+
+    it("Should let a Player equip HELMET and RING items", async function () {
+      const { equipment, owner, player1 } = await loadFixture(deployFixture);
+
+      const price = hre.ethers.parseEther("0.1");
+      const Player = await hre.ethers.getContractFactory("Player");
+      const player = await Player.deploy(price);
+      await player.connect(owner).setEquipmentContract(await equipment.getAddress());
+      await player.connect(player1).buyToken({ value: price });
+
+      await equipment.connect(owner).batchCreateTokenTypes(
+        [player1.address, player1.address], [1, 1], [Slot.HELMET, Slot.RING], ["0x", "0x"]
+      );
+      await equipment.connect(player1).setApprovalForAll(await player.getAddress(), true);
+
+      await player.connect(player1).equip(1, Slot.HELMET, 1, 1);
+      await player.connect(player1).equip(1, Slot.RING, 2, 1);
+
+      expect((await player.getEquippedItem(1, Slot.HELMET)).tokenType).to.equal(1);
+      expect((await player.getEquippedItem(1, Slot.RING)).tokenType).to.equal(2);
+    });
+  });
+
+  describe("encodeItemStats()", function () {
+    it("Should match the TypeScript encoding", async function () {
+      const { equipment } = await loadFixture(deployFixture);
+
+      const stats = {
+        rarity: Rarity.Legendary,
+        requiredLevel: 40,
+        modifiers: {
+          damage: 1, hp: 2, mana: 3, critChance: 4, dodgeChance: 5,
+          physicalResist: 6, magicResist: 7, lootBonus: 8, trapAvoidChance: 9,
+        },
+        requirements: { strength: 10, dexterity: 11, intelligence: 12, luck: 13, constitution: 14 },
+      };
+
+      expect(await equipment.encodeItemStats(toItemStatsStruct(stats))).to.equal(encodeItemStats(stats));
+    });
+
+    it("Should round-trip through the TypeScript decoder", async function () {
+      const { equipment } = await loadFixture(deployFixture);
+
+      const encoded = await equipment.encodeItemStats(toItemStatsStruct(bronzeSword));
+      const [version, decoded] = hre.ethers.AbiCoder.defaultAbiCoder().decode(["uint8", ITEM_STATS_TYPE], encoded);
+
+      expect(version).to.equal(ITEM_STATS_VERSION);
+      expect(decoded.requiredLevel).to.equal(3);
+      expect(decoded.modifiers.damage).to.equal(12);
+    });
+  });
+});
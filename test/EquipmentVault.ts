@@ -1,6 +1,9 @@
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockEquipment } from "../typechain-types";
+import { encodeItemStats, ItemStats } from "./helpers/itemStats";
 
 describe("EquipmentVault", function () {
   // Equipment slot enum values matching the contract
@@ -8,6 +11,14 @@ describe("EquipmentVault", function () {
     ARMOR: 0,
     WEAPON: 1,
     RELIC: 2,
+    HELMET: 3,
+    BOOTS: 4,
+    RING: 5,
+    RING_2: 6,
+    TOOL: 7,
+    RELIC_2: 8,
+    RELIC_3: 9,
+    RING_3: 10,
   };
 
   async function deployFixture() {
@@ -17,7 +28,7 @@ describe("EquipmentVault", function () {
 
     // Deploy Player contract
     const Player = await hre.ethers.getContractFactory("Player");
-    const player = await Player.deploy(price, hre.ethers.ZeroAddress);
+    const player = await Player.deploy(price);
 
     // Deploy MockEquipment contract
     const MockEquipment = await hre.ethers.getContractFactory("MockEquipment");
@@ -441,6 +452,1177 @@ describe("EquipmentVault", function () {
     });
   });
 
+  describe("equipBatch()", function () {
+    const allSlots = [Slot.ARMOR, Slot.WEAPON, Slot.RELIC];
+
+    describe("Happy path", function () {
+      it("Should equip every slot with a single batch transfer", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(player.connect(player1).equipBatch(1, allSlots, [1, 2, 3], [1, 1, 1]))
+          .to.emit(equipment, "TransferBatch")
+          .withArgs(await player.getAddress(), player1.address, await player.getAddress(), [1, 2, 3], [1, 1, 1])
+          .and.not.to.emit(equipment, "TransferSingle");
+
+        for (const [i, slot] of allSlots.entries()) {
+          const [tokenType, amount] = await player.getEquippedItem(1, slot);
+          expect(tokenType).to.equal(i + 1);
+          expect(amount).to.equal(1);
+          expect(await player.getVaultBalance(1, i + 1)).to.equal(1);
+          expect(await equipment.balanceOf(player1.address, i + 1)).to.equal(0);
+        }
+      });
+
+      it("Should emit ItemEquipped per slot", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(player.connect(player1).equipBatch(1, [Slot.WEAPON, Slot.ARMOR], [2, 1], [1, 1]))
+          .to.emit(player, "ItemEquipped")
+          .withArgs(1, Slot.WEAPON, 2, 1)
+          .and.to.emit(player, "ItemEquipped")
+          .withArgs(1, Slot.ARMOR, 1, 1);
+      });
+
+      it("Should swap out equipped items and return them with a single batch transfer", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await player.connect(player1).equipBatch(1, allSlots, [1, 2, 3], [1, 1, 1]);
+
+        // Second armor and weapon (token types 4 and 5)
+        await equipment.createTokenType(player1.address, 1, Slot.ARMOR, "0x");
+        await equipment.createTokenType(player1.address, 1, Slot.WEAPON, "0x");
+
+        await expect(player.connect(player1).equipBatch(1, [Slot.ARMOR, Slot.WEAPON], [4, 5], [1, 1]))
+          .to.emit(player, "ItemUnequipped")
+          .withArgs(1, Slot.ARMOR, 1, 1)
+          .and.to.emit(player, "ItemUnequipped")
+          .withArgs(1, Slot.WEAPON, 2, 1)
+          .and.to.emit(equipment, "TransferBatch")
+          .withArgs(await player.getAddress(), await player.getAddress(), player1.address, [1, 2], [1, 1]);
+
+        expect((await player.getEquippedItem(1, Slot.ARMOR))[0]).to.equal(4);
+        expect((await player.getEquippedItem(1, Slot.WEAPON))[0]).to.equal(5);
+        expect((await player.getEquippedItem(1, Slot.RELIC))[0]).to.equal(3);
+        expect(await equipment.balanceOf(player1.address, 1)).to.equal(1);
+        expect(await equipment.balanceOf(player1.address, 2)).to.equal(1);
+        expect(await player.getVaultBalance(1, 1)).to.equal(0);
+        expect(await player.getVaultBalance(1, 4)).to.equal(1);
+      });
+
+      it("Should use less gas than equipping slot by slot", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        let perSlotGas = 0n;
+        for (const [i, slot] of allSlots.entries()) {
+          const tx = await player.connect(player1).equip(1, slot, i + 1, 1);
+          perSlotGas += (await tx.wait())!.gasUsed;
+        }
+
+        const { player: freshPlayer } = await loadFixture(deployWithEquipmentSetupFixture);
+        const tx = await freshPlayer.connect(player1).equipBatch(1, allSlots, [1, 2, 3], [1, 1, 1]);
+        const batchGas = (await tx.wait())!.gasUsed;
+
+        console.log(`        equip x3: ${perSlotGas} gas, equipBatch: ${batchGas} gas (saves ${perSlotGas - batchGas})`);
+        expect(batchGas).to.be.lessThan(perSlotGas);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with mismatched or empty arrays", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(player.connect(player1).equipBatch(1, allSlots, [1, 2], [1, 1, 1])).to.be.revertedWith(
+          "Array length mismatch"
+        );
+        await expect(player.connect(player1).equipBatch(1, allSlots, [1, 2, 3], [1, 1])).to.be.revertedWith(
+          "Array length mismatch"
+        );
+        await expect(player.connect(player1).equipBatch(1, [], [], [])).to.be.revertedWith("Empty batch");
+      });
+
+      it("Should revert with a duplicate slot", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await equipment.createTokenType(player1.address, 1, Slot.ARMOR, "0x");
+
+        await expect(
+          player.connect(player1).equipBatch(1, [Slot.ARMOR, Slot.ARMOR], [1, 4], [1, 1])
+        ).to.be.revertedWith("Duplicate slot");
+      });
+
+      it("Should revert when caller doesn't own the player token", async function () {
+        const { player, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(player.connect(player2).equipBatch(1, allSlots, [1, 2, 3], [1, 1, 1])).to.be.revertedWith(
+          "Not player owner"
+        );
+      });
+
+      it("Should revert and equip nothing when one item doesn't match its slot", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(
+          player.connect(player1).equipBatch(1, [Slot.ARMOR, Slot.WEAPON], [1, 3], [1, 1])
+        ).to.be.revertedWith("Item slot mismatch");
+        expect(await player.isSlotEquipped(1, Slot.ARMOR)).to.be.false;
+      });
+
+      it("Should revert when player has insufficient item balance", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(
+          player.connect(player1).equipBatch(1, [Slot.ARMOR, Slot.WEAPON], [1, 2], [1, 2])
+        ).to.be.revertedWith("Insufficient item balance");
+      });
+
+      it("Should revert with PlayerIsLocked", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await player.connect(owner).setGameSystem(owner.address, true);
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player1).equipBatch(1, allSlots, [1, 2, 3], [1, 1, 1]))
+          .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+          .withArgs(1);
+      });
+    });
+  });
+
+  describe("unequipAll()", function () {
+    describe("Happy path", function () {
+      it("Should unequip every slot with a single batch transfer", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await player.connect(player1).equipBatch(1, [Slot.ARMOR, Slot.WEAPON, Slot.RELIC], [1, 2, 3], [1, 1, 1]);
+
+        await expect(player.connect(player1).unequipAll(1))
+          .to.emit(equipment, "TransferBatch")
+          .withArgs(await player.getAddress(), await player.getAddress(), player1.address, [1, 2, 3], [1, 1, 1])
+          .and.to.emit(player, "ItemUnequipped")
+          .withArgs(1, Slot.ARMOR, 1, 1)
+          .and.to.emit(player, "ItemUnequipped")
+          .withArgs(1, Slot.WEAPON, 2, 1)
+          .and.to.emit(player, "ItemUnequipped")
+          .withArgs(1, Slot.RELIC, 3, 1);
+
+        for (const tokenType of [1, 2, 3]) {
+          expect(await equipment.balanceOf(player1.address, tokenType)).to.equal(1);
+          expect(await player.getVaultBalance(1, tokenType)).to.equal(0);
+        }
+        expect(await player.isSlotEquipped(1, Slot.ARMOR)).to.be.false;
+        expect(await player.isSlotEquipped(1, Slot.WEAPON)).to.be.false;
+        expect(await player.isSlotEquipped(1, Slot.RELIC)).to.be.false;
+      });
+
+      it("Should skip empty slots", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await player.connect(player1).equip(1, Slot.WEAPON, 2, 1);
+
+        // A batch of one id is logged as a TransferSingle
+        await expect(player.connect(player1).unequipAll(1))
+          .to.emit(equipment, "TransferSingle")
+          .withArgs(await player.getAddress(), await player.getAddress(), player1.address, 2, 1);
+        expect(await player.isSlotEquipped(1, Slot.WEAPON)).to.be.false;
+      });
+
+      it("Should use less gas than unequipping slot by slot", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        const allSlots = [Slot.ARMOR, Slot.WEAPON, Slot.RELIC];
+        await player.connect(player1).equipBatch(1, allSlots, [1, 2, 3], [1, 1, 1]);
+
+        let perSlotGas = 0n;
+        for (const slot of allSlots) {
+          const tx = await player.connect(player1).unequip(1, slot);
+          perSlotGas += (await tx.wait())!.gasUsed;
+        }
+
+        await player.connect(player1).equipBatch(1, allSlots, [1, 2, 3], [1, 1, 1]);
+        const tx = await player.connect(player1).unequipAll(1);
+        const batchGas = (await tx.wait())!.gasUsed;
+
+        console.log(`        unequip x3: ${perSlotGas} gas, unequipAll: ${batchGas} gas (saves ${perSlotGas - batchGas})`);
+        expect(batchGas).to.be.lessThan(perSlotGas);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when nothing is equipped", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(player.connect(player1).unequipAll(1)).to.be.revertedWith("No item equipped");
+      });
+
+      it("Should revert when caller doesn't own the player token", async function () {
+        const { player, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+
+        await expect(player.connect(player2).unequipAll(1)).to.be.revertedWith("Not player owner");
+      });
+
+      it("Should revert with PlayerIsLocked", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+        await player.connect(owner).setGameSystem(owner.address, true);
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player1).unequipAll(1))
+          .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+          .withArgs(1);
+      });
+    });
+  });
+
+  describe("Expandable slots", function () {
+    async function deployWithExtraItemsFixture() {
+      const { player, equipment, price, owner, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+      // Token types 4-8: helmet, boots, two rings, pickaxe; 9: second relic
+      for (const slot of [Slot.HELMET, Slot.BOOTS, Slot.RING, Slot.RING, Slot.TOOL, Slot.RELIC]) {
+        await equipment.createTokenType(player1.address, 1, slot, "0x");
+      }
+      // owner acts as an authorized game system (e.g. ProgressionSystem)
+      await player.connect(owner).setGameSystem(owner.address, true);
+
+      return { player, equipment, price, owner, player1, player2 };
+    }
+
+    describe("Happy path", function () {
+      it("Should equip the helmet, boots and tool slots", async function () {
+        const { player, player1 } = await loadFixture(deployWithExtraItemsFixture);
+
+        await player.connect(player1).equipBatch(1, [Slot.HELMET, Slot.BOOTS, Slot.TOOL], [4, 5, 8], [1, 1, 1]);
+
+        expect((await player.getEquippedItem(1, Slot.HELMET))[0]).to.equal(4);
+        expect((await player.getEquippedItem(1, Slot.BOOTS))[0]).to.equal(5);
+        expect((await player.getEquippedItem(1, Slot.TOOL))[0]).to.equal(8);
+      });
+
+      it("Should equip two rings", async function () {
+        const { player, player1 } = await loadFixture(deployWithExtraItemsFixture);
+
+        await player.connect(player1).equip(1, Slot.RING, 6, 1);
+        await player.connect(player1).equip(1, Slot.RING_2, 7, 1);
+
+        expect((await player.getEquippedItem(1, Slot.RING))[0]).to.equal(6);
+        expect((await player.getEquippedItem(1, Slot.RING_2))[0]).to.equal(7);
+      });
+
+      it("Should equip a second relic once the extra slot is unlocked", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithExtraItemsFixture);
+
+        expect(await player.isSlotUnlocked(1, Slot.RELIC_2)).to.be.false;
+        await expect(player.connect(owner).unlockSlot(1, Slot.RELIC_2))
+          .to.emit(player, "SlotUnlocked")
+          .withArgs(1, Slot.RELIC_2);
+        expect(await player.isSlotUnlocked(1, Slot.RELIC_2)).to.be.true;
+
+        await player.connect(player1).equip(1, Slot.RELIC, 3, 1);
+        await player.connect(player1).equip(1, Slot.RELIC_2, 9, 1);
+
+        expect((await player.getEquippedItem(1, Slot.RELIC_2))[0]).to.equal(9);
+      });
+
+      it("Should unequip every slot kind with unequipAll", async function () {
+        const { player, equipment, owner, player1 } = await loadFixture(deployWithExtraItemsFixture);
+        await player.connect(owner).unlockSlot(1, Slot.RELIC_3);
+        await player
+          .connect(player1)
+          .equipBatch(1, [Slot.WEAPON, Slot.RING_2, Slot.TOOL, Slot.RELIC_3], [2, 6, 8, 9], [1, 1, 1, 1]);
+
+        await expect(player.connect(player1).unequipAll(1))
+          .to.emit(equipment, "TransferBatch")
+          .withArgs(await player.getAddress(), await player.getAddress(), player1.address, [2, 6, 8, 9], [1, 1, 1, 1]);
+      });
+
+      it("Should keep the base slots unlocked for every player", async function () {
+        const { player } = await loadFixture(deployWithExtraItemsFixture);
+
+        for (const slot of [Slot.ARMOR, Slot.WEAPON, Slot.RELIC, Slot.HELMET, Slot.BOOTS, Slot.RING, Slot.RING_2, Slot.TOOL]) {
+          expect(await player.isSlotUnlocked(1, slot)).to.be.true;
+        }
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with SlotLocked on an extra slot that is not unlocked", async function () {
+        const { player, player1 } = await loadFixture(deployWithExtraItemsFixture);
+
+        await expect(player.connect(player1).equip(1, Slot.RELIC_2, 3, 1))
+          .to.be.revertedWithCustomError(player, "SlotLocked")
+          .withArgs(1, Slot.RELIC_2);
+      });
+
+      it("Should revert when the item kind doesn't match the slot", async function () {
+        const { player, player1 } = await loadFixture(deployWithExtraItemsFixture);
+
+        await expect(player.connect(player1).equip(1, Slot.RING_2, 4, 1)).to.be.revertedWith("Item slot mismatch");
+        await expect(player.connect(player1).equip(1, Slot.WEAPON, 8, 1)).to.be.revertedWith("Item slot mismatch");
+      });
+
+      it("Should revert when unlocking a base slot or an unlocked slot", async function () {
+        const { player, owner } = await loadFixture(deployWithExtraItemsFixture);
+
+        await expect(player.connect(owner).unlockSlot(1, Slot.RING_2)).to.be.revertedWith("Slot not unlockable");
+
+        await player.connect(owner).unlockSlot(1, Slot.RING_3);
+        await expect(player.connect(owner).unlockSlot(1, Slot.RING_3)).to.be.revertedWith("Slot already unlocked");
+      });
+
+      it("Should revert when caller is not a game system", async function () {
+        const { player, player1 } = await loadFixture(deployWithExtraItemsFixture);
+
+        await expect(player.connect(player1).unlockSlot(1, Slot.RELIC_2)).to.be.revertedWith("Not a game system");
+      });
+    });
+  });
+
+  describe("Loadouts", function () {
+    // Token types 1-3 (armor, weapon, relic) are the combat set; 4 (weapon) and 5 (armor) the mining set
+    const combatSet = [
+      { slot: Slot.ARMOR, tokenType: 1, amount: 1 },
+      { slot: Slot.WEAPON, tokenType: 2, amount: 1 },
+      { slot: Slot.RELIC, tokenType: 3, amount: 1 },
+    ];
+    const miningSet = [
+      { slot: Slot.WEAPON, tokenType: 4, amount: 1 },
+      { slot: Slot.ARMOR, tokenType: 5, amount: 1 },
+    ];
+
+    async function deployWithLoadoutsFixture() {
+      const { player, equipment, price, owner, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+      await equipment.createTokenType(player1.address, 1, Slot.WEAPON, "0x");
+      await equipment.createTokenType(player1.address, 1, Slot.ARMOR, "0x");
+
+      await player.connect(player1).saveLoadout(1, 0, combatSet);
+      await player.connect(player1).saveLoadout(1, 1, miningSet);
+
+      return { player, equipment, price, owner, player1, player2 };
+    }
+
+    describe("saveLoadout()", function () {
+      it("Should save a loadout and emit LoadoutSaved", async function () {
+        const { player, player1 } = await loadFixture(deployWithLoadoutsFixture);
+
+        await expect(player.connect(player1).saveLoadout(1, 2, miningSet)).to.emit(player, "LoadoutSaved");
+
+        const loadout = await player.getLoadout(1, 2);
+        expect(loadout.length).to.equal(2);
+        expect(loadout[0].slot).to.equal(Slot.WEAPON);
+        expect(loadout[0].tokenType).to.equal(4);
+        expect(loadout[1].tokenType).to.equal(5);
+      });
+
+      it("Should overwrite a saved loadout", async function () {
+        const { player, player1 } = await loadFixture(deployWithLoadoutsFixture);
+
+        await player.connect(player1).saveLoadout(1, 0, [{ slot: Slot.RELIC, tokenType: 3, amount: 1 }]);
+
+        const loadout = await player.getLoadout(1, 0);
+        expect(loadout.length).to.equal(1);
+        expect(loadout[0].tokenType).to.equal(3);
+      });
+
+      it("Should revert with an invalid loadout id or an empty loadout", async function () {
+        const { player, player1 } = await loadFixture(deployWithLoadoutsFixture);
+        const maxLoadouts = await player.MAX_LOADOUTS();
+
+        await expect(player.connect(player1).saveLoadout(1, maxLoadouts, miningSet)).to.be.revertedWith(
+          "Invalid loadout id"
+        );
+        await expect(player.connect(player1).saveLoadout(1, 0, [])).to.be.revertedWith("Empty loadout");
+      });
+
+      it("Should revert with invalid items", async function () {
+        const { player, player1 } = await loadFixture(deployWithLoadoutsFixture);
+
+        await expect(
+          player.connect(player1).saveLoadout(1, 2, [...miningSet, { slot: Slot.WEAPON, tokenType: 2, amount: 1 }])
+        ).to.be.revertedWith("Duplicate slot");
+        await expect(
+          player.connect(player1).saveLoadout(1, 2, [{ slot: Slot.RELIC, tokenType: 2, amount: 1 }])
+        ).to.be.revertedWith("Item slot mismatch");
+        await expect(
+          player.connect(player1).saveLoadout(1, 2, [{ slot: Slot.WEAPON, tokenType: 2, amount: 0 }])
+        ).to.be.revertedWith("Invalid amount");
+      });
+
+      it("Should revert when caller doesn't own the player token", async function () {
+        const { player, player2 } = await loadFixture(deployWithLoadoutsFixture);
+
+        await expect(player.connect(player2).saveLoadout(1, 2, miningSet)).to.be.revertedWith("Not player owner");
+      });
+    });
+
+    describe("deleteLoadout()", function () {
+      it("Should delete a saved loadout", async function () {
+        const { player, player1 } = await loadFixture(deployWithLoadoutsFixture);
+
+        await expect(player.connect(player1).deleteLoadout(1, 1))
+          .to.emit(player, "LoadoutDeleted")
+          .withArgs(1, 1);
+
+        expect(await player.getLoadout(1, 1)).to.be.empty;
+        await expect(player.connect(player1).applyLoadout(1, 1)).to.be.revertedWith("Loadout does not exist");
+      });
+
+      it("Should revert when the loadout doesn't exist", async function () {
+        const { player, player1 } = await loadFixture(deployWithLoadoutsFixture);
+
+        await expect(player.connect(player1).deleteLoadout(1, 2)).to.be.revertedWith("Loadout does not exist");
+      });
+
+      it("Should revert when caller doesn't own the player token", async function () {
+        const { player, player2 } = await loadFixture(deployWithLoadoutsFixture);
+
+        await expect(player.connect(player2).deleteLoadout(1, 0)).to.be.revertedWith("Not player owner");
+      });
+    });
+
+    describe("applyLoadout()", function () {
+      describe("Happy path", function () {
+        it("Should equip every saved item with a single batch transfer", async function () {
+          const { player, equipment, player1 } = await loadFixture(deployWithLoadoutsFixture);
+
+          await expect(player.connect(player1).applyLoadout(1, 0))
+            .to.emit(equipment, "TransferBatch")
+            .withArgs(await player.getAddress(), player1.address, await player.getAddress(), [1, 2, 3], [1, 1, 1])
+            .and.to.emit(player, "ItemEquipped")
+            .withArgs(1, Slot.RELIC, 3, 1)
+            .and.to.emit(player, "LoadoutApplied")
+            .withArgs(1, 0);
+
+          for (const item of combatSet) {
+            expect((await player.getEquippedItem(1, item.slot))[0]).to.equal(item.tokenType);
+            expect(await player.getVaultBalance(1, item.tokenType)).to.equal(1);
+          }
+        });
+
+        it("Should swap to another loadout and unequip the slots it leaves empty", async function () {
+          const { player, equipment, player1 } = await loadFixture(deployWithLoadoutsFixture);
+          await player.connect(player1).applyLoadout(1, 0);
+
+          await expect(player.connect(player1).applyLoadout(1, 1))
+            .to.emit(player, "ItemUnequipped")
+            .withArgs(1, Slot.RELIC, 3, 1)
+            .and.to.emit(equipment, "TransferBatch")
+            .withArgs(await player.getAddress(), await player.getAddress(), player1.address, [1, 2, 3], [1, 1, 1])
+            .and.to.emit(equipment, "TransferBatch")
+            .withArgs(await player.getAddress(), player1.address, await player.getAddress(), [4, 5], [1, 1]);
+
+          expect((await player.getEquippedItem(1, Slot.WEAPON))[0]).to.equal(4);
+          expect((await player.getEquippedItem(1, Slot.ARMOR))[0]).to.equal(5);
+          expect(await player.isSlotEquipped(1, Slot.RELIC)).to.be.false;
+          for (const tokenType of [1, 2, 3]) {
+            expect(await equipment.balanceOf(player1.address, tokenType)).to.equal(1);
+            expect(await player.getVaultBalance(1, tokenType)).to.equal(0);
+          }
+        });
+
+        it("Should leave the slots already holding the saved item untouched", async function () {
+          const { player, equipment, player1 } = await loadFixture(deployWithLoadoutsFixture);
+          await player.connect(player1).equipBatch(1, [Slot.ARMOR, Slot.WEAPON], [1, 4], [1, 1]);
+
+          // Only the weapon differs from the combat set, and the relic is missing
+          await expect(player.connect(player1).applyLoadout(1, 0))
+            .to.emit(player, "ItemUnequipped")
+            .withArgs(1, Slot.WEAPON, 4, 1)
+            .and.to.emit(equipment, "TransferBatch")
+            .withArgs(await player.getAddress(), player1.address, await player.getAddress(), [2, 3], [1, 1]);
+
+          expect((await player.getEquippedItem(1, Slot.ARMOR))[0]).to.equal(1);
+          expect(await player.getVaultBalance(1, 1)).to.equal(1);
+        });
+
+        it("Should do nothing but emit LoadoutApplied when the loadout is already equipped", async function () {
+          const { player, equipment, player1 } = await loadFixture(deployWithLoadoutsFixture);
+          await player.connect(player1).applyLoadout(1, 0);
+
+          await expect(player.connect(player1).applyLoadout(1, 0))
+            .to.emit(player, "LoadoutApplied")
+            .and.not.to.emit(equipment, "TransferBatch")
+            .and.not.to.emit(player, "ItemEquipped");
+        });
+      });
+
+      describe("Failure cases", function () {
+        it("Should revert with MissingLoadoutItem when the wallet no longer holds a saved item", async function () {
+          const { player, equipment, player1, player2 } = await loadFixture(deployWithLoadoutsFixture);
+          await equipment.connect(player1).safeTransferFrom(player1.address, player2.address, 3, 1, "0x");
+
+          await expect(player.connect(player1).applyLoadout(1, 0))
+            .to.be.revertedWithCustomError(player, "MissingLoadoutItem")
+            .withArgs(1, 0, 3);
+        });
+
+        it("Should revert when the loadout doesn't exist", async function () {
+          const { player, player1 } = await loadFixture(deployWithLoadoutsFixture);
+
+          await expect(player.connect(player1).applyLoadout(1, 2)).to.be.revertedWith("Loadout does not exist");
+        });
+
+        it("Should revert when caller doesn't own the player token", async function () {
+          const { player, player2 } = await loadFixture(deployWithLoadoutsFixture);
+
+          await expect(player.connect(player2).applyLoadout(1, 0)).to.be.revertedWith("Not player owner");
+        });
+
+        it("Should revert with PlayerIsLocked", async function () {
+          const { player, owner, player1 } = await loadFixture(deployWithLoadoutsFixture);
+          await player.connect(owner).setGameSystem(owner.address, true);
+          await player.connect(owner).lockPlayer(1);
+
+          await expect(player.connect(player1).applyLoadout(1, 0))
+            .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+            .withArgs(1);
+        });
+      });
+    });
+  });
+
+  describe("Run lock", function () {
+    async function deployWithGameSystemFixture() {
+      const { player, equipment, price, owner, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+      // owner acts as an authorized game system (e.g. MineSystem)
+      await player.connect(owner).setGameSystem(owner.address, true);
+
+      return { player, equipment, price, owner, player1, player2 };
+    }
+
+    describe("setGameSystem()", function () {
+      it("Should allow owner to authorize and revoke a game system", async function () {
+        const { player, owner, player2 } = await loadFixture(deployFixture);
+
+        await expect(player.connect(owner).setGameSystem(player2.address, true))
+          .to.emit(player, "GameSystemSet")
+          .withArgs(player2.address, true);
+        expect(await player.isGameSystem(player2.address)).to.be.true;
+
+        await player.connect(owner).setGameSystem(player2.address, false);
+        expect(await player.isGameSystem(player2.address)).to.be.false;
+      });
+
+      it("Should revert when non-owner calls setGameSystem", async function () {
+        const { player, player1 } = await loadFixture(deployFixture);
+
+        await expect(
+          player.connect(player1).setGameSystem(player1.address, true)
+        ).to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+
+      it("Should revert when authorizing the zero address", async function () {
+        const { player, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          player.connect(owner).setGameSystem(hre.ethers.ZeroAddress, true)
+        ).to.be.revertedWith("Invalid game system");
+      });
+    });
+
+    describe("lockPlayer()", function () {
+      it("Should lock the player and emit PlayerLocked", async function () {
+        const { player, owner } = await loadFixture(deployWithGameSystemFixture);
+
+        await expect(player.connect(owner).lockPlayer(1))
+          .to.emit(player, "PlayerLocked")
+          .withArgs(1, owner.address);
+
+        expect(await player.isPlayerLocked(1)).to.be.true;
+        expect(await player.getRunLock(1)).to.equal(owner.address);
+        expect(await player.isPlayerLocked(2)).to.be.false;
+      });
+
+      it("Should revert when caller is not a game system", async function () {
+        const { player, player1 } = await loadFixture(deployWithGameSystemFixture);
+
+        await expect(player.connect(player1).lockPlayer(1)).to.be.revertedWith("Not a game system");
+      });
+
+      it("Should revert when the player is already locked", async function () {
+        const { player, owner } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(owner).lockPlayer(1)).to.be.revertedWith("Player already locked");
+      });
+    });
+
+    describe("unlockPlayer()", function () {
+      it("Should unlock the player and emit PlayerUnlocked", async function () {
+        const { player, owner } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(owner).unlockPlayer(1))
+          .to.emit(player, "PlayerUnlocked")
+          .withArgs(1, owner.address);
+
+        expect(await player.isPlayerLocked(1)).to.be.false;
+        expect(await player.getRunLock(1)).to.equal(hre.ethers.ZeroAddress);
+      });
+
+      it("Should revert when caller is not a game system", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player1).unlockPlayer(1)).to.be.revertedWith("Not a game system");
+      });
+
+      it("Should revert when another game system tries to unlock", async function () {
+        const { player, owner, player2 } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(owner).setGameSystem(player2.address, true);
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player2).unlockPlayer(1)).to.be.revertedWith("Not the locking system");
+      });
+
+      it("Should revert when the player is not locked", async function () {
+        const { player, owner } = await loadFixture(deployWithGameSystemFixture);
+
+        await expect(player.connect(owner).unlockPlayer(1)).to.be.revertedWith("Not the locking system");
+      });
+    });
+
+    describe("forceUnlockPlayer()", function () {
+      it("Should let the owner release the lock of a removed game system", async function () {
+        const { player, owner, player1, player2 } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(owner).setGameSystem(player2.address, true);
+        await player.connect(player2).lockPlayer(1);
+        await player.connect(owner).setGameSystem(player2.address, false);
+
+        await expect(player.connect(owner).forceUnlockPlayer(1))
+          .to.emit(player, "PlayerForceUnlocked")
+          .withArgs(1, player2.address);
+
+        expect(await player.isPlayerLocked(1)).to.be.false;
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+      });
+
+      it("Should revert when the player is not locked", async function () {
+        const { player, owner } = await loadFixture(deployWithGameSystemFixture);
+
+        await expect(player.connect(owner).forceUnlockPlayer(1)).to.be.revertedWith("Player not locked");
+      });
+
+      it("Should revert when non-owner calls forceUnlockPlayer", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player1).forceUnlockPlayer(1))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+
+    describe("Equipment while locked", function () {
+      it("Should revert equip with PlayerIsLocked", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player1).equip(1, Slot.ARMOR, 1, 1))
+          .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+          .withArgs(1);
+      });
+
+      it("Should revert unequip with PlayerIsLocked", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player1).unequip(1, Slot.ARMOR))
+          .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+          .withArgs(1);
+      });
+
+      it("Should revert the auto-unequip path and keep the equipped item", async function () {
+        const { player, equipment, owner, player1 } = await loadFixture(deployWithGameSystemFixture);
+
+        await equipment.createTokenType(player1.address, 1, Slot.ARMOR, "0x");
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player1).equip(1, Slot.ARMOR, 4, 1))
+          .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+          .withArgs(1);
+
+        const [tokenType, amount] = await player.getEquippedItem(1, Slot.ARMOR);
+        expect(tokenType).to.equal(1);
+        expect(amount).to.equal(1);
+        expect(await equipment.balanceOf(player1.address, 4)).to.equal(1);
+      });
+
+      it("Should not affect other players", async function () {
+        const { player, equipment, owner, player2 } = await loadFixture(deployWithGameSystemFixture);
+
+        await equipment.createTokenType(player2.address, 1, Slot.ARMOR, "0x");
+        await equipment.connect(player2).setApprovalForAll(await player.getAddress(), true);
+        await player.connect(owner).lockPlayer(1);
+
+        await expect(player.connect(player2).equip(2, Slot.ARMOR, 4, 1)).to.not.be.reverted;
+      });
+
+      it("Should allow equip and unequip again after unlock", async function () {
+        const { player, owner, player1 } = await loadFixture(deployWithGameSystemFixture);
+
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+        await player.connect(owner).lockPlayer(1);
+        await player.connect(owner).unlockPlayer(1);
+
+        await player.connect(player1).unequip(1, Slot.ARMOR);
+        await player.connect(player1).equip(1, Slot.WEAPON, 2, 1);
+
+        expect(await player.isSlotEquipped(1, Slot.ARMOR)).to.be.false;
+        expect(await player.isSlotEquipped(1, Slot.WEAPON)).to.be.true;
+      });
+    });
+  });
+
+  describe("Durability", function () {
+    // Token type 4 of the mock equipment stands in for GOLD
+    const GOLD = 4;
+
+    async function deployWithWearFixture() {
+      const { player, equipment, price, owner, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+      // owner acts as an authorized game system (e.g. MineSystem)
+      await player.connect(owner).setGameSystem(owner.address, true);
+      await equipment.createTokenType(player1.address, 1000, Slot.RELIC, "0x");
+      await player.connect(owner).setRepairCost(Slot.ARMOR, GOLD, 2);
+      await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+
+      return { player, equipment, price, owner, player1, player2 };
+    }
+
+    describe("wearItem()", function () {
+      it("Should lower the durability of the equipped item and emit DurabilityChanged", async function () {
+        const { player, owner } = await loadFixture(deployWithWearFixture);
+
+        await expect(player.connect(owner).wearItem(1, Slot.ARMOR, 30))
+          .to.emit(player, "DurabilityChanged")
+          .withArgs(1, Slot.ARMOR, 70);
+
+        expect((await player.getEquippedItem(1, Slot.ARMOR))[2]).to.equal(70);
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(70);
+        expect(await player.getDurability(2, Slot.ARMOR)).to.equal(100);
+      });
+
+      it("Should stop at zero durability", async function () {
+        const { player, owner } = await loadFixture(deployWithWearFixture);
+
+        await player.connect(owner).wearItem(1, Slot.ARMOR, 90);
+        await expect(player.connect(owner).wearItem(1, Slot.ARMOR, 30))
+          .to.emit(player, "DurabilityChanged")
+          .withArgs(1, Slot.ARMOR, 0);
+
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(0);
+      });
+
+      it("Should do nothing for an empty slot", async function () {
+        const { player, owner } = await loadFixture(deployWithWearFixture);
+
+        await expect(player.connect(owner).wearItem(1, Slot.WEAPON, 30)).not.to.emit(player, "DurabilityChanged");
+        expect(await player.getDurability(1, Slot.WEAPON)).to.equal(100);
+      });
+
+      it("Should track the wear of identical items in two slots separately", async function () {
+        const { player, equipment, owner, player1 } = await loadFixture(deployWithWearFixture);
+        await equipment.createTokenType(player1.address, 2, Slot.RING, "0x");
+        await player.connect(player1).equip(1, Slot.RING, 5, 1);
+        await player.connect(player1).equip(1, Slot.RING_2, 5, 1);
+
+        await player.connect(owner).wearItem(1, Slot.RING, 30);
+
+        expect(await player.getDurability(1, Slot.RING)).to.equal(70);
+        expect(await player.getDurability(1, Slot.RING_2)).to.equal(100);
+      });
+
+      it("Should revert when caller is not a game system", async function () {
+        const { player, player1 } = await loadFixture(deployWithWearFixture);
+
+        await expect(player.connect(player1).wearItem(1, Slot.ARMOR, 30)).to.be.revertedWith("Not a game system");
+      });
+    });
+
+    describe("Unequipping worn items", function () {
+      it("Should reset the wear for free", async function () {
+        const { player, equipment, owner, player1 } = await loadFixture(deployWithWearFixture);
+        await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+
+        await expect(player.connect(player1).unequip(1, Slot.ARMOR))
+          .to.emit(player, "ItemUnequipped")
+          .and.not.to.emit(player, "ItemRepaired");
+
+        expect(await equipment.balanceOf(player1.address, 1)).to.equal(1);
+        expect(await equipment.balanceOf(player1.address, GOLD)).to.equal(1000);
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+      });
+
+      it("Should return the item when the caller holds no repair tokens", async function () {
+        const { player, equipment, owner, player1, player2 } = await loadFixture(deployWithWearFixture);
+        await player.connect(owner).wearItem(1, Slot.ARMOR, 100);
+        await equipment.connect(player1).safeTransferFrom(player1.address, player2.address, GOLD, 1000, "0x");
+
+        await player.connect(player1).unequip(1, Slot.ARMOR);
+
+        expect(await equipment.balanceOf(player1.address, 1)).to.equal(1);
+        expect(await player.isSlotEquipped(1, Slot.ARMOR)).to.be.false;
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+      });
+
+      it("Should not move the wear to another character", async function () {
+        const { player, equipment, owner, player1, player2 } = await loadFixture(deployWithWearFixture);
+        await equipment.connect(player2).setApprovalForAll(await player.getAddress(), true);
+        await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+
+        await player.connect(player1).unequip(1, Slot.ARMOR);
+        await equipment.connect(player1).safeTransferFrom(player1.address, player2.address, 1, 1, "0x");
+        await player.connect(player2).equip(2, Slot.ARMOR, 1, 1);
+
+        expect((await player.getEquippedItem(2, Slot.ARMOR))[2]).to.equal(100);
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+      });
+
+      it("Should reset the wear of every slot on unequipAll", async function () {
+        const { player, equipment, owner, player1 } = await loadFixture(deployWithWearFixture);
+        await player.connect(owner).setRepairCost(Slot.WEAPON, GOLD, 1);
+        await player.connect(player1).equip(1, Slot.WEAPON, 2, 1);
+        await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+        await player.connect(owner).wearItem(1, Slot.WEAPON, 10);
+
+        await player.connect(player1).unequipAll(1);
+
+        expect(await equipment.balanceOf(player1.address, GOLD)).to.equal(1000);
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+        expect(await player.getDurability(1, Slot.WEAPON)).to.equal(100);
+      });
+
+      it("Should reset the wear of a swapped out item", async function () {
+        const { player, equipment, owner, player1 } = await loadFixture(deployWithWearFixture);
+        await equipment.createTokenType(player1.address, 1, Slot.ARMOR, "0x");
+        await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+
+        await player.connect(player1).equip(1, Slot.ARMOR, 5, 1);
+
+        expect(await equipment.balanceOf(player1.address, 1)).to.equal(1);
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+      });
+
+      it("Should unequip worn items of the legacy equipment contract, which can't burn", async function () {
+        const { owner, player1 } = await loadFixture(deployFixture);
+        const Player = await hre.ethers.getContractFactory("Player");
+        const player = await Player.deploy(hre.ethers.parseEther("0.1"));
+        const Equipment = await hre.ethers.getContractFactory("Equiment");
+        const equipment = await Equipment.deploy("ipfs://items/", owner.address);
+        await player.connect(owner).setEquipmentContract(await equipment.getAddress());
+        await player.connect(owner).setGameSystem(owner.address, true);
+        await player.connect(owner).setRepairCost(Slot.ARMOR, GOLD, 2);
+        await player.connect(player1).buyToken({ value: hre.ethers.parseEther("0.1") });
+        await equipment.connect(owner).batchCreateTokenTypes([player1.address], [1], [Slot.ARMOR], ["0x"]);
+        await equipment.connect(player1).setApprovalForAll(await player.getAddress(), true);
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+        await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+
+        await player.connect(player1).unequip(1, Slot.ARMOR);
+
+        expect(await equipment.balanceOf(player1.address, 1)).to.equal(1);
+        expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+      });
+    });
+
+    describe("repair()", function () {
+      describe("Happy path", function () {
+        it("Should burn the repair cost and restore full durability", async function () {
+          const { player, equipment, owner, player1 } = await loadFixture(deployWithWearFixture);
+          await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+
+          // 30 points * 2 GOLD
+          await expect(player.connect(player1).repair(1, Slot.ARMOR))
+            .to.emit(player, "ItemRepaired")
+            .withArgs(1, 1, GOLD, 60)
+            .and.to.emit(player, "DurabilityChanged")
+            .withArgs(1, Slot.ARMOR, 100);
+
+          expect(await equipment.balanceOf(player1.address, GOLD)).to.equal(940);
+          expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+        });
+
+        it("Should repair a broken item", async function () {
+          const { player, equipment, owner, player1 } = await loadFixture(deployWithWearFixture);
+          await player.connect(owner).wearItem(1, Slot.ARMOR, 100);
+
+          await player.connect(player1).repair(1, Slot.ARMOR);
+
+          expect(await equipment.balanceOf(player1.address, GOLD)).to.equal(800);
+          expect(await player.getDurability(1, Slot.ARMOR)).to.equal(100);
+        });
+
+        it("Should set the repair cost of a slot and emit RepairCostSet", async function () {
+          const { player, owner } = await loadFixture(deployWithWearFixture);
+
+          await expect(player.connect(owner).setRepairCost(Slot.WEAPON, 2, 3))
+            .to.emit(player, "RepairCostSet")
+            .withArgs(Slot.WEAPON, 2, 3);
+
+          const repairCost = await player.getRepairCost(Slot.WEAPON);
+          expect(repairCost.tokenId).to.equal(2);
+          expect(repairCost.costPerPoint).to.equal(3);
+        });
+      });
+
+      describe("Failure cases", function () {
+        it("Should revert when caller doesn't own the player", async function () {
+          const { player, owner, player2 } = await loadFixture(deployWithWearFixture);
+          await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+
+          await expect(player.connect(player2).repair(1, Slot.ARMOR)).to.be.revertedWith("Not player owner");
+        });
+
+        it("Should revert when the slot is empty", async function () {
+          const { player, player1 } = await loadFixture(deployWithWearFixture);
+
+          await expect(player.connect(player1).repair(1, Slot.WEAPON)).to.be.revertedWith("Slot is empty");
+        });
+
+        it("Should revert when the item is not damaged", async function () {
+          const { player, player1 } = await loadFixture(deployWithWearFixture);
+
+          await expect(player.connect(player1).repair(1, Slot.ARMOR)).to.be.revertedWith("Item not damaged");
+        });
+
+        it("Should revert when the repair cost of the slot is not set", async function () {
+          const { player, owner, player1 } = await loadFixture(deployWithWearFixture);
+          await player.connect(player1).equip(1, Slot.WEAPON, 2, 1);
+          await player.connect(owner).wearItem(1, Slot.WEAPON, 30);
+
+          await expect(player.connect(player1).repair(1, Slot.WEAPON)).to.be.revertedWith("Repair cost not set");
+        });
+
+        it("Should revert when the player is locked on a run", async function () {
+          const { player, owner, player1 } = await loadFixture(deployWithWearFixture);
+          await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+          await player.connect(owner).lockPlayer(1);
+
+          await expect(player.connect(player1).repair(1, Slot.ARMOR))
+            .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+            .withArgs(1);
+        });
+
+        it("Should revert when the owner can't pay the repair", async function () {
+          const { player, equipment, owner, player1, player2 } = await loadFixture(deployWithWearFixture);
+          await player.connect(owner).wearItem(1, Slot.ARMOR, 30);
+          await equipment.connect(player1).safeTransferFrom(player1.address, player2.address, GOLD, 950, "0x");
+
+          await expect(player.connect(player1).repair(1, Slot.ARMOR))
+            .to.be.revertedWithCustomError(equipment, "ERC1155InsufficientBalance");
+          expect(await player.getDurability(1, Slot.ARMOR)).to.equal(70);
+        });
+
+        it("Should revert when non-owner calls setRepairCost", async function () {
+          const { player, player1 } = await loadFixture(deployWithWearFixture);
+
+          await expect(player.connect(player1).setRepairCost(Slot.ARMOR, GOLD, 1))
+            .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+            .withArgs(player1.address);
+        });
+      });
+    });
+  });
+
+  describe("Item requirements", function () {
+    // Enum values matching the contract
+    const Attribute = {
+      Strength: 0,
+      Dexterity: 1,
+      Intelligence: 2,
+      Luck: 3,
+      Constitution: 4,
+    };
+
+    // Every new character starts with 10 in each attribute
+    const BASE_ATTRIBUTE = 10;
+
+    async function deployWithProgressionFixture() {
+      const { player, equipment, price, owner, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+      const ProgressionSystem = await hre.ethers.getContractFactory("ProgressionSystem");
+      const progression = await ProgressionSystem.deploy(await player.getAddress());
+
+      await player.connect(owner).setProgressionSystem(await progression.getAddress());
+      await player.connect(owner).setGameSystem(await progression.getAddress(), true);
+      // owner acts as an authorized game system awarding XP (e.g. MineSystem)
+      await progression.connect(owner).setGameSystem(owner.address, true);
+      // Level 2 at 100 XP, level 3 at 250 XP
+      await progression.connect(owner).setXpCurve([100, 250]);
+
+      return { player, equipment, progression, price, owner, player1, player2 };
+    }
+
+    // Creates a weapon for player1 and returns its token type
+    async function createWeapon(equipment: MockEquipment, player1: HardhatEthersSigner, stats: ItemStats, encode = encodeItemStats) {
+      await equipment.createTokenType(player1.address, 1, Slot.WEAPON, encode(stats));
+      return await equipment.totalTokenTypes();
+    }
+
+    describe("setProgressionSystem()", function () {
+      it("Should allow owner to set the progression system", async function () {
+        const { player, owner, player2 } = await loadFixture(deployFixture);
+
+        await expect(player.connect(owner).setProgressionSystem(player2.address))
+          .to.emit(player, "ProgressionSystemSet")
+          .withArgs(player2.address);
+
+        expect(await player.getProgressionSystem()).to.equal(player2.address);
+      });
+
+      it("Should revert when non-owner calls setProgressionSystem", async function () {
+        const { player, player1 } = await loadFixture(deployFixture);
+
+        await expect(player.connect(player1).setProgressionSystem(player1.address))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+
+      it("Should read levels from the progression system", async function () {
+        const { player, progression, owner } = await loadFixture(deployWithProgressionFixture);
+
+        expect(await player.getLevel(1)).to.equal(1);
+        await progression.connect(owner).awardXp(1, 250);
+        expect(await player.getLevel(1)).to.equal(3);
+      });
+    });
+
+    describe("Required level", function () {
+      it("Should treat every player as level 1 without a progression system", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        const levelOne = await createWeapon(equipment, player1, { requiredLevel: 1 });
+        const levelTwo = await createWeapon(equipment, player1, { requiredLevel: 2 });
+
+        await player.connect(player1).equip(1, Slot.WEAPON, levelOne, 1);
+        await expect(player.connect(player1).equip(1, Slot.WEAPON, levelTwo, 1))
+          .to.be.revertedWithCustomError(player, "LevelTooLow")
+          .withArgs(1, 2, 1);
+      });
+
+      it("Should allow equipping at exactly the required level", async function () {
+        const { player, equipment, progression, owner, player1 } = await loadFixture(deployWithProgressionFixture);
+
+        const tokenType = await createWeapon(equipment, player1, { requiredLevel: 2 });
+        await progression.connect(owner).awardXp(1, 100);
+
+        await expect(player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1))
+          .to.emit(player, "ItemEquipped")
+          .withArgs(1, Slot.WEAPON, tokenType, 1);
+      });
+
+      it("Should revert one level below the required level", async function () {
+        const { player, equipment, progression, owner, player1 } = await loadFixture(deployWithProgressionFixture);
+
+        const tokenType = await createWeapon(equipment, player1, { requiredLevel: 3 });
+        await progression.connect(owner).awardXp(1, 249);
+
+        await expect(player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1))
+          .to.be.revertedWithCustomError(player, "LevelTooLow")
+          .withArgs(1, 3, 2);
+      });
+    });
+
+    describe("Attribute requirements", function () {
+      it("Should allow equipping at exactly the required attribute", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithProgressionFixture);
+
+        const tokenType = await createWeapon(equipment, player1, {
+          requirements: {
+            strength: BASE_ATTRIBUTE,
+            dexterity: BASE_ATTRIBUTE,
+            intelligence: BASE_ATTRIBUTE,
+            luck: BASE_ATTRIBUTE,
+            constitution: BASE_ATTRIBUTE,
+          },
+        });
+
+        await player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1);
+        expect(await player.isSlotEquipped(1, Slot.WEAPON)).to.be.true;
+      });
+
+      it("Should revert one point below each required attribute", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithProgressionFixture);
+
+        const cases = [
+          { attribute: Attribute.Strength, requirements: { strength: BASE_ATTRIBUTE + 1 } },
+          { attribute: Attribute.Dexterity, requirements: { dexterity: BASE_ATTRIBUTE + 1 } },
+          { attribute: Attribute.Intelligence, requirements: { intelligence: BASE_ATTRIBUTE + 1 } },
+          { attribute: Attribute.Luck, requirements: { luck: BASE_ATTRIBUTE + 1 } },
+          { attribute: Attribute.Constitution, requirements: { constitution: BASE_ATTRIBUTE + 1 } },
+        ];
+
+        for (const { attribute, requirements } of cases) {
+          const tokenType = await createWeapon(equipment, player1, { requirements });
+
+          await expect(player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1))
+            .to.be.revertedWithCustomError(player, "AttributeTooLow")
+            .withArgs(1, attribute, BASE_ATTRIBUTE + 1, BASE_ATTRIBUTE);
+        }
+      });
+
+      it("Should allow equipping once stat points raise the attribute", async function () {
+        const { player, equipment, progression, owner, player1 } = await loadFixture(deployWithProgressionFixture);
+
+        const tokenType = await createWeapon(equipment, player1, { requiredLevel: 2, requirements: { strength: 13 } });
+
+        await progression.connect(owner).awardXp(1, 100);
+        await expect(player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1))
+          .to.be.revertedWithCustomError(player, "AttributeTooLow")
+          .withArgs(1, Attribute.Strength, 13, 10);
+
+        await progression.connect(player1).spendStatPoints(1, Attribute.Strength, 3);
+        await player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1);
+
+        expect(await player.isSlotEquipped(1, Slot.WEAPON)).to.be.true;
+      });
+    });
+
+    describe("Already equipped items", function () {
+      it("Should keep items equipped when the player no longer meets the requirements", async function () {
+        const { player, equipment, progression, owner, player1 } = await loadFixture(deployWithProgressionFixture);
+
+        const tokenType = await createWeapon(equipment, player1, { requiredLevel: 2 });
+        await progression.connect(owner).awardXp(1, 100);
+        await player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1);
+
+        // A fresh progression system puts the player back at level 1
+        const ProgressionSystem = await hre.ethers.getContractFactory("ProgressionSystem");
+        const freshProgression = await ProgressionSystem.deploy(await player.getAddress());
+        await player.connect(owner).setProgressionSystem(await freshProgression.getAddress());
+
+        const [equippedType, amount] = await player.getEquippedItem(1, Slot.WEAPON);
+        expect(equippedType).to.equal(tokenType);
+        expect(amount).to.equal(1);
+
+        // Unequipping is never blocked by requirements
+        await player.connect(player1).unequip(1, Slot.WEAPON);
+        expect(await equipment.balanceOf(player1.address, tokenType)).to.equal(1);
+      });
+    });
+
+    describe("Invalid item data", function () {
+      it("Should revert when equipping an item with an unknown item data version", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithProgressionFixture);
+
+        // MockEquipment does not validate item data on creation
+        const tokenType = await createWeapon(equipment, player1, {}, (stats: ItemStats) => encodeItemStats(stats, 2));
+
+        await expect(player.connect(player1).equip(1, Slot.WEAPON, tokenType, 1))
+          .to.be.revertedWithCustomError(player, "UnsupportedItemDataVersion")
+          .withArgs(2);
+      });
+    });
+  });
+
   describe("View functions", function () {
     describe("getEquipmentContract()", function () {
       it("Should return zero address when not set", async function () {
@@ -462,9 +1644,10 @@ describe("EquipmentVault", function () {
       it("Should return zero values for empty slot", async function () {
         const { player } = await loadFixture(deployWithEquipmentSetupFixture);
 
-        const [tokenType, amount] = await player.getEquippedItem(1, Slot.ARMOR);
+        const [tokenType, amount, durability] = await player.getEquippedItem(1, Slot.ARMOR);
         expect(tokenType).to.equal(0);
         expect(amount).to.equal(0);
+        expect(durability).to.equal(0);
       });
 
       it("Should return correct values for equipped slot", async function () {
@@ -472,9 +1655,10 @@ describe("EquipmentVault", function () {
 
         await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
 
-        const [tokenType, amount] = await player.getEquippedItem(1, Slot.ARMOR);
+        const [tokenType, amount, durability] = await player.getEquippedItem(1, Slot.ARMOR);
         expect(tokenType).to.equal(1);
         expect(amount).to.equal(1);
+        expect(durability).to.equal(await player.MAX_DURABILITY());
       });
     });
 
@@ -586,6 +1770,123 @@ describe("EquipmentVault", function () {
     });
   });
 
+  describe("Direct deposits", function () {
+    describe("Happy path", function () {
+      it("Should record a direct transfer as an unassigned deposit of the sender", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(equipment.connect(player1).safeTransferFrom(player1.address, await player.getAddress(), 1, 1, "0x"))
+          .to.emit(player, "UnassignedDeposit")
+          .withArgs(player1.address, 1, 1);
+
+        expect(await player.getUnassignedDeposit(player1.address, 1)).to.equal(1);
+        expect(await player.getVaultBalance(1, 1)).to.equal(0);
+        expect(await player.isSlotEquipped(1, Slot.ARMOR)).to.be.false;
+      });
+
+      it("Should record every item of a direct batch transfer", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await equipment
+          .connect(player1)
+          .safeBatchTransferFrom(player1.address, await player.getAddress(), [1, 2], [1, 1], "0x");
+
+        expect(await player.getUnassignedDeposit(player1.address, 1)).to.equal(1);
+        expect(await player.getUnassignedDeposit(player1.address, 2)).to.equal(1);
+      });
+
+      it("Should not record the items transferred by equip", async function () {
+        const { player, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(player.connect(player1).equipBatch(1, [Slot.ARMOR, Slot.WEAPON], [1, 2], [1, 1])).to.not.emit(
+          player,
+          "UnassignedDeposit"
+        );
+
+        expect(await player.getUnassignedDeposit(player1.address, 1)).to.equal(0);
+        expect(await player.getVaultBalance(1, 1)).to.equal(1);
+      });
+
+      it("Should let the sender reclaim a deposit", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await equipment.connect(player1).safeTransferFrom(player1.address, await player.getAddress(), 1, 1, "0x");
+
+        await expect(player.connect(player1).reclaimDeposit(1, 1))
+          .to.emit(player, "DepositReclaimed")
+          .withArgs(player1.address, 1, 1);
+
+        expect(await equipment.balanceOf(player1.address, 1)).to.equal(1);
+        expect(await player.getUnassignedDeposit(player1.address, 1)).to.equal(0);
+      });
+
+      it("Should keep equipped items when a deposit of the same type is reclaimed", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        // Token type 4: 2 armors, one equipped and one sent directly
+        await equipment.createTokenType(player1.address, 2, Slot.ARMOR, "0x");
+        await player.connect(player1).equip(1, Slot.ARMOR, 4, 1);
+        await equipment.connect(player1).safeTransferFrom(player1.address, await player.getAddress(), 4, 1, "0x");
+
+        await player.connect(player1).reclaimDeposit(4, 1);
+
+        expect(await equipment.balanceOf(await player.getAddress(), 4)).to.equal(1);
+        expect(await player.getVaultBalance(1, 4)).to.equal(1);
+        await expect(player.connect(player1).reclaimDeposit(4, 1)).to.be.revertedWith("Insufficient deposit");
+      });
+
+      it("Should accept tokens of other ERC-1155 contracts and let the owner rescue them", async function () {
+        const { player, owner, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+        const MockEquipment = await hre.ethers.getContractFactory("MockEquipment");
+        const foreignToken = await MockEquipment.deploy();
+        await foreignToken.createTokenType(player2.address, 5, Slot.ARMOR, "0x");
+
+        await expect(
+          foreignToken.connect(player2).safeTransferFrom(player2.address, await player.getAddress(), 1, 5, "0x")
+        ).to.not.emit(player, "UnassignedDeposit");
+
+        await expect(player.connect(owner).rescueERC1155(await foreignToken.getAddress(), player2.address, 1, 5))
+          .to.emit(player, "TokensRescued")
+          .withArgs(await foreignToken.getAddress(), player2.address, 1, 5);
+        expect(await foreignToken.balanceOf(player2.address, 1)).to.equal(5);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when reclaiming more than deposited or another sender's deposit", async function () {
+        const { player, equipment, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await equipment.connect(player1).safeTransferFrom(player1.address, await player.getAddress(), 1, 1, "0x");
+
+        await expect(player.connect(player1).reclaimDeposit(1, 2)).to.be.revertedWith("Insufficient deposit");
+        await expect(player.connect(player1).reclaimDeposit(1, 0)).to.be.revertedWith("Insufficient deposit");
+        await expect(player.connect(player2).reclaimDeposit(1, 1)).to.be.revertedWith("Insufficient deposit");
+      });
+
+      it("Should reject equipment items minted directly to the vault", async function () {
+        const { player, equipment } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(
+          equipment.createTokenType(await player.getAddress(), 1, Slot.ARMOR, "0x")
+        ).to.be.revertedWith("Direct mints not accepted");
+      });
+
+      it("Should revert when rescuing equipment items", async function () {
+        const { player, equipment, owner, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+        await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+
+        await expect(
+          player.connect(owner).rescueERC1155(await equipment.getAddress(), owner.address, 1, 1)
+        ).to.be.revertedWith("Cannot rescue equipment items");
+      });
+
+      it("Should revert when non-owner rescues tokens", async function () {
+        const { player, equipment, player1 } = await loadFixture(deployWithEquipmentSetupFixture);
+
+        await expect(player.connect(player1).rescueERC1155(await equipment.getAddress(), player1.address, 1, 1))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+  });
+
   describe("Multi-player scenarios", function () {
     it("Should track equipment separately for different players", async function () {
       const { player, equipment, player1, player2 } = await loadFixture(deployWithEquipmentSetupFixture);
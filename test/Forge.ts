@@ -0,0 +1,887 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeItemStats } from "./helpers/itemStats";
+
+describe("Forge", function () {
+  // DESIGNDOC token ids
+  const GOLD_ID = 1;
+  const IRON_ID = 2;
+  const HEALTH_POTION_ID = 501;
+  const BRONZE_SWORD_ID = 1001;
+  const BRONZE_SWORD_1_ID = 1002;
+  const BRONZE_SWORD_2_ID = 1003;
+  const LEATHER_ARMOR_ID = 2001;
+
+  const BPS = 10_000;
+
+  // Forge.FailureOutcome
+  const KEEP = 0;
+  const DOWNGRADE = 1;
+  const DESTROY = 2;
+
+  // 5 iron + 2 gold => 1 bronze sword
+  const swordInputs = [
+    { tokenId: IRON_ID, amount: 5 },
+    { tokenId: GOLD_ID, amount: 2 },
+  ];
+  const swordOutputs = [{ tokenId: BRONZE_SWORD_ID, amount: 1 }];
+
+  // Number of successful crafts settleCraft computes for a random word
+  function expectedSuccesses(randomWord: bigint, times: number, successChance: number) {
+    let successes = 0;
+    for (let i = 0; i < times; i++) {
+      const roll = hre.ethers.toBigInt(
+        hre.ethers.keccak256(hre.ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "uint256"], [randomWord, i]))
+      );
+      if (roll % BigInt(BPS) < BigInt(successChance)) successes += 1;
+    }
+    return successes;
+  }
+
+  async function deployFixture() {
+    const [owner, player1, player2, treasury] = await hre.ethers.getSigners();
+
+    const GameItems1155 = await hre.ethers.getContractFactory("GameItems1155");
+    const gameItems = await GameItems1155.deploy("", owner.address);
+    await gameItems
+      .connect(owner)
+      .batchCreateItemTypes(
+        [GOLD_ID, IRON_ID, HEALTH_POTION_ID, BRONZE_SWORD_ID],
+        ["0x", "0x", "0x", encodeItemStats({ modifiers: { damage: 5 } })]
+      );
+
+    const MockRandomnessProvider = await hre.ethers.getContractFactory("MockRandomnessProvider");
+    const randomness = await MockRandomnessProvider.deploy();
+
+    const Forge = await hre.ethers.getContractFactory("Forge");
+    const forge = await Forge.deploy(await gameItems.getAddress(), await randomness.getAddress(), treasury.address);
+
+    await gameItems.connect(owner).grantRole(await gameItems.EQUIPMENT_MINTER_ROLE(), await forge.getAddress());
+    await gameItems.connect(owner).grantRole(await gameItems.CONSUMABLE_MINTER_ROLE(), await forge.getAddress());
+
+    // owner stands in for MineSystem paying out ores and gold
+    await gameItems.connect(owner).grantRole(await gameItems.RESOURCE_MINTER_ROLE(), owner.address);
+    await gameItems.connect(owner).mint(player1.address, IRON_ID, 100);
+    await gameItems.connect(owner).mint(player1.address, GOLD_ID, 100);
+    await gameItems.connect(player1).setApprovalForAll(await forge.getAddress(), true);
+
+    return { gameItems, randomness, forge, owner, player1, player2, treasury };
+  }
+
+  async function deployWithRecipeFixture() {
+    const { gameItems, randomness, forge, owner, player1, player2, treasury } = await loadFixture(deployFixture);
+
+    // Recipe 1: bronze sword, always succeeds, no fee
+    await forge.connect(owner).createRecipe(swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, BPS);
+
+    return { gameItems, randomness, forge, owner, player1, player2, treasury };
+  }
+
+  describe("Deployment", function () {
+    it("Should set the game items, randomness provider and treasury", async function () {
+      const { gameItems, randomness, forge, treasury } = await loadFixture(deployFixture);
+
+      expect(await forge.getGameItems()).to.equal(await gameItems.getAddress());
+      expect(await forge.getRandomnessProvider()).to.equal(await randomness.getAddress());
+      expect(await forge.getTreasury()).to.equal(treasury.address);
+    });
+
+    it("Should revert when deployed with zero addresses", async function () {
+      const { gameItems, randomness, treasury } = await loadFixture(deployFixture);
+      const Forge = await hre.ethers.getContractFactory("Forge");
+      const gameItemsAddress = await gameItems.getAddress();
+      const randomnessAddress = await randomness.getAddress();
+
+      await expect(Forge.deploy(hre.ethers.ZeroAddress, randomnessAddress, treasury.address)).to.be.revertedWith(
+        "Invalid game items"
+      );
+      await expect(Forge.deploy(gameItemsAddress, hre.ethers.ZeroAddress, treasury.address)).to.be.revertedWith(
+        "Invalid randomness provider"
+      );
+      await expect(Forge.deploy(gameItemsAddress, randomnessAddress, hre.ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid treasury"
+      );
+    });
+  });
+
+  describe("Owner-only admin setters", function () {
+    it("Should update the game items, randomness provider and treasury", async function () {
+      const { forge, owner, player2 } = await loadFixture(deployFixture);
+
+      await expect(forge.connect(owner).setGameItems(player2.address))
+        .to.emit(forge, "GameItemsSet")
+        .withArgs(player2.address);
+      await expect(forge.connect(owner).setRandomnessProvider(player2.address))
+        .to.emit(forge, "RandomnessProviderSet")
+        .withArgs(player2.address);
+      await expect(forge.connect(owner).setTreasury(player2.address))
+        .to.emit(forge, "TreasurySet")
+        .withArgs(player2.address);
+
+      expect(await forge.getGameItems()).to.equal(player2.address);
+      expect(await forge.getRandomnessProvider()).to.equal(player2.address);
+      expect(await forge.getTreasury()).to.equal(player2.address);
+    });
+
+    it("Should revert when non-owner calls admin setters", async function () {
+      const { forge, player1 } = await loadFixture(deployFixture);
+
+      await expect(forge.connect(player1).setGameItems(player1.address))
+        .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+      await expect(forge.connect(player1).setRandomnessProvider(player1.address))
+        .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+      await expect(forge.connect(player1).setTreasury(player1.address))
+        .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+    });
+  });
+
+  describe("Recipes", function () {
+    describe("Happy path", function () {
+      it("Should register an enabled recipe", async function () {
+        const { forge, owner } = await loadFixture(deployFixture);
+
+        await expect(forge.connect(owner).createRecipe(swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, BPS))
+          .to.emit(forge, "RecipeSet")
+          .withArgs(1)
+          .and.to.emit(forge, "RecipeEnabled")
+          .withArgs(1, true);
+
+        const recipe = await forge.getRecipe(1);
+        expect(recipe.inputs.length).to.equal(2);
+        expect(recipe.inputs[0].tokenId).to.equal(IRON_ID);
+        expect(recipe.inputs[0].amount).to.equal(5);
+        expect(recipe.outputs[0].tokenId).to.equal(BRONZE_SWORD_ID);
+        expect(recipe.successChance).to.equal(BPS);
+        expect(recipe.enabled).to.be.true;
+        expect(await forge.getRecipeCounter()).to.equal(1);
+      });
+
+      it("Should replace a recipe and keep its enabled state", async function () {
+        const { forge, owner } = await loadFixture(deployWithRecipeFixture);
+        await forge.connect(owner).setRecipeEnabled(1, false);
+
+        await forge.connect(owner).setRecipe(1, [{ tokenId: IRON_ID, amount: 3 }], swordOutputs, hre.ethers.ZeroAddress, 10, 5000);
+
+        const recipe = await forge.getRecipe(1);
+        expect(recipe.inputs.length).to.equal(1);
+        expect(recipe.inputs[0].amount).to.equal(3);
+        expect(recipe.fee).to.equal(10);
+        expect(recipe.successChance).to.equal(5000);
+        expect(recipe.enabled).to.be.false;
+      });
+
+      it("Should disable and re-enable a recipe", async function () {
+        const { forge, owner } = await loadFixture(deployWithRecipeFixture);
+
+        await expect(forge.connect(owner).setRecipeEnabled(1, false))
+          .to.emit(forge, "RecipeEnabled")
+          .withArgs(1, false);
+        expect((await forge.getRecipe(1)).enabled).to.be.false;
+
+        await forge.connect(owner).setRecipeEnabled(1, true);
+        expect((await forge.getRecipe(1)).enabled).to.be.true;
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with no inputs or outputs, or too many", async function () {
+        const { forge, owner } = await loadFixture(deployFixture);
+        const tooMany = Array(9).fill({ tokenId: IRON_ID, amount: 1 });
+
+        await expect(
+          forge.connect(owner).createRecipe([], swordOutputs, hre.ethers.ZeroAddress, 0, BPS)
+        ).to.be.revertedWith("Invalid inputs");
+        await expect(
+          forge.connect(owner).createRecipe(tooMany, swordOutputs, hre.ethers.ZeroAddress, 0, BPS)
+        ).to.be.revertedWith("Invalid inputs");
+        await expect(
+          forge.connect(owner).createRecipe(swordInputs, [], hre.ethers.ZeroAddress, 0, BPS)
+        ).to.be.revertedWith("Invalid outputs");
+        await expect(
+          forge.connect(owner).createRecipe(swordInputs, tooMany, hre.ethers.ZeroAddress, 0, BPS)
+        ).to.be.revertedWith("Invalid outputs");
+      });
+
+      it("Should revert with a zero amount", async function () {
+        const { forge, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          forge.connect(owner).createRecipe([{ tokenId: IRON_ID, amount: 0 }], swordOutputs, hre.ethers.ZeroAddress, 0, BPS)
+        ).to.be.revertedWith("Invalid amount");
+        await expect(
+          forge.connect(owner).createRecipe(swordInputs, [{ tokenId: BRONZE_SWORD_ID, amount: 0 }], hre.ethers.ZeroAddress, 0, BPS)
+        ).to.be.revertedWith("Invalid amount");
+      });
+
+      it("Should revert with a success chance of 0 or above 100%", async function () {
+        const { forge, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          forge.connect(owner).createRecipe(swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, 0)
+        ).to.be.revertedWith("Invalid success chance");
+        await expect(
+          forge.connect(owner).createRecipe(swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, BPS + 1)
+        ).to.be.revertedWith("Invalid success chance");
+      });
+
+      it("Should revert when the recipe doesn't exist", async function () {
+        const { forge, owner } = await loadFixture(deployWithRecipeFixture);
+
+        await expect(
+          forge.connect(owner).setRecipe(2, swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, BPS)
+        ).to.be.revertedWith("Recipe does not exist");
+        await expect(forge.connect(owner).setRecipeEnabled(0, true)).to.be.revertedWith("Recipe does not exist");
+        await expect(forge.getRecipe(2)).to.be.revertedWith("Recipe does not exist");
+        await expect(forge.connect(owner).craft(2, 1)).to.be.revertedWith("Recipe does not exist");
+      });
+
+      it("Should revert when non-owner manages recipes", async function () {
+        const { forge, player1 } = await loadFixture(deployWithRecipeFixture);
+
+        await expect(forge.connect(player1).createRecipe(swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, BPS))
+          .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(forge.connect(player1).setRecipe(1, swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, BPS))
+          .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(forge.connect(player1).setRecipeEnabled(1, false))
+          .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+  });
+
+  describe("craft()", function () {
+    describe("Happy path", function () {
+      it("Should burn the inputs, mint the outputs and emit Crafted", async function () {
+        const { gameItems, forge, player1 } = await loadFixture(deployWithRecipeFixture);
+
+        await expect(forge.connect(player1).craft(1, 1))
+          .to.emit(forge, "Crafted")
+          .withArgs(1, player1.address, 1, 1);
+
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(95);
+        expect(await gameItems.balanceOf(player1.address, GOLD_ID)).to.equal(98);
+        expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(1);
+      });
+
+      it("Should craft a batch at once", async function () {
+        const { gameItems, forge, player1 } = await loadFixture(deployWithRecipeFixture);
+
+        await forge.connect(player1).craft(1, 20);
+
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(0);
+        expect(await gameItems.balanceOf(player1.address, GOLD_ID)).to.equal(60);
+        expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(20);
+      });
+
+      it("Should mint every output of a recipe", async function () {
+        const { gameItems, forge, owner, player1 } = await loadFixture(deployFixture);
+        await forge
+          .connect(owner)
+          .createRecipe(
+            swordInputs,
+            [...swordOutputs, { tokenId: HEALTH_POTION_ID, amount: 3 }],
+            hre.ethers.ZeroAddress,
+            0,
+            BPS
+          );
+
+        await forge.connect(player1).craft(1, 2);
+
+        expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(2);
+        expect(await gameItems.balanceOf(player1.address, HEALTH_POTION_ID)).to.equal(6);
+      });
+
+      it("Should forward native fees to the treasury", async function () {
+        const { forge, owner, player1, treasury } = await loadFixture(deployWithRecipeFixture);
+        const fee = hre.ethers.parseEther("0.01");
+        await forge.connect(owner).setRecipe(1, swordInputs, swordOutputs, hre.ethers.ZeroAddress, fee, BPS);
+
+        await expect(forge.connect(player1).craft(1, 3, { value: fee * 3n })).to.changeEtherBalances(
+          [player1, treasury, forge],
+          [-fee * 3n, fee * 3n, 0]
+        );
+      });
+
+      it("Should forward ERC20 fees to the treasury", async function () {
+        const { forge, owner, player1, treasury } = await loadFixture(deployWithRecipeFixture);
+        const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+        const token = await MockERC20.deploy("Kusa", "KUSA");
+        await token.mint(player1.address, 1000);
+        await token.connect(player1).approve(await forge.getAddress(), 1000);
+        await forge.connect(owner).setRecipe(1, swordInputs, swordOutputs, await token.getAddress(), 25, BPS);
+
+        await expect(forge.connect(player1).craft(1, 2)).to.changeTokenBalances(
+          token,
+          [player1, treasury],
+          [-50, 50]
+        );
+      });
+
+      it("Should accept ERC20 fee tokens that return no value", async function () {
+        const { forge, owner, player1, treasury } = await loadFixture(deployWithRecipeFixture);
+        const MockERC20NoReturn = await hre.ethers.getContractFactory("MockERC20NoReturn");
+        const token = await MockERC20NoReturn.deploy();
+        await token.mint(player1.address, 1000);
+        await token.connect(player1).approve(await forge.getAddress(), 1000);
+        await forge.connect(owner).setRecipe(1, swordInputs, swordOutputs, await token.getAddress(), 25, BPS);
+
+        await forge.connect(player1).craft(1, 2);
+
+        expect(await token.balanceOf(player1.address)).to.equal(950);
+        expect(await token.balanceOf(treasury.address)).to.equal(50);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when the recipe is disabled", async function () {
+        const { forge, owner, player1 } = await loadFixture(deployWithRecipeFixture);
+        await forge.connect(owner).setRecipeEnabled(1, false);
+
+        await expect(forge.connect(player1).craft(1, 1)).to.be.revertedWith("Recipe disabled");
+      });
+
+      it("Should revert with zero or too many crafts", async function () {
+        const { forge, player1 } = await loadFixture(deployWithRecipeFixture);
+
+        await expect(forge.connect(player1).craft(1, 0)).to.be.revertedWith("Invalid times");
+        await expect(forge.connect(player1).craft(1, 101)).to.be.revertedWith("Invalid times");
+      });
+
+      it("Should revert with insufficient input balances and burn nothing", async function () {
+        const { gameItems, forge, player1 } = await loadFixture(deployWithRecipeFixture);
+
+        // 21 crafts need 105 iron
+        await expect(forge.connect(player1).craft(1, 21))
+          .to.be.revertedWithCustomError(gameItems, "ERC1155InsufficientBalance")
+          .withArgs(player1.address, 100, 105, IRON_ID);
+
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(100);
+        expect(await gameItems.balanceOf(player1.address, GOLD_ID)).to.equal(100);
+      });
+
+      it("Should revert when a later input is insufficient and keep the earlier ones", async function () {
+        const { gameItems, forge, owner, player1, player2 } = await loadFixture(deployWithRecipeFixture);
+        await gameItems.connect(player1).safeTransferFrom(player1.address, player2.address, GOLD_ID, 99, "0x");
+
+        await expect(forge.connect(player1).craft(1, 1))
+          .to.be.revertedWithCustomError(gameItems, "ERC1155InsufficientBalance")
+          .withArgs(player1.address, 1, 2, GOLD_ID);
+
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(100);
+      });
+
+      it("Should revert when the crafter has not approved the Forge", async function () {
+        const { gameItems, forge, player1 } = await loadFixture(deployWithRecipeFixture);
+        await gameItems.connect(player1).setApprovalForAll(await forge.getAddress(), false);
+
+        await expect(forge.connect(player1).craft(1, 1))
+          .to.be.revertedWithCustomError(gameItems, "ERC1155MissingApprovalForAll")
+          .withArgs(await forge.getAddress(), player1.address);
+      });
+
+      it("Should revert with an incorrect native fee", async function () {
+        const { forge, owner, player1 } = await loadFixture(deployWithRecipeFixture);
+        await forge.connect(owner).setRecipe(1, swordInputs, swordOutputs, hre.ethers.ZeroAddress, 100, BPS);
+
+        await expect(forge.connect(player1).craft(1, 2, { value: 100 })).to.be.revertedWith("Incorrect fee");
+        await expect(forge.connect(player1).craft(1, 2, { value: 300 })).to.be.revertedWith("Incorrect fee");
+      });
+
+      it("Should revert when sending native currency to a free or ERC20 recipe", async function () {
+        const { forge, player1 } = await loadFixture(deployWithRecipeFixture);
+
+        await expect(forge.connect(player1).craft(1, 1, { value: 1 })).to.be.revertedWith("Incorrect fee");
+      });
+
+      it("Should revert without an ERC20 allowance", async function () {
+        const { forge, owner, player1 } = await loadFixture(deployWithRecipeFixture);
+        const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+        const token = await MockERC20.deploy("Kusa", "KUSA");
+        await token.mint(player1.address, 1000);
+        await forge.connect(owner).setRecipe(1, swordInputs, swordOutputs, await token.getAddress(), 25, BPS);
+
+        await expect(forge.connect(player1).craft(1, 1)).to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+      });
+
+      it("Should revert when the ERC20 transfer returns false", async function () {
+        const { forge, owner, player1 } = await loadFixture(deployWithRecipeFixture);
+        const MockERC20ReturnsFalse = await hre.ethers.getContractFactory("MockERC20ReturnsFalse");
+        const token = await MockERC20ReturnsFalse.deploy();
+        await forge.connect(owner).setRecipe(1, swordInputs, swordOutputs, await token.getAddress(), 25, BPS);
+
+        await expect(forge.connect(player1).craft(1, 1))
+          .to.be.revertedWithCustomError(forge, "SafeERC20FailedOperation")
+          .withArgs(await token.getAddress());
+      });
+
+      it("Should revert when the Forge doesn't have the minter role of an output", async function () {
+        const { gameItems, forge, owner, player1 } = await loadFixture(deployWithRecipeFixture);
+        const EQUIPMENT_MINTER_ROLE = await gameItems.EQUIPMENT_MINTER_ROLE();
+        await gameItems.connect(owner).revokeRole(EQUIPMENT_MINTER_ROLE, await forge.getAddress());
+
+        await expect(forge.connect(player1).craft(1, 1))
+          .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+          .withArgs(await forge.getAddress(), EQUIPMENT_MINTER_ROLE);
+      });
+    });
+  });
+
+  describe("Success chance", function () {
+    async function deployWithChanceRecipeFixture() {
+      const { gameItems, randomness, forge, owner, player1, player2, treasury } = await loadFixture(deployFixture);
+
+      // Recipe 1: bronze sword, 40% success
+      await forge.connect(owner).createRecipe(swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, 4000);
+
+      return { gameItems, randomness, forge, owner, player1, player2, treasury };
+    }
+
+    it("Should burn the inputs and request randomness on craft", async function () {
+      const { gameItems, randomness, forge, player1 } = await loadFixture(deployWithChanceRecipeFixture);
+
+      await expect(forge.connect(player1).craft(1, 10))
+        .to.emit(forge, "CraftRequested")
+        .withArgs(1, 1, player1.address, 10, 1)
+        .and.to.emit(randomness, "RandomnessRequested");
+
+      expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(50);
+      expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(0);
+      const pendingCraft = await forge.getPendingCraft(1);
+      expect(pendingCraft.crafter).to.equal(player1.address);
+      expect(pendingCraft.times).to.equal(10);
+      expect(pendingCraft.requestId).to.equal(1);
+    });
+
+    it("Should mint the outputs of the successful crafts on settle", async function () {
+      const { gameItems, randomness, forge, player1, player2 } = await loadFixture(deployWithChanceRecipeFixture);
+      const randomWord = hre.ethers.toBigInt(hre.ethers.id("forge"));
+      const successes = expectedSuccesses(randomWord, 20, 4000);
+
+      await forge.connect(player1).craft(1, 20);
+      await randomness.fulfill(1, randomWord);
+
+      // Anyone can settle, the outputs go to the crafter
+      await expect(forge.connect(player2).settleCraft(1))
+        .to.emit(forge, "CraftSettled")
+        .withArgs(1, successes)
+        .and.to.emit(forge, "Crafted")
+        .withArgs(1, player1.address, 20, successes);
+
+      expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(successes);
+      expect((await forge.getPendingCraft(1)).requestId).to.equal(0);
+    });
+
+    it("Should succeed about as often as the success chance over fixed words", async function () {
+      const { gameItems, randomness, forge, player1 } = await loadFixture(deployWithChanceRecipeFixture);
+
+      // 20 batches of 1 craft
+      for (let i = 1; i <= 20; i++) {
+        await forge.connect(player1).craft(1, 1);
+        await randomness.fulfill(i, hre.ethers.toBigInt(hre.ethers.id(`forge ${i}`)));
+        await forge.settleCraft(i);
+      }
+
+      // Expected 8 (40%)
+      const swords = await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID);
+      expect(swords).to.be.within(2, 14);
+    });
+
+    it("Should keep the inputs burned when every craft fails", async function () {
+      const { gameItems, randomness, forge, owner, player1 } = await loadFixture(deployFixture);
+      // 0.01% success chance
+      await forge.connect(owner).createRecipe(swordInputs, swordOutputs, hre.ethers.ZeroAddress, 0, 1);
+      const randomWord = 1n;
+      expect(expectedSuccesses(randomWord, 1, 1)).to.equal(0);
+
+      await forge.connect(player1).craft(1, 1);
+      await randomness.fulfill(1, randomWord);
+      await forge.settleCraft(1);
+
+      expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(95);
+      expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(0);
+    });
+
+    it("Should settle a craft of a recipe disabled in the meantime", async function () {
+      const { randomness, forge, owner, player1 } = await loadFixture(deployWithChanceRecipeFixture);
+
+      await forge.connect(player1).craft(1, 1);
+      await forge.connect(owner).setRecipeEnabled(1, false);
+      await randomness.fulfill(1, 1n);
+
+      await expect(forge.settleCraft(1)).to.emit(forge, "CraftSettled");
+    });
+
+    it("Should settle with the chance and outputs of the recipe when it was crafted", async function () {
+      const { gameItems, randomness, forge, owner, player1 } = await loadFixture(deployWithChanceRecipeFixture);
+      const randomWord = hre.ethers.toBigInt(hre.ethers.id("forge"));
+      const successes = expectedSuccesses(randomWord, 20, 4000);
+
+      await forge.connect(player1).craft(1, 20);
+      const pendingCraft = await forge.getPendingCraft(1);
+      expect(pendingCraft.successChance).to.equal(4000);
+      expect(pendingCraft.outputs[0].tokenId).to.equal(BRONZE_SWORD_ID);
+
+      // The owner edits the recipe before the craft settles
+      await forge
+        .connect(owner)
+        .setRecipe(1, swordInputs, [{ tokenId: HEALTH_POTION_ID, amount: 1 }], hre.ethers.ZeroAddress, 0, 1);
+      await randomness.fulfill(1, randomWord);
+      await forge.settleCraft(1);
+
+      expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(successes);
+      expect(await gameItems.balanceOf(player1.address, HEALTH_POTION_ID)).to.equal(0);
+    });
+
+    it("Should revert when settling before the randomness is fulfilled", async function () {
+      const { forge, player1 } = await loadFixture(deployWithChanceRecipeFixture);
+
+      await forge.connect(player1).craft(1, 1);
+
+      await expect(forge.settleCraft(1)).to.be.revertedWith("Randomness not fulfilled");
+    });
+
+    it("Should revert when settling an unknown or already settled craft", async function () {
+      const { randomness, forge, player1 } = await loadFixture(deployWithChanceRecipeFixture);
+
+      await expect(forge.settleCraft(1)).to.be.revertedWith("Craft does not exist");
+
+      await forge.connect(player1).craft(1, 1);
+      await randomness.fulfill(1, 1n);
+      await forge.settleCraft(1);
+
+      await expect(forge.settleCraft(1)).to.be.revertedWith("Craft does not exist");
+    });
+  });
+
+  describe("Enhancement", function () {
+    // Random words rolling 0 (success) and 9999 (failure) against BPS
+    const SUCCESS_WORD = 0n;
+    const FAILURE_WORD = 9999n;
+
+    async function deployWithUpgradePathsFixture() {
+      const { gameItems, randomness, forge, owner, player1, player2, treasury } = await loadFixture(deployFixture);
+      await gameItems
+        .connect(owner)
+        .batchCreateItemTypes(
+          [BRONZE_SWORD_1_ID, BRONZE_SWORD_2_ID, LEATHER_ARMOR_ID],
+          [
+            encodeItemStats({ modifiers: { damage: 7 } }),
+            encodeItemStats({ modifiers: { damage: 10 } }),
+            encodeItemStats({ modifiers: { physicalResist: 500 } }),
+          ]
+        );
+
+      // owner stands in for the Forge crafting swords
+      await gameItems.connect(owner).grantRole(await gameItems.EQUIPMENT_MINTER_ROLE(), owner.address);
+      await gameItems.connect(owner).mint(player1.address, BRONZE_SWORD_ID, 3);
+
+      // Bronze Sword -> +1: 3 iron, always succeeds
+      await forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [{ tokenId: IRON_ID, amount: 3 }], BPS, KEEP);
+      // +1 -> +2: 5 iron + 1 gold, 50%, downgraded on failure
+      await forge
+        .connect(owner)
+        .setUpgradePath(
+          BRONZE_SWORD_1_ID,
+          BRONZE_SWORD_2_ID,
+          [{ tokenId: IRON_ID, amount: 5 }, { tokenId: GOLD_ID, amount: 1 }],
+          5000,
+          DOWNGRADE
+        );
+
+      return { gameItems, randomness, forge, owner, player1, player2, treasury };
+    }
+
+    describe("Upgrade paths", function () {
+      describe("Happy path", function () {
+        it("Should store the upgrade path and link the tiers", async function () {
+          const { forge } = await loadFixture(deployWithUpgradePathsFixture);
+
+          const path = await forge.getUpgradePath(BRONZE_SWORD_1_ID);
+          expect(path.toTokenId).to.equal(BRONZE_SWORD_2_ID);
+          expect(path.materials.length).to.equal(2);
+          expect(path.materials[1].tokenId).to.equal(GOLD_ID);
+          expect(path.successChance).to.equal(5000);
+          expect(path.onFailure).to.equal(DOWNGRADE);
+
+          expect(await forge.getPreviousTier(BRONZE_SWORD_ID)).to.equal(0);
+          expect(await forge.getPreviousTier(BRONZE_SWORD_1_ID)).to.equal(BRONZE_SWORD_ID);
+          expect(await forge.getPreviousTier(BRONZE_SWORD_2_ID)).to.equal(BRONZE_SWORD_1_ID);
+        });
+
+        it("Should emit UpgradePathSet", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [], 9000, DESTROY))
+            .to.emit(forge, "UpgradePathSet")
+            .withArgs(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID);
+        });
+
+        it("Should relink the tiers when a path changes its next tier", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await forge.connect(owner).removeUpgradePath(BRONZE_SWORD_1_ID);
+          await forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_2_ID, [], BPS, KEEP);
+
+          expect(await forge.getPreviousTier(BRONZE_SWORD_1_ID)).to.equal(0);
+          expect(await forge.getPreviousTier(BRONZE_SWORD_2_ID)).to.equal(BRONZE_SWORD_ID);
+        });
+
+        it("Should remove an upgrade path", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.connect(owner).removeUpgradePath(BRONZE_SWORD_1_ID))
+            .to.emit(forge, "UpgradePathRemoved")
+            .withArgs(BRONZE_SWORD_1_ID);
+
+          await expect(forge.getUpgradePath(BRONZE_SWORD_1_ID)).to.be.revertedWith("Upgrade path does not exist");
+          expect(await forge.getPreviousTier(BRONZE_SWORD_2_ID)).to.equal(0);
+        });
+      });
+
+      describe("Failure cases", function () {
+        it("Should revert with a missing or self-referencing next tier", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, 0, [], BPS, KEEP)).to.be.revertedWith(
+            "Invalid upgrade path"
+          );
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_ID, [], BPS, KEEP)
+          ).to.be.revertedWith("Invalid upgrade path");
+        });
+
+        it("Should revert when the tiers are not equipment of the same slot", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_2_ID, LEATHER_ARMOR_ID, [], BPS, KEEP)
+          ).to.be.revertedWith("Item slot mismatch");
+          await expect(forge.connect(owner).setUpgradePath(IRON_ID, GOLD_ID, [], BPS, KEEP)).to.be.revertedWith(
+            "Not an equipment item"
+          );
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_2_ID, BRONZE_SWORD_2_ID + 1, [], BPS, KEEP)
+          ).to.be.revertedWith("Token type does not exist");
+        });
+
+        it("Should revert when the next tier is already upgraded into from another tier", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_2_ID, [], BPS, KEEP)
+          ).to.be.revertedWith("Tier already linked");
+        });
+
+        it("Should revert with invalid materials or success chance", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+          const tooMany = Array(9).fill({ tokenId: IRON_ID, amount: 1 });
+
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, tooMany, BPS, KEEP)
+          ).to.be.revertedWith("Invalid materials");
+          await expect(
+            forge
+              .connect(owner)
+              .setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [{ tokenId: IRON_ID, amount: 0 }], BPS, KEEP)
+          ).to.be.revertedWith("Invalid amount");
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [], 0, KEEP)
+          ).to.be.revertedWith("Invalid success chance");
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [], BPS + 1, KEEP)
+          ).to.be.revertedWith("Invalid success chance");
+        });
+
+        it("Should revert when downgrading a base tier", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(
+            forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [], 5000, DOWNGRADE)
+          ).to.be.revertedWith("No tier to downgrade to");
+        });
+
+        it("Should revert when removing a path that doesn't exist", async function () {
+          const { forge, owner } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.connect(owner).removeUpgradePath(BRONZE_SWORD_2_ID)).to.be.revertedWith(
+            "Upgrade path does not exist"
+          );
+        });
+
+        it("Should revert when non-owner manages upgrade paths", async function () {
+          const { forge, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.connect(player1).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [], BPS, KEEP))
+            .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+            .withArgs(player1.address);
+          await expect(forge.connect(player1).removeUpgradePath(BRONZE_SWORD_ID))
+            .to.be.revertedWithCustomError(forge, "OwnableUnauthorizedAccount")
+            .withArgs(player1.address);
+        });
+      });
+    });
+
+    describe("enhance()", function () {
+      describe("Happy path", function () {
+        it("Should burn the item and materials and mint the next tier right away", async function () {
+          const { gameItems, forge, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.connect(player1).enhance(BRONZE_SWORD_ID))
+            .to.emit(forge, "Enhanced")
+            .withArgs(BRONZE_SWORD_ID, player1.address, true, BRONZE_SWORD_1_ID);
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(2);
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_1_ID)).to.equal(1);
+          expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(97);
+        });
+
+        it("Should request randomness for a risky attempt", async function () {
+          const { gameItems, randomness, forge, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+
+          await expect(forge.connect(player1).enhance(BRONZE_SWORD_1_ID))
+            .to.emit(forge, "EnhancementRequested")
+            .withArgs(1, BRONZE_SWORD_1_ID, player1.address, 1)
+            .and.to.emit(randomness, "RandomnessRequested");
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_1_ID)).to.equal(0);
+          expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(92);
+          expect(await gameItems.balanceOf(player1.address, GOLD_ID)).to.equal(99);
+          const pending = await forge.getPendingEnhancement(1);
+          expect(pending.enhancer).to.equal(player1.address);
+          expect(pending.successTokenId).to.equal(BRONZE_SWORD_2_ID);
+          expect(pending.failureTokenId).to.equal(BRONZE_SWORD_ID);
+        });
+
+        it("Should mint the next tier when the attempt succeeds", async function () {
+          const { gameItems, randomness, forge, player1, player2 } = await loadFixture(deployWithUpgradePathsFixture);
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+          await forge.connect(player1).enhance(BRONZE_SWORD_1_ID);
+          await randomness.fulfill(1, SUCCESS_WORD);
+
+          // Anyone can settle, the item goes to the enhancer
+          await expect(forge.connect(player2).settleEnhancement(1))
+            .to.emit(forge, "EnhancementSettled")
+            .withArgs(1, true)
+            .and.to.emit(forge, "Enhanced")
+            .withArgs(BRONZE_SWORD_1_ID, player1.address, true, BRONZE_SWORD_2_ID);
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_2_ID)).to.equal(1);
+          expect((await forge.getPendingEnhancement(1)).requestId).to.equal(0);
+        });
+
+        it("Should downgrade the item when a Downgrade attempt fails", async function () {
+          const { gameItems, randomness, forge, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+          await forge.connect(player1).enhance(BRONZE_SWORD_1_ID);
+          await randomness.fulfill(1, FAILURE_WORD);
+
+          await expect(forge.settleEnhancement(1))
+            .to.emit(forge, "Enhanced")
+            .withArgs(BRONZE_SWORD_1_ID, player1.address, false, BRONZE_SWORD_ID);
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(3);
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_1_ID)).to.equal(0);
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_2_ID)).to.equal(0);
+        });
+
+        it("Should give the item back when a Keep attempt fails", async function () {
+          const { gameItems, randomness, forge, owner, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+          await forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [], 5000, KEEP);
+
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+          await randomness.fulfill(1, FAILURE_WORD);
+          await forge.settleEnhancement(1);
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(3);
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_1_ID)).to.equal(0);
+        });
+
+        it("Should destroy the item when a Destroy attempt fails", async function () {
+          const { gameItems, randomness, forge, owner, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+          await forge.connect(owner).setUpgradePath(BRONZE_SWORD_ID, BRONZE_SWORD_1_ID, [], 5000, DESTROY);
+
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+          await randomness.fulfill(1, FAILURE_WORD);
+
+          await expect(forge.settleEnhancement(1))
+            .to.emit(forge, "Enhanced")
+            .withArgs(BRONZE_SWORD_ID, player1.address, false, 0);
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(2);
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_1_ID)).to.equal(0);
+        });
+
+        it("Should settle with the outcomes of the path at the time of the attempt", async function () {
+          const { gameItems, randomness, forge, owner, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+          await forge.connect(player1).enhance(BRONZE_SWORD_1_ID);
+          await forge.connect(owner).removeUpgradePath(BRONZE_SWORD_1_ID);
+          await forge.connect(owner).removeUpgradePath(BRONZE_SWORD_ID);
+          await randomness.fulfill(1, FAILURE_WORD);
+
+          await forge.settleEnhancement(1);
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(3);
+        });
+      });
+
+      describe("Failure cases", function () {
+        it("Should revert when the item has no upgrade path", async function () {
+          const { forge, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.connect(player1).enhance(BRONZE_SWORD_2_ID)).to.be.revertedWith(
+            "Upgrade path does not exist"
+          );
+        });
+
+        it("Should revert when the caller doesn't hold the item", async function () {
+          const { gameItems, forge, player2 } = await loadFixture(deployWithUpgradePathsFixture);
+          await gameItems.connect(player2).setApprovalForAll(await forge.getAddress(), true);
+
+          await expect(forge.connect(player2).enhance(BRONZE_SWORD_ID))
+            .to.be.revertedWithCustomError(gameItems, "ERC1155InsufficientBalance")
+            .withArgs(player2.address, 0, 1, BRONZE_SWORD_ID);
+        });
+
+        it("Should revert with insufficient materials and keep the item", async function () {
+          const { gameItems, forge, player1, player2 } = await loadFixture(deployWithUpgradePathsFixture);
+          await gameItems.connect(player1).safeTransferFrom(player1.address, player2.address, IRON_ID, 98, "0x");
+
+          await expect(forge.connect(player1).enhance(BRONZE_SWORD_ID))
+            .to.be.revertedWithCustomError(gameItems, "ERC1155InsufficientBalance")
+            .withArgs(player1.address, 2, 3, IRON_ID);
+
+          expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(3);
+        });
+
+        it("Should revert when settling before the randomness is fulfilled", async function () {
+          const { forge, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+          await forge.connect(player1).enhance(BRONZE_SWORD_1_ID);
+
+          await expect(forge.settleEnhancement(1)).to.be.revertedWith("Randomness not fulfilled");
+        });
+
+        it("Should revert when settling an unknown or already settled enhancement", async function () {
+          const { randomness, forge, player1 } = await loadFixture(deployWithUpgradePathsFixture);
+
+          await expect(forge.settleEnhancement(1)).to.be.revertedWith("Enhancement does not exist");
+
+          await forge.connect(player1).enhance(BRONZE_SWORD_ID);
+          await forge.connect(player1).enhance(BRONZE_SWORD_1_ID);
+          await randomness.fulfill(1, SUCCESS_WORD);
+          await forge.settleEnhancement(1);
+
+          await expect(forge.settleEnhancement(1)).to.be.revertedWith("Enhancement does not exist");
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeItemStats, Rarity } from "./helpers/itemStats";
+
+describe("GameItems1155", function () {
+  const BASE_URI = "https://kusamine.example/items/";
+
+  // Category enum values matching the contract
+  const Category = {
+    None: 0,
+    Resource: 1,
+    Consumable: 2,
+    Equipment: 3,
+  };
+
+  // Equipment slot enum values matching the contract
+  const Slot = {
+    ARMOR: 0,
+    WEAPON: 1,
+    RELIC: 2,
+    HELMET: 3,
+    BOOTS: 4,
+    RING: 5,
+    TOOL: 7,
+  };
+
+  // DESIGNDOC token ids
+  const GOLD_ID = 1;
+  const IRON_ID = 2;
+  const HEALTH_POTION_ID = 501;
+  const BRONZE_SWORD_ID = 1001;
+  const LEATHER_ARMOR_ID = 2001;
+  const LUCKY_CHARM_ID = 3001;
+
+  const swordData = encodeItemStats({ rarity: Rarity.Common, modifiers: { damage: 5 } });
+
+  async function deployFixture() {
+    // mineSystem and forge stand in for game systems holding scoped minter roles
+    const [owner, player1, mineSystem, forge] = await hre.ethers.getSigners();
+
+    const GameItems1155 = await hre.ethers.getContractFactory("GameItems1155");
+    const gameItems = await GameItems1155.deploy(BASE_URI, owner.address);
+
+    await gameItems.connect(owner).grantRole(await gameItems.RESOURCE_MINTER_ROLE(), mineSystem.address);
+    await gameItems.connect(owner).grantRole(await gameItems.EQUIPMENT_MINTER_ROLE(), forge.address);
+
+    return { gameItems, owner, player1, mineSystem, forge };
+  }
+
+  async function deployWithItemsFixture() {
+    const { gameItems, owner, player1, mineSystem, forge } = await loadFixture(deployFixture);
+
+    await gameItems
+      .connect(owner)
+      .batchCreateItemTypes(
+        [GOLD_ID, IRON_ID, HEALTH_POTION_ID, BRONZE_SWORD_ID, LEATHER_ARMOR_ID, LUCKY_CHARM_ID],
+        ["0x", "0x", "0x", swordData, "0x", "0x"]
+      );
+
+    return { gameItems, owner, player1, mineSystem, forge };
+  }
+
+  describe("Deployment", function () {
+    it("Should grant the admin role to the admin", async function () {
+      const { gameItems, owner } = await loadFixture(deployFixture);
+
+      expect(await gameItems.hasRole(await gameItems.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+    });
+
+    it("Should not grant any minter role to the admin", async function () {
+      const { gameItems, owner } = await loadFixture(deployFixture);
+
+      expect(await gameItems.hasRole(await gameItems.RESOURCE_MINTER_ROLE(), owner.address)).to.be.false;
+      expect(await gameItems.hasRole(await gameItems.CONSUMABLE_MINTER_ROLE(), owner.address)).to.be.false;
+      expect(await gameItems.hasRole(await gameItems.EQUIPMENT_MINTER_ROLE(), owner.address)).to.be.false;
+    });
+
+    it("Should support the ERC1155, AccessControl and IEquipable interfaces", async function () {
+      const { gameItems } = await loadFixture(deployFixture);
+
+      const IEquipable = new hre.ethers.Interface([
+        "function getEquipmentSlot(uint256) view returns (uint8)",
+        "function getItemData(uint256) view returns (bytes)",
+      ]);
+      const equipableId = hre.ethers.toBeHex(
+        hre.ethers.toBigInt(IEquipable.getFunction("getEquipmentSlot")!.selector) ^
+          hre.ethers.toBigInt(IEquipable.getFunction("getItemData")!.selector),
+        4
+      );
+
+      expect(await gameItems.supportsInterface("0xd9b67a26")).to.be.true;
+      expect(await gameItems.supportsInterface("0x7965db0b")).to.be.true;
+      expect(await gameItems.supportsInterface(equipableId)).to.be.true;
+    });
+  });
+
+  describe("Categories", function () {
+    it("Should derive the category from the DESIGNDOC id ranges", async function () {
+      const { gameItems } = await loadFixture(deployFixture);
+
+      expect(await gameItems.getCategory(0)).to.equal(Category.None);
+      expect(await gameItems.getCategory(1)).to.equal(Category.Resource);
+      expect(await gameItems.getCategory(499)).to.equal(Category.Resource);
+      expect(await gameItems.getCategory(500)).to.equal(Category.Consumable);
+      expect(await gameItems.getCategory(999)).to.equal(Category.Consumable);
+      expect(await gameItems.getCategory(1000)).to.equal(Category.Equipment);
+      expect(await gameItems.getCategory(3999)).to.equal(Category.Equipment);
+      expect(await gameItems.getCategory(7999)).to.equal(Category.Equipment);
+      expect(await gameItems.getCategory(8000)).to.equal(Category.None);
+    });
+
+    it("Should return the minter role of each category", async function () {
+      const { gameItems } = await loadFixture(deployFixture);
+
+      expect(await gameItems.getMinterRole(Category.Resource)).to.equal(await gameItems.RESOURCE_MINTER_ROLE());
+      expect(await gameItems.getMinterRole(Category.Consumable)).to.equal(await gameItems.CONSUMABLE_MINTER_ROLE());
+      expect(await gameItems.getMinterRole(Category.Equipment)).to.equal(await gameItems.EQUIPMENT_MINTER_ROLE());
+      await expect(gameItems.getMinterRole(Category.None)).to.be.revertedWith("Invalid category");
+    });
+  });
+
+  describe("createItemType()", function () {
+    describe("Happy path", function () {
+      it("Should create an item type and emit ItemTypeCreated", async function () {
+        const { gameItems, owner } = await loadFixture(deployFixture);
+
+        await expect(gameItems.connect(owner).createItemType(BRONZE_SWORD_ID, swordData))
+          .to.emit(gameItems, "ItemTypeCreated")
+          .withArgs(BRONZE_SWORD_ID, Category.Equipment, swordData);
+
+        expect(await gameItems.tokenTypeExists(BRONZE_SWORD_ID)).to.be.true;
+        expect(await gameItems.getItemData(BRONZE_SWORD_ID)).to.equal(swordData);
+      });
+
+      it("Should only report created item types as existing", async function () {
+        const { gameItems } = await loadFixture(deployWithItemsFixture);
+
+        expect(await gameItems.tokenTypeExists(IRON_ID)).to.be.true;
+        expect(await gameItems.tokenTypeExists(3)).to.be.false;
+        expect(await gameItems.tokenTypeExists(2002)).to.be.false;
+        expect(await gameItems.tokenTypeExists(0)).to.be.false;
+      });
+
+      it("Should not validate the item data of resources and consumables", async function () {
+        const { gameItems, owner } = await loadFixture(deployFixture);
+
+        await gameItems.connect(owner).createItemType(HEALTH_POTION_ID, "0x1234");
+
+        expect(await gameItems.getItemData(HEALTH_POTION_ID)).to.equal("0x1234");
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with a token id outside the ranges", async function () {
+        const { gameItems, owner } = await loadFixture(deployFixture);
+
+        await expect(gameItems.connect(owner).createItemType(0, "0x")).to.be.revertedWith("Invalid token id");
+        await expect(gameItems.connect(owner).createItemType(8000, "0x")).to.be.revertedWith("Invalid token id");
+      });
+
+      it("Should revert when the item type already exists", async function () {
+        const { gameItems, owner } = await loadFixture(deployWithItemsFixture);
+
+        await expect(gameItems.connect(owner).createItemType(IRON_ID, "0x")).to.be.revertedWith("Item type already exists");
+      });
+
+      it("Should revert with malformed equipment item data", async function () {
+        const { gameItems, owner } = await loadFixture(deployFixture);
+
+        await expect(gameItems.connect(owner).createItemType(BRONZE_SWORD_ID, "0x1234")).to.be.reverted;
+      });
+
+      it("Should revert with mismatched batch arrays", async function () {
+        const { gameItems, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          gameItems.connect(owner).batchCreateItemTypes([GOLD_ID, IRON_ID], ["0x"])
+        ).to.be.revertedWith("Array length mismatch");
+      });
+
+      it("Should revert when non-admin creates item types", async function () {
+        const { gameItems, player1 } = await loadFixture(deployFixture);
+
+        await expect(gameItems.connect(player1).createItemType(GOLD_ID, "0x"))
+          .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+          .withArgs(player1.address, await gameItems.DEFAULT_ADMIN_ROLE());
+      });
+    });
+  });
+
+  describe("mint()", function () {
+    describe("Happy path", function () {
+      it("Should mint items of the categories of the caller's minter roles", async function () {
+        const { gameItems, player1, mineSystem, forge } = await loadFixture(deployWithItemsFixture);
+
+        await expect(gameItems.connect(mineSystem).mint(player1.address, IRON_ID, 5))
+          .to.emit(gameItems, "TransferSingle")
+          .withArgs(mineSystem.address, hre.ethers.ZeroAddress, player1.address, IRON_ID, 5);
+        await gameItems.connect(forge).mint(player1.address, BRONZE_SWORD_ID, 1);
+
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(5);
+        expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(1);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when the caller doesn't have the minter role of the category", async function () {
+        const { gameItems, player1, mineSystem, forge } = await loadFixture(deployWithItemsFixture);
+
+        await expect(gameItems.connect(mineSystem).mint(player1.address, BRONZE_SWORD_ID, 1))
+          .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+          .withArgs(mineSystem.address, await gameItems.EQUIPMENT_MINTER_ROLE());
+        await expect(gameItems.connect(forge).mint(player1.address, HEALTH_POTION_ID, 1))
+          .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+          .withArgs(forge.address, await gameItems.CONSUMABLE_MINTER_ROLE());
+      });
+
+      it("Should revert when the admin mints without a minter role", async function () {
+        const { gameItems, owner } = await loadFixture(deployWithItemsFixture);
+
+        await expect(gameItems.connect(owner).mint(owner.address, GOLD_ID, 1))
+          .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+          .withArgs(owner.address, await gameItems.RESOURCE_MINTER_ROLE());
+      });
+
+      it("Should revert when the item type doesn't exist", async function () {
+        const { gameItems, player1, mineSystem } = await loadFixture(deployWithItemsFixture);
+
+        await expect(gameItems.connect(mineSystem).mint(player1.address, 3, 1)).to.be.revertedWith(
+          "Token type does not exist"
+        );
+        await expect(gameItems.connect(mineSystem).mint(player1.address, 5000, 1)).to.be.revertedWith(
+          "Token type does not exist"
+        );
+      });
+
+      it("Should revert once the minter role is revoked", async function () {
+        const { gameItems, owner, player1, mineSystem } = await loadFixture(deployWithItemsFixture);
+        const RESOURCE_MINTER_ROLE = await gameItems.RESOURCE_MINTER_ROLE();
+
+        await gameItems.connect(owner).revokeRole(RESOURCE_MINTER_ROLE, mineSystem.address);
+
+        await expect(gameItems.connect(mineSystem).mint(player1.address, IRON_ID, 1))
+          .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+          .withArgs(mineSystem.address, RESOURCE_MINTER_ROLE);
+      });
+    });
+  });
+
+  describe("canMint()", function () {
+    it("Should only allow minting existing item types of the account's minter roles", async function () {
+      const { gameItems, owner, mineSystem, forge } = await loadFixture(deployWithItemsFixture);
+
+      expect(await gameItems.canMint(mineSystem.address, IRON_ID)).to.be.true;
+      expect(await gameItems.canMint(mineSystem.address, BRONZE_SWORD_ID)).to.be.false;
+      expect(await gameItems.canMint(forge.address, BRONZE_SWORD_ID)).to.be.true;
+      expect(await gameItems.canMint(forge.address, IRON_ID)).to.be.false;
+      expect(await gameItems.canMint(owner.address, IRON_ID)).to.be.false;
+      // Item types that were never created
+      expect(await gameItems.canMint(forge.address, 1002)).to.be.false;
+      expect(await gameItems.canMint(forge.address, 0)).to.be.false;
+    });
+  });
+
+  describe("burn()", function () {
+    it("Should let holders and approved operators burn items", async function () {
+      const { gameItems, owner, player1, mineSystem } = await loadFixture(deployWithItemsFixture);
+      await gameItems.connect(mineSystem).mint(player1.address, GOLD_ID, 100);
+
+      await gameItems.connect(player1).burn(player1.address, GOLD_ID, 30);
+      await gameItems.connect(player1).setApprovalForAll(owner.address, true);
+      await gameItems.connect(owner).burn(player1.address, GOLD_ID, 20);
+
+      expect(await gameItems.balanceOf(player1.address, GOLD_ID)).to.equal(50);
+    });
+
+    it("Should revert when caller is neither the holder nor an approved operator", async function () {
+      const { gameItems, player1, mineSystem } = await loadFixture(deployWithItemsFixture);
+      await gameItems.connect(mineSystem).mint(player1.address, GOLD_ID, 100);
+
+      await expect(gameItems.connect(mineSystem).burn(player1.address, GOLD_ID, 30))
+        .to.be.revertedWithCustomError(gameItems, "ERC1155MissingApprovalForAll")
+        .withArgs(mineSystem.address, player1.address);
+    });
+  });
+
+  describe("IEquipable", function () {
+    it("Should derive the equipment slot from the id range", async function () {
+      const { gameItems } = await loadFixture(deployWithItemsFixture);
+
+      expect(await gameItems.getEquipmentSlot(BRONZE_SWORD_ID)).to.equal(Slot.WEAPON);
+      expect(await gameItems.getEquipmentSlot(LEATHER_ARMOR_ID)).to.equal(Slot.ARMOR);
+      expect(await gameItems.getEquipmentSlot(LUCKY_CHARM_ID)).to.equal(Slot.RELIC);
+    });
+
+    it("Should derive the slot of the helmet, boots, ring and tool ranges", async function () {
+      const { gameItems, owner } = await loadFixture(deployWithItemsFixture);
+      await gameItems.connect(owner).batchCreateItemTypes([4001, 5001, 6001, 7999], ["0x", "0x", "0x", "0x"]);
+
+      expect(await gameItems.getEquipmentSlot(4001)).to.equal(Slot.HELMET);
+      expect(await gameItems.getEquipmentSlot(5001)).to.equal(Slot.BOOTS);
+      expect(await gameItems.getEquipmentSlot(6001)).to.equal(Slot.RING);
+      expect(await gameItems.getEquipmentSlot(7999)).to.equal(Slot.TOOL);
+    });
+
+    it("Should return the decoded stats of equipment", async function () {
+      const { gameItems } = await loadFixture(deployWithItemsFixture);
+
+      expect((await gameItems.getItemStats(BRONZE_SWORD_ID)).modifiers.damage).to.equal(5);
+      expect((await gameItems.getItemStats(LEATHER_ARMOR_ID)).modifiers.damage).to.equal(0);
+    });
+
+    it("Should revert for items that are not equipment", async function () {
+      const { gameItems } = await loadFixture(deployWithItemsFixture);
+
+      await expect(gameItems.getEquipmentSlot(IRON_ID)).to.be.revertedWith("Not an equipment item");
+      await expect(gameItems.getItemStats(HEALTH_POTION_ID)).to.be.revertedWith("Not an equipment item");
+    });
+
+    it("Should revert for item types that don't exist", async function () {
+      const { gameItems } = await loadFixture(deployWithItemsFixture);
+
+      await expect(gameItems.getEquipmentSlot(1002)).to.be.revertedWith("Token type does not exist");
+      await expect(gameItems.getItemData(1002)).to.be.revertedWith("Token type does not exist");
+      await expect(gameItems.getItemStats(1002)).to.be.revertedWith("Token type does not exist");
+    });
+
+    it("Should be usable as the Player equipment contract", async function () {
+      const { gameItems, player1, forge } = await loadFixture(deployWithItemsFixture);
+      const price = hre.ethers.parseEther("0.1");
+
+      const Player = await hre.ethers.getContractFactory("Player");
+      const player = await Player.deploy(price);
+      await player.setEquipmentContract(await gameItems.getAddress());
+      await player.connect(player1).buyToken({ value: price });
+
+      await gameItems.connect(forge).mint(player1.address, BRONZE_SWORD_ID, 1);
+      await gameItems.connect(player1).setApprovalForAll(await player.getAddress(), true);
+      await player.connect(player1).equip(1, Slot.WEAPON, BRONZE_SWORD_ID, 1);
+
+      expect(await player.isSlotEquipped(1, Slot.WEAPON)).to.be.true;
+      expect(await gameItems.balanceOf(await player.getAddress(), BRONZE_SWORD_ID)).to.equal(1);
+      await expect(player.connect(player1).equip(1, Slot.ARMOR, BRONZE_SWORD_ID, 1)).to.be.revertedWith(
+        "Item slot mismatch"
+      );
+    });
+  });
+
+  describe("Metadata", function () {
+    it("Should return the base URI followed by the token id", async function () {
+      const { gameItems } = await loadFixture(deployFixture);
+
+      expect(await gameItems.uri(2)).to.equal(`${BASE_URI}2`);
+    });
+
+    it("Should update the base URI", async function () {
+      const { gameItems, owner } = await loadFixture(deployFixture);
+
+      await gameItems.connect(owner).setURI("ipfs://items/");
+
+      expect(await gameItems.uri(1)).to.equal("ipfs://items/1");
+    });
+
+    it("Should revert when non-admin calls setURI", async function () {
+      const { gameItems, player1 } = await loadFixture(deployFixture);
+
+      await expect(gameItems.connect(player1).setURI("ipfs://items/"))
+        .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+        .withArgs(player1.address, await gameItems.DEFAULT_ADMIN_ROLE());
+    });
+  });
+});
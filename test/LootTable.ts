@@ -0,0 +1,309 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { LootTable } from "../typechain-types";
+
+describe("LootTable", function () {
+  const IRON_ID = 2;
+  const SILVER_ID = 3;
+  const MITHRIL_ID = 4;
+
+  // 70% iron, 25% silver, 5% mithril; each LUCK point adds 5 weight to mithril
+  const oreEntries = [
+    { tokenId: IRON_ID, minAmount: 1, maxAmount: 3, weight: 70, luckWeight: 0 },
+    { tokenId: SILVER_ID, minAmount: 1, maxAmount: 1, weight: 25, luckWeight: 0 },
+    { tokenId: MITHRIL_ID, minAmount: 1, maxAmount: 1, weight: 5, luckWeight: 5 },
+  ];
+
+  // Seed whose low 128 bits pick the entry and high 128 bits pick the amount
+  function seedOf(pick: number, amountRoll: number = 0) {
+    return (BigInt(amountRoll) << 128n) + BigInt(pick);
+  }
+
+  // Fixed, reproducible seeds for distribution checks
+  function fixedSeeds(count: number) {
+    return Array.from({ length: count }, (_, i) =>
+      hre.ethers.toBigInt(hre.ethers.solidityPackedKeccak256(["string", "uint256"], ["loot", i]))
+    );
+  }
+
+  async function deployFixture() {
+    // gameSystem stands in for MineSystem rolling tables
+    const [owner, player1, gameSystem] = await hre.ethers.getSigners();
+
+    const GameItems1155 = await hre.ethers.getContractFactory("GameItems1155");
+    const gameItems = await GameItems1155.deploy("", owner.address);
+
+    const LootTable = await hre.ethers.getContractFactory("LootTable");
+    const lootTable = await LootTable.deploy(await gameItems.getAddress());
+
+    await gameItems.connect(owner).batchCreateItemTypes([IRON_ID, SILVER_ID, MITHRIL_ID], ["0x", "0x", "0x"]);
+    await gameItems.connect(owner).grantRole(await gameItems.RESOURCE_MINTER_ROLE(), await lootTable.getAddress());
+    await lootTable.connect(owner).setGameSystem(gameSystem.address, true);
+
+    return { gameItems, lootTable, owner, player1, gameSystem };
+  }
+
+  async function deployWithTableFixture() {
+    const { gameItems, lootTable, owner, player1, gameSystem } = await loadFixture(deployFixture);
+
+    await lootTable.connect(owner).createTable(oreEntries);
+
+    return { gameItems, lootTable, owner, player1, gameSystem };
+  }
+
+  async function countDrops(lootTable: LootTable, luck: number, seeds: bigint[]) {
+    const counts: Record<number, number> = { [IRON_ID]: 0, [SILVER_ID]: 0, [MITHRIL_ID]: 0 };
+    for (const seed of seeds) {
+      const [tokenId] = await lootTable.draw(1, luck, seed);
+      counts[Number(tokenId)] += 1;
+    }
+    return counts;
+  }
+
+  describe("Deployment", function () {
+    it("Should set the game items contract", async function () {
+      const { gameItems, lootTable } = await loadFixture(deployFixture);
+
+      expect(await lootTable.getGameItems()).to.equal(await gameItems.getAddress());
+    });
+
+    it("Should revert when deployed with a zero game items address", async function () {
+      const LootTable = await hre.ethers.getContractFactory("LootTable");
+
+      await expect(LootTable.deploy(hre.ethers.ZeroAddress)).to.be.revertedWith("Invalid game items");
+    });
+  });
+
+  describe("Table management", function () {
+    describe("Happy path", function () {
+      it("Should create a table and emit TableCreated", async function () {
+        const { lootTable, owner } = await loadFixture(deployFixture);
+
+        await expect(lootTable.connect(owner).createTable(oreEntries))
+          .to.emit(lootTable, "TableCreated")
+          .withArgs(1)
+          .and.to.emit(lootTable, "TableEntriesSet");
+
+        expect(await lootTable.getTableCounter()).to.equal(1);
+        const entries = await lootTable.getEntries(1);
+        expect(entries.length).to.equal(3);
+        expect(entries[2].tokenId).to.equal(MITHRIL_ID);
+        expect(entries[2].luckWeight).to.equal(5);
+      });
+
+      it("Should replace the entries of a table", async function () {
+        const { lootTable, owner } = await loadFixture(deployWithTableFixture);
+
+        await lootTable.connect(owner).setEntries(1, [oreEntries[1]]);
+
+        const entries = await lootTable.getEntries(1);
+        expect(entries.length).to.equal(1);
+        expect(entries[0].tokenId).to.equal(SILVER_ID);
+      });
+
+      it("Should assign tables to depth bands of a mine", async function () {
+        const { lootTable, owner } = await loadFixture(deployWithTableFixture);
+        await lootTable.connect(owner).createTable([oreEntries[2]]);
+
+        await expect(lootTable.connect(owner).setMineTable(1, 1, 3, 1))
+          .to.emit(lootTable, "MineTableSet")
+          .withArgs(1, 1, 3, 1);
+        await lootTable.connect(owner).setMineTable(1, 4, 6, 2);
+
+        expect(await lootTable.getTableId(1, 1)).to.equal(1);
+        expect(await lootTable.getTableId(1, 3)).to.equal(1);
+        expect(await lootTable.getTableId(1, 4)).to.equal(2);
+        expect(await lootTable.getTableId(1, 7)).to.equal(0);
+        expect(await lootTable.getTableId(2, 1)).to.equal(0);
+        expect((await lootTable.getMineBands(1)).length).to.equal(2);
+      });
+
+      it("Should clear the depth bands of a mine", async function () {
+        const { lootTable, owner } = await loadFixture(deployWithTableFixture);
+        await lootTable.connect(owner).setMineTable(1, 1, 3, 1);
+
+        await expect(lootTable.connect(owner).clearMineTables(1))
+          .to.emit(lootTable, "MineTablesCleared")
+          .withArgs(1);
+
+        expect(await lootTable.getTableId(1, 1)).to.equal(0);
+        expect((await lootTable.getMineBands(1)).length).to.equal(0);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with no entries or too many entries", async function () {
+        const { lootTable, owner } = await loadFixture(deployFixture);
+
+        await expect(lootTable.connect(owner).createTable([])).to.be.revertedWith("Invalid entry count");
+        await expect(
+          lootTable.connect(owner).createTable(Array(33).fill(oreEntries[0]))
+        ).to.be.revertedWith("Invalid entry count");
+      });
+
+      it("Should revert with an inverted amount range", async function () {
+        const { lootTable, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          lootTable.connect(owner).createTable([{ ...oreEntries[0], minAmount: 3, maxAmount: 1 }])
+        ).to.be.revertedWith("Invalid amount range");
+      });
+
+      it("Should revert when all base weights are zero", async function () {
+        const { lootTable, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          lootTable.connect(owner).createTable([{ ...oreEntries[2], weight: 0 }])
+        ).to.be.revertedWith("Weights sum to zero");
+      });
+
+      it("Should revert when the table doesn't exist", async function () {
+        const { lootTable, owner } = await loadFixture(deployWithTableFixture);
+
+        await expect(lootTable.connect(owner).setEntries(2, oreEntries)).to.be.revertedWith("Table does not exist");
+        await expect(lootTable.connect(owner).setMineTable(1, 1, 3, 2)).to.be.revertedWith("Table does not exist");
+        await expect(lootTable.connect(owner).setMineTable(1, 1, 3, 0)).to.be.revertedWith("Table does not exist");
+        await expect(lootTable.draw(2, 0, 0)).to.be.revertedWith("Table does not exist");
+      });
+
+      it("Should revert with an invalid depth band", async function () {
+        const { lootTable, owner } = await loadFixture(deployWithTableFixture);
+
+        await expect(lootTable.connect(owner).setMineTable(1, 0, 3, 1)).to.be.revertedWith("Invalid depth band");
+        await expect(lootTable.connect(owner).setMineTable(1, 4, 3, 1)).to.be.revertedWith("Invalid depth band");
+      });
+
+      it("Should revert with an overlapping depth band", async function () {
+        const { lootTable, owner } = await loadFixture(deployWithTableFixture);
+        await lootTable.connect(owner).setMineTable(1, 3, 5, 1);
+
+        await expect(lootTable.connect(owner).setMineTable(1, 5, 6, 1)).to.be.revertedWith("Overlapping depth band");
+        await expect(lootTable.connect(owner).setMineTable(1, 1, 3, 1)).to.be.revertedWith("Overlapping depth band");
+        await expect(lootTable.connect(owner).setMineTable(1, 1, 9, 1)).to.be.revertedWith("Overlapping depth band");
+        // Other mines are independent
+        await lootTable.connect(owner).setMineTable(2, 3, 5, 1);
+      });
+
+      it("Should revert when non-owner calls admin functions", async function () {
+        const { lootTable, player1 } = await loadFixture(deployWithTableFixture);
+
+        await expect(lootTable.connect(player1).createTable(oreEntries))
+          .to.be.revertedWithCustomError(lootTable, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(lootTable.connect(player1).setEntries(1, oreEntries))
+          .to.be.revertedWithCustomError(lootTable, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(lootTable.connect(player1).setMineTable(1, 1, 3, 1))
+          .to.be.revertedWithCustomError(lootTable, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(lootTable.connect(player1).clearMineTables(1))
+          .to.be.revertedWithCustomError(lootTable, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+        await expect(lootTable.connect(player1).setGameItems(player1.address))
+          .to.be.revertedWithCustomError(lootTable, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+  });
+
+  describe("draw()", function () {
+    it("Should pick entries by cumulative weight", async function () {
+      const { lootTable } = await loadFixture(deployWithTableFixture);
+
+      expect((await lootTable.draw(1, 0, seedOf(0)))[0]).to.equal(IRON_ID);
+      expect((await lootTable.draw(1, 0, seedOf(69)))[0]).to.equal(IRON_ID);
+      expect((await lootTable.draw(1, 0, seedOf(70)))[0]).to.equal(SILVER_ID);
+      expect((await lootTable.draw(1, 0, seedOf(94)))[0]).to.equal(SILVER_ID);
+      expect((await lootTable.draw(1, 0, seedOf(95)))[0]).to.equal(MITHRIL_ID);
+      expect((await lootTable.draw(1, 0, seedOf(99)))[0]).to.equal(MITHRIL_ID);
+      expect((await lootTable.draw(1, 0, seedOf(100)))[0]).to.equal(IRON_ID);
+    });
+
+    it("Should pick the amount within the entry range", async function () {
+      const { lootTable } = await loadFixture(deployWithTableFixture);
+
+      expect(await lootTable.draw(1, 0, seedOf(0, 0))).to.deep.equal([BigInt(IRON_ID), 1n]);
+      expect(await lootTable.draw(1, 0, seedOf(0, 2))).to.deep.equal([BigInt(IRON_ID), 3n]);
+      expect(await lootTable.draw(1, 0, seedOf(0, 3))).to.deep.equal([BigInt(IRON_ID), 1n]);
+    });
+
+    it("Should add LUCK * luckWeight to the weight of an entry", async function () {
+      const { lootTable } = await loadFixture(deployWithTableFixture);
+
+      // 10 LUCK: mithril weighs 5 + 10 * 5 = 55 out of 150
+      expect((await lootTable.draw(1, 10, seedOf(95)))[0]).to.equal(MITHRIL_ID);
+      expect((await lootTable.draw(1, 10, seedOf(149)))[0]).to.equal(MITHRIL_ID);
+      expect((await lootTable.draw(1, 10, seedOf(150)))[0]).to.equal(IRON_ID);
+    });
+
+    it("Should follow the table weights over fixed seeds", async function () {
+      const { lootTable } = await loadFixture(deployWithTableFixture);
+
+      const seeds = fixedSeeds(400);
+      const counts = await countDrops(lootTable, 0, seeds);
+
+      // Expected 280 / 100 / 20, with a tolerance of about three standard deviations
+      expect(counts[IRON_ID]).to.be.within(253, 307);
+      expect(counts[SILVER_ID]).to.be.within(74, 126);
+      expect(counts[MITHRIL_ID]).to.be.within(7, 33);
+    });
+
+    it("Should make luck-weighted entries more likely for lucky characters", async function () {
+      const { lootTable } = await loadFixture(deployWithTableFixture);
+
+      const seeds = fixedSeeds(400);
+      const unlucky = await countDrops(lootTable, 0, seeds);
+      const lucky = await countDrops(lootTable, 10, seeds);
+
+      // Expected 55 / 150 of the drops, about 147
+      expect(lucky[MITHRIL_ID]).to.be.within(120, 174);
+      expect(lucky[MITHRIL_ID]).to.be.greaterThan(unlucky[MITHRIL_ID]);
+      expect(lucky[IRON_ID]).to.be.lessThan(unlucky[IRON_ID]);
+    });
+  });
+
+  describe("roll()", function () {
+    describe("Happy path", function () {
+      it("Should mint the drop and emit LootRolled", async function () {
+        const { gameItems, lootTable, player1, gameSystem } = await loadFixture(deployWithTableFixture);
+
+        await expect(lootTable.connect(gameSystem).roll(1, player1.address, 0, seedOf(0, 1)))
+          .to.emit(lootTable, "LootRolled")
+          .withArgs(1, player1.address, IRON_ID, 2)
+          .and.to.emit(gameItems, "TransferSingle");
+
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(2);
+      });
+
+      it("Should not mint anything for a nothing drop", async function () {
+        const { gameItems, lootTable, owner, player1, gameSystem } = await loadFixture(deployFixture);
+        await lootTable.connect(owner).createTable([{ tokenId: 0, minAmount: 0, maxAmount: 0, weight: 1, luckWeight: 0 }]);
+
+        await expect(lootTable.connect(gameSystem).roll(1, player1.address, 0, 0))
+          .to.emit(lootTable, "LootRolled")
+          .withArgs(1, player1.address, 0, 0)
+          .and.not.to.emit(gameItems, "TransferSingle");
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller is not a game system", async function () {
+        const { lootTable, player1 } = await loadFixture(deployWithTableFixture);
+
+        await expect(lootTable.connect(player1).roll(1, player1.address, 0, 0))
+          .to.be.revertedWith("Not a game system");
+      });
+
+      it("Should revert when the LootTable doesn't have the minter role of the drop", async function () {
+        const { gameItems, lootTable, owner, player1, gameSystem } = await loadFixture(deployWithTableFixture);
+        const MINTER_ROLE = await gameItems.RESOURCE_MINTER_ROLE();
+        await gameItems.connect(owner).revokeRole(MINTER_ROLE, await lootTable.getAddress());
+
+        await expect(lootTable.connect(gameSystem).roll(1, player1.address, 0, 0))
+          .to.be.revertedWithCustomError(gameItems, "AccessControlUnauthorizedAccount")
+          .withArgs(await lootTable.getAddress(), MINTER_ROLE);
+      });
+    });
+  });
+});
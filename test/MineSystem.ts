@@ -0,0 +1,1220 @@
+import { loadFixture, mine } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ContractTransactionResponse, Log, LogDescription } from "ethers";
+import { MineSystem, Player } from "../typechain-types";
+import { encodeItemStats, Rarity } from "./helpers/itemStats";
+
+describe("MineSystem", function () {
+  // Encounter enum values matching the contract
+  const Encounter = {
+    MiningNode: 0,
+    Monster: 1,
+    Trap: 2,
+    Treasure: 3,
+    Special: 4,
+  };
+
+  const GOLD_ID = 1;
+  const IRON_ID = 2;
+  const BRONZE_SWORD_ID = 1001;
+
+  const swordData = encodeItemStats({ rarity: Rarity.Common, modifiers: { damage: 5 } });
+
+  // StatsEngine coefficients without loot bonus, trap avoidance or CON HP, so rolls stay predictable
+  const neutralCoefficients = {
+    baseHp: 100,
+    hpPerConstitution: 0,
+    baseMana: 50,
+    manaPerIntelligence: 5,
+    damagePerStrength: 2,
+    damagePerDexterity: 1,
+    baseDodge: 200,
+    dodgePerDexterity: 20,
+    basePhysicalResist: 0,
+    physicalResistPerConstitution: 0,
+    baseMagicResist: 0,
+    magicResistPerIntelligence: 20,
+    baseCrit: 500,
+    critPerLuck: 25,
+    lootPerLuck: 0,
+    baseTrapAvoid: 0,
+    trapAvoidPerDexterity: 0,
+    maxChance: 7500,
+  };
+
+  async function deployFixture() {
+    const price = hre.ethers.parseEther("0.1");
+
+    const [owner, player1, player2] = await hre.ethers.getSigners();
+
+    const Player = await hre.ethers.getContractFactory("Player");
+    const player = await Player.deploy(price);
+
+    const MockGameItems = await hre.ethers.getContractFactory("MockGameItems");
+    const gameItems = await MockGameItems.deploy();
+
+    const StatsEngine = await hre.ethers.getContractFactory("StatsEngine");
+    const statsEngine = await StatsEngine.deploy(await player.getAddress());
+    await statsEngine.connect(owner).setCoefficients(neutralCoefficients);
+
+    const MockRandomnessProvider = await hre.ethers.getContractFactory("MockRandomnessProvider");
+    const randomness = await MockRandomnessProvider.deploy();
+
+    const MineSystem = await hre.ethers.getContractFactory("MineSystem");
+    const mineSystem = await MineSystem.deploy(
+      await player.getAddress(),
+      await statsEngine.getAddress(),
+      await gameItems.getAddress(),
+      await randomness.getAddress()
+    );
+
+    await player.connect(owner).setGameSystem(await mineSystem.getAddress(), true);
+
+    return { player, gameItems, statsEngine, randomness, mineSystem, price, owner, player1, player2 };
+  }
+
+  async function deployWithMineFixture() {
+    const { player, gameItems, statsEngine, randomness, mineSystem, price, owner, player1, player2 } =
+      await loadFixture(deployFixture);
+
+    // Mine 1: depth 1..3, up to 5 steps per run
+    await mineSystem.connect(owner).addMine(3, 5);
+
+    await player.connect(player1).buyToken({ value: price });
+    await player.connect(player2).buyToken({ value: price });
+
+    return { player, gameItems, statsEngine, randomness, mineSystem, price, owner, player1, player2 };
+  }
+
+  // Requests a step, fulfills it through the mock provider (with a random word by default) and resolves it
+  async function step(mineSystem: MineSystem, signer: HardhatEthersSigner, characterId: number, randomWord?: bigint) {
+    await mineSystem.connect(signer).requestAdvance(characterId, hre.ethers.ZeroHash);
+    const randomness = await hre.ethers.getContractAt("MockRandomnessProvider", await mineSystem.getRandomnessProvider());
+    const { requestId } = await mineSystem.getPendingStep(characterId);
+    await randomness.fulfill(requestId, randomWord ?? hre.ethers.toBigInt(hre.ethers.randomBytes(32)));
+    return mineSystem.connect(signer).advance(characterId);
+  }
+
+  // Deploys a Combat module with one monster and a ProgressionSystem, both wired to the MineSystem
+  async function deployWithCombatFixture() {
+    const { player, gameItems, statsEngine, randomness, mineSystem, price, owner, player1, player2 } =
+      await loadFixture(deployWithMineFixture);
+
+    const Combat = await hre.ethers.getContractFactory("Combat");
+    const combat = await Combat.deploy(await statsEngine.getAddress());
+    await combat.connect(owner).addMonster({ power: 30, damage: 20, xpReward: 150, lootTableId: 0 });
+    await combat.connect(owner).setGameSystem(await mineSystem.getAddress(), true);
+
+    const ProgressionSystem = await hre.ethers.getContractFactory("ProgressionSystem");
+    const progression = await ProgressionSystem.deploy(await player.getAddress());
+    await progression.connect(owner).setGameSystem(await mineSystem.getAddress(), true);
+    await player.connect(owner).setProgressionSystem(await progression.getAddress());
+
+    await mineSystem.connect(owner).setCombat(await combat.getAddress());
+    await mineSystem.connect(owner).setEncounterWeights([0, 1, 0, 0, 0]);
+
+    return { player, gameItems, statsEngine, randomness, mineSystem, combat, progression, price, owner, player1, player2 };
+  }
+
+  // Word the MineSystem derives from the random word of a step for one roll of a fight ("monster", "combat" or "loot")
+  function fightRoll(randomWord: bigint, tag: string) {
+    return hre.ethers.toBigInt(
+      hre.ethers.keccak256(hre.ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "string"], [randomWord >> 16n, tag]))
+    );
+  }
+
+  // First random word (from the given index) of a step whose fight is surely won or lost, without crit or dodge
+  function fightWord(won: boolean, from = 0n) {
+    for (let i = from; ; i++) {
+      const randomWord = i << 16n;
+      const combatWord = fightRoll(randomWord, "combat");
+      const winRoll = BigInt.asUintN(64, combatWord) % 10000n;
+      const critRoll = BigInt.asUintN(64, combatWord >> 64n) % 10000n;
+      const dodgeRoll = BigInt.asUintN(64, combatWord >> 128n) % 10000n;
+      if (critRoll >= 7500n && dodgeRoll >= 7500n && (won ? winRoll < 500n : winRoll >= 9500n)) {
+        return randomWord;
+      }
+    }
+  }
+
+  // Deploys GameItems1155 as the MineSystem game items, with a loot table always dropping a Bronze Sword
+  async function deployGameItemsWithLootTable(mineSystem: MineSystem, owner: HardhatEthersSigner) {
+    const GameItems1155 = await hre.ethers.getContractFactory("GameItems1155");
+    const gameItems = await GameItems1155.deploy("", owner.address);
+    await gameItems.connect(owner).batchCreateItemTypes([GOLD_ID, IRON_ID, BRONZE_SWORD_ID], ["0x", "0x", swordData]);
+    await gameItems.connect(owner).grantRole(await gameItems.RESOURCE_MINTER_ROLE(), await mineSystem.getAddress());
+    await gameItems.connect(owner).grantRole(await gameItems.EQUIPMENT_MINTER_ROLE(), await mineSystem.getAddress());
+    await mineSystem.connect(owner).setGameItems(await gameItems.getAddress());
+
+    const LootTable = await hre.ethers.getContractFactory("LootTable");
+    const lootTable = await LootTable.deploy(await gameItems.getAddress());
+    await lootTable.connect(owner).createTable([
+      { tokenId: BRONZE_SWORD_ID, minAmount: 1, maxAmount: 1, weight: 1, luckWeight: 0 },
+    ]);
+    await lootTable.connect(owner).setMineTable(1, 1, 3, 1);
+
+    return { gameItems, lootTable };
+  }
+
+  async function getEncounters(mineSystem: MineSystem, tx: ContractTransactionResponse) {
+    const receipt = await tx.wait();
+    return receipt!.logs
+      .map((log: Log) => mineSystem.interface.parseLog(log))
+      .filter((parsed): parsed is LogDescription => parsed !== null && parsed.name === "EncounterResolved");
+  }
+
+  describe("Deployment", function () {
+    it("Should set the owner to the deployer", async function () {
+      const { mineSystem, owner } = await loadFixture(deployFixture);
+
+      expect(await mineSystem.owner()).to.equal(owner.address);
+    });
+
+    it("Should set the game items contract", async function () {
+      const { mineSystem, gameItems } = await loadFixture(deployFixture);
+
+      expect(await mineSystem.getGameItems()).to.equal(await gameItems.getAddress());
+    });
+
+    it("Should set the randomness provider", async function () {
+      const { mineSystem, randomness } = await loadFixture(deployFixture);
+
+      expect(await mineSystem.getRandomnessProvider()).to.equal(await randomness.getAddress());
+    });
+
+    it("Should set the stats engine", async function () {
+      const { mineSystem, statsEngine } = await loadFixture(deployFixture);
+
+      expect(await mineSystem.getStatsEngine()).to.equal(await statsEngine.getAddress());
+    });
+
+    it("Should have default encounter weights", async function () {
+      const { mineSystem } = await loadFixture(deployFixture);
+
+      expect(await mineSystem.getEncounterWeights()).to.deep.equal([45n, 25n, 15n, 12n, 3n]);
+    });
+
+    it("Should revert when deployed with a zero player address", async function () {
+      const MineSystem = await hre.ethers.getContractFactory("MineSystem");
+
+      await expect(
+        MineSystem.deploy(hre.ethers.ZeroAddress, hre.ethers.ZeroAddress, hre.ethers.ZeroAddress, hre.ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid player contract");
+    });
+
+    it("Should revert when deployed with a zero stats engine address", async function () {
+      const { player } = await loadFixture(deployFixture);
+      const MineSystem = await hre.ethers.getContractFactory("MineSystem");
+
+      await expect(
+        MineSystem.deploy(await player.getAddress(), hre.ethers.ZeroAddress, hre.ethers.ZeroAddress, hre.ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid stats engine");
+    });
+
+    it("Should revert when deployed with a zero randomness provider address", async function () {
+      const { player, statsEngine } = await loadFixture(deployFixture);
+      const MineSystem = await hre.ethers.getContractFactory("MineSystem");
+
+      await expect(
+        MineSystem.deploy(
+          await player.getAddress(),
+          await statsEngine.getAddress(),
+          hre.ethers.ZeroAddress,
+          hre.ethers.ZeroAddress
+        )
+      ).to.be.revertedWith("Invalid randomness provider");
+    });
+  });
+
+  describe("Owner-only admin setters", function () {
+    describe("addMine()", function () {
+      it("Should add a mine and emit MineAdded", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(owner).addMine(3, 5))
+          .to.emit(mineSystem, "MineAdded")
+          .withArgs(1, 3, 5);
+
+        const mine = await mineSystem.getMine(1);
+        expect(mine.exists).to.be.true;
+        expect(mine.maxDepth).to.equal(3);
+        expect(mine.maxSteps).to.equal(5);
+        expect(await mineSystem.getMineCounter()).to.equal(1);
+      });
+
+      it("Should revert with zero max depth or max steps", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(owner).addMine(0, 5)).to.be.revertedWith("Invalid max depth");
+        await expect(mineSystem.connect(owner).addMine(3, 0)).to.be.revertedWith("Invalid max steps");
+      });
+
+      it("Should revert when non-owner calls addMine", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(player1).addMine(3, 5))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+
+    describe("setEncounterWeights()", function () {
+      it("Should update the encounter weights", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+
+        expect(await mineSystem.getEncounterWeights()).to.deep.equal([1n, 0n, 0n, 0n, 0n]);
+      });
+
+      it("Should revert when all weights are zero", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          mineSystem.connect(owner).setEncounterWeights([0, 0, 0, 0, 0])
+        ).to.be.revertedWith("Weights sum to zero");
+      });
+
+      it("Should revert when non-owner calls setEncounterWeights", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(player1).setEncounterWeights([1, 0, 0, 0, 0]))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+
+    describe("setStatsEngine() / setGameItems()", function () {
+      it("Should update the stats engine and emit StatsEngineSet", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(owner).setStatsEngine(player1.address))
+          .to.emit(mineSystem, "StatsEngineSet")
+          .withArgs(player1.address);
+
+        expect(await mineSystem.getStatsEngine()).to.equal(player1.address);
+      });
+
+      it("Should revert when the stats engine is the zero address", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          mineSystem.connect(owner).setStatsEngine(hre.ethers.ZeroAddress)
+        ).to.be.revertedWith("Invalid stats engine");
+      });
+
+      it("Should update the game items contract and emit GameItemsSet", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(owner).setGameItems(player1.address))
+          .to.emit(mineSystem, "GameItemsSet")
+          .withArgs(player1.address);
+
+        expect(await mineSystem.getGameItems()).to.equal(player1.address);
+      });
+
+      it("Should revert when non-owner calls setStatsEngine or setGameItems", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(player1).setStatsEngine(player1.address))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount");
+        await expect(mineSystem.connect(player1).setGameItems(player1.address))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount");
+      });
+    });
+
+    describe("setRandomnessProvider()", function () {
+      it("Should update the randomness provider and emit RandomnessProviderSet", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(owner).setRandomnessProvider(player1.address))
+          .to.emit(mineSystem, "RandomnessProviderSet")
+          .withArgs(player1.address);
+
+        expect(await mineSystem.getRandomnessProvider()).to.equal(player1.address);
+      });
+
+      it("Should revert when the randomness provider is the zero address", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+
+        await expect(
+          mineSystem.connect(owner).setRandomnessProvider(hre.ethers.ZeroAddress)
+        ).to.be.revertedWith("Invalid randomness provider");
+      });
+
+      it("Should revert when non-owner calls setRandomnessProvider", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(player1).setRandomnessProvider(player1.address))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+
+    describe("setWear()", function () {
+      it("Should have default wear", async function () {
+        const { mineSystem } = await loadFixture(deployFixture);
+
+        expect(await mineSystem.getWear()).to.deep.equal([1n, 2n]);
+      });
+
+      it("Should update the wear and emit WearSet", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(owner).setWear(3, 5)).to.emit(mineSystem, "WearSet").withArgs(3, 5);
+
+        expect(await mineSystem.getWear()).to.deep.equal([3n, 5n]);
+      });
+
+      it("Should revert when non-owner calls setWear", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(player1).setWear(3, 5))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+
+    describe("setCombat()", function () {
+      it("Should update the combat module and emit CombatSet", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(owner).setCombat(player1.address))
+          .to.emit(mineSystem, "CombatSet")
+          .withArgs(player1.address);
+
+        expect(await mineSystem.getCombat()).to.equal(player1.address);
+      });
+
+      it("Should revert when non-owner calls setCombat", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(player1).setCombat(player1.address))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+
+    describe("setLootTable()", function () {
+      it("Should update the loot table and emit LootTableSet", async function () {
+        const { gameItems, mineSystem, owner } = await loadFixture(deployFixture);
+        const LootTable = await hre.ethers.getContractFactory("LootTable");
+        const lootTable = await LootTable.deploy(await gameItems.getAddress());
+        await lootTable.connect(owner).createTable([{ tokenId: 7, minAmount: 1, maxAmount: 1, weight: 1, luckWeight: 0 }]);
+
+        await expect(mineSystem.connect(owner).setLootTable(await lootTable.getAddress()))
+          .to.emit(mineSystem, "LootTableSet")
+          .withArgs(await lootTable.getAddress());
+
+        expect(await mineSystem.getLootTable()).to.equal(await lootTable.getAddress());
+
+        await mineSystem.connect(owner).setLootTable(hre.ethers.ZeroAddress);
+        expect(await mineSystem.getLootTable()).to.equal(hre.ethers.ZeroAddress);
+      });
+
+      it("Should revert when the MineSystem cannot mint a drop of the tables", async function () {
+        const { mineSystem, owner } = await loadFixture(deployFixture);
+        const { gameItems, lootTable } = await deployGameItemsWithLootTable(mineSystem, owner);
+        await gameItems.connect(owner).revokeRole(await gameItems.EQUIPMENT_MINTER_ROLE(), await mineSystem.getAddress());
+
+        await expect(mineSystem.connect(owner).setLootTable(await lootTable.getAddress())).to.be.revertedWith(
+          "Cannot mint loot table drop"
+        );
+      });
+
+      it("Should revert when non-owner calls setLootTable", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployFixture);
+
+        await expect(mineSystem.connect(player1).setLootTable(player1.address))
+          .to.be.revertedWithCustomError(mineSystem, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+  });
+
+  describe("enterMine()", function () {
+    describe("Happy path", function () {
+      it("Should start a run with the character's derived hp", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+
+        const run = await mineSystem.getRun(1);
+        expect(run.active).to.be.true;
+        expect(run.mineId).to.equal(1);
+        expect(run.depth).to.equal(2);
+        expect(run.steps).to.equal(0);
+        expect(run.hp).to.equal(100);
+      });
+
+      it("Should lock the character's equipment", async function () {
+        const { player, mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await expect(mineSystem.connect(player1).enterMine(1, 1, 1))
+          .to.emit(player, "PlayerLocked")
+          .withArgs(1, await mineSystem.getAddress());
+
+        expect(await player.isPlayerLocked(1)).to.be.true;
+      });
+
+      it("Should emit RunStarted event", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await expect(mineSystem.connect(player1).enterMine(1, 1, 3))
+          .to.emit(mineSystem, "RunStarted")
+          .withArgs(1, 1, 3, 100);
+      });
+
+      it("Should read the starting hp from the stats engine", async function () {
+        const { statsEngine, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await statsEngine.connect(owner).setCoefficients({ ...neutralCoefficients, baseHp: 42 });
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        expect((await mineSystem.getRun(1)).hp).to.equal(42);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller doesn't own the character", async function () {
+        const { mineSystem, player2 } = await loadFixture(deployWithMineFixture);
+
+        await expect(
+          mineSystem.connect(player2).enterMine(1, 1, 1)
+        ).to.be.revertedWith("Not the character owner");
+      });
+
+      it("Should revert when the character doesn't exist", async function () {
+        const { player, mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await expect(
+          mineSystem.connect(player1).enterMine(999, 1, 1)
+        ).to.be.revertedWithCustomError(player, "ERC721NonexistentToken");
+      });
+
+      it("Should revert when the mine doesn't exist", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await expect(
+          mineSystem.connect(player1).enterMine(1, 2, 1)
+        ).to.be.revertedWith("Mine does not exist");
+      });
+
+      it("Should revert when depth is zero or deeper than the mine", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await expect(mineSystem.connect(player1).enterMine(1, 1, 0)).to.be.revertedWith("Invalid depth");
+        await expect(mineSystem.connect(player1).enterMine(1, 1, 4)).to.be.revertedWith("Invalid depth");
+      });
+
+      it("Should revert when MineSystem is not an authorized game system", async function () {
+        const { player, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await player.connect(owner).setGameSystem(await mineSystem.getAddress(), false);
+
+        await expect(
+          mineSystem.connect(player1).enterMine(1, 1, 1)
+        ).to.be.revertedWith("Not a game system");
+      });
+
+      it("Should revert when the character has no hp", async function () {
+        const { statsEngine, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await statsEngine.connect(owner).setCoefficients({ ...neutralCoefficients, baseHp: 0 });
+
+        await expect(
+          mineSystem.connect(player1).enterMine(1, 1, 1)
+        ).to.be.revertedWith("Character has no hp");
+      });
+
+      it("Should revert when the character is already in a run", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        await expect(
+          mineSystem.connect(player1).enterMine(1, 1, 1)
+        ).to.be.revertedWith("Character already in a run");
+      });
+    });
+  });
+
+  describe("advance()", function () {
+    describe("Encounters", function () {
+      it("Should yield iron on a mining node", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.encounter).to.equal(Encounter.MiningNode);
+        expect(event.args.lootId).to.equal(IRON_ID);
+        // depth * (1..3)
+        expect(event.args.lootAmount).to.be.gte(2).and.lte(6);
+        expect(event.args.damage).to.equal(0);
+
+        const [lootIds, amounts] = await mineSystem.getPendingLoot(1);
+        expect(lootIds).to.deep.equal([BigInt(IRON_ID)]);
+        expect(amounts).to.deep.equal([event.args.lootAmount]);
+      });
+
+      it("Should drop from the loot table of the depth band on a mining node", async function () {
+        const { gameItems, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        const LootTable = await hre.ethers.getContractFactory("LootTable");
+        const lootTable = await LootTable.deploy(await gameItems.getAddress());
+        // Depth 2..3 of mine 1 always drops 4..5 of token 7
+        await lootTable.connect(owner).createTable([{ tokenId: 7, minAmount: 4, maxAmount: 5, weight: 1, luckWeight: 0 }]);
+        await lootTable.connect(owner).setMineTable(1, 2, 3, 1);
+        await mineSystem.connect(owner).setLootTable(await lootTable.getAddress());
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.lootId).to.equal(7);
+        expect(event.args.lootAmount).to.be.gte(4).and.lte(5);
+      });
+
+      it("Should yield iron on a mining node outside the depth bands of the loot table", async function () {
+        const { gameItems, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        const LootTable = await hre.ethers.getContractFactory("LootTable");
+        const lootTable = await LootTable.deploy(await gameItems.getAddress());
+        await lootTable.connect(owner).createTable([{ tokenId: 7, minAmount: 4, maxAmount: 5, weight: 1, luckWeight: 0 }]);
+        await lootTable.connect(owner).setMineTable(1, 2, 3, 1);
+        await mineSystem.connect(owner).setLootTable(await lootTable.getAddress());
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.lootId).to.equal(IRON_ID);
+      });
+
+      it("Should deal damage on a trap", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([0, 0, 1, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.encounter).to.equal(Encounter.Trap);
+        expect(event.args.damage).to.be.gte(5).and.lt(15);
+
+        const run = await mineSystem.getRun(1);
+        expect(run.hp).to.equal(100n - event.args.damage);
+        expect(run.steps).to.equal(1);
+      });
+
+      it("Should yield gold on a treasure room", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([0, 0, 0, 1, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.encounter).to.equal(Encounter.Treasure);
+        expect(event.args.lootId).to.equal(GOLD_ID);
+        expect(event.args.lootAmount).to.be.gte(5).and.lt(10);
+      });
+
+      it("Should yield a large amount of gold on a special event", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([0, 0, 0, 0, 1]);
+        await mineSystem.connect(player1).enterMine(1, 1, 3);
+
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.encounter).to.equal(Encounter.Special);
+        expect(event.args.lootId).to.equal(GOLD_ID);
+        expect(event.args.lootAmount).to.equal(60);
+      });
+
+      it("Should either win and take damage or eject on a monster", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([0, 1, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.encounter).to.equal(Encounter.Monster);
+
+        const run = await mineSystem.getRun(1);
+        if (event.args.lootAmount > 0n) {
+          expect(event.args.lootId).to.equal(GOLD_ID);
+          expect(event.args.damage).to.equal(10);
+          expect(run.hp).to.equal(90);
+        } else {
+          expect(event.args.damage).to.equal(100);
+          expect(run.active).to.be.false;
+        }
+      });
+
+      it("Should avoid traps with the trap avoid chance", async function () {
+        const { statsEngine, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await statsEngine.connect(owner).setCoefficients({
+          ...neutralCoefficients,
+          baseTrapAvoid: 10000,
+          maxChance: 10000,
+        });
+        await mineSystem.connect(owner).setEncounterWeights([0, 0, 1, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 3);
+
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.encounter).to.equal(Encounter.Trap);
+        expect(event.args.damage).to.equal(0);
+        expect((await mineSystem.getRun(1)).hp).to.equal(100);
+      });
+
+      it("Should increase loot by the loot bonus", async function () {
+        const { statsEngine, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        // 10 LUCK * 1000 bps = +100% loot
+        await statsEngine.connect(owner).setCoefficients({ ...neutralCoefficients, lootPerLuck: 1000 });
+        await mineSystem.connect(owner).setEncounterWeights([0, 0, 0, 0, 1]);
+        await mineSystem.connect(player1).enterMine(1, 1, 3);
+
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.lootAmount).to.equal(120);
+      });
+
+      it("Should not apply the loot bonus to loot table drops", async function () {
+        const { gameItems, statsEngine, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        const LootTable = await hre.ethers.getContractFactory("LootTable");
+        const lootTable = await LootTable.deploy(await gameItems.getAddress());
+        await lootTable.connect(owner).createTable([{ tokenId: 7, minAmount: 4, maxAmount: 5, weight: 1, luckWeight: 0 }]);
+        await lootTable.connect(owner).setMineTable(1, 1, 3, 1);
+        await mineSystem.connect(owner).setLootTable(await lootTable.getAddress());
+        await statsEngine.connect(owner).setCoefficients({ ...neutralCoefficients, lootPerLuck: 1000 });
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+        expect(event.args.lootId).to.equal(7);
+        expect(event.args.lootAmount).to.be.gte(4).and.lte(5);
+      });
+
+      it("Should accumulate pending loot of the same id", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        let total = 0n;
+        for (let i = 0; i < 3; i++) {
+          const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1));
+          total += event.args.lootAmount;
+        }
+
+        const [lootIds, amounts] = await mineSystem.getPendingLoot(1);
+        expect(lootIds).to.deep.equal([BigInt(IRON_ID)]);
+        expect(amounts).to.deep.equal([total]);
+      });
+    });
+
+    describe("Combat", function () {
+      it("Should fight monsters through the Combat module and award XP on a win", async function () {
+        const { mineSystem, combat, progression, player1 } = await loadFixture(deployWithCombatFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        const tx = await step(mineSystem, player1, 1, fightWord(true));
+
+        await expect(tx).to.emit(combat, "CombatResolved").withArgs(1, 1, true, 20, false);
+        await expect(tx).to.emit(progression, "XpAwarded").withArgs(1, await mineSystem.getAddress(), 150, 150);
+        const [event] = await getEncounters(mineSystem, tx);
+        expect(event.args.encounter).to.equal(Encounter.Monster);
+        expect(event.args.lootId).to.equal(GOLD_ID);
+        expect(event.args.lootAmount).to.equal(4);
+        expect(event.args.damage).to.equal(20);
+        expect((await mineSystem.getRun(1)).hp).to.equal(80);
+        expect(await progression.getLevel(1)).to.equal(2);
+      });
+
+      it("Should eject the character without XP when the fight is lost", async function () {
+        const { mineSystem, combat, progression, player1 } = await loadFixture(deployWithCombatFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        const tx = await step(mineSystem, player1, 1, fightWord(false));
+
+        await expect(tx).to.emit(combat, "CombatResolved").withArgs(1, 1, false, 100, true);
+        await expect(tx).to.emit(mineSystem, "RunEnded").withArgs(1, false);
+        await expect(tx).not.to.emit(progression, "XpAwarded");
+        expect(await progression.getXp(1)).to.equal(0);
+      });
+
+      it("Should not award XP when the character wins the fight but dies", async function () {
+        const { mineSystem, combat, progression, owner, player1 } = await loadFixture(deployWithCombatFixture);
+        await combat.connect(owner).setMonster(1, { power: 30, damage: 1000, xpReward: 150, lootTableId: 0 });
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        const tx = await step(mineSystem, player1, 1, fightWord(true));
+
+        await expect(tx).to.emit(combat, "CombatResolved").withArgs(1, 1, true, 1000, true);
+        await expect(tx).to.emit(mineSystem, "RunEnded").withArgs(1, false);
+        await expect(tx).not.to.emit(progression, "XpAwarded");
+        expect(await progression.getXp(1)).to.equal(0);
+      });
+
+      it("Should drop from the monster's loot table", async function () {
+        const { gameItems, mineSystem, combat, owner, player1 } = await loadFixture(deployWithCombatFixture);
+
+        const LootTable = await hre.ethers.getContractFactory("LootTable");
+        const lootTable = await LootTable.deploy(await gameItems.getAddress());
+        await lootTable.connect(owner).createTable([{ tokenId: 7, minAmount: 1, maxAmount: 1, weight: 1, luckWeight: 0 }]);
+        await mineSystem.connect(owner).setLootTable(await lootTable.getAddress());
+        await combat.connect(owner).setMonster(1, { power: 30, damage: 20, xpReward: 150, lootTableId: 1 });
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        const [event] = await getEncounters(mineSystem, await step(mineSystem, player1, 1, fightWord(true)));
+        expect(event.args.lootId).to.equal(7);
+        expect(event.args.lootAmount).to.equal(1);
+      });
+
+      it("Should roll the monster, the fight and the drop from separate words", async function () {
+        const { gameItems, mineSystem, combat, owner, player1 } = await loadFixture(deployWithCombatFixture);
+
+        const LootTable = await hre.ethers.getContractFactory("LootTable");
+        const lootTable = await LootTable.deploy(await gameItems.getAddress());
+        await lootTable.connect(owner).createTable([
+          { tokenId: 7, minAmount: 1, maxAmount: 1, weight: 1, luckWeight: 0 },
+          { tokenId: 8, minAmount: 1, maxAmount: 1, weight: 1, luckWeight: 0 },
+        ]);
+        await mineSystem.connect(owner).setLootTable(await lootTable.getAddress());
+        await combat.connect(owner).setMonster(1, { power: 30, damage: 20, xpReward: 150, lootTableId: 1 });
+        await combat.connect(owner).addMonster({ power: 30, damage: 20, xpReward: 150, lootTableId: 1 });
+
+        // A won fight whose combat word would have drawn the other entry
+        const dropOf = (word: bigint) => (BigInt.asUintN(128, word) % 2n === 0n ? 7n : 8n);
+        let randomWord = fightWord(true);
+        while (dropOf(fightRoll(randomWord, "loot")) === dropOf(fightRoll(randomWord, "combat"))) {
+          randomWord = fightWord(true, (randomWord >> 16n) + 1n);
+        }
+        const monsterId = 1n + (fightRoll(randomWord, "monster") % 2n);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        const tx = await step(mineSystem, player1, 1, randomWord);
+
+        await expect(tx).to.emit(combat, "CombatResolved").withArgs(1, monsterId, true, 20, false);
+        const [event] = await getEncounters(mineSystem, tx);
+        expect(event.args.lootId).to.equal(dropOf(fightRoll(randomWord, "loot")));
+      });
+
+      it("Should fight without awarding XP when no progression system is set", async function () {
+        const { player, mineSystem, owner, player1 } = await loadFixture(deployWithCombatFixture);
+        await player.connect(owner).setProgressionSystem(hre.ethers.ZeroAddress);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        await step(mineSystem, player1, 1, fightWord(true));
+
+        expect((await mineSystem.getRun(1)).hp).to.equal(80);
+      });
+
+      it("Should revert when MineSystem is not a game system on Combat", async function () {
+        const { mineSystem, combat, owner, player1 } = await loadFixture(deployWithCombatFixture);
+        await combat.connect(owner).setGameSystem(await mineSystem.getAddress(), false);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+
+        await expect(step(mineSystem, player1, 1, fightWord(true))).to.be.revertedWith("Not a game system");
+      });
+    });
+
+    describe("Equipment wear", function () {
+      // Equips a weapon (token type 1), an armor (token type 2) and a tool (token type 3) on character 1
+      async function equipGear(player: Player, owner: HardhatEthersSigner, player1: HardhatEthersSigner) {
+        const MockEquipment = await hre.ethers.getContractFactory("MockEquipment");
+        const equipment = await MockEquipment.deploy();
+        await player.connect(owner).setEquipmentContract(await equipment.getAddress());
+        await equipment.createTokenType(player1.address, 1, 1, "0x");
+        await equipment.createTokenType(player1.address, 1, 0, "0x");
+        await equipment.createTokenType(player1.address, 1, 7, "0x");
+        await equipment.connect(player1).setApprovalForAll(await player.getAddress(), true);
+        await player.connect(player1).equip(1, 1, 1, 1);
+        await player.connect(player1).equip(1, 0, 2, 1);
+        await player.connect(player1).equip(1, 7, 3, 1);
+      }
+
+      it("Should wear the tool on a mining node", async function () {
+        const { player, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+        await equipGear(player, owner, player1);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await expect(step(mineSystem, player1, 1)).to.emit(player, "DurabilityChanged").withArgs(1, 7, 99);
+
+        expect(await player.getDurability(1, 7)).to.equal(99);
+        expect(await player.getDurability(1, 1)).to.equal(100);
+        expect(await player.getDurability(1, 0)).to.equal(100);
+      });
+
+      it("Should wear the weapon and the armor on a fight", async function () {
+        const { player, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+        await equipGear(player, owner, player1);
+
+        await mineSystem.connect(owner).setEncounterWeights([0, 1, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await step(mineSystem, player1, 1);
+
+        expect(await player.getDurability(1, 1)).to.equal(98);
+        expect(await player.getDurability(1, 0)).to.equal(98);
+        expect(await player.getDurability(1, 7)).to.equal(100);
+      });
+
+      it("Should not wear equipment on other encounters", async function () {
+        const { player, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+        await equipGear(player, owner, player1);
+
+        await mineSystem.connect(owner).setEncounterWeights([0, 0, 0, 1, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await expect(step(mineSystem, player1, 1)).not.to.emit(player, "DurabilityChanged");
+      });
+    });
+
+    describe("Ejection", function () {
+      it("Should end the run and forfeit pending loot when hp reaches zero", async function () {
+        const { player, gameItems, statsEngine, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await statsEngine.connect(owner).setCoefficients({ ...neutralCoefficients, baseHp: 10 });
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 3);
+        await step(mineSystem, player1, 1);
+
+        // Traps deal at least 15 damage at depth 3, ejecting a 10 hp character
+        await mineSystem.connect(owner).setEncounterWeights([0, 0, 1, 0, 0]);
+        await expect(step(mineSystem, player1, 1))
+          .to.emit(mineSystem, "RunEnded")
+          .withArgs(1, false);
+
+        const run = await mineSystem.getRun(1);
+        expect(run.active).to.be.false;
+        expect(await player.isPlayerLocked(1)).to.be.false;
+        const [lootIds] = await mineSystem.getPendingLoot(1);
+        expect(lootIds).to.deep.equal([]);
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(0);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller doesn't own the character", async function () {
+        const { mineSystem, player1, player2 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        await expect(step(mineSystem, player2, 1)).to.be.revertedWith("Not the character owner");
+      });
+
+      it("Should revert when the character is not in a run", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await expect(step(mineSystem, player1, 1)).to.be.revertedWith("Character not in a run");
+      });
+
+      it("Should revert when the run has no steps left", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        for (let i = 0; i < 5; i++) {
+          await step(mineSystem, player1, 1);
+        }
+
+        await expect(step(mineSystem, player1, 1)).to.be.revertedWith("No steps left");
+      });
+    });
+
+    describe("Randomness requests", function () {
+      it("Should request randomness and emit StepRequested", async function () {
+        const { mineSystem, randomness, player1 } = await loadFixture(deployWithMineFixture);
+        const commitment = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("secret"));
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        await expect(mineSystem.connect(player1).requestAdvance(1, commitment))
+          .to.emit(mineSystem, "StepRequested")
+          .withArgs(1, await randomness.getAddress(), 1)
+          .and.to.emit(randomness, "RandomnessRequested")
+          .withArgs(1, await mineSystem.getAddress(), commitment);
+
+        const pendingStep = await mineSystem.getPendingStep(1);
+        expect(pendingStep.provider).to.equal(await randomness.getAddress());
+        expect(pendingStep.requestId).to.equal(1);
+        expect((await mineSystem.getRun(1)).steps).to.equal(0);
+      });
+
+      it("Should resolve the encounter from the fulfilled random word", async function () {
+        const { mineSystem, randomness, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await mineSystem.connect(player1).requestAdvance(1, hre.ethers.ZeroHash);
+        // Low 16 bits pick the encounter: 0 % 100 falls in the MiningNode weight
+        await randomness.fulfill(1, 0);
+
+        const [event] = await getEncounters(mineSystem, await mineSystem.connect(player1).advance(1));
+        expect(event.args.encounter).to.equal(Encounter.MiningNode);
+        expect((await mineSystem.getPendingStep(1)).requestId).to.equal(0);
+      });
+
+      it("Should revert when advancing without a requested step", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        await expect(mineSystem.connect(player1).advance(1)).to.be.revertedWith("No step requested");
+      });
+
+      it("Should revert when advancing before the randomness is fulfilled", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await mineSystem.connect(player1).requestAdvance(1, hre.ethers.ZeroHash);
+
+        await expect(mineSystem.connect(player1).advance(1)).to.be.revertedWith("Randomness not fulfilled");
+      });
+
+      it("Should revert when requesting a step while one is pending", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await mineSystem.connect(player1).requestAdvance(1, hre.ethers.ZeroHash);
+
+        await expect(
+          mineSystem.connect(player1).requestAdvance(1, hre.ethers.ZeroHash)
+        ).to.be.revertedWith("Step already requested");
+      });
+
+      it("Should resolve a pending step with the provider it was requested from", async function () {
+        const { mineSystem, randomness, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await mineSystem.connect(player1).requestAdvance(1, hre.ethers.ZeroHash);
+
+        const MockRandomnessProvider = await hre.ethers.getContractFactory("MockRandomnessProvider");
+        const otherProvider = await MockRandomnessProvider.deploy();
+        await mineSystem.connect(owner).setRandomnessProvider(await otherProvider.getAddress());
+
+        await randomness.fulfill(1, 0);
+        await expect(mineSystem.connect(player1).advance(1)).to.emit(mineSystem, "EncounterResolved");
+      });
+
+      it("Should play a step with the commit-reveal provider", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+        const secret = hre.ethers.id("player1 secret");
+
+        const CommitRevealRandomness = await hre.ethers.getContractFactory("CommitRevealRandomness");
+        const commitReveal = await CommitRevealRandomness.deploy(2, 10);
+        await mineSystem.connect(owner).setRandomnessProvider(await commitReveal.getAddress());
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await mineSystem.connect(player1).requestAdvance(1, hre.ethers.keccak256(secret));
+        await mine(2);
+        await commitReveal.connect(player1).reveal(1, secret);
+
+        await expect(mineSystem.connect(player1).advance(1)).to.emit(mineSystem, "EncounterResolved");
+      });
+    });
+  });
+
+  describe("exitMine()", function () {
+    describe("Happy path", function () {
+      it("Should mint pending loot to the owner and clear the run", async function () {
+        const { player, gameItems, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 1, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 2);
+        for (let i = 0; i < 4; i++) {
+          await step(mineSystem, player1, 1);
+        }
+
+        const [lootIds, amounts] = await mineSystem.getPendingLoot(1);
+
+        await expect(mineSystem.connect(player1).exitMine(1))
+          .to.emit(mineSystem, "RunEnded")
+          .withArgs(1, true)
+          .and.to.emit(player, "PlayerUnlocked")
+          .withArgs(1, await mineSystem.getAddress());
+
+        for (let i = 0; i < lootIds.length; i++) {
+          expect(await gameItems.balanceOf(player1.address, lootIds[i])).to.equal(amounts[i]);
+        }
+        expect((await mineSystem.getRun(1)).active).to.be.false;
+        const [lootIdsAfter] = await mineSystem.getPendingLoot(1);
+        expect(lootIdsAfter).to.deep.equal([]);
+      });
+
+      it("Should not pay out anything before exitMine", async function () {
+        const { gameItems, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await step(mineSystem, player1, 1);
+
+        expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(0);
+      });
+
+      it("Should end the run of a character force-unlocked by the Player owner", async function () {
+        const { player, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await player.connect(owner).forceUnlockPlayer(1);
+
+        await expect(mineSystem.connect(player1).exitMine(1))
+          .to.emit(mineSystem, "RunEnded")
+          .and.not.to.emit(player, "PlayerUnlocked");
+        expect((await mineSystem.getRun(1)).active).to.be.false;
+      });
+
+      it("Should mint equipment drops of the loot tables", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+        const { gameItems, lootTable } = await deployGameItemsWithLootTable(mineSystem, owner);
+        await mineSystem.connect(owner).setLootTable(await lootTable.getAddress());
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await step(mineSystem, player1, 1);
+        await mineSystem.connect(player1).exitMine(1);
+
+        expect(await gameItems.balanceOf(player1.address, BRONZE_SWORD_ID)).to.equal(1);
+      });
+
+      it("Should allow exiting without loot even when game items are not set", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setGameItems(hre.ethers.ZeroAddress);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        await expect(mineSystem.connect(player1).exitMine(1)).to.not.be.reverted;
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller doesn't own the character", async function () {
+        const { mineSystem, player1, player2 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+        await expect(mineSystem.connect(player2).exitMine(1)).to.be.revertedWith("Not the character owner");
+      });
+
+      it("Should revert when the character is not in a run", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await expect(mineSystem.connect(player1).exitMine(1)).to.be.revertedWith("Character not in a run");
+      });
+
+      it("Should revert when there is loot but game items are not set", async function () {
+        const { mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+        await mineSystem.connect(owner).setGameItems(hre.ethers.ZeroAddress);
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await step(mineSystem, player1, 1);
+
+        await expect(mineSystem.connect(player1).exitMine(1)).to.be.revertedWith("Game items not set");
+      });
+
+      it("Should revert when a step is pending", async function () {
+        const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+        await mineSystem.connect(player1).enterMine(1, 1, 1);
+        await mineSystem.connect(player1).requestAdvance(1, hre.ethers.ZeroHash);
+
+        await expect(mineSystem.connect(player1).exitMine(1)).to.be.revertedWith("Step pending");
+      });
+    });
+  });
+
+  describe("abandonRun()", function () {
+    it("Should end the run, forfeit pending loot and unlock the character", async function () {
+      const { player, gameItems, mineSystem, owner, player1 } = await loadFixture(deployWithMineFixture);
+
+      await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+      await mineSystem.connect(player1).enterMine(1, 1, 1);
+      await step(mineSystem, player1, 1);
+      // A step that is never fulfilled
+      await mineSystem.connect(player1).requestAdvance(1, hre.ethers.ZeroHash);
+
+      await expect(mineSystem.connect(player1).abandonRun(1))
+        .to.emit(mineSystem, "RunEnded")
+        .withArgs(1, false)
+        .and.to.emit(player, "PlayerUnlocked");
+
+      expect((await mineSystem.getRun(1)).active).to.be.false;
+      expect((await mineSystem.getPendingStep(1)).requestId).to.equal(0);
+      expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(0);
+    });
+
+    it("Should revert when caller doesn't own the character", async function () {
+      const { mineSystem, player1, player2 } = await loadFixture(deployWithMineFixture);
+
+      await mineSystem.connect(player1).enterMine(1, 1, 1);
+
+      await expect(mineSystem.connect(player2).abandonRun(1)).to.be.revertedWith("Not the character owner");
+    });
+
+    it("Should revert when the character is not in a run", async function () {
+      const { mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+      await expect(mineSystem.connect(player1).abandonRun(1)).to.be.revertedWith("Character not in a run");
+    });
+  });
+
+  describe("Full runs", function () {
+    it("Should play several full runs and pay out exactly the pending loot", async function () {
+      const { gameItems, mineSystem, player1 } = await loadFixture(deployWithMineFixture);
+
+      const expected: Record<string, bigint> = {};
+
+      for (let runIndex = 0; runIndex < 5; runIndex++) {
+        await mineSystem.connect(player1).enterMine(1, 1, (runIndex % 3) + 1);
+
+        let ejected = false;
+        for (let i = 0; i < 5 && !ejected; i++) {
+          await step(mineSystem, player1, 1);
+          ejected = !(await mineSystem.getRun(1)).active;
+        }
+
+        if (!ejected) {
+          const [lootIds, amounts] = await mineSystem.getPendingLoot(1);
+          lootIds.forEach((id: bigint, i: number) => {
+            expected[id.toString()] = (expected[id.toString()] ?? 0n) + amounts[i];
+          });
+          await mineSystem.connect(player1).exitMine(1);
+        }
+
+        expect((await mineSystem.getRun(1)).active).to.be.false;
+      }
+
+      for (const id of [GOLD_ID, IRON_ID]) {
+        expect(await gameItems.balanceOf(player1.address, id)).to.equal(expected[id.toString()] ?? 0n);
+      }
+    });
+
+    it("Should track runs of different characters separately", async function () {
+      const { gameItems, mineSystem, owner, player1, player2 } = await loadFixture(deployWithMineFixture);
+
+      await mineSystem.connect(owner).setEncounterWeights([1, 0, 0, 0, 0]);
+      await mineSystem.connect(player1).enterMine(1, 1, 1);
+      await mineSystem.connect(player2).enterMine(2, 1, 3);
+
+      await step(mineSystem, player1, 1);
+      await step(mineSystem, player2, 2);
+      await step(mineSystem, player2, 2);
+
+      expect((await mineSystem.getRun(1)).steps).to.equal(1);
+      expect((await mineSystem.getRun(2)).steps).to.equal(2);
+
+      const [, amounts1] = await mineSystem.getPendingLoot(1);
+      const [, amounts2] = await mineSystem.getPendingLoot(2);
+
+      await mineSystem.connect(player1).exitMine(1);
+      await mineSystem.connect(player2).exitMine(2);
+
+      expect(await gameItems.balanceOf(player1.address, IRON_ID)).to.equal(amounts1[0]);
+      expect(await gameItems.balanceOf(player2.address, IRON_ID)).to.equal(amounts2[0]);
+    });
+  });
+});
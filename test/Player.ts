@@ -1,16 +1,21 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
 
 describe("Player", function () {
+  // Enum values matching the contract
+  const OverpaymentMode = {
+    Refund: 0,
+    Keep: 1,
+  };
+
   async function deployPlayerFixture() {
     const price = hre.ethers.parseEther("0.1");
-    const upgradeTokenAddress = hre.ethers.ZeroAddress;
 
     const [owner, otherAccount] = await hre.ethers.getSigners();
 
     const Player = await hre.ethers.getContractFactory("Player");
-    const player = await Player.deploy(price, upgradeTokenAddress);
+    const player = await Player.deploy(price);
 
     return { player, price, owner, otherAccount };
   }
@@ -40,18 +45,6 @@ describe("Player", function () {
       expect(await player.getPrice()).to.equal(price);
     });
 
-    it("Should set the initial upgrade token to the constructor upgradeToken", async function () {
-      const { player } = await loadFixture(deployPlayerFixture);
-
-      expect(await player.getUpgradeToken()).to.equal(hre.ethers.ZeroAddress);
-    });
-
-    it("Should have initial upgrade cost equal to 0", async function () {
-      const { player } = await loadFixture(deployPlayerFixture);
-
-      expect(await player.getUpgradeCost()).to.equal(0);
-    });
-
     it("Should have zero tokens minted initially", async function () {
       const { player } = await loadFixture(deployPlayerFixture);
 
@@ -89,7 +82,7 @@ describe("Player", function () {
         expect(await player.getTokenIdCounter()).to.equal(2);
       });
 
-      it("Should set default attributes (10,10,10,10) for minted token", async function () {
+      it("Should set default attributes (10,10,10,10,10) for minted token", async function () {
         const { player, price, otherAccount } = await loadFixture(deployPlayerFixture);
 
         await player.connect(otherAccount).buyToken({ value: price });
@@ -99,6 +92,7 @@ describe("Player", function () {
         expect(attributes.dexterity).to.equal(10);
         expect(attributes.intelligence).to.equal(10);
         expect(attributes.luck).to.equal(10);
+        expect(attributes.constitution).to.equal(10);
       });
     });
 
@@ -112,16 +106,58 @@ describe("Player", function () {
         expect(await player.balanceOf(otherAccount.address)).to.equal(1);
       });
 
-      it("Should increase contract ETH balance by msg.value (no refund)", async function () {
+      it("Should refund the overpayment by default", async function () {
+        const { player, price, otherAccount } = await loadFixture(deployPlayerFixture);
+        const overpayment = price * 2n;
+
+        await expect(player.connect(otherAccount).buyToken({ value: overpayment }))
+          .to.changeEtherBalances([player, otherAccount], [price, -price]);
+      });
+
+      it("Should emit TokenPurchased with the price and OverpaymentRefunded with the excess", async function () {
+        const { player, price, otherAccount } = await loadFixture(deployPlayerFixture);
+
+        await expect(player.connect(otherAccount).buyToken({ value: price * 3n }))
+          .to.emit(player, "TokenPurchased")
+          .withArgs(1, otherAccount.address, price)
+          .and.to.emit(player, "OverpaymentRefunded")
+          .withArgs(otherAccount.address, price * 2n);
+      });
+
+      it("Should not emit OverpaymentRefunded when paying exactly the price", async function () {
         const { player, price, otherAccount } = await loadFixture(deployPlayerFixture);
+
+        await expect(player.connect(otherAccount).buyToken({ value: price }))
+          .to.emit(player, "TokenPurchased")
+          .withArgs(1, otherAccount.address, price)
+          .and.not.to.emit(player, "OverpaymentRefunded");
+      });
+
+      it("Should increase contract ETH balance by msg.value in Keep mode (no refund)", async function () {
+        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
         const overpayment = price * 2n;
+        await player.connect(owner).setOverpaymentMode(OverpaymentMode.Keep);
 
         const balanceBefore = await hre.ethers.provider.getBalance(await player.getAddress());
-        await player.connect(otherAccount).buyToken({ value: overpayment });
+        await expect(player.connect(otherAccount).buyToken({ value: overpayment }))
+          .to.emit(player, "TokenPurchased")
+          .withArgs(1, otherAccount.address, overpayment)
+          .and.not.to.emit(player, "OverpaymentRefunded");
         const balanceAfter = await hre.ethers.provider.getBalance(await player.getAddress());
 
         expect(balanceAfter - balanceBefore).to.equal(overpayment);
       });
+
+      it("Should revert with 'Refund failed' when the buyer rejects the refund", async function () {
+        const { player, price } = await loadFixture(deployPlayerFixture);
+        const ReceiverFactory = await hre.ethers.getContractFactory("ERC721ReceiverMock");
+        const receiver = await ReceiverFactory.deploy();
+
+        // The receiver mock has no receive function
+        await expect(
+          receiver.callBuyToken(await player.getAddress(), { value: price * 2n })
+        ).to.be.revertedWith("Refund failed");
+      });
     });
 
     describe("Failure cases", function () {
@@ -172,6 +208,135 @@ describe("Player", function () {
     });
   });
 
+  describe("buyTokenWithERC20()", function () {
+    const stablePrice = hre.ethers.parseUnits("5", 18);
+
+    async function deployWithTokensFixture() {
+      const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+      const [, , treasury, buyer2] = await hre.ethers.getSigners();
+
+      const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+      const stablecoin = await MockERC20.deploy("Dot Stablecoin", "DUSD");
+      const MockERC20NoReturn = await hre.ethers.getContractFactory("MockERC20NoReturn");
+      const noReturnToken = await MockERC20NoReturn.deploy();
+      const playerAddress = await player.getAddress();
+
+      await player.connect(owner).setERC20Price(await stablecoin.getAddress(), stablePrice);
+      await player.connect(owner).setERC20Price(await noReturnToken.getAddress(), stablePrice * 2n);
+      await player.connect(owner).setTreasury(treasury.address);
+
+      await stablecoin.mint(otherAccount.address, stablePrice);
+      await stablecoin.connect(otherAccount).approve(playerAddress, stablePrice);
+      await noReturnToken.mint(otherAccount.address, stablePrice * 2n);
+      await noReturnToken.connect(otherAccount).approve(playerAddress, stablePrice * 2n);
+
+      return { player, price, owner, otherAccount, treasury, buyer2, stablecoin, noReturnToken };
+    }
+
+    describe("Happy path", function () {
+      it("Should set ERC20 prices and emit ERC20PriceUpdated", async function () {
+        const { player, owner, stablecoin } = await loadFixture(deployWithTokensFixture);
+
+        expect(await player.getERC20Price(await stablecoin.getAddress())).to.equal(stablePrice);
+        await expect(player.connect(owner).setERC20Price(await stablecoin.getAddress(), stablePrice / 2n))
+          .to.emit(player, "ERC20PriceUpdated")
+          .withArgs(await stablecoin.getAddress(), stablePrice / 2n);
+
+        expect(await player.getERC20Price(await stablecoin.getAddress())).to.equal(stablePrice / 2n);
+      });
+
+      it("Should mint paying the token price, kept until withdrawn to the treasury", async function () {
+        const { player, owner, otherAccount, treasury, stablecoin } = await loadFixture(deployWithTokensFixture);
+
+        const tx = player.connect(otherAccount).buyTokenWithERC20(await stablecoin.getAddress());
+
+        await expect(tx).to.changeTokenBalances(stablecoin, [otherAccount, player], [-stablePrice, stablePrice]);
+        await expect(tx)
+          .to.emit(player, "PurchasedWithERC20")
+          .withArgs(1, otherAccount.address, await stablecoin.getAddress(), stablePrice);
+        expect(await player.ownerOf(1)).to.equal(otherAccount.address);
+
+        await player.connect(owner).withdrawToken(await stablecoin.getAddress(), stablePrice);
+        expect(await stablecoin.balanceOf(treasury.address)).to.equal(stablePrice);
+      });
+
+      it("Should accept tokens whose transferFrom returns no value", async function () {
+        const { player, otherAccount, noReturnToken } = await loadFixture(deployWithTokensFixture);
+
+        await player.connect(otherAccount).buyTokenWithERC20(await noReturnToken.getAddress());
+
+        expect(await player.ownerOf(1)).to.equal(otherAccount.address);
+        expect(await noReturnToken.balanceOf(await player.getAddress())).to.equal(stablePrice * 2n);
+        expect(await noReturnToken.balanceOf(otherAccount.address)).to.equal(0);
+      });
+
+      it("Should keep native payment available through buyToken", async function () {
+        const { player, price, buyer2 } = await loadFixture(deployWithTokensFixture);
+
+        await player.connect(buyer2).buyToken({ value: price });
+
+        expect(await player.balanceOf(buyer2.address)).to.equal(1);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with 'Payment token not accepted' for tokens not whitelisted or removed", async function () {
+        const { player, owner, otherAccount, stablecoin } = await loadFixture(deployWithTokensFixture);
+
+        await expect(player.connect(otherAccount).buyTokenWithERC20(otherAccount.address))
+          .to.be.revertedWith("Payment token not accepted");
+
+        await player.connect(owner).setERC20Price(await stablecoin.getAddress(), 0);
+        await expect(player.connect(otherAccount).buyTokenWithERC20(await stablecoin.getAddress()))
+          .to.be.revertedWith("Payment token not accepted");
+      });
+
+      it("Should revert with SafeERC20FailedOperation when the token returns false", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployWithTokensFixture);
+        const MockERC20ReturnsFalse = await hre.ethers.getContractFactory("MockERC20ReturnsFalse");
+        const falseToken = await MockERC20ReturnsFalse.deploy();
+        await player.connect(owner).setERC20Price(await falseToken.getAddress(), stablePrice);
+
+        await expect(player.connect(otherAccount).buyTokenWithERC20(await falseToken.getAddress()))
+          .to.be.revertedWithCustomError(player, "SafeERC20FailedOperation")
+          .withArgs(await falseToken.getAddress());
+      });
+
+      it("Should revert when a token without return value fails the transfer", async function () {
+        const { player, buyer2, noReturnToken } = await loadFixture(deployWithTokensFixture);
+
+        await expect(player.connect(buyer2).buyTokenWithERC20(await noReturnToken.getAddress()))
+          .to.be.revertedWith("Insufficient balance");
+      });
+
+      it("Should revert when paying with a price set for an address that is not a token", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployWithTokensFixture);
+        await player.connect(owner).setERC20Price(hre.ethers.ZeroAddress, stablePrice);
+
+        await expect(player.connect(otherAccount).buyTokenWithERC20(hre.ethers.ZeroAddress))
+          .to.be.revertedWithCustomError(player, "SafeERC20FailedOperation")
+          .withArgs(hre.ethers.ZeroAddress);
+      });
+
+      it("Should revert when non-owner calls setERC20Price", async function () {
+        const { player, buyer2, stablecoin } = await loadFixture(deployWithTokensFixture);
+
+        await expect(player.connect(buyer2).setERC20Price(await stablecoin.getAddress(), 1))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(buyer2.address);
+      });
+
+      it("Should apply the minting rules and keep the payment", async function () {
+        const { player, price, otherAccount, stablecoin } = await loadFixture(deployWithTokensFixture);
+        await player.connect(otherAccount).buyToken({ value: price });
+
+        await expect(player.connect(otherAccount).buyTokenWithERC20(await stablecoin.getAddress()))
+          .to.be.revertedWith("Player already has a token");
+        expect(await stablecoin.balanceOf(otherAccount.address)).to.equal(stablePrice);
+      });
+    });
+  });
+
   describe("Soulbound enforcement", function () {
     describe("Transfer blocking", function () {
       it("Should revert transferFrom with PlayerIsSoulbound", async function () {
@@ -294,6 +459,7 @@ describe("Player", function () {
       expect(attributes.dexterity).to.equal(10);
       expect(attributes.intelligence).to.equal(10);
       expect(attributes.luck).to.equal(10);
+      expect(attributes.constitution).to.equal(10);
     });
   });
 
@@ -308,6 +474,15 @@ describe("Player", function () {
         expect(await player.getPrice()).to.equal(newPrice);
       });
 
+      it("Should emit PriceUpdated", async function () {
+        const { player, owner } = await loadFixture(deployPlayerFixture);
+        const newPrice = hre.ethers.parseEther("0.5");
+
+        await expect(player.connect(owner).updatePrice(newPrice))
+          .to.emit(player, "PriceUpdated")
+          .withArgs(newPrice);
+      });
+
       it("Should revert when non-owner calls updatePrice", async function () {
         const { player, otherAccount } = await loadFixture(deployPlayerFixture);
         const newPrice = hre.ethers.parseEther("0.5");
@@ -319,357 +494,636 @@ describe("Player", function () {
       });
     });
 
-    describe("setUpgradeToken()", function () {
-      it("Should allow owner to set upgrade token", async function () {
-        const { player, owner, otherAccount } = await loadFixture(deployPlayerFixture);
-        const newTokenAddress = otherAccount.address; // Using as a dummy address
+    describe("Sanity checks after updates", function () {
+      it("Should reflect all changes after multiple updates", async function () {
+        const { player, owner } = await loadFixture(deployPlayerFixture);
+        const newPrice = hre.ethers.parseEther("0.25");
 
-        await player.connect(owner).setUpgradeToken(newTokenAddress);
+        await player.connect(owner).updatePrice(newPrice);
+        await player.connect(owner).setOverpaymentMode(OverpaymentMode.Keep);
 
-        expect(await player.getUpgradeToken()).to.equal(newTokenAddress);
+        expect(await player.getPrice()).to.equal(newPrice);
+        expect(await player.getOverpaymentMode()).to.equal(OverpaymentMode.Keep);
       });
+    });
+  });
 
-      it("Should revert when non-owner calls setUpgradeToken", async function () {
-        const { player, otherAccount } = await loadFixture(deployPlayerFixture);
-        const newTokenAddress = otherAccount.address;
+  describe("Treasury", function () {
+    async function deployWithProceedsFixture() {
+      const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+      const [, , treasury] = await hre.ethers.getSigners();
+      const upgradeCost = hre.ethers.parseEther("100");
 
-        await expect(
-          player.connect(otherAccount).setUpgradeToken(newTokenAddress)
-        ).to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+      // Upgrade fees collected before attribute upgrades moved to AttributeUpgrades
+      const MockERC20Factory = await hre.ethers.getContractFactory("MockERC20");
+      const upgradeToken = await MockERC20Factory.deploy("Upgrade Token", "UPG");
+      await upgradeToken.mint(await player.getAddress(), upgradeCost);
+
+      await player.connect(owner).setTreasury(treasury.address);
+      await player.connect(otherAccount).buyToken({ value: price });
+
+      return { player, price, owner, otherAccount, treasury, upgradeToken, upgradeCost };
+    }
+
+    describe("Happy path", function () {
+      it("Should set the treasury and emit TreasurySet", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+
+        expect(await player.getTreasury()).to.equal(hre.ethers.ZeroAddress);
+        await expect(player.connect(owner).setTreasury(otherAccount.address))
+          .to.emit(player, "TreasurySet")
           .withArgs(otherAccount.address);
+
+        expect(await player.getTreasury()).to.equal(otherAccount.address);
       });
-    });
 
-    describe("setUpgradeCost()", function () {
-      it("Should allow owner to set upgrade cost", async function () {
+      it("Should set the overpayment mode and emit OverpaymentModeSet", async function () {
         const { player, owner } = await loadFixture(deployPlayerFixture);
-        const newCost = hre.ethers.parseEther("100");
 
-        await player.connect(owner).setUpgradeCost(newCost);
+        expect(await player.getOverpaymentMode()).to.equal(OverpaymentMode.Refund);
+        await expect(player.connect(owner).setOverpaymentMode(OverpaymentMode.Keep))
+          .to.emit(player, "OverpaymentModeSet")
+          .withArgs(OverpaymentMode.Keep);
 
-        expect(await player.getUpgradeCost()).to.equal(newCost);
+        expect(await player.getOverpaymentMode()).to.equal(OverpaymentMode.Keep);
       });
 
-      it("Should revert when non-owner calls setUpgradeCost", async function () {
-        const { player, otherAccount } = await loadFixture(deployPlayerFixture);
-        const newCost = hre.ethers.parseEther("100");
+      it("Should withdraw mint proceeds to the treasury and emit Withdrawn", async function () {
+        const { player, price, owner, treasury } = await loadFixture(deployWithProceedsFixture);
 
-        await expect(
-          player.connect(otherAccount).setUpgradeCost(newCost)
-        ).to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
-          .withArgs(otherAccount.address);
-      });
-    });
+        const tx = player.connect(owner).withdraw(price);
 
-    describe("Sanity checks after updates", function () {
-      it("Should reflect all changes after multiple updates", async function () {
-        const { player, owner, otherAccount } = await loadFixture(deployPlayerFixture);
-        const newPrice = hre.ethers.parseEther("0.25");
-        const newTokenAddress = otherAccount.address;
-        const newCost = hre.ethers.parseEther("50");
+        await expect(tx).to.changeEtherBalances([player, treasury], [-price, price]);
+        await expect(tx).to.emit(player, "Withdrawn").withArgs(treasury.address, price);
+      });
 
-        await player.connect(owner).updatePrice(newPrice);
-        await player.connect(owner).setUpgradeToken(newTokenAddress);
-        await player.connect(owner).setUpgradeCost(newCost);
+      it("Should allow partial withdrawals", async function () {
+        const { player, price, owner, treasury } = await loadFixture(deployWithProceedsFixture);
 
-        expect(await player.getPrice()).to.equal(newPrice);
-        expect(await player.getUpgradeToken()).to.equal(newTokenAddress);
-        expect(await player.getUpgradeCost()).to.equal(newCost);
+        await expect(player.connect(owner).withdraw(price / 4n))
+          .to.changeEtherBalances([player, treasury], [-price / 4n, price / 4n]);
+        expect(await hre.ethers.provider.getBalance(await player.getAddress())).to.equal(price - price / 4n);
       });
-    });
-  });
 
-  describe("upgradeAttribute()", function () {
-    // Enum values matching the contract
-    const Attribute = {
-      Strength: 0,
-      Dexterity: 1,
-      Intelligence: 2,
-      Luck: 3,
-    };
+      it("Should withdraw ERC20 tokens to the treasury and emit TokenWithdrawn", async function () {
+        const { player, owner, treasury, upgradeToken, upgradeCost } = await loadFixture(deployWithProceedsFixture);
 
-    async function deployWithUpgradeSetupFixture() {
-      const price = hre.ethers.parseEther("0.1");
-      const upgradeCost = hre.ethers.parseEther("100");
+        const tx = player.connect(owner).withdrawToken(await upgradeToken.getAddress(), upgradeCost);
 
-      const [owner, otherAccount] = await hre.ethers.getSigners();
+        await expect(tx).to.changeTokenBalances(upgradeToken, [player, treasury], [-upgradeCost, upgradeCost]);
+        await expect(tx)
+          .to.emit(player, "TokenWithdrawn")
+          .withArgs(await upgradeToken.getAddress(), treasury.address, upgradeCost);
+      });
 
-      // Deploy MockERC20
-      const MockERC20Factory = await hre.ethers.getContractFactory("MockERC20");
-      const upgradeToken = await MockERC20Factory.deploy("Upgrade Token", "UPG");
+      it("Should withdraw tokens that do not return a value", async function () {
+        const { player, owner, treasury } = await loadFixture(deployWithProceedsFixture);
+        const MockERC20NoReturn = await hre.ethers.getContractFactory("MockERC20NoReturn");
+        const token = await MockERC20NoReturn.deploy();
+        await token.mint(await player.getAddress(), 100);
+
+        await expect(player.connect(owner).withdrawToken(await token.getAddress(), 100))
+          .to.emit(player, "TokenWithdrawn")
+          .withArgs(await token.getAddress(), treasury.address, 100);
+        expect(await token.balanceOf(treasury.address)).to.equal(100);
+        expect(await token.balanceOf(await player.getAddress())).to.equal(0);
+      });
 
-      // Deploy Player with zero address initially
-      const Player = await hre.ethers.getContractFactory("Player");
-      const player = await Player.deploy(price, hre.ethers.ZeroAddress);
+      it("Should withdraw to a RevenueSplitter that shares the proceeds between payees", async function () {
+        const { player, price, owner } = await loadFixture(deployWithProceedsFixture);
+        const [, , , payee1, payee2] = await hre.ethers.getSigners();
 
-      // Setup upgrade token and cost
-      await player.connect(owner).setUpgradeToken(await upgradeToken.getAddress());
-      await player.connect(owner).setUpgradeCost(upgradeCost);
+        const RevenueSplitter = await hre.ethers.getContractFactory("RevenueSplitter");
+        const splitter = await RevenueSplitter.deploy([
+          { account: payee1.address, shares: 3 },
+          { account: payee2.address, shares: 1 },
+        ]);
+        await player.connect(owner).setTreasury(await splitter.getAddress());
 
-      // Mint player token for otherAccount
-      await player.connect(otherAccount).buyToken({ value: price });
+        await player.connect(owner).withdraw(price);
 
-      // Mint upgrade tokens to otherAccount and approve
-      await upgradeToken.mint(otherAccount.address, upgradeCost * 10n);
-      await upgradeToken.connect(otherAccount).approve(await player.getAddress(), upgradeCost * 10n);
+        await expect(splitter.distribute())
+          .to.changeEtherBalances([payee1, payee2], [(price * 3n) / 4n, price / 4n]);
+      });
+    });
 
-      return { player, upgradeToken, upgradeCost, price, owner, otherAccount };
-    }
+    describe("Failure cases", function () {
+      it("Should revert when non-owner calls treasury functions", async function () {
+        const { player, price, otherAccount, upgradeToken } = await loadFixture(deployWithProceedsFixture);
 
-    describe("Happy path", function () {
-      it("Should decrease caller's ERC20 balance by upgradeCost", async function () {
-        const { player, upgradeToken, upgradeCost, otherAccount } = await loadFixture(deployWithUpgradeSetupFixture);
+        await expect(player.connect(otherAccount).setTreasury(otherAccount.address))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+        await expect(player.connect(otherAccount).setOverpaymentMode(OverpaymentMode.Keep))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+        await expect(player.connect(otherAccount).withdraw(price))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+        await expect(player.connect(otherAccount).withdrawToken(await upgradeToken.getAddress(), 1))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+      });
 
-        const balanceBefore = await upgradeToken.balanceOf(otherAccount.address);
-        await player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength);
-        const balanceAfter = await upgradeToken.balanceOf(otherAccount.address);
+      it("Should revert with 'Invalid treasury' for the zero address", async function () {
+        const { player, owner } = await loadFixture(deployPlayerFixture);
 
-        expect(balanceBefore - balanceAfter).to.equal(upgradeCost);
+        await expect(player.connect(owner).setTreasury(hre.ethers.ZeroAddress))
+          .to.be.revertedWith("Invalid treasury");
       });
 
-      it("Should increase contract's ERC20 balance by upgradeCost", async function () {
-        const { player, upgradeToken, upgradeCost, otherAccount } = await loadFixture(deployWithUpgradeSetupFixture);
+      it("Should revert with 'Treasury not set' before the treasury is set", async function () {
+        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+        await player.connect(otherAccount).buyToken({ value: price });
+
+        await expect(player.connect(owner).withdraw(price)).to.be.revertedWith("Treasury not set");
+        await expect(player.connect(owner).withdrawToken(otherAccount.address, 1)).to.be.revertedWith("Treasury not set");
+      });
 
-        const balanceBefore = await upgradeToken.balanceOf(await player.getAddress());
-        await player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength);
-        const balanceAfter = await upgradeToken.balanceOf(await player.getAddress());
+      it("Should revert with 'Invalid amount' for zero or more than the balance", async function () {
+        const { player, price, owner, upgradeToken } = await loadFixture(deployWithProceedsFixture);
 
-        expect(balanceAfter - balanceBefore).to.equal(upgradeCost);
+        await expect(player.connect(owner).withdraw(0)).to.be.revertedWith("Invalid amount");
+        await expect(player.connect(owner).withdraw(price + 1n)).to.be.revertedWith("Invalid amount");
+        await expect(player.connect(owner).withdrawToken(await upgradeToken.getAddress(), 0))
+          .to.be.revertedWith("Invalid amount");
       });
 
-      it("Should increment only the chosen stat by 1", async function () {
-        const { player, otherAccount } = await loadFixture(deployWithUpgradeSetupFixture);
+      it("Should revert with 'Withdraw failed' when the treasury rejects native currency", async function () {
+        const { player, price, owner, upgradeToken } = await loadFixture(deployWithProceedsFixture);
 
-        const attrsBefore = await player.getAttributes(1);
-        await player.connect(otherAccount).upgradeAttribute(1, Attribute.Dexterity);
-        const attrsAfter = await player.getAttributes(1);
+        // An ERC20 contract has no receive function
+        await player.connect(owner).setTreasury(await upgradeToken.getAddress());
 
-        // Dexterity should increase by 1
-        expect(attrsAfter.dexterity).to.equal(attrsBefore.dexterity + 1n);
-        // Other stats unchanged
-        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght);
-        expect(attrsAfter.intelligence).to.equal(attrsBefore.intelligence);
-        expect(attrsAfter.luck).to.equal(attrsBefore.luck);
+        await expect(player.connect(owner).withdraw(price)).to.be.revertedWith("Withdraw failed");
       });
     });
+  });
 
-    describe("Each attribute branch", function () {
-      it("Should increment strenght when Strength attribute is chosen", async function () {
-        const { player, otherAccount } = await loadFixture(deployWithUpgradeSetupFixture);
+  describe("Minters", function () {
+    describe("Happy path", function () {
+      it("Should authorize a minter and emit MinterSet", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployPlayerFixture);
 
-        const attrsBefore = await player.getAttributes(1);
-        await player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength);
-        const attrsAfter = await player.getAttributes(1);
+        expect(await player.isMinter(otherAccount.address)).to.be.false;
+        await expect(player.connect(owner).setMinter(otherAccount.address, true))
+          .to.emit(player, "MinterSet")
+          .withArgs(otherAccount.address, true);
 
-        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght + 1n);
-        expect(attrsAfter.dexterity).to.equal(attrsBefore.dexterity);
-        expect(attrsAfter.intelligence).to.equal(attrsBefore.intelligence);
-        expect(attrsAfter.luck).to.equal(attrsBefore.luck);
+        expect(await player.isMinter(otherAccount.address)).to.be.true;
       });
 
-      it("Should increment dexterity when Dexterity attribute is chosen", async function () {
-        const { player, otherAccount } = await loadFixture(deployWithUpgradeSetupFixture);
+      it("Should let a minter mint a token to another address without payment", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+        await player.connect(owner).setMinter(owner.address, true);
 
-        const attrsBefore = await player.getAttributes(1);
-        await player.connect(otherAccount).upgradeAttribute(1, Attribute.Dexterity);
-        const attrsAfter = await player.getAttributes(1);
+        await player.connect(owner).mintTo(otherAccount.address);
 
-        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght);
-        expect(attrsAfter.dexterity).to.equal(attrsBefore.dexterity + 1n);
-        expect(attrsAfter.intelligence).to.equal(attrsBefore.intelligence);
-        expect(attrsAfter.luck).to.equal(attrsBefore.luck);
+        expect(await player.ownerOf(1)).to.equal(otherAccount.address);
+        expect((await player.getAttributes(1)).luck).to.equal(10);
       });
+    });
 
-      it("Should increment intelligence when Intelligence attribute is chosen", async function () {
-        const { player, otherAccount } = await loadFixture(deployWithUpgradeSetupFixture);
+    describe("Failure cases", function () {
+      it("Should revert with 'Not a minter' for unauthorized or revoked callers", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployPlayerFixture);
 
-        const attrsBefore = await player.getAttributes(1);
-        await player.connect(otherAccount).upgradeAttribute(1, Attribute.Intelligence);
-        const attrsAfter = await player.getAttributes(1);
+        await expect(player.connect(owner).mintTo(otherAccount.address)).to.be.revertedWith("Not a minter");
 
-        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght);
-        expect(attrsAfter.dexterity).to.equal(attrsBefore.dexterity);
-        expect(attrsAfter.intelligence).to.equal(attrsBefore.intelligence + 1n);
-        expect(attrsAfter.luck).to.equal(attrsBefore.luck);
+        await player.connect(owner).setMinter(owner.address, true);
+        await player.connect(owner).setMinter(owner.address, false);
+        await expect(player.connect(owner).mintTo(otherAccount.address)).to.be.revertedWith("Not a minter");
       });
 
-      it("Should increment luck when Luck attribute is chosen", async function () {
-        const { player, otherAccount } = await loadFixture(deployWithUpgradeSetupFixture);
+      it("Should apply the minting rules to minters", async function () {
+        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+        await player.connect(owner).setMinter(owner.address, true);
+        await player.connect(otherAccount).buyToken({ value: price });
+
+        await expect(player.connect(owner).mintTo(otherAccount.address))
+          .to.be.revertedWith("Player already has a token");
+      });
 
-        const attrsBefore = await player.getAttributes(1);
-        await player.connect(otherAccount).upgradeAttribute(1, Attribute.Luck);
-        const attrsAfter = await player.getAttributes(1);
+      it("Should revert when non-owner calls setMinter", async function () {
+        const { player, otherAccount } = await loadFixture(deployPlayerFixture);
 
-        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght);
-        expect(attrsAfter.dexterity).to.equal(attrsBefore.dexterity);
-        expect(attrsAfter.intelligence).to.equal(attrsBefore.intelligence);
-        expect(attrsAfter.luck).to.equal(attrsBefore.luck + 1n);
+        await expect(player.connect(otherAccount).setMinter(otherAccount.address, true))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
       });
     });
+  });
 
-    describe("Revert cases", function () {
-      it("Should revert when caller is not the token owner", async function () {
-        const { player, owner } = await loadFixture(deployWithUpgradeSetupFixture);
+  describe("Proof of Personhood", function () {
+    const alice = hre.ethers.id("alice");
+    const bob = hre.ethers.id("bob");
 
-        // owner does not own token 1 (otherAccount does)
-        await expect(
-          player.connect(owner).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.revertedWith("Not the token owner");
+    async function deployWithVerifierFixture() {
+      const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+      const [, , secondWallet, unverified] = await hre.ethers.getSigners();
+
+      const MockPersonhoodVerifier = await hre.ethers.getContractFactory("MockPersonhoodVerifier");
+      const verifier = await MockPersonhoodVerifier.deploy();
+
+      // otherAccount and secondWallet belong to the same person
+      await verifier.setNullifier(otherAccount.address, alice);
+      await verifier.setNullifier(secondWallet.address, alice);
+      await verifier.setNullifier(owner.address, bob);
+      await player.connect(owner).setPersonhoodVerifier(await verifier.getAddress());
+
+      return { player, verifier, price, owner, otherAccount, secondWallet, unverified };
+    }
+
+    describe("Happy path", function () {
+      it("Should set the personhood verifier and emit PersonhoodVerifierSet", async function () {
+        const { player, owner } = await loadFixture(deployPlayerFixture);
+        const MockPersonhoodVerifier = await hre.ethers.getContractFactory("MockPersonhoodVerifier");
+        const verifier = await MockPersonhoodVerifier.deploy();
+
+        expect(await player.getPersonhoodVerifier()).to.equal(hre.ethers.ZeroAddress);
+        await expect(player.connect(owner).setPersonhoodVerifier(await verifier.getAddress()))
+          .to.emit(player, "PersonhoodVerifierSet")
+          .withArgs(await verifier.getAddress());
+
+        expect(await player.getPersonhoodVerifier()).to.equal(await verifier.getAddress());
       });
 
-      it("Should revert when upgrade token is zero address", async function () {
-        const { player, price, otherAccount } = await loadFixture(deployPlayerFixture);
+      it("Should let a verified person buy a token and record the wallet of its nullifier", async function () {
+        const { player, price, otherAccount } = await loadFixture(deployWithVerifierFixture);
 
-        // Buy token but don't set upgrade token
         await player.connect(otherAccount).buyToken({ value: price });
 
-        await expect(
-          player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.revertedWith("Upgrade token not set");
+        expect(await player.balanceOf(otherAccount.address)).to.equal(1);
+        expect(await player.getNullifierWallet(alice)).to.equal(otherAccount.address);
       });
 
-      it("Should revert when upgrade cost is 0", async function () {
-        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
+      it("Should airdrop tokens to verified persons without payment", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployWithVerifierFixture);
+
+        await expect(player.connect(owner).airdrop([otherAccount.address, owner.address]))
+          .to.emit(player, "PlayerAirdropped")
+          .withArgs(1, otherAccount.address)
+          .and.to.emit(player, "PlayerAirdropped")
+          .withArgs(2, owner.address);
 
-        // Deploy and set upgrade token but not cost
-        const MockERC20Factory = await hre.ethers.getContractFactory("MockERC20");
-        const upgradeToken = await MockERC20Factory.deploy("Upgrade Token", "UPG");
-        await player.connect(owner).setUpgradeToken(await upgradeToken.getAddress());
+        expect(await player.ownerOf(1)).to.equal(otherAccount.address);
+        expect(await player.ownerOf(2)).to.equal(owner.address);
+        expect((await player.getAttributes(1)).strenght).to.equal(10);
+        expect(await hre.ethers.provider.getBalance(await player.getAddress())).to.equal(0);
+      });
 
+      it("Should let a person mint again from the same wallet after retiring", async function () {
+        const { player, price, otherAccount } = await loadFixture(deployWithVerifierFixture);
         await player.connect(otherAccount).buyToken({ value: price });
+        await player.connect(otherAccount).retireCharacter(1);
 
-        await expect(
-          player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.revertedWith("Upgrade cost not set");
+        await player.connect(otherAccount).buyToken({ value: price });
+
+        expect(await player.ownerOf(2)).to.equal(otherAccount.address);
       });
 
-      it("Should revert when caller has insufficient balance", async function () {
-        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
-        const upgradeCost = hre.ethers.parseEther("100");
+      it("Should open minting to any account again when the verifier is unset", async function () {
+        const { player, price, owner, unverified } = await loadFixture(deployWithVerifierFixture);
 
-        // Setup upgrade token and cost
-        const MockERC20Factory = await hre.ethers.getContractFactory("MockERC20");
-        const upgradeToken = await MockERC20Factory.deploy("Upgrade Token", "UPG");
-        await player.connect(owner).setUpgradeToken(await upgradeToken.getAddress());
-        await player.connect(owner).setUpgradeCost(upgradeCost);
+        await player.connect(owner).setPersonhoodVerifier(hre.ethers.ZeroAddress);
+        await player.connect(unverified).buyToken({ value: price });
 
-        await player.connect(otherAccount).buyToken({ value: price });
+        expect(await player.balanceOf(unverified.address)).to.equal(1);
+      });
+    });
 
-        // Don't mint any tokens, just approve
-        await upgradeToken.connect(otherAccount).approve(await player.getAddress(), upgradeCost);
+    describe("Failure cases", function () {
+      it("Should revert with 'Not a verified person' for an unverified buyer", async function () {
+        const { player, price, unverified } = await loadFixture(deployWithVerifierFixture);
 
-        await expect(
-          player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.reverted; // ERC20 will revert with insufficient balance
+        await expect(player.connect(unverified).buyToken({ value: price }))
+          .to.be.revertedWith("Not a verified person");
       });
 
-      it("Should revert when caller has insufficient allowance", async function () {
-        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
-        const upgradeCost = hre.ethers.parseEther("100");
+      it("Should revert with 'Person already has a wallet' when minting from a second wallet", async function () {
+        const { player, price, otherAccount, secondWallet } = await loadFixture(deployWithVerifierFixture);
+        await player.connect(otherAccount).buyToken({ value: price });
 
-        // Setup upgrade token and cost
-        const MockERC20Factory = await hre.ethers.getContractFactory("MockERC20");
-        const upgradeToken = await MockERC20Factory.deploy("Upgrade Token", "UPG");
-        await player.connect(owner).setUpgradeToken(await upgradeToken.getAddress());
-        await player.connect(owner).setUpgradeCost(upgradeCost);
+        await expect(player.connect(secondWallet).buyToken({ value: price }))
+          .to.be.revertedWith("Person already has a wallet");
+      });
 
+      it("Should revert with 'Person already has a wallet' when retiring and minting from a second wallet", async function () {
+        const { player, price, otherAccount, secondWallet } = await loadFixture(deployWithVerifierFixture);
         await player.connect(otherAccount).buyToken({ value: price });
+        await player.connect(otherAccount).retireCharacter(1);
 
-        // Mint tokens but don't approve
-        await upgradeToken.mint(otherAccount.address, upgradeCost);
-
-        await expect(
-          player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.reverted; // ERC20 will revert with insufficient allowance
+        await expect(player.connect(secondWallet).buyToken({ value: price }))
+          .to.be.revertedWith("Person already has a wallet");
       });
 
-      it("Should revert with 'Token transfer failed' when ERC20 returns false", async function () {
-        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
-        const upgradeCost = hre.ethers.parseEther("100");
+      it("Should revert the airdrop for unverified or duplicate persons", async function () {
+        const { player, owner, otherAccount, secondWallet, unverified } = await loadFixture(deployWithVerifierFixture);
 
-        // Deploy MockERC20ReturnsFalse
-        const MockERC20ReturnsFalseFactory = await hre.ethers.getContractFactory("MockERC20ReturnsFalse");
-        const falseToken = await MockERC20ReturnsFalseFactory.deploy();
+        await expect(player.connect(owner).airdrop([unverified.address]))
+          .to.be.revertedWith("Not a verified person");
+        await expect(player.connect(owner).airdrop([otherAccount.address, secondWallet.address]))
+          .to.be.revertedWith("Person already has a wallet");
+      });
 
-        await player.connect(owner).setUpgradeToken(await falseToken.getAddress());
-        await player.connect(owner).setUpgradeCost(upgradeCost);
+      it("Should revert with 'Personhood verifier not set' when airdropping without a verifier", async function () {
+        const { player, owner, otherAccount } = await loadFixture(deployPlayerFixture);
 
-        await player.connect(otherAccount).buyToken({ value: price });
+        await expect(player.connect(owner).airdrop([otherAccount.address]))
+          .to.be.revertedWith("Personhood verifier not set");
+      });
 
-        // Mint and approve
-        await falseToken.mint(otherAccount.address, upgradeCost);
-        await falseToken.connect(otherAccount).approve(await player.getAddress(), upgradeCost);
+      it("Should revert when non-owner calls setPersonhoodVerifier or airdrop", async function () {
+        const { player, otherAccount } = await loadFixture(deployWithVerifierFixture);
 
-        await expect(
-          player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.revertedWith("Token transfer failed");
+        await expect(player.connect(otherAccount).setPersonhoodVerifier(hre.ethers.ZeroAddress))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+        await expect(player.connect(otherAccount).airdrop([otherAccount.address]))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
       });
     });
+  });
 
-    describe("State integrity on revert", function () {
-      it("Should not change attributes when revert occurs", async function () {
-        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
-        const upgradeCost = hre.ethers.parseEther("100");
+  describe("increaseAttribute()", function () {
+    // Enum values matching the contract
+    const Attribute = {
+      Strength: 0,
+      Dexterity: 1,
+      Intelligence: 2,
+      Luck: 3,
+      Constitution: 4,
+    };
+
+    async function deployWithGameSystemFixture() {
+      const price = hre.ethers.parseEther("0.1");
+
+      // gameSystem stands in for the ProgressionSystem
+      const [owner, otherAccount, gameSystem] = await hre.ethers.getSigners();
+
+      const Player = await hre.ethers.getContractFactory("Player");
+      const player = await Player.deploy(price);
+
+      await player.connect(owner).setGameSystem(gameSystem.address, true);
+      await player.connect(otherAccount).buyToken({ value: price });
+
+      return { player, owner, otherAccount, gameSystem };
+    }
+
+    it("Should let a game system increase an attribute by several points", async function () {
+      const { player, gameSystem } = await loadFixture(deployWithGameSystemFixture);
+
+      await expect(player.connect(gameSystem).increaseAttribute(1, Attribute.Intelligence, 5))
+        .to.emit(player, "AttributeIncreased")
+        .withArgs(1, Attribute.Intelligence, 5);
+
+      const attrs = await player.getAttributes(1);
+      expect(attrs.intelligence).to.equal(15);
+      expect(attrs.strenght).to.equal(10);
+    });
+
+    it("Should revert when caller is not a game system", async function () {
+      const { player, otherAccount } = await loadFixture(deployWithGameSystemFixture);
+
+      await expect(
+        player.connect(otherAccount).increaseAttribute(1, Attribute.Strength, 1)
+      ).to.be.revertedWith("Not a game system");
+    });
 
-        // Setup with false-returning ERC20
-        const MockERC20ReturnsFalseFactory = await hre.ethers.getContractFactory("MockERC20ReturnsFalse");
-        const falseToken = await MockERC20ReturnsFalseFactory.deploy();
+    it("Should revert for a nonexistent token", async function () {
+      const { player, gameSystem } = await loadFixture(deployWithGameSystemFixture);
 
-        await player.connect(owner).setUpgradeToken(await falseToken.getAddress());
-        await player.connect(owner).setUpgradeCost(upgradeCost);
+      await expect(
+        player.connect(gameSystem).increaseAttribute(999, Attribute.Strength, 1)
+      ).to.be.revertedWith("Token does not exist");
+    });
+  });
+
+  describe("setAttributes()", function () {
+    const attributes = { strenght: 14, dexterity: 10, intelligence: 12, luck: 10, constitution: 11 };
+
+    async function deployWithGameSystemFixture() {
+      const price = hre.ethers.parseEther("0.1");
+
+      // gameSystem stands in for AttributeUpgrades
+      const [owner, otherAccount, gameSystem] = await hre.ethers.getSigners();
+
+      const Player = await hre.ethers.getContractFactory("Player");
+      const player = await Player.deploy(price);
+
+      await player.connect(owner).setGameSystem(gameSystem.address, true);
+      await player.connect(otherAccount).buyToken({ value: price });
+
+      return { player, owner, otherAccount, gameSystem };
+    }
+
+    it("Should let a game system replace the attributes and emit AttributesSet", async function () {
+      const { player, gameSystem } = await loadFixture(deployWithGameSystemFixture);
+
+      await expect(player.connect(gameSystem).setAttributes(1, attributes))
+        .to.emit(player, "AttributesSet")
+        .withArgs(1, [14, 10, 12, 10, 11]);
+
+      const attrs = await player.getAttributes(1);
+      expect(attrs.strenght).to.equal(14);
+      expect(attrs.intelligence).to.equal(12);
+      expect(attrs.constitution).to.equal(11);
+    });
+
+    it("Should revert when caller is not a game system", async function () {
+      const { player, otherAccount } = await loadFixture(deployWithGameSystemFixture);
+
+      await expect(player.connect(otherAccount).setAttributes(1, attributes)).to.be.revertedWith("Not a game system");
+    });
+
+    it("Should revert for a nonexistent token", async function () {
+      const { player, gameSystem } = await loadFixture(deployWithGameSystemFixture);
+
+      await expect(player.connect(gameSystem).setAttributes(999, attributes)).to.be.revertedWith("Token does not exist");
+    });
+  });
+
+  describe("Characters minted before CON", function () {
+    // Enum value matching the contract
+    const CONSTITUTION = 4;
+
+    async function deployLegacyPlayerFixture() {
+      const price = hre.ethers.parseEther("0.1");
+
+      const [owner, otherAccount, gameSystem] = await hre.ethers.getSigners();
+
+      // Mints characters with CON 0, as if minted before CON existed
+      const LegacyPlayer = await hre.ethers.getContractFactory("LegacyPlayerMock");
+      const player = await LegacyPlayer.deploy(price);
+
+      await player.connect(owner).setGameSystem(gameSystem.address, true);
+      await player.connect(otherAccount).buyToken({ value: price });
+
+      return { player, owner, otherAccount, gameSystem };
+    }
+
+    it("Should report the default CON for characters minted without CON", async function () {
+      const { player } = await loadFixture(deployLegacyPlayerFixture);
+
+      expect((await player.getAttributes(1)).constitution).to.equal(await player.DEFAULT_ATTRIBUTE_VALUE());
+    });
+
+    it("Should increase CON from the default", async function () {
+      const { player, gameSystem } = await loadFixture(deployLegacyPlayerFixture);
+
+      await player.connect(gameSystem).increaseAttribute(1, CONSTITUTION, 3);
+
+      expect((await player.getAttributes(1)).constitution).to.equal(13);
+    });
+  });
+
+  describe("retireCharacter()", function () {
+    // Equipment slot enum values matching the contract
+    const Slot = {
+      ARMOR: 0,
+      WEAPON: 1,
+    };
+
+    async function deployWithEquippedCharacterFixture() {
+      const price = hre.ethers.parseEther("0.1");
+
+      // gameSystem stands in for MineSystem locking characters on runs
+      const [owner, otherAccount, gameSystem, player2] = await hre.ethers.getSigners();
+
+      const Player = await hre.ethers.getContractFactory("Player");
+      const player = await Player.deploy(price);
+      const MockEquipment = await hre.ethers.getContractFactory("MockEquipment");
+      const equipment = await MockEquipment.deploy();
+
+      await player.connect(owner).setEquipmentContract(await equipment.getAddress());
+      await player.connect(owner).setGameSystem(gameSystem.address, true);
+      await player.connect(otherAccount).buyToken({ value: price });
+
+      // Token types 1 (armor) and 2 (weapon), both equipped
+      await equipment.createTokenType(otherAccount.address, 1, Slot.ARMOR, "0x");
+      await equipment.createTokenType(otherAccount.address, 1, Slot.WEAPON, "0x");
+      await equipment.connect(otherAccount).setApprovalForAll(await player.getAddress(), true);
+      await player.connect(otherAccount).equipBatch(1, [Slot.ARMOR, Slot.WEAPON], [1, 2], [1, 1]);
+
+      return { player, equipment, price, owner, otherAccount, gameSystem, player2 };
+    }
+
+    describe("Happy path", function () {
+      it("Should return the equipped items and burn the token", async function () {
+        const { player, equipment, otherAccount } = await loadFixture(deployWithEquippedCharacterFixture);
+
+        await expect(player.connect(otherAccount).retireCharacter(1))
+          .to.emit(player, "CharacterRetired")
+          .withArgs(1, otherAccount.address)
+          .and.to.emit(player, "Transfer")
+          .withArgs(otherAccount.address, hre.ethers.ZeroAddress, 1)
+          .and.to.emit(player, "ItemUnequipped")
+          .withArgs(1, Slot.WEAPON, 2, 1);
+
+        expect(await equipment.balanceOf(otherAccount.address, 1)).to.equal(1);
+        expect(await equipment.balanceOf(otherAccount.address, 2)).to.equal(1);
+        expect(await equipment.balanceOf(await player.getAddress(), 1)).to.equal(0);
+        expect(await player.getVaultBalance(1, 1)).to.equal(0);
+        expect(await player.isSlotEquipped(1, Slot.ARMOR)).to.be.false;
+        expect(await player.balanceOf(otherAccount.address)).to.equal(0);
+        await expect(player.ownerOf(1)).to.be.revertedWithCustomError(player, "ERC721NonexistentToken").withArgs(1);
+        await expect(player.getAttributes(1)).to.be.revertedWith("Token does not exist");
+      });
+
+      it("Should return worn items without charging a repair", async function () {
+        const { player, equipment, owner, otherAccount, gameSystem } = await loadFixture(deployWithEquippedCharacterFixture);
+        // Repairs burn token type 3, which otherAccount doesn't hold
+        await player.connect(owner).setRepairCost(Slot.ARMOR, 3, 5);
+        await player.connect(owner).setRepairCost(Slot.WEAPON, 3, 5);
+        await player.connect(gameSystem).wearItem(1, Slot.ARMOR, 40);
+        await player.connect(gameSystem).wearItem(1, Slot.WEAPON, 100);
+
+        await expect(player.connect(otherAccount).retireCharacter(1))
+          .to.emit(player, "CharacterRetired")
+          .and.not.to.emit(player, "ItemRepaired");
+
+        expect(await equipment.balanceOf(otherAccount.address, 1)).to.equal(1);
+        expect(await equipment.balanceOf(otherAccount.address, 2)).to.equal(1);
+      });
+
+      it("Should retire a character with nothing equipped", async function () {
+        const { player, price, player2 } = await loadFixture(deployWithEquippedCharacterFixture);
+        await player.connect(player2).buyToken({ value: price });
+
+        await expect(player.connect(player2).retireCharacter(2)).to.emit(player, "CharacterRetired").withArgs(2, player2.address);
+      });
+
+      it("Should let the wallet mint a new character with a new token ID", async function () {
+        const { player, price, otherAccount } = await loadFixture(deployWithEquippedCharacterFixture);
+        await player.connect(otherAccount).retireCharacter(1);
 
         await player.connect(otherAccount).buyToken({ value: price });
-        await falseToken.mint(otherAccount.address, upgradeCost);
-        await falseToken.connect(otherAccount).approve(await player.getAddress(), upgradeCost);
 
-        const attrsBefore = await player.getAttributes(1);
+        expect(await player.ownerOf(2)).to.equal(otherAccount.address);
+        expect((await player.getAttributes(2)).strenght).to.equal(10);
+        expect(await player.getRetiredAt(otherAccount.address)).to.be.greaterThan(0);
+      });
 
-        // Attempt upgrade (will revert)
-        await expect(
-          player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.revertedWith("Token transfer failed");
+      it("Should let the wallet mint again once the remint cooldown has passed", async function () {
+        const { player, price, owner, otherAccount } = await loadFixture(deployWithEquippedCharacterFixture);
+        await expect(player.connect(owner).setRemintCooldown(3600)).to.emit(player, "RemintCooldownSet").withArgs(3600);
+        await player.connect(otherAccount).retireCharacter(1);
 
-        // Verify attributes unchanged
-        const attrsAfter = await player.getAttributes(1);
-        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght);
-        expect(attrsAfter.dexterity).to.equal(attrsBefore.dexterity);
-        expect(attrsAfter.intelligence).to.equal(attrsBefore.intelligence);
-        expect(attrsAfter.luck).to.equal(attrsBefore.luck);
+        await expect(player.connect(otherAccount).buyToken({ value: price })).to.be.revertedWith("Remint cooldown active");
+
+        await time.increase(3600);
+        await expect(player.connect(otherAccount).buyToken({ value: price })).to.not.be.reverted;
+      });
+
+      it("Should not apply the remint cooldown to wallets that never retired", async function () {
+        const { player, price, owner, player2 } = await loadFixture(deployWithEquippedCharacterFixture);
+        await player.connect(owner).setRemintCooldown(2n ** 64n - 1n);
+
+        await expect(player.connect(player2).buyToken({ value: price })).to.not.be.reverted;
       });
     });
 
-    describe("Reentrancy protection", function () {
-      it("Should not allow double upgrade via reentrancy", async function () {
-        const { player, price, owner, otherAccount } = await loadFixture(deployPlayerFixture);
-        const upgradeCost = hre.ethers.parseEther("100");
+    describe("Failure cases", function () {
+      it("Should revert when caller doesn't own the token", async function () {
+        const { player, player2 } = await loadFixture(deployWithEquippedCharacterFixture);
 
-        // Deploy MaliciousERC20
-        const MaliciousERC20Factory = await hre.ethers.getContractFactory("MaliciousERC20");
-        const maliciousToken = await MaliciousERC20Factory.deploy();
+        await expect(player.connect(player2).retireCharacter(1)).to.be.revertedWith("Not player owner");
+      });
 
-        await player.connect(owner).setUpgradeToken(await maliciousToken.getAddress());
-        await player.connect(owner).setUpgradeCost(upgradeCost);
+      it("Should revert for a nonexistent token", async function () {
+        const { player, otherAccount } = await loadFixture(deployWithEquippedCharacterFixture);
 
-        await player.connect(otherAccount).buyToken({ value: price });
+        await expect(player.connect(otherAccount).retireCharacter(99))
+          .to.be.revertedWithCustomError(player, "ERC721NonexistentToken")
+          .withArgs(99);
+      });
 
-        // Mint enough for multiple upgrades and approve
-        await maliciousToken.mint(otherAccount.address, upgradeCost * 5n);
-        await maliciousToken.connect(otherAccount).approve(await player.getAddress(), upgradeCost * 5n);
+      it("Should revert with PlayerIsLocked while the character is on a run", async function () {
+        const { player, equipment, otherAccount, gameSystem } = await loadFixture(deployWithEquippedCharacterFixture);
+        await player.connect(gameSystem).lockPlayer(1);
 
-        // Set reentrancy params
-        await maliciousToken.setReentrancyParams(await player.getAddress(), 1, Attribute.Strength);
+        await expect(player.connect(otherAccount).retireCharacter(1))
+          .to.be.revertedWithCustomError(player, "PlayerIsLocked")
+          .withArgs(1);
+        expect(await equipment.balanceOf(await player.getAddress(), 1)).to.equal(1);
+      });
 
-        const attrsBefore = await player.getAttributes(1);
+      it("Should revert when a retired character is retired again", async function () {
+        const { player, otherAccount } = await loadFixture(deployWithEquippedCharacterFixture);
+        await player.connect(otherAccount).retireCharacter(1);
 
-        // The reentrancy attempt should fail because msg.sender in the reentrant call
-        // will be the malicious token contract, not the player owner
-        await expect(
-          player.connect(otherAccount).upgradeAttribute(1, Attribute.Strength)
-        ).to.be.revertedWith("Not the token owner");
+        await expect(player.connect(otherAccount).retireCharacter(1))
+          .to.be.revertedWithCustomError(player, "ERC721NonexistentToken")
+          .withArgs(1);
+      });
 
-        // Verify attributes unchanged (transaction reverted)
-        const attrsAfter = await player.getAttributes(1);
-        expect(attrsAfter.strenght).to.equal(attrsBefore.strenght);
+      it("Should revert when non-owner sets the remint cooldown", async function () {
+        const { player, otherAccount } = await loadFixture(deployWithEquippedCharacterFixture);
+
+        await expect(player.connect(otherAccount).setRemintCooldown(1))
+          .to.be.revertedWithCustomError(player, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
       });
     });
   });
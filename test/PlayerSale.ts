@@ -0,0 +1,383 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { buildAllowlist } from "./helpers/merkle";
+
+describe("PlayerSale", function () {
+  const price = hre.ethers.parseEther("0.1");
+  const discountedPrice = hre.ethers.parseEther("0.05");
+
+  const voucherTypes = {
+    MintVoucher: [
+      { name: "buyer", type: "address" },
+      { name: "price", type: "uint256" },
+      { name: "expiry", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+    ],
+  };
+
+  async function deployFixture() {
+    const [owner, signer, treasury, buyer1, buyer2, outsider] = await hre.ethers.getSigners();
+
+    const Player = await hre.ethers.getContractFactory("Player");
+    const player = await Player.deploy(price);
+
+    const PlayerSale = await hre.ethers.getContractFactory("PlayerSale");
+    const sale = await PlayerSale.deploy(await player.getAddress(), signer.address, treasury.address);
+
+    await player.connect(owner).setMinter(await sale.getAddress(), true);
+
+    const domain = {
+      name: "KusaMine PlayerSale",
+      version: "1",
+      chainId: (await hre.ethers.provider.getNetwork()).chainId,
+      verifyingContract: await sale.getAddress(),
+    };
+
+    return { player, sale, domain, owner, signer, treasury, buyer1, buyer2, outsider };
+  }
+
+  async function deployWithPhaseFixture() {
+    const fixture = await loadFixture(deployFixture);
+    const { sale, owner, buyer1, buyer2 } = fixture;
+
+    const allowlist = buildAllowlist([buyer1.address, buyer2.address, owner.address]);
+    const startTime = (await time.latest()) + 100;
+    const phase = {
+      merkleRoot: allowlist.root,
+      price: discountedPrice,
+      startTime,
+      endTime: startTime + 3600,
+    };
+    await sale.connect(owner).addAllowlistPhase(phase);
+
+    return { ...fixture, allowlist, phase };
+  }
+
+  async function signVoucher(
+    signer: Awaited<ReturnType<typeof hre.ethers.getSigner>>,
+    domain: object,
+    voucher: { buyer: string; price: bigint; expiry: number; nonce: number }
+  ) {
+    return signer.signTypedData(domain, voucherTypes, voucher);
+  }
+
+  describe("Deployment", function () {
+    it("Should set the player, signer and treasury", async function () {
+      const { player, sale, signer, treasury } = await loadFixture(deployFixture);
+
+      expect(await sale.getPlayer()).to.equal(await player.getAddress());
+      expect(await sale.getSigner()).to.equal(signer.address);
+      expect(await sale.getTreasury()).to.equal(treasury.address);
+    });
+
+    it("Should revert with zero addresses", async function () {
+      const { player, signer, treasury } = await loadFixture(deployFixture);
+      const PlayerSale = await hre.ethers.getContractFactory("PlayerSale");
+      const playerAddress = await player.getAddress();
+
+      await expect(PlayerSale.deploy(hre.ethers.ZeroAddress, signer.address, treasury.address))
+        .to.be.revertedWith("Invalid player");
+      await expect(PlayerSale.deploy(playerAddress, hre.ethers.ZeroAddress, treasury.address))
+        .to.be.revertedWith("Invalid signer");
+      await expect(PlayerSale.deploy(playerAddress, signer.address, hre.ethers.ZeroAddress))
+        .to.be.revertedWith("Invalid treasury");
+    });
+  });
+
+  describe("Admin functions", function () {
+    it("Should set the signer and treasury and emit events", async function () {
+      const { sale, owner, outsider } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setSigner(outsider.address))
+        .to.emit(sale, "SignerSet")
+        .withArgs(outsider.address);
+      await expect(sale.connect(owner).setTreasury(outsider.address))
+        .to.emit(sale, "TreasurySet")
+        .withArgs(outsider.address);
+
+      expect(await sale.getSigner()).to.equal(outsider.address);
+      expect(await sale.getTreasury()).to.equal(outsider.address);
+    });
+
+    it("Should revert when setting zero addresses", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setSigner(hre.ethers.ZeroAddress)).to.be.revertedWith("Invalid signer");
+      await expect(sale.connect(owner).setTreasury(hre.ethers.ZeroAddress)).to.be.revertedWith("Invalid treasury");
+    });
+
+    it("Should revert when non-owner calls admin functions", async function () {
+      const { sale, outsider } = await loadFixture(deployWithPhaseFixture);
+      const phase = { merkleRoot: hre.ethers.id("root"), price, startTime: 0, endTime: 1 };
+
+      await expect(sale.connect(outsider).setSigner(outsider.address))
+        .to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount")
+        .withArgs(outsider.address);
+      await expect(sale.connect(outsider).setTreasury(outsider.address))
+        .to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount")
+        .withArgs(outsider.address);
+      await expect(sale.connect(outsider).addAllowlistPhase(phase))
+        .to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount")
+        .withArgs(outsider.address);
+      await expect(sale.connect(outsider).setAllowlistPhase(1, phase))
+        .to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount")
+        .withArgs(outsider.address);
+    });
+  });
+
+  describe("mintWithVoucher()", function () {
+    describe("Happy path", function () {
+      it("Should mint at the voucher price and forward the payment to the treasury", async function () {
+        const { player, sale, domain, signer, treasury, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+
+        const tx = sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice });
+
+        await expect(tx).to.changeEtherBalances([buyer1, treasury], [-discountedPrice, discountedPrice]);
+        await expect(tx)
+          .to.emit(sale, "VoucherRedeemed")
+          .withArgs(1, buyer1.address, 1, discountedPrice);
+        expect(await player.ownerOf(1)).to.equal(buyer1.address);
+        expect(await sale.isNonceUsed(1)).to.be.true;
+      });
+
+      it("Should mint for free with a zero price voucher", async function () {
+        const { player, sale, domain, signer, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: 0n, expiry: (await time.latest()) + 3600, nonce: 7 };
+        const signature = await signVoucher(signer, domain, voucher);
+
+        await sale.connect(buyer1).mintWithVoucher(voucher, signature);
+
+        expect(await player.balanceOf(buyer1.address)).to.equal(1);
+      });
+
+      it("Should keep buyToken working as the public path at the full price", async function () {
+        const { player, buyer1 } = await loadFixture(deployFixture);
+
+        await player.connect(buyer1).buyToken({ value: price });
+
+        expect(await player.balanceOf(buyer1.address)).to.equal(1);
+      });
+
+      it("Should match the digest signed off-chain", async function () {
+        const { sale, domain, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: 1000, nonce: 3 };
+
+        expect(await sale.hashVoucher(voucher))
+          .to.equal(hre.ethers.TypedDataEncoder.hash(domain, voucherTypes, voucher));
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with 'Voucher already used' for a replayed voucher", async function () {
+        const { sale, domain, signer, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+        await sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice });
+
+        await expect(sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Voucher already used");
+      });
+
+      it("Should revert with 'Voucher already used' for another voucher with a used nonce", async function () {
+        const { sale, domain, signer, buyer1, buyer2 } = await loadFixture(deployFixture);
+        const expiry = (await time.latest()) + 3600;
+        const voucher1 = { buyer: buyer1.address, price: discountedPrice, expiry, nonce: 1 };
+        const voucher2 = { buyer: buyer2.address, price: discountedPrice, expiry, nonce: 1 };
+        await sale.connect(buyer1).mintWithVoucher(voucher1, await signVoucher(signer, domain, voucher1), { value: discountedPrice });
+
+        await expect(
+          sale.connect(buyer2).mintWithVoucher(voucher2, await signVoucher(signer, domain, voucher2), { value: discountedPrice })
+        ).to.be.revertedWith("Voucher already used");
+      });
+
+      it("Should revert with 'Voucher expired' after the expiry", async function () {
+        const { sale, domain, signer, buyer1 } = await loadFixture(deployFixture);
+        const expiry = (await time.latest()) + 3600;
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+        await time.increaseTo(expiry + 1);
+
+        await expect(sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Voucher expired");
+      });
+
+      it("Should revert with 'Invalid signature' for a tampered price", async function () {
+        const { sale, domain, signer, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+        const tampered = { ...voucher, price: 1n };
+
+        await expect(sale.connect(buyer1).mintWithVoucher(tampered, signature, { value: 1n }))
+          .to.be.revertedWith("Invalid signature");
+      });
+
+      it("Should revert with 'Invalid signature' for a tampered expiry or nonce", async function () {
+        const { sale, domain, signer, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+
+        await expect(sale.connect(buyer1).mintWithVoucher({ ...voucher, expiry: voucher.expiry + 1 }, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Invalid signature");
+        await expect(sale.connect(buyer1).mintWithVoucher({ ...voucher, nonce: 2 }, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Invalid signature");
+      });
+
+      it("Should revert with 'Invalid signature' for a voucher not signed by the signer", async function () {
+        const { sale, domain, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(buyer1, domain, voucher);
+
+        await expect(sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Invalid signature");
+      });
+
+      it("Should revert with 'Invalid signature' for vouchers of a replaced signer", async function () {
+        const { sale, domain, owner, signer, buyer1, outsider } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+        await sale.connect(owner).setSigner(outsider.address);
+
+        await expect(sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Invalid signature");
+      });
+
+      it("Should revert with 'Voucher not for sender' when redeemed by another account", async function () {
+        const { sale, domain, signer, buyer1, buyer2 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+
+        await expect(sale.connect(buyer2).mintWithVoucher(voucher, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Voucher not for sender");
+      });
+
+      it("Should revert with 'Incorrect payment' when not paying the voucher price", async function () {
+        const { sale, domain, signer, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+
+        await expect(sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: price }))
+          .to.be.revertedWith("Incorrect payment");
+      });
+
+      it("Should revert with 'Not a minter' once the sale is revoked as minter", async function () {
+        const { player, sale, domain, owner, signer, buyer1 } = await loadFixture(deployFixture);
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+        await player.connect(owner).setMinter(await sale.getAddress(), false);
+
+        await expect(sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Not a minter");
+      });
+
+      it("Should apply the Player minting rules", async function () {
+        const { player, sale, domain, signer, buyer1 } = await loadFixture(deployFixture);
+        await player.connect(buyer1).buyToken({ value: price });
+        const voucher = { buyer: buyer1.address, price: discountedPrice, expiry: (await time.latest()) + 3600, nonce: 1 };
+        const signature = await signVoucher(signer, domain, voucher);
+
+        await expect(sale.connect(buyer1).mintWithVoucher(voucher, signature, { value: discountedPrice }))
+          .to.be.revertedWith("Player already has a token");
+        expect(await sale.isNonceUsed(1)).to.be.false;
+      });
+    });
+  });
+
+  describe("Allowlist phases", function () {
+    describe("Happy path", function () {
+      it("Should register a phase and emit AllowlistPhaseSet", async function () {
+        const { sale, phase } = await loadFixture(deployWithPhaseFixture);
+
+        expect(await sale.getPhaseCounter()).to.equal(1);
+        const stored = await sale.getAllowlistPhase(1);
+        expect(stored.merkleRoot).to.equal(phase.merkleRoot);
+        expect(stored.price).to.equal(phase.price);
+        expect(stored.startTime).to.equal(phase.startTime);
+        expect(stored.endTime).to.equal(phase.endTime);
+      });
+
+      it("Should update a phase", async function () {
+        const { sale, owner, phase } = await loadFixture(deployWithPhaseFixture);
+
+        await expect(sale.connect(owner).setAllowlistPhase(1, { ...phase, price }))
+          .to.emit(sale, "AllowlistPhaseSet");
+
+        expect((await sale.getAllowlistPhase(1)).price).to.equal(price);
+      });
+
+      it("Should mint an allowlisted account at the phase price", async function () {
+        const { player, sale, treasury, buyer2, allowlist, phase } = await loadFixture(deployWithPhaseFixture);
+        await time.increaseTo(phase.startTime);
+
+        const tx = sale.connect(buyer2).mintAllowlist(1, allowlist.getProof(buyer2.address), { value: discountedPrice });
+
+        await expect(tx).to.changeEtherBalances([buyer2, treasury], [-discountedPrice, discountedPrice]);
+        await expect(tx)
+          .to.emit(sale, "AllowlistMinted")
+          .withArgs(1, buyer2.address, 1, discountedPrice);
+        expect(await player.ownerOf(1)).to.equal(buyer2.address);
+        expect(await sale.hasClaimed(1, buyer2.address)).to.be.true;
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with 'Phase does not exist' for unknown phases", async function () {
+        const { sale, owner, buyer1, phase } = await loadFixture(deployWithPhaseFixture);
+
+        await expect(sale.connect(buyer1).mintAllowlist(2, [])).to.be.revertedWith("Phase does not exist");
+        await expect(sale.connect(owner).setAllowlistPhase(2, phase)).to.be.revertedWith("Phase does not exist");
+        await expect(sale.getAllowlistPhase(0)).to.be.revertedWith("Phase does not exist");
+      });
+
+      it("Should revert with 'Invalid merkle root' or 'Invalid phase window' for invalid phases", async function () {
+        const { sale, owner, phase } = await loadFixture(deployWithPhaseFixture);
+
+        await expect(sale.connect(owner).addAllowlistPhase({ ...phase, merkleRoot: hre.ethers.ZeroHash }))
+          .to.be.revertedWith("Invalid merkle root");
+        await expect(sale.connect(owner).addAllowlistPhase({ ...phase, endTime: phase.startTime - 1 }))
+          .to.be.revertedWith("Invalid phase window");
+      });
+
+      it("Should revert with 'Phase not active' before and after the phase", async function () {
+        const { sale, buyer1, allowlist, phase } = await loadFixture(deployWithPhaseFixture);
+        const proof = allowlist.getProof(buyer1.address);
+
+        await expect(sale.connect(buyer1).mintAllowlist(1, proof, { value: discountedPrice }))
+          .to.be.revertedWith("Phase not active");
+
+        await time.increaseTo(phase.endTime + 1);
+        await expect(sale.connect(buyer1).mintAllowlist(1, proof, { value: discountedPrice }))
+          .to.be.revertedWith("Phase not active");
+      });
+
+      it("Should revert with 'Not allowlisted' for an account outside the allowlist", async function () {
+        const { sale, buyer1, outsider, allowlist, phase } = await loadFixture(deployWithPhaseFixture);
+        await time.increaseTo(phase.startTime);
+
+        await expect(sale.connect(outsider).mintAllowlist(1, allowlist.getProof(buyer1.address), { value: discountedPrice }))
+          .to.be.revertedWith("Not allowlisted");
+      });
+
+      it("Should revert with 'Already claimed' when minting twice in a phase", async function () {
+        const { player, sale, buyer1, allowlist, phase } = await loadFixture(deployWithPhaseFixture);
+        await time.increaseTo(phase.startTime);
+        const proof = allowlist.getProof(buyer1.address);
+        await sale.connect(buyer1).mintAllowlist(1, proof, { value: discountedPrice });
+        await player.connect(buyer1).retireCharacter(1);
+
+        await expect(sale.connect(buyer1).mintAllowlist(1, proof, { value: discountedPrice }))
+          .to.be.revertedWith("Already claimed");
+      });
+
+      it("Should revert with 'Incorrect payment' when not paying the phase price", async function () {
+        const { sale, buyer1, allowlist, phase } = await loadFixture(deployWithPhaseFixture);
+        await time.increaseTo(phase.startTime);
+
+        await expect(sale.connect(buyer1).mintAllowlist(1, allowlist.getProof(buyer1.address), { value: price }))
+          .to.be.revertedWith("Incorrect payment");
+      });
+    });
+  });
+});
@@ -0,0 +1,425 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("ProgressionSystem", function () {
+  // Enum values matching the contract
+  const Attribute = {
+    Strength: 0,
+    Dexterity: 1,
+    Intelligence: 2,
+    Luck: 3,
+  };
+
+  // Equipment slot enum values matching the contract
+  const Slot = {
+    RELIC: 2,
+    RELIC_2: 8,
+    RING_3: 10,
+  };
+
+  const DEFAULT_XP_CURVE = [100, 250, 450, 700, 1000, 1350, 1750, 2200, 2700];
+
+  async function deployFixture() {
+    const price = hre.ethers.parseEther("0.1");
+
+    // gameSystem stands in for MineSystem/Combat awarding XP
+    const [owner, player1, player2, gameSystem] = await hre.ethers.getSigners();
+
+    const Player = await hre.ethers.getContractFactory("Player");
+    const player = await Player.deploy(price);
+
+    const ProgressionSystem = await hre.ethers.getContractFactory("ProgressionSystem");
+    const progression = await ProgressionSystem.deploy(await player.getAddress());
+
+    await player.connect(owner).setGameSystem(await progression.getAddress(), true);
+    await progression.connect(owner).setGameSystem(gameSystem.address, true);
+
+    await player.connect(player1).buyToken({ value: price });
+    await player.connect(player2).buyToken({ value: price });
+
+    return { player, progression, owner, player1, player2, gameSystem };
+  }
+
+  describe("Deployment", function () {
+    it("Should set the default XP curve and stat points per level", async function () {
+      const { progression, player } = await loadFixture(deployFixture);
+
+      expect(await progression.getXpCurve()).to.deep.equal(DEFAULT_XP_CURVE);
+      expect(await progression.getMaxLevel()).to.equal(DEFAULT_XP_CURVE.length + 1);
+      expect(await progression.getStatPointsPerLevel()).to.equal(3);
+      expect(await progression.getPlayer()).to.equal(await player.getAddress());
+    });
+
+    it("Should start every character at level 1 with no XP", async function () {
+      const { progression } = await loadFixture(deployFixture);
+
+      expect(await progression.getLevel(1)).to.equal(1);
+      expect(await progression.getXp(1)).to.equal(0);
+      expect(await progression.getUnspentStatPoints(1)).to.equal(0);
+    });
+
+    it("Should revert with an invalid player contract", async function () {
+      const ProgressionSystem = await hre.ethers.getContractFactory("ProgressionSystem");
+
+      await expect(ProgressionSystem.deploy(hre.ethers.ZeroAddress)).to.be.revertedWith("Invalid player contract");
+    });
+  });
+
+  describe("Admin functions", function () {
+    it("Should let the owner set the XP curve", async function () {
+      const { progression, owner } = await loadFixture(deployFixture);
+
+      await expect(progression.connect(owner).setXpCurve([10, 30]))
+        .to.emit(progression, "XpCurveUpdated")
+        .withArgs([10, 30]);
+
+      expect(await progression.getXpCurve()).to.deep.equal([10, 30]);
+      expect(await progression.getMaxLevel()).to.equal(3);
+    });
+
+    it("Should revert when the XP curve is empty or not strictly increasing", async function () {
+      const { progression, owner } = await loadFixture(deployFixture);
+
+      await expect(progression.connect(owner).setXpCurve([])).to.be.revertedWith("Empty XP curve");
+      await expect(progression.connect(owner).setXpCurve([0, 10])).to.be.revertedWith("Invalid XP threshold");
+      await expect(progression.connect(owner).setXpCurve([10, 10])).to.be.revertedWith("Invalid XP threshold");
+      await expect(progression.connect(owner).setXpCurve([20, 10])).to.be.revertedWith("Invalid XP threshold");
+    });
+
+    it("Should let the owner set the stat points per level", async function () {
+      const { progression, owner } = await loadFixture(deployFixture);
+
+      await expect(progression.connect(owner).setStatPointsPerLevel(5))
+        .to.emit(progression, "StatPointsPerLevelUpdated")
+        .withArgs(5);
+
+      expect(await progression.getStatPointsPerLevel()).to.equal(5);
+    });
+
+    it("Should let the owner set the AttributeUpgrades contract", async function () {
+      const { progression, owner, player2 } = await loadFixture(deployFixture);
+
+      expect(await progression.getAttributeUpgrades()).to.equal(hre.ethers.ZeroAddress);
+      await expect(progression.connect(owner).setAttributeUpgrades(player2.address))
+        .to.emit(progression, "AttributeUpgradesSet")
+        .withArgs(player2.address);
+
+      expect(await progression.getAttributeUpgrades()).to.equal(player2.address);
+    });
+
+    it("Should revert when non-owner calls admin functions", async function () {
+      const { progression, player1 } = await loadFixture(deployFixture);
+
+      await expect(progression.connect(player1).setXpCurve([10]))
+        .to.be.revertedWithCustomError(progression, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+      await expect(progression.connect(player1).setStatPointsPerLevel(1))
+        .to.be.revertedWithCustomError(progression, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+      await expect(progression.connect(player1).setGameSystem(player1.address, true))
+        .to.be.revertedWithCustomError(progression, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+      await expect(progression.connect(player1).setAttributeUpgrades(player1.address))
+        .to.be.revertedWithCustomError(progression, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+    });
+  });
+
+  describe("awardXp()", function () {
+    describe("Happy path", function () {
+      it("Should add XP and emit XpAwarded", async function () {
+        const { progression, gameSystem } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(gameSystem).awardXp(1, 40))
+          .to.emit(progression, "XpAwarded")
+          .withArgs(1, gameSystem.address, 40, 40);
+        await expect(progression.connect(gameSystem).awardXp(1, 20))
+          .to.emit(progression, "XpAwarded")
+          .withArgs(1, gameSystem.address, 20, 60);
+
+        expect(await progression.getXp(1)).to.equal(60);
+        expect(await progression.getLevel(1)).to.equal(1);
+      });
+
+      it("Should level up exactly at the threshold and grant stat points", async function () {
+        const { progression, gameSystem } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(gameSystem).awardXp(1, 99)).to.not.emit(progression, "LevelUp");
+
+        await expect(progression.connect(gameSystem).awardXp(1, 1))
+          .to.emit(progression, "LevelUp")
+          .withArgs(1, 2, 3);
+
+        expect(await progression.getLevel(1)).to.equal(2);
+        expect(await progression.getUnspentStatPoints(1)).to.equal(3);
+      });
+
+      it("Should level up several times from a single award", async function () {
+        const { progression, gameSystem } = await loadFixture(deployFixture);
+
+        const tx = progression.connect(gameSystem).awardXp(1, 460);
+        await expect(tx).to.emit(progression, "LevelUp").withArgs(1, 2, 3);
+        await expect(tx).to.emit(progression, "LevelUp").withArgs(1, 3, 3);
+        await expect(tx).to.emit(progression, "LevelUp").withArgs(1, 4, 3);
+
+        expect(await progression.getLevel(1)).to.equal(4);
+        expect(await progression.getUnspentStatPoints(1)).to.equal(9);
+      });
+
+      it("Should stop at the max level but keep counting XP", async function () {
+        const { progression, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(gameSystem).awardXp(1, 100_000);
+
+        expect(await progression.getLevel(1)).to.equal(DEFAULT_XP_CURVE.length + 1);
+        expect(await progression.getUnspentStatPoints(1)).to.equal(DEFAULT_XP_CURVE.length * 3);
+
+        await expect(progression.connect(gameSystem).awardXp(1, 1)).to.not.emit(progression, "LevelUp");
+        expect(await progression.getXp(1)).to.equal(100_001);
+      });
+
+      it("Should level up into levels added by a longer curve", async function () {
+        const { progression, owner, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(owner).setXpCurve([10]);
+        await progression.connect(gameSystem).awardXp(1, 50);
+        expect(await progression.getLevel(1)).to.equal(2);
+
+        await progression.connect(owner).setXpCurve([10, 60]);
+        await expect(progression.connect(gameSystem).awardXp(1, 10))
+          .to.emit(progression, "LevelUp")
+          .withArgs(1, 3, 3);
+      });
+
+      it("Should not affect other characters", async function () {
+        const { progression, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(gameSystem).awardXp(1, 300);
+
+        expect(await progression.getXp(2)).to.equal(0);
+        expect(await progression.getLevel(2)).to.equal(1);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller is not a game system", async function () {
+        const { progression, player1 } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(player1).awardXp(1, 100)).to.be.revertedWith("Not a game system");
+      });
+
+      it("Should revert when the game system was revoked", async function () {
+        const { progression, owner, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(owner).setGameSystem(gameSystem.address, false);
+
+        await expect(progression.connect(gameSystem).awardXp(1, 100)).to.be.revertedWith("Not a game system");
+      });
+
+      it("Should revert for a nonexistent character", async function () {
+        const { player, progression, gameSystem } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(gameSystem).awardXp(99, 100))
+          .to.be.revertedWithCustomError(player, "ERC721NonexistentToken")
+          .withArgs(99);
+      });
+    });
+  });
+
+  describe("spendStatPoints()", function () {
+    describe("Happy path", function () {
+      it("Should increase the attribute and consume stat points", async function () {
+        const { player, progression, player1, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(gameSystem).awardXp(1, 250);
+        expect(await progression.getUnspentStatPoints(1)).to.equal(6);
+
+        await expect(progression.connect(player1).spendStatPoints(1, Attribute.Luck, 4))
+          .to.emit(progression, "StatPointsSpent")
+          .withArgs(1, Attribute.Luck, 4)
+          .and.to.emit(player, "AttributeIncreased")
+          .withArgs(1, Attribute.Luck, 4);
+
+        const attrs = await player.getAttributes(1);
+        expect(attrs.luck).to.equal(14);
+        expect(attrs.strenght).to.equal(10);
+        expect(await progression.getUnspentStatPoints(1)).to.equal(2);
+      });
+
+      it("Should work alongside the paid upgradeAttribute path", async function () {
+        const { player, progression, owner, player1, gameSystem } = await loadFixture(deployFixture);
+
+        const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+        const upgradeToken = await MockERC20.deploy("Upgrade Token", "UPG");
+        const AttributeUpgrades = await hre.ethers.getContractFactory("AttributeUpgrades");
+        const upgrades = await AttributeUpgrades.deploy(
+          await player.getAddress(),
+          await upgradeToken.getAddress(),
+          owner.address
+        );
+        await player.connect(owner).setGameSystem(await upgrades.getAddress(), true);
+        await upgrades.connect(owner).setCurve(Attribute.Strength, { kind: 1, baseCost: 1, rate: 0, hardCap: 0 }, []);
+        await upgradeToken.mint(player1.address, 1);
+        await upgradeToken.connect(player1).approve(await upgrades.getAddress(), 1);
+
+        await upgrades.connect(player1).upgradeAttribute(1, Attribute.Strength, 1);
+        await progression.connect(gameSystem).awardXp(1, 100);
+        await progression.connect(player1).spendStatPoints(1, Attribute.Strength, 3);
+
+        expect((await player.getAttributes(1)).strenght).to.equal(14);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when caller is not the character owner", async function () {
+        const { progression, player2, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(gameSystem).awardXp(1, 100);
+
+        await expect(progression.connect(player2).spendStatPoints(1, Attribute.Strength, 1))
+          .to.be.revertedWith("Not the character owner");
+      });
+
+      it("Should revert when spending more points than available", async function () {
+        const { progression, player1, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(gameSystem).awardXp(1, 100);
+
+        await expect(progression.connect(player1).spendStatPoints(1, Attribute.Strength, 4))
+          .to.be.revertedWith("Not enough stat points");
+      });
+
+      it("Should revert when spending zero points", async function () {
+        const { progression, player1 } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(player1).spendStatPoints(1, Attribute.Strength, 0))
+          .to.be.revertedWith("Invalid amount");
+      });
+
+      it("Should revert with HardCapExceeded above the hard cap of AttributeUpgrades", async function () {
+        const { player, progression, owner, player1, gameSystem } = await loadFixture(deployFixture);
+
+        const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+        const upgradeToken = await MockERC20.deploy("Upgrade Token", "UPG");
+        const AttributeUpgrades = await hre.ethers.getContractFactory("AttributeUpgrades");
+        const upgrades = await AttributeUpgrades.deploy(
+          await player.getAddress(),
+          await upgradeToken.getAddress(),
+          owner.address
+        );
+        await upgrades.connect(owner).setCurve(Attribute.Strength, { kind: 1, baseCost: 1, rate: 0, hardCap: 12 }, []);
+        await progression.connect(owner).setAttributeUpgrades(await upgrades.getAddress());
+        await progression.connect(gameSystem).awardXp(1, 100);
+
+        await expect(progression.connect(player1).spendStatPoints(1, Attribute.Strength, 3))
+          .to.be.revertedWithCustomError(upgrades, "HardCapExceeded")
+          .withArgs(Attribute.Strength, 13, 12);
+
+        // Up to the cap, and attributes without a cap, are still fine
+        await progression.connect(player1).spendStatPoints(1, Attribute.Strength, 2);
+        await progression.connect(player1).spendStatPoints(1, Attribute.Luck, 1);
+        expect((await player.getAttributes(1)).strenght).to.equal(12);
+        expect(await progression.getUnspentStatPoints(1)).to.equal(0);
+      });
+
+      it("Should revert when the ProgressionSystem is not a game system on Player", async function () {
+        const { player, progression, owner, player1, gameSystem } = await loadFixture(deployFixture);
+
+        await progression.connect(gameSystem).awardXp(1, 100);
+        await player.connect(owner).setGameSystem(await progression.getAddress(), false);
+
+        await expect(progression.connect(player1).spendStatPoints(1, Attribute.Strength, 1))
+          .to.be.revertedWith("Not a game system");
+        expect(await progression.getUnspentStatPoints(1)).to.equal(3);
+      });
+    });
+  });
+
+  describe("Slot unlocks", function () {
+    async function deployWithUnlockLevelsFixture() {
+      const { player, progression, owner, player1, player2, gameSystem } = await loadFixture(deployFixture);
+
+      await progression.connect(owner).setSlotUnlockLevel(Slot.RELIC_2, 3);
+
+      return { player, progression, owner, player1, player2, gameSystem };
+    }
+
+    describe("setSlotUnlockLevel()", function () {
+      it("Should set the unlock level of an extra slot", async function () {
+        const { progression, owner } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(owner).setSlotUnlockLevel(Slot.RING_3, 5))
+          .to.emit(progression, "SlotUnlockLevelSet")
+          .withArgs(Slot.RING_3, 5);
+
+        expect(await progression.getSlotUnlockLevel(Slot.RING_3)).to.equal(5);
+      });
+
+      it("Should revert for a base slot", async function () {
+        const { progression, owner } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(owner).setSlotUnlockLevel(Slot.RELIC, 5)).to.be.revertedWith(
+          "Slot not unlockable"
+        );
+      });
+
+      it("Should revert when non-owner sets an unlock level", async function () {
+        const { progression, player1 } = await loadFixture(deployFixture);
+
+        await expect(progression.connect(player1).setSlotUnlockLevel(Slot.RELIC_2, 1))
+          .to.be.revertedWithCustomError(progression, "OwnableUnauthorizedAccount")
+          .withArgs(player1.address);
+      });
+    });
+
+    describe("unlockSlot()", function () {
+      it("Should unlock the slot on Player once the character reaches the unlock level", async function () {
+        const { player, progression, player1, gameSystem } = await loadFixture(deployWithUnlockLevelsFixture);
+        // Level 3 requires 250 XP
+        await progression.connect(gameSystem).awardXp(1, 250);
+
+        await expect(progression.connect(player1).unlockSlot(1, Slot.RELIC_2))
+          .to.emit(player, "SlotUnlocked")
+          .withArgs(1, Slot.RELIC_2);
+
+        expect(await player.isSlotUnlocked(1, Slot.RELIC_2)).to.be.true;
+        expect(await player.isSlotUnlocked(2, Slot.RELIC_2)).to.be.false;
+      });
+
+      it("Should revert below the unlock level", async function () {
+        const { progression, player1, gameSystem } = await loadFixture(deployWithUnlockLevelsFixture);
+        await progression.connect(gameSystem).awardXp(1, 249);
+
+        await expect(progression.connect(player1).unlockSlot(1, Slot.RELIC_2)).to.be.revertedWith("Level too low");
+      });
+
+      it("Should revert for a slot without unlock level", async function () {
+        const { progression, player1 } = await loadFixture(deployWithUnlockLevelsFixture);
+
+        await expect(progression.connect(player1).unlockSlot(1, Slot.RING_3)).to.be.revertedWith(
+          "Slot not unlockable"
+        );
+      });
+
+      it("Should revert when the slot is already unlocked", async function () {
+        const { progression, player1, gameSystem } = await loadFixture(deployWithUnlockLevelsFixture);
+        await progression.connect(gameSystem).awardXp(1, 250);
+        await progression.connect(player1).unlockSlot(1, Slot.RELIC_2);
+
+        await expect(progression.connect(player1).unlockSlot(1, Slot.RELIC_2)).to.be.revertedWith(
+          "Slot already unlocked"
+        );
+      });
+
+      it("Should revert when caller doesn't own the character", async function () {
+        const { progression, player2, gameSystem } = await loadFixture(deployWithUnlockLevelsFixture);
+        await progression.connect(gameSystem).awardXp(1, 250);
+
+        await expect(progression.connect(player2).unlockSlot(1, Slot.RELIC_2)).to.be.revertedWith(
+          "Not the character owner"
+        );
+      });
+    });
+  });
+});
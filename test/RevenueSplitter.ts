@@ -0,0 +1,219 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("RevenueSplitter", function () {
+  async function deployFixture() {
+    const [owner, payee1, payee2, payee3, otherAccount] = await hre.ethers.getSigners();
+
+    const RevenueSplitter = await hre.ethers.getContractFactory("RevenueSplitter");
+    const splitter = await RevenueSplitter.deploy([
+      { account: payee1.address, shares: 50 },
+      { account: payee2.address, shares: 30 },
+      { account: payee3.address, shares: 20 },
+    ]);
+
+    const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy("Upgrade Token", "UPG");
+
+    return { splitter, token, owner, payee1, payee2, payee3, otherAccount };
+  }
+
+  describe("Deployment", function () {
+    it("Should set the payees and total shares", async function () {
+      const { splitter, payee1, payee2, payee3 } = await loadFixture(deployFixture);
+
+      const payees = await splitter.getPayees();
+      expect(payees.map((payee) => payee.account)).to.deep.equal([payee1.address, payee2.address, payee3.address]);
+      expect(payees.map((payee) => payee.shares)).to.deep.equal([50n, 30n, 20n]);
+      expect(await splitter.getTotalShares()).to.equal(100);
+    });
+
+    it("Should revert without payees", async function () {
+      const RevenueSplitter = await hre.ethers.getContractFactory("RevenueSplitter");
+
+      await expect(RevenueSplitter.deploy([])).to.be.revertedWith("Invalid payee count");
+    });
+  });
+
+  describe("Receiving payments", function () {
+    it("Should emit PaymentReceived for native currency sent to the splitter", async function () {
+      const { splitter, otherAccount } = await loadFixture(deployFixture);
+      const amount = hre.ethers.parseEther("1");
+
+      await expect(otherAccount.sendTransaction({ to: await splitter.getAddress(), value: amount }))
+        .to.emit(splitter, "PaymentReceived")
+        .withArgs(otherAccount.address, amount);
+    });
+  });
+
+  describe("setPayees()", function () {
+    describe("Happy path", function () {
+      it("Should replace the payees and emit PayeesSet", async function () {
+        const { splitter, owner, payee1, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(splitter.connect(owner).setPayees([
+          { account: otherAccount.address, shares: 1 },
+          { account: payee1.address, shares: 1 },
+        ])).to.emit(splitter, "PayeesSet");
+
+        const payees = await splitter.getPayees();
+        expect(payees.map((payee) => payee.account)).to.deep.equal([otherAccount.address, payee1.address]);
+        expect(await splitter.getTotalShares()).to.equal(2);
+      });
+
+      it("Should distribute balances already held with the new shares", async function () {
+        const { splitter, owner, payee1, payee2, otherAccount } = await loadFixture(deployFixture);
+        const amount = hre.ethers.parseEther("1");
+        await otherAccount.sendTransaction({ to: await splitter.getAddress(), value: amount });
+
+        await splitter.connect(owner).setPayees([
+          { account: payee1.address, shares: 1 },
+          { account: payee2.address, shares: 1 },
+        ]);
+
+        await expect(splitter.distribute())
+          .to.changeEtherBalances([payee1, payee2], [amount / 2n, amount / 2n]);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert when non-owner calls setPayees", async function () {
+        const { splitter, otherAccount } = await loadFixture(deployFixture);
+
+        await expect(splitter.connect(otherAccount).setPayees([{ account: otherAccount.address, shares: 1 }]))
+          .to.be.revertedWithCustomError(splitter, "OwnableUnauthorizedAccount")
+          .withArgs(otherAccount.address);
+      });
+
+      it("Should revert with 'Invalid payee count' for no payees or more than MAX_PAYEES", async function () {
+        const { splitter, owner } = await loadFixture(deployFixture);
+        const maxPayees = await splitter.MAX_PAYEES();
+        const tooMany = Array.from({ length: Number(maxPayees) + 1 }, (_, i) => ({
+          account: hre.ethers.toBeHex(i + 1, 20),
+          shares: 1,
+        }));
+
+        await expect(splitter.connect(owner).setPayees([])).to.be.revertedWith("Invalid payee count");
+        await expect(splitter.connect(owner).setPayees(tooMany)).to.be.revertedWith("Invalid payee count");
+      });
+
+      it("Should revert with 'Invalid payee' for the zero address", async function () {
+        const { splitter, owner } = await loadFixture(deployFixture);
+
+        await expect(splitter.connect(owner).setPayees([{ account: hre.ethers.ZeroAddress, shares: 1 }]))
+          .to.be.revertedWith("Invalid payee");
+      });
+
+      it("Should revert with 'Invalid shares' for zero shares", async function () {
+        const { splitter, owner, payee1 } = await loadFixture(deployFixture);
+
+        await expect(splitter.connect(owner).setPayees([{ account: payee1.address, shares: 0 }]))
+          .to.be.revertedWith("Invalid shares");
+      });
+
+      it("Should revert with 'Duplicate payee' when a payee is listed twice", async function () {
+        const { splitter, owner, payee1 } = await loadFixture(deployFixture);
+
+        await expect(splitter.connect(owner).setPayees([
+          { account: payee1.address, shares: 1 },
+          { account: payee1.address, shares: 2 },
+        ])).to.be.revertedWith("Duplicate payee");
+      });
+    });
+  });
+
+  describe("distribute()", function () {
+    describe("Happy path", function () {
+      it("Should split the native balance pro rata and emit PaymentReleased per payee", async function () {
+        const { splitter, payee1, payee2, payee3, otherAccount } = await loadFixture(deployFixture);
+        const amount = hre.ethers.parseEther("1");
+        await otherAccount.sendTransaction({ to: await splitter.getAddress(), value: amount });
+
+        const tx = splitter.connect(otherAccount).distribute();
+
+        await expect(tx).to.changeEtherBalances(
+          [splitter, payee1, payee2, payee3],
+          [-amount, hre.ethers.parseEther("0.5"), hre.ethers.parseEther("0.3"), hre.ethers.parseEther("0.2")]
+        );
+        await expect(tx)
+          .to.emit(splitter, "PaymentReleased")
+          .withArgs(payee1.address, hre.ethers.parseEther("0.5"))
+          .and.to.emit(splitter, "PaymentReleased")
+          .withArgs(payee3.address, hre.ethers.parseEther("0.2"));
+      });
+
+      it("Should give the rounding dust to the last payee", async function () {
+        const { splitter, payee1, payee2, payee3, otherAccount } = await loadFixture(deployFixture);
+        await otherAccount.sendTransaction({ to: await splitter.getAddress(), value: 101 });
+
+        await expect(splitter.distribute()).to.changeEtherBalances([payee1, payee2, payee3], [50, 30, 21]);
+        expect(await hre.ethers.provider.getBalance(await splitter.getAddress())).to.equal(0);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with 'Nothing to distribute' without a balance", async function () {
+        const { splitter } = await loadFixture(deployFixture);
+
+        await expect(splitter.distribute()).to.be.revertedWith("Nothing to distribute");
+      });
+
+      it("Should revert with 'Payment failed' when a payee rejects native currency", async function () {
+        const { splitter, token, owner, payee1, otherAccount } = await loadFixture(deployFixture);
+        // An ERC20 contract has no receive function
+        await splitter.connect(owner).setPayees([
+          { account: payee1.address, shares: 1 },
+          { account: await token.getAddress(), shares: 1 },
+        ]);
+        await otherAccount.sendTransaction({ to: await splitter.getAddress(), value: 100 });
+
+        await expect(splitter.distribute()).to.be.revertedWith("Payment failed");
+      });
+    });
+  });
+
+  describe("distributeToken()", function () {
+    describe("Happy path", function () {
+      it("Should split the token balance pro rata and emit ERC20PaymentReleased per payee", async function () {
+        const { splitter, token, payee1, payee2, payee3 } = await loadFixture(deployFixture);
+        const amount = hre.ethers.parseEther("1000");
+        await token.mint(await splitter.getAddress(), amount);
+
+        const tx = splitter.distributeToken(await token.getAddress());
+
+        await expect(tx).to.changeTokenBalances(
+          token,
+          [splitter, payee1, payee2, payee3],
+          [-amount, hre.ethers.parseEther("500"), hre.ethers.parseEther("300"), hre.ethers.parseEther("200")]
+        );
+        await expect(tx)
+          .to.emit(splitter, "ERC20PaymentReleased")
+          .withArgs(await token.getAddress(), payee2.address, hre.ethers.parseEther("300"));
+      });
+
+      it("Should distribute tokens that do not return a value", async function () {
+        const { splitter, payee1, payee2, payee3 } = await loadFixture(deployFixture);
+        const MockERC20NoReturn = await hre.ethers.getContractFactory("MockERC20NoReturn");
+        const token = await MockERC20NoReturn.deploy();
+        await token.mint(await splitter.getAddress(), 1000);
+
+        await expect(splitter.distributeToken(await token.getAddress()))
+          .to.emit(splitter, "ERC20PaymentReleased")
+          .withArgs(await token.getAddress(), payee3.address, 200);
+        expect(await token.balanceOf(payee1.address)).to.equal(500);
+        expect(await token.balanceOf(payee2.address)).to.equal(300);
+        expect(await token.balanceOf(payee3.address)).to.equal(200);
+        expect(await token.balanceOf(await splitter.getAddress())).to.equal(0);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert with 'Nothing to distribute' without a token balance", async function () {
+        const { splitter, token } = await loadFixture(deployFixture);
+
+        await expect(splitter.distributeToken(await token.getAddress())).to.be.revertedWith("Nothing to distribute");
+      });
+    });
+  });
+});
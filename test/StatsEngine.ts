@@ -0,0 +1,345 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Player } from "../typechain-types";
+import { encodeItemStats, ItemModifiers } from "./helpers/itemStats";
+
+describe("StatsEngine", function () {
+  // Equipment slot enum values matching the contract
+  const Slot = {
+    ARMOR: 0,
+    WEAPON: 1,
+    RELIC: 2,
+  };
+
+  function encodeModifiers(modifiers: ItemModifiers) {
+    return encodeItemStats({ modifiers });
+  }
+
+  const defaultCoefficients = {
+    baseHp: 100,
+    hpPerConstitution: 10,
+    baseMana: 50,
+    manaPerIntelligence: 5,
+    damagePerStrength: 2,
+    damagePerDexterity: 1,
+    baseDodge: 200,
+    dodgePerDexterity: 20,
+    basePhysicalResist: 0,
+    physicalResistPerConstitution: 20,
+    baseMagicResist: 0,
+    magicResistPerIntelligence: 20,
+    baseCrit: 500,
+    critPerLuck: 25,
+    lootPerLuck: 50,
+    baseTrapAvoid: 500,
+    trapAvoidPerDexterity: 30,
+    maxChance: 7500,
+  };
+
+  async function deployFixture() {
+    const price = hre.ethers.parseEther("0.1");
+
+    const [owner, player1, player2] = await hre.ethers.getSigners();
+
+    const Player = await hre.ethers.getContractFactory("Player");
+    const player = await Player.deploy(price);
+
+    const MockEquipment = await hre.ethers.getContractFactory("MockEquipment");
+    const equipment = await MockEquipment.deploy();
+
+    const StatsEngine = await hre.ethers.getContractFactory("StatsEngine");
+    const statsEngine = await StatsEngine.deploy(await player.getAddress());
+
+    await player.connect(player1).buyToken({ value: price });
+
+    return { player, equipment, statsEngine, price, owner, player1, player2 };
+  }
+
+  async function deployWithEquipmentFixture() {
+    const { player, equipment, statsEngine, price, owner, player1, player2 } = await loadFixture(deployFixture);
+
+    await player.connect(owner).setEquipmentContract(await equipment.getAddress());
+
+    // Token type 1: armor, 2: weapon, 3: relic
+    await equipment.createTokenType(
+      player1.address, 1, Slot.ARMOR, encodeModifiers({ hp: 50, dodgeChance: 100, physicalResist: 300 })
+    );
+    await equipment.createTokenType(
+      player1.address, 1, Slot.WEAPON, encodeModifiers({ damage: 15, critChance: 100 })
+    );
+    await equipment.createTokenType(
+      player1.address, 1, Slot.RELIC,
+      encodeModifiers({ mana: 20, magicResist: 150, lootBonus: 250, trapAvoidChance: 200 })
+    );
+    await equipment.connect(player1).setApprovalForAll(await player.getAddress(), true);
+
+    return { player, equipment, statsEngine, price, owner, player1, player2 };
+  }
+
+  async function equipAll(player: Player, player1: HardhatEthersSigner) {
+    await player.connect(player1).equip(1, Slot.ARMOR, 1, 1);
+    await player.connect(player1).equip(1, Slot.WEAPON, 2, 1);
+    await player.connect(player1).equip(1, Slot.RELIC, 3, 1);
+  }
+
+  describe("Deployment", function () {
+    it("Should set the owner and player contract", async function () {
+      const { player, statsEngine, owner } = await loadFixture(deployFixture);
+
+      expect(await statsEngine.owner()).to.equal(owner.address);
+      expect(await statsEngine.getPlayer()).to.equal(await player.getAddress());
+    });
+
+    it("Should set the default coefficients", async function () {
+      const { statsEngine } = await loadFixture(deployFixture);
+
+      const coefficients = await statsEngine.getCoefficients();
+      for (const [key, value] of Object.entries(defaultCoefficients)) {
+        expect(coefficients[key as keyof typeof coefficients]).to.equal(value);
+      }
+    });
+
+    it("Should revert when deployed with a zero player address", async function () {
+      const StatsEngine = await hre.ethers.getContractFactory("StatsEngine");
+
+      await expect(StatsEngine.deploy(hre.ethers.ZeroAddress)).to.be.revertedWith("Invalid player contract");
+    });
+  });
+
+  describe("setCoefficients()", function () {
+    it("Should allow owner to update coefficients and emit CoefficientsUpdated", async function () {
+      const { statsEngine, owner } = await loadFixture(deployFixture);
+
+      await expect(statsEngine.connect(owner).setCoefficients({ ...defaultCoefficients, baseHp: 250 }))
+        .to.emit(statsEngine, "CoefficientsUpdated");
+
+      expect((await statsEngine.getCoefficients()).baseHp).to.equal(250);
+    });
+
+    it("Should revert when max chance is above 100%", async function () {
+      const { statsEngine, owner } = await loadFixture(deployFixture);
+
+      await expect(
+        statsEngine.connect(owner).setCoefficients({ ...defaultCoefficients, maxChance: 10001 })
+      ).to.be.revertedWith("Max chance above 100%");
+    });
+
+    it("Should revert when non-owner calls setCoefficients", async function () {
+      const { statsEngine, player1 } = await loadFixture(deployFixture);
+
+      await expect(
+        statsEngine.connect(player1).setCoefficients(defaultCoefficients)
+      ).to.be.revertedWithCustomError(statsEngine, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+    });
+  });
+
+  describe("getDerivedStats()", function () {
+    describe("Base attributes only (10/10/10/10/10, no equipment)", function () {
+      it("HP = baseHp + CON * hpPerConstitution", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).hp).to.equal(100 + 10 * 10);
+      });
+
+      it("Mana = baseMana + INT * manaPerIntelligence", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).mana).to.equal(50 + 10 * 5);
+      });
+
+      it("Damage = STR * damagePerStrength + DEX * damagePerDexterity", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).damage).to.equal(10 * 2 + 10 * 1);
+      });
+
+      it("DodgeChance = baseDodge + DEX * dodgePerDexterity", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).dodgeChance).to.equal(200 + 10 * 20);
+      });
+
+      it("PhysicalResist = basePhysicalResist + CON * physicalResistPerConstitution", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).physicalResist).to.equal(10 * 20);
+      });
+
+      it("MagicResist = baseMagicResist + INT * magicResistPerIntelligence", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).magicResist).to.equal(10 * 20);
+      });
+
+      it("CritChance = baseCrit + LUCK * critPerLuck", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).critChance).to.equal(500 + 10 * 25);
+      });
+
+      it("LootBonus = LUCK * lootPerLuck", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).lootBonus).to.equal(10 * 50);
+      });
+
+      it("TrapAvoidChance = baseTrapAvoid + DEX * trapAvoidPerDexterity", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        expect((await statsEngine.getDerivedStats(1)).trapAvoidChance).to.equal(500 + 10 * 30);
+      });
+    });
+
+    describe("With equipped items", function () {
+      it("Should add equipment bonuses to every stat", async function () {
+        const { player, statsEngine, player1 } = await loadFixture(deployWithEquipmentFixture);
+
+        await equipAll(player, player1);
+
+        const stats = await statsEngine.getDerivedStats(1);
+        expect(stats.hp).to.equal(200 + 50);
+        expect(stats.mana).to.equal(100 + 20);
+        expect(stats.damage).to.equal(30 + 15);
+        expect(stats.dodgeChance).to.equal(400 + 100);
+        expect(stats.physicalResist).to.equal(200 + 300);
+        expect(stats.magicResist).to.equal(200 + 150);
+        expect(stats.critChance).to.equal(750 + 100);
+        expect(stats.lootBonus).to.equal(500 + 250);
+        expect(stats.trapAvoidChance).to.equal(800 + 200);
+      });
+
+      it("Should sum modifiers of all equipped items", async function () {
+        const { player, statsEngine, player1 } = await loadFixture(deployWithEquipmentFixture);
+
+        await equipAll(player, player1);
+
+        const modifiers = await statsEngine.getEquipmentModifiers(1);
+        expect(modifiers.hp).to.equal(50);
+        expect(modifiers.damage).to.equal(15);
+        expect(modifiers.lootBonus).to.equal(250);
+      });
+
+      it("Should stop counting an item once it is unequipped", async function () {
+        const { player, statsEngine, player1 } = await loadFixture(deployWithEquipmentFixture);
+
+        await equipAll(player, player1);
+        await player.connect(player1).unequip(1, Slot.WEAPON);
+
+        const stats = await statsEngine.getDerivedStats(1);
+        expect(stats.damage).to.equal(30);
+        expect(stats.critChance).to.equal(750);
+        expect(stats.hp).to.equal(250);
+      });
+
+      it("Should stop counting a broken item until it is repaired", async function () {
+        const { player, statsEngine, owner, player1 } = await loadFixture(deployWithEquipmentFixture);
+
+        await equipAll(player, player1);
+        // owner acts as an authorized game system wearing the weapon out
+        await player.connect(owner).setGameSystem(owner.address, true);
+        await player.connect(owner).wearItem(1, Slot.WEAPON, 99);
+        expect((await statsEngine.getDerivedStats(1)).damage).to.equal(45);
+
+        await player.connect(owner).wearItem(1, Slot.WEAPON, 1);
+        const stats = await statsEngine.getDerivedStats(1);
+        expect(stats.damage).to.equal(30);
+        expect(stats.hp).to.equal(250);
+      });
+
+      it("Should treat items with empty item data as having no modifiers", async function () {
+        const { player, equipment, statsEngine, player1 } = await loadFixture(deployWithEquipmentFixture);
+
+        await equipment.createTokenType(player1.address, 1, Slot.WEAPON, "0x");
+        await player.connect(player1).equip(1, Slot.WEAPON, 4, 1);
+
+        expect((await statsEngine.getDerivedStats(1)).damage).to.equal(30);
+      });
+
+      it("Should not mix up equipment of different players", async function () {
+        const { player, statsEngine, price, player1, player2 } = await loadFixture(deployWithEquipmentFixture);
+
+        await player.connect(player2).buyToken({ value: price });
+        await equipAll(player, player1);
+
+        expect((await statsEngine.getDerivedStats(2)).hp).to.equal(200);
+      });
+    });
+
+    describe("Attributes and coefficients", function () {
+      it("Should reflect upgraded attributes", async function () {
+        const { player, statsEngine, owner, player1 } = await loadFixture(deployFixture);
+        const upgradeCost = hre.ethers.parseEther("1");
+
+        const MockERC20Factory = await hre.ethers.getContractFactory("MockERC20");
+        const upgradeToken = await MockERC20Factory.deploy("Upgrade Token", "UPG");
+        const AttributeUpgrades = await hre.ethers.getContractFactory("AttributeUpgrades");
+        const upgrades = await AttributeUpgrades.deploy(
+          await player.getAddress(),
+          await upgradeToken.getAddress(),
+          owner.address
+        );
+        await player.connect(owner).setGameSystem(await upgrades.getAddress(), true);
+        // Strength is attribute 0, with a flat (linear, zero rate) cost
+        await upgrades.connect(owner).setCurve(0, { kind: 1, baseCost: upgradeCost, rate: 0, hardCap: 0 }, []);
+        await upgradeToken.mint(player1.address, upgradeCost);
+        await upgradeToken.connect(player1).approve(await upgrades.getAddress(), upgradeCost);
+
+        await upgrades.connect(player1).upgradeAttribute(1, 0, 1);
+
+        expect((await statsEngine.getDerivedStats(1)).damage).to.equal(11 * 2 + 10 * 1);
+      });
+
+      it("Should reflect upgraded constitution", async function () {
+        const { player, statsEngine, owner, player1 } = await loadFixture(deployFixture);
+
+        // owner acts as an authorized game system (e.g. ProgressionSystem)
+        await player.connect(owner).setGameSystem(owner.address, true);
+        // Constitution is attribute 4
+        await player.connect(owner).increaseAttribute(1, 4, 2);
+
+        const stats = await statsEngine.getDerivedStats(1);
+        expect(stats.hp).to.equal(100 + 12 * 10);
+        expect(stats.physicalResist).to.equal(12 * 20);
+      });
+
+      it("Should use updated coefficients", async function () {
+        const { statsEngine, owner } = await loadFixture(deployFixture);
+
+        await statsEngine.connect(owner).setCoefficients({ ...defaultCoefficients, critPerLuck: 100 });
+
+        expect((await statsEngine.getDerivedStats(1)).critChance).to.equal(500 + 10 * 100);
+      });
+
+      it("Should cap chances and resistances at maxChance", async function () {
+        const { player, equipment, statsEngine, owner, player1 } = await loadFixture(deployWithEquipmentFixture);
+
+        await equipment.createTokenType(
+          player1.address, 1, Slot.RELIC,
+          encodeModifiers({ critChance: 9000, dodgeChance: 9000, physicalResist: 9000, magicResist: 9000, trapAvoidChance: 9000, lootBonus: 9000 })
+        );
+        await player.connect(player1).equip(1, Slot.RELIC, 4, 1);
+        await statsEngine.connect(owner).setCoefficients({ ...defaultCoefficients, maxChance: 5000 });
+
+        const stats = await statsEngine.getDerivedStats(1);
+        expect(stats.critChance).to.equal(5000);
+        expect(stats.dodgeChance).to.equal(5000);
+        expect(stats.physicalResist).to.equal(5000);
+        expect(stats.magicResist).to.equal(5000);
+        expect(stats.trapAvoidChance).to.equal(5000);
+        // Loot bonus is not a chance and is not capped
+        expect(stats.lootBonus).to.equal(500 + 9000);
+      });
+    });
+
+    describe("Failure cases", function () {
+      it("Should revert for a non-existent character", async function () {
+        const { statsEngine } = await loadFixture(deployFixture);
+
+        await expect(statsEngine.getDerivedStats(999)).to.be.revertedWith("Token does not exist");
+      });
+    });
+  });
+});
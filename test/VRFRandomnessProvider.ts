@@ -0,0 +1,178 @@
+import { impersonateAccount, loadFixture, setBalance } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("VRFRandomnessProvider", function () {
+  const vrfConfig = {
+    keyHash: hre.ethers.id("key hash"),
+    subId: 7,
+    minimumRequestConfirmations: 3,
+    callbackGasLimit: 200_000,
+  };
+
+  async function deployFixture() {
+    // gameSystem stands in for MineSystem requesting randomness
+    const [owner, player1, gameSystem] = await hre.ethers.getSigners();
+
+    const MockVRFCoordinator = await hre.ethers.getContractFactory("MockVRFCoordinator");
+    const coordinator = await MockVRFCoordinator.deploy();
+
+    const VRFRandomnessProvider = await hre.ethers.getContractFactory("VRFRandomnessProvider");
+    const randomness = await VRFRandomnessProvider.deploy(await coordinator.getAddress(), vrfConfig);
+
+    await randomness.connect(owner).setGameSystem(gameSystem.address, true);
+
+    return { randomness, coordinator, owner, player1, gameSystem };
+  }
+
+  async function deployWithRequestFixture() {
+    const { randomness, coordinator, owner, player1, gameSystem } = await loadFixture(deployFixture);
+
+    await randomness.connect(gameSystem).requestRandomness(hre.ethers.ZeroHash);
+
+    return { randomness, coordinator, owner, player1, gameSystem };
+  }
+
+  describe("Deployment", function () {
+    it("Should set the coordinator and VRF config", async function () {
+      const { randomness, coordinator } = await loadFixture(deployFixture);
+
+      expect(await randomness.getCoordinator()).to.equal(await coordinator.getAddress());
+      const config = await randomness.getVRFConfig();
+      expect(config.keyHash).to.equal(vrfConfig.keyHash);
+      expect(config.subId).to.equal(vrfConfig.subId);
+      expect(config.minimumRequestConfirmations).to.equal(vrfConfig.minimumRequestConfirmations);
+      expect(config.callbackGasLimit).to.equal(vrfConfig.callbackGasLimit);
+    });
+
+    it("Should revert with a zero coordinator address", async function () {
+      const VRFRandomnessProvider = await hre.ethers.getContractFactory("VRFRandomnessProvider");
+
+      await expect(VRFRandomnessProvider.deploy(hre.ethers.ZeroAddress, vrfConfig)).to.be.revertedWith("Invalid coordinator");
+    });
+  });
+
+  describe("Admin functions", function () {
+    it("Should update the VRF config and emit VRFConfigUpdated", async function () {
+      const { randomness, owner } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(owner).setVRFConfig({ ...vrfConfig, subId: 8 }))
+        .to.emit(randomness, "VRFConfigUpdated");
+
+      expect((await randomness.getVRFConfig()).subId).to.equal(8);
+    });
+
+    it("Should revert when non-owner calls admin functions", async function () {
+      const { randomness, player1 } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(player1).setVRFConfig(vrfConfig))
+        .to.be.revertedWithCustomError(randomness, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+      await expect(randomness.connect(player1).setGameSystem(player1.address, true))
+        .to.be.revertedWithCustomError(randomness, "OwnableUnauthorizedAccount")
+        .withArgs(player1.address);
+    });
+  });
+
+  describe("requestRandomness()", function () {
+    it("Should forward the request to the coordinator with the VRF config", async function () {
+      const { randomness, coordinator, gameSystem } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(gameSystem).requestRandomness(hre.ethers.ZeroHash))
+        .to.emit(coordinator, "RandomWordsRequested")
+        .withArgs(
+          1,
+          await randomness.getAddress(),
+          vrfConfig.keyHash,
+          vrfConfig.subId,
+          vrfConfig.minimumRequestConfirmations,
+          vrfConfig.callbackGasLimit,
+          1
+        )
+        .and.to.emit(randomness, "RandomnessRequested")
+        .withArgs(1, gameSystem.address, hre.ethers.ZeroHash);
+
+      expect(await randomness.getRequestId(1)).to.equal(1);
+      expect(await randomness.isFulfilled(1)).to.be.false;
+    });
+
+    it("Should revert when caller is not a game system", async function () {
+      const { randomness, player1 } = await loadFixture(deployFixture);
+
+      await expect(randomness.connect(player1).requestRandomness(hre.ethers.ZeroHash))
+        .to.be.revertedWith("Not a game system");
+    });
+  });
+
+  describe("Fulfillment", function () {
+    it("Should store the word delivered by the coordinator", async function () {
+      const { randomness, coordinator } = await loadFixture(deployWithRequestFixture);
+
+      await expect(coordinator.fulfillRandomWordsWithOverride(1, [42]))
+        .to.emit(randomness, "RandomnessFulfilled")
+        .withArgs(1, 42);
+
+      expect(await randomness.isFulfilled(1)).to.be.true;
+      expect(await randomness.getRandomWord(1)).to.equal(42);
+    });
+
+    it("Should map coordinator request IDs to request IDs", async function () {
+      const { randomness, coordinator, gameSystem } = await loadFixture(deployWithRequestFixture);
+
+      // Another consumer of the same coordinator shifts the coordinator request IDs
+      await coordinator.requestRandomWords(hre.ethers.ZeroHash, 1, 1, 1, 1);
+      await randomness.connect(gameSystem).requestRandomness(hre.ethers.ZeroHash);
+      expect(await randomness.getRequestId(3)).to.equal(2);
+
+      await coordinator.fulfillRandomWords(3);
+
+      expect(await randomness.isFulfilled(2)).to.be.true;
+      expect(await randomness.isFulfilled(1)).to.be.false;
+    });
+
+    it("Should revert when rawFulfillRandomWords is not called by the coordinator", async function () {
+      const { randomness, coordinator, player1 } = await loadFixture(deployWithRequestFixture);
+
+      await expect(randomness.connect(player1).rawFulfillRandomWords(1, [42]))
+        .to.be.revertedWithCustomError(randomness, "OnlyCoordinatorCanFulfill")
+        .withArgs(player1.address, await coordinator.getAddress());
+    });
+
+    it("Should revert when the coordinator fulfills an unknown request", async function () {
+      const { randomness, coordinator } = await loadFixture(deployWithRequestFixture);
+
+      await impersonateAccount(await coordinator.getAddress());
+      await setBalance(await coordinator.getAddress(), hre.ethers.parseEther("1"));
+      const coordinatorSigner = await hre.ethers.getSigner(await coordinator.getAddress());
+
+      await expect(randomness.connect(coordinatorSigner).rawFulfillRandomWords(99, [42]))
+        .to.be.revertedWithCustomError(randomness, "UnknownRequest")
+        .withArgs(99);
+    });
+
+    it("Should revert when the coordinator fulfills a request twice", async function () {
+      const { randomness, coordinator } = await loadFixture(deployWithRequestFixture);
+
+      await coordinator.fulfillRandomWordsWithOverride(1, [42]);
+      await impersonateAccount(await coordinator.getAddress());
+      await setBalance(await coordinator.getAddress(), hre.ethers.parseEther("1"));
+      const coordinatorSigner = await hre.ethers.getSigner(await coordinator.getAddress());
+
+      await expect(randomness.connect(coordinatorSigner).rawFulfillRandomWords(1, [43]))
+        .to.be.revertedWithCustomError(randomness, "AlreadyFulfilled")
+        .withArgs(1);
+      expect(await randomness.getRandomWord(1)).to.equal(42);
+    });
+
+    it("getRandomWord() should revert before fulfillment and for unknown requests", async function () {
+      const { randomness } = await loadFixture(deployWithRequestFixture);
+
+      await expect(randomness.getRandomWord(1))
+        .to.be.revertedWithCustomError(randomness, "RandomnessNotFulfilled")
+        .withArgs(1);
+      await expect(randomness.getRandomWord(2))
+        .to.be.revertedWithCustomError(randomness, "UnknownRequest")
+        .withArgs(2);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import hre from "hardhat";
+
+// TypeScript mirror of contracts/ItemStats.sol.
+// Item data is abi.encode(uint8 version, Stats stats).
+
+export const ITEM_STATS_VERSION = 1;
+
+export const Rarity = {
+  Common: 0,
+  Uncommon: 1,
+  Rare: 2,
+  Epic: 3,
+  Legendary: 4,
+};
+
+export type ItemModifiers = {
+  damage?: number;
+  hp?: number;
+  mana?: number;
+  critChance?: number;
+  dodgeChance?: number;
+  physicalResist?: number;
+  magicResist?: number;
+  lootBonus?: number;
+  trapAvoidChance?: number;
+};
+
+export type ItemRequirements = {
+  strength?: number;
+  dexterity?: number;
+  intelligence?: number;
+  luck?: number;
+  constitution?: number;
+};
+
+export type ItemStats = {
+  rarity?: number;
+  requiredLevel?: number;
+  modifiers?: ItemModifiers;
+  requirements?: ItemRequirements;
+};
+
+const MODIFIERS_TYPE =
+  "tuple(uint32 damage, uint32 hp, uint32 mana, uint32 critChance, uint32 dodgeChance, " +
+  "uint32 physicalResist, uint32 magicResist, uint32 lootBonus, uint32 trapAvoidChance) modifiers";
+
+export const ITEM_STATS_TYPE =
+  `tuple(uint8 rarity, uint16 requiredLevel, ${MODIFIERS_TYPE}, ` +
+  "tuple(uint64 strength, uint64 dexterity, uint64 intelligence, uint64 luck, uint64 constitution) requirements)";
+
+// Returns the full ItemStats struct, with every missing field set to zero
+export function toItemStatsStruct(stats: ItemStats) {
+  const modifiers = stats.modifiers ?? {};
+  const requirements = stats.requirements ?? {};
+  return {
+    rarity: stats.rarity ?? Rarity.Common,
+    requiredLevel: stats.requiredLevel ?? 0,
+    modifiers: {
+      damage: modifiers.damage ?? 0,
+      hp: modifiers.hp ?? 0,
+      mana: modifiers.mana ?? 0,
+      critChance: modifiers.critChance ?? 0,
+      dodgeChance: modifiers.dodgeChance ?? 0,
+      physicalResist: modifiers.physicalResist ?? 0,
+      magicResist: modifiers.magicResist ?? 0,
+      lootBonus: modifiers.lootBonus ?? 0,
+      trapAvoidChance: modifiers.trapAvoidChance ?? 0,
+    },
+    requirements: {
+      strength: requirements.strength ?? 0,
+      dexterity: requirements.dexterity ?? 0,
+      intelligence: requirements.intelligence ?? 0,
+      luck: requirements.luck ?? 0,
+      constitution: requirements.constitution ?? 0,
+    },
+  };
+}
+
+// Encodes item stats the same way ItemStats.encode does
+export function encodeItemStats(stats: ItemStats, version: number = ITEM_STATS_VERSION) {
+  return hre.ethers.AbiCoder.defaultAbiCoder().encode(["uint8", ITEM_STATS_TYPE], [version, toItemStatsStruct(stats)]);
+}
@@ -0,0 +1,46 @@
+import hre from "hardhat";
+
+// Minimal allowlist Merkle tree, compatible with OpenZeppelin MerkleProof
+// (standard leaf encoding, pairs hashed in sorted order, odd nodes promoted).
+
+export function allowlistLeaf(account: string): string {
+  const { keccak256, AbiCoder } = hre.ethers;
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [account])));
+}
+
+function hashPair(a: string, b: string): string {
+  const [left, right] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+  return hre.ethers.keccak256(hre.ethers.concat([left, right]));
+}
+
+export function buildAllowlist(accounts: string[]) {
+  const layers: string[][] = [accounts.map(allowlistLeaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const root = layers[layers.length - 1][0];
+
+  function getProof(account: string): string[] {
+    let index = accounts.findIndex((a) => a.toLowerCase() === account.toLowerCase());
+    if (index < 0) {
+      throw new Error(`${account} is not allowlisted`);
+    }
+    const proof: string[] = [];
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  }
+
+  return { root, getProof };
+}